@@ -3,6 +3,8 @@ import { Space_Grotesk, IBM_Plex_Mono } from "next/font/google";
 import "@solana/wallet-adapter-react-ui/styles.css";
 import "./globals.css";
 import { MuiThemeProvider } from "@/components/providers/mui-theme-provider";
+import { DurableNonceProvider } from "@/components/providers/durable-nonce-provider";
+import { PriorityFeeProvider } from "@/components/providers/priority-fee-provider";
 import { SolanaWalletProvider } from "@/components/providers/solana-wallet-provider";
 
 const displayFont = Space_Grotesk({
@@ -72,7 +74,11 @@ export default function RootLayout({
     <html lang="en">
       <body className={`${displayFont.variable} ${monoFont.variable}`}>
         <MuiThemeProvider>
-          <SolanaWalletProvider>{children}</SolanaWalletProvider>
+          <SolanaWalletProvider>
+            <PriorityFeeProvider>
+              <DurableNonceProvider>{children}</DurableNonceProvider>
+            </PriorityFeeProvider>
+          </SolanaWalletProvider>
         </MuiThemeProvider>
       </body>
     </html>
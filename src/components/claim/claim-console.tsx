@@ -21,7 +21,14 @@ import {
   TextField,
   Typography
 } from "@mui/material";
+import { InstructionExportPanel } from "@/components/wallet/instruction-export-panel";
 import { WalletConnectControl } from "@/components/wallet/wallet-connect-control";
+import { useInstructionExport } from "@/hooks/use-instruction-export";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
+import {
+  fetchDistributorShardManifest,
+  isDistributorShardIndex
+} from "@/lib/distributor-shards";
 
 type ClaimStatusState = {
   severity: "success" | "error" | "info";
@@ -324,7 +331,9 @@ const DEFAULT_SPL_GOVERNANCE_PROGRAM_ID = new PublicKey(
 
 export function ClaimConsole() {
   const { connection } = useConnection();
-  const { connected, publicKey, sendTransaction } = useWallet();
+  const { connected, publicKey } = useWallet();
+  const { sendAndConfirm } = useTransactionPipeline();
+  const instructionExport = useInstructionExport();
   const [queryManifestUrl, setQueryManifestUrl] = useState("");
   const [isChecking, setIsChecking] = useState(false);
   const [isClaimingId, setIsClaimingId] = useState<string | null>(null);
@@ -372,7 +381,11 @@ export function ClaimConsole() {
           `Unable to load claim manifest (${response.status} ${response.statusText}).`
         );
       }
-      const payload = (await response.json()) as unknown;
+      const manifestPayload = (await response.json()) as unknown;
+      // Sharded packages: fetch only the connected wallet's shard.
+      const payload = isDistributorShardIndex(manifestPayload)
+        ? await fetchDistributorShardManifest(manifestUrl, manifestPayload, publicKey)
+        : manifestPayload;
       const candidates = normalizeClaimCandidates(payload, distributorClient);
       if (candidates.length === 0) {
         setClaims([]);
@@ -554,8 +567,13 @@ export function ClaimConsole() {
         throw simError;
       }
 
-      const signature = await sendTransaction(transaction, connection);
-      await connection.confirmTransaction(signature, "confirmed");
+      if (instructionExport.isExternal) {
+        const outcome = await instructionExport.submit(instructions);
+        setStatus({ severity: "success", ...outcome });
+        return;
+      }
+
+      const signature = await sendAndConfirm(transaction);
 
       setStatus({
         severity: "success",
@@ -635,6 +653,14 @@ export function ClaimConsole() {
             Check My Claims
           </Button>
 
+          {claims.length > 0 ? (
+            <InstructionExportPanel
+              exportState={instructionExport}
+              modes={["wallet", "unsigned"]}
+              description="Claims are built for the connected wallet, which must sign the exported transaction. Set the fee payer to the wallet that will sign offline."
+            />
+          ) : null}
+
           {status ? (
             <Alert
               severity={status.severity}
@@ -751,9 +777,11 @@ export function ClaimConsole() {
                       >
                         {isClaimingId === entry.id
                           ? "Claiming..."
-                          : entry.realm
-                            ? "Claim + Deposit"
-                            : "Claim"}
+                          : instructionExport.isExternal
+                            ? "Export Unsigned"
+                            : entry.realm
+                              ? "Claim + Deposit"
+                              : "Claim"}
                       </Button>
                     </Stack>
                   </CardContent>
@@ -0,0 +1,123 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode
+} from "react";
+import { useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+
+type DurableNonceProviderProps = {
+  children: ReactNode;
+};
+
+type DurableNonceContextValue = {
+  selectedNonceAccount: string | null;
+  setSelectedNonceAccount: (address: string | null) => void;
+};
+
+type StoredNonceSelection = {
+  account: string;
+  // Wallet that made the selection; another wallet never inherits it.
+  wallet: string;
+};
+
+const DURABLE_NONCE_STORAGE_KEY = "grapehub.durable-nonce";
+
+const DurableNonceContext = createContext<DurableNonceContextValue | null>(null);
+
+function parseStoredNonceSelection(raw: string | null): StoredNonceSelection | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<StoredNonceSelection>;
+    return {
+      account: new PublicKey(parsed.account ?? "").toBase58(),
+      wallet: new PublicKey(parsed.wallet ?? "").toBase58()
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function useDurableNonce() {
+  const context = useContext(DurableNonceContext);
+
+  if (!context) {
+    throw new Error("useDurableNonce must be used within DurableNonceProvider.");
+  }
+
+  return context;
+}
+
+function storeNonceSelection(selection: StoredNonceSelection | null) {
+  if (typeof window === "undefined") {
+    return;
+  }
+  if (selection) {
+    window.localStorage.setItem(DURABLE_NONCE_STORAGE_KEY, JSON.stringify(selection));
+  } else {
+    window.localStorage.removeItem(DURABLE_NONCE_STORAGE_KEY);
+  }
+}
+
+/**
+ * Holds the nonce account chosen in the Durable Nonce manager. While one is
+ * selected, the transaction pipeline uses it instead of a recent blockhash.
+ * The selection belongs to the wallet that made it and is dropped when a
+ * different wallet connects.
+ */
+export function DurableNonceProvider({ children }: DurableNonceProviderProps) {
+  const { publicKey } = useWallet();
+  const [selection, setSelection] = useState<StoredNonceSelection | null>(null);
+
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    setSelection(
+      parseStoredNonceSelection(window.localStorage.getItem(DURABLE_NONCE_STORAGE_KEY))
+    );
+  }, []);
+
+  useEffect(() => {
+    if (!publicKey || !selection || selection.wallet === publicKey.toBase58()) {
+      return;
+    }
+    setSelection(null);
+    storeNonceSelection(null);
+  }, [publicKey, selection]);
+
+  const setSelectedNonceAccount = useCallback(
+    (address: string | null) => {
+      const nextSelection =
+        address && publicKey ? { account: address, wallet: publicKey.toBase58() } : null;
+      setSelection(nextSelection);
+      storeNonceSelection(nextSelection);
+    },
+    [publicKey]
+  );
+
+  const selectedNonceAccount =
+    selection && publicKey && selection.wallet === publicKey.toBase58()
+      ? selection.account
+      : null;
+
+  const durableNonceContextValue = useMemo(
+    () => ({ selectedNonceAccount, setSelectedNonceAccount }),
+    [selectedNonceAccount, setSelectedNonceAccount]
+  );
+
+  return (
+    <DurableNonceContext.Provider value={durableNonceContextValue}>
+      {children}
+    </DurableNonceContext.Provider>
+  );
+}
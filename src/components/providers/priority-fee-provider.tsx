@@ -0,0 +1,109 @@
+"use client";
+
+import {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+  type ReactNode
+} from "react";
+import {
+  DEFAULT_PRIORITY_FEE_SETTINGS,
+  PRIORITY_FEE_PRESET_OPTIONS,
+  type PriorityFeeSettings
+} from "@/lib/transaction-pipeline";
+
+type PriorityFeeProviderProps = {
+  children: ReactNode;
+};
+
+type PriorityFeeContextValue = {
+  settings: PriorityFeeSettings;
+  setSettings: (nextSettings: PriorityFeeSettings) => void;
+  resetSettings: () => void;
+};
+
+const PRIORITY_FEE_STORAGE_KEY = "grapehub.priority-fee";
+
+const PriorityFeeContext = createContext<PriorityFeeContextValue | null>(null);
+
+function parseStoredSettings(raw: string | null): PriorityFeeSettings | null {
+  if (!raw) {
+    return null;
+  }
+  try {
+    const parsed = JSON.parse(raw) as Partial<PriorityFeeSettings>;
+    const preset = PRIORITY_FEE_PRESET_OPTIONS.find(
+      (option) => option.value === parsed.preset
+    )?.value;
+    if (!preset) {
+      return null;
+    }
+    const customMicroLamports = Number(parsed.customMicroLamports);
+    return {
+      preset,
+      customMicroLamports:
+        Number.isFinite(customMicroLamports) && customMicroLamports >= 0
+          ? Math.floor(customMicroLamports)
+          : DEFAULT_PRIORITY_FEE_SETTINGS.customMicroLamports
+    };
+  } catch {
+    return null;
+  }
+}
+
+export function usePriorityFee() {
+  const context = useContext(PriorityFeeContext);
+
+  if (!context) {
+    throw new Error("usePriorityFee must be used within PriorityFeeProvider.");
+  }
+
+  return context;
+}
+
+export function PriorityFeeProvider({ children }: PriorityFeeProviderProps) {
+  const [settings, setSettingsState] = useState<PriorityFeeSettings>(
+    DEFAULT_PRIORITY_FEE_SETTINGS
+  );
+
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const storedSettings = parseStoredSettings(
+      window.localStorage.getItem(PRIORITY_FEE_STORAGE_KEY)
+    );
+    if (storedSettings) {
+      setSettingsState(storedSettings);
+    }
+  }, []);
+
+  const setSettings = useCallback((nextSettings: PriorityFeeSettings) => {
+    setSettingsState(nextSettings);
+    if (typeof window !== "undefined") {
+      window.localStorage.setItem(PRIORITY_FEE_STORAGE_KEY, JSON.stringify(nextSettings));
+    }
+  }, []);
+
+  const resetSettings = useCallback(() => {
+    setSettingsState(DEFAULT_PRIORITY_FEE_SETTINGS);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(PRIORITY_FEE_STORAGE_KEY);
+    }
+  }, []);
+
+  const priorityFeeContextValue = useMemo(
+    () => ({ settings, setSettings, resetSettings }),
+    [resetSettings, setSettings, settings]
+  );
+
+  return (
+    <PriorityFeeContext.Provider value={priorityFeeContextValue}>
+      {children}
+    </PriorityFeeContext.Provider>
+  );
+}
@@ -0,0 +1,586 @@
+"use client";
+
+import { useMemo, useState, type ChangeEvent } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { LAMPORTS_PER_SOL, PublicKey, SystemProgram } from "@solana/web3.js";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import { useDurableNonce } from "@/components/providers/durable-nonce-provider";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
+import type { WalletHoldingsState } from "@/hooks/use-wallet-holdings";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import {
+  buildPayoutInstructionGroups,
+  findMissingPayoutAccounts,
+  getPayoutDecimals,
+  parsePayoutInput,
+  resolveSentPayoutStatus,
+  serializePayoutReportCsv,
+  type ParsedPayoutInput,
+  type PayoutAsset,
+  type PayoutRowResult
+} from "@/lib/batch-payouts";
+import { generateReference } from "@/lib/solana-pay";
+import type { SentTransaction } from "@/lib/transaction-pipeline";
+import {
+  packInstructionGroupIndexes,
+  type InstructionGroup
+} from "@/lib/versioned-transactions";
+
+type BatchPayoutPanelProps = {
+  holdingsState: WalletHoldingsState;
+};
+
+type PayoutStatus = {
+  severity: "success" | "error" | "warning";
+  message: string;
+} | null;
+
+type PayoutPlan = {
+  asset: PayoutAsset;
+  parsed: ParsedPayoutInput;
+  groups: InstructionGroup[];
+  batches: number[][];
+  totalAmount: bigint;
+  newAccounts: number;
+  rentLamports: number;
+  feeLamports: number;
+};
+
+const SOL_ASSET = "sol";
+const TOKEN_ACCOUNT_SIZE = 165;
+const BASE_FEE_LAMPORTS = 5000;
+
+function formatBaseUnits(raw: bigint, decimals: number) {
+  const divisor = 10n ** BigInt(decimals);
+  const whole = raw / divisor;
+  const fraction = (raw % divisor).toString().padStart(decimals, "0").replace(/0+$/, "");
+  return fraction ? `${whole.toString()}.${fraction}` : whole.toString();
+}
+
+function formatLamportsSol(lamports: number) {
+  return (lamports / LAMPORTS_PER_SOL).toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 9
+  });
+}
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+export function BatchPayoutPanel({ holdingsState }: BatchPayoutPanelProps) {
+  const { connection } = useConnection();
+  const { publicKey, connected } = useWallet();
+  const { sendInstructionBatches } = useTransactionPipeline();
+  const { selectedNonceAccount } = useDurableNonce();
+  const { holdings, refresh } = holdingsState;
+
+  const [assetSource, setAssetSource] = useState(SOL_ASSET);
+  const [input, setInput] = useState("");
+  const [defaultMemo, setDefaultMemo] = useState("");
+  const [attachReferences, setAttachReferences] = useState(false);
+  const [plan, setPlan] = useState<PayoutPlan | null>(null);
+  const [results, setResults] = useState<PayoutRowResult[]>([]);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [status, setStatus] = useState<PayoutStatus>(null);
+
+  const positiveAccounts = useMemo(
+    () => holdings.tokenAccounts.filter((account) => !account.isZeroBalance),
+    [holdings.tokenAccounts]
+  );
+  const { getTokenMetadata } = useTokenMetadata(
+    positiveAccounts.map((account) => account.mint)
+  );
+  const selectedTokenSource = positiveAccounts.find(
+    (account) => account.account === assetSource
+  );
+  const assetLabel = selectedTokenSource
+    ? getTokenMetadata(selectedTokenSource.mint)?.symbol ||
+      shortenAddress(selectedTokenSource.mint)
+    : "SOL";
+  const sentRows = results.filter((result) => result.status === "sent").length;
+  const failedRows = results.filter((result) => result.status === "failed").length;
+  const unknownRows = results.filter((result) => result.status === "unknown").length;
+
+  function resetPlan() {
+    setPlan(null);
+    setResults([]);
+    setProgress(null);
+  }
+
+  async function loadFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setInput(await file.text());
+    resetPlan();
+    setStatus(null);
+  }
+
+  async function reviewPayouts() {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect an identity wallet first." });
+      return;
+    }
+
+    setIsReviewing(true);
+    setStatus(null);
+    resetPlan();
+    try {
+      if (assetSource !== SOL_ASSET && !selectedTokenSource) {
+        throw new Error("Select a source token account.");
+      }
+      const asset: PayoutAsset = selectedTokenSource
+        ? {
+            kind: "token",
+            mint: new PublicKey(selectedTokenSource.mint),
+            sourceAccount: new PublicKey(selectedTokenSource.account),
+            decimals: selectedTokenSource.decimals
+          }
+        : { kind: "sol" };
+      const parsedInput = parsePayoutInput(input, asset);
+      const parsed = {
+        ...parsedInput,
+        rows: parsedInput.rows.map((row) => ({
+          ...row,
+          memo: row.memo || defaultMemo.trim(),
+          reference: attachReferences ? generateReference() : null
+        }))
+      };
+      if (parsed.errors.length > 0) {
+        setPlan({
+          asset,
+          parsed,
+          groups: [],
+          batches: [],
+          totalAmount: 0n,
+          newAccounts: 0,
+          rentLamports: 0,
+          feeLamports: 0
+        });
+        return;
+      }
+
+      const missingRecipients = await findMissingPayoutAccounts(connection, asset, parsed.rows);
+      const rentLamports =
+        missingRecipients.size > 0
+          ? missingRecipients.size *
+            (await connection.getMinimumBalanceForRentExemption(TOKEN_ACCOUNT_SIZE))
+          : 0;
+      const groups = buildPayoutInstructionGroups(
+        publicKey,
+        asset,
+        parsed.rows,
+        missingRecipients
+      );
+      // Reserve room for the nonce advance the pipeline prepends when one is selected.
+      const reservedInstructions = selectedNonceAccount
+        ? [
+            SystemProgram.nonceAdvance({
+              noncePubkey: new PublicKey(selectedNonceAccount),
+              authorizedPubkey: publicKey
+            })
+          ]
+        : [];
+      const batches = packInstructionGroupIndexes(publicKey, groups, [], reservedInstructions);
+      const totalAmount = parsed.rows.reduce((sum, row) => sum + row.amount, 0n);
+      const feeLamports = batches.length * BASE_FEE_LAMPORTS;
+
+      setPlan({
+        asset,
+        parsed,
+        groups,
+        batches,
+        totalAmount,
+        newAccounts: missingRecipients.size,
+        rentLamports,
+        feeLamports
+      });
+      setResults(
+        parsed.rows.map(() => ({ status: "pending", signature: null, error: null }))
+      );
+
+      const solRequired =
+        (asset.kind === "sol" ? Number(totalAmount) : 0) + rentLamports + feeLamports;
+      if (solRequired > holdings.sol * LAMPORTS_PER_SOL) {
+        setStatus({
+          severity: "warning",
+          message: `Wallet holds ${holdings.sol} SOL but the payout needs about ${formatLamportsSol(solRequired)} SOL.`
+        });
+      } else if (
+        selectedTokenSource &&
+        totalAmount > BigInt(selectedTokenSource.rawAmount)
+      ) {
+        setStatus({
+          severity: "warning",
+          message: `Source account holds ${selectedTokenSource.amountLabel} ${assetLabel}, less than the payout total.`
+        });
+      }
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error ? unknownError.message : "Failed to review payouts."
+      });
+    } finally {
+      setIsReviewing(false);
+    }
+  }
+
+  // Each transaction is sent on its own so one failure does not stop the rest;
+  // rows that already landed are skipped when sending again, and unconfirmed
+  // rows are only resent once their earlier transaction can no longer land.
+  async function sendPayouts() {
+    if (!plan) {
+      return;
+    }
+
+    setIsSending(true);
+    setStatus(null);
+    const nextResults = [...results];
+    try {
+      for (let batchIndex = 0; batchIndex < plan.batches.length; batchIndex += 1) {
+        const rowIndexes = plan.batches[batchIndex];
+        if (rowIndexes.every((rowIndex) => nextResults[rowIndex]?.status === "sent")) {
+          continue;
+        }
+        const previous = nextResults[rowIndexes[0]];
+        if (previous?.status === "unknown" && previous.transaction) {
+          setProgress(`Checking transaction ${batchIndex + 1}/${plan.batches.length}...`);
+          const sent = previous.transaction;
+          let settled: PayoutRowResult["status"] = "unknown";
+          try {
+            settled = await resolveSentPayoutStatus(connection, sent);
+          } catch {
+            // Leave the rows unknown; the next send checks them again.
+          }
+          if (settled !== "failed") {
+            rowIndexes.forEach((rowIndex) => {
+              nextResults[rowIndex] =
+                settled === "sent"
+                  ? { status: "sent", signature: sent.signature, error: null }
+                  : {
+                      ...nextResults[rowIndex],
+                      error: "Not confirmed yet and may still land; not resent."
+                    };
+            });
+            setResults([...nextResults]);
+            continue;
+          }
+        }
+
+        setProgress(`Sending transaction ${batchIndex + 1}/${plan.batches.length}...`);
+        const sentTransactions: SentTransaction[] = [];
+        try {
+          const { signatures } = await sendInstructionBatches(
+            rowIndexes.map((rowIndex) => plan.groups[rowIndex]),
+            {
+              lookupTable: "never",
+              onTransactionSent: (sent) => {
+                sentTransactions.push(sent);
+              }
+            }
+          );
+          rowIndexes.forEach((rowIndex) => {
+            nextResults[rowIndex] = {
+              status: "sent",
+              signature: signatures[signatures.length - 1] ?? null,
+              error: null
+            };
+          });
+        } catch (unknownError) {
+          const sent = sentTransactions[sentTransactions.length - 1];
+          const message =
+            unknownError instanceof Error ? unknownError.message : "Transaction failed.";
+          rowIndexes.forEach((rowIndex) => {
+            nextResults[rowIndex] = sent
+              ? {
+                  status: "unknown",
+                  signature: sent.signature,
+                  error: `Confirmation failed: ${message}`,
+                  transaction: sent
+                }
+              : { status: "failed", signature: null, error: message };
+          });
+        }
+        setResults([...nextResults]);
+      }
+
+      const failed = nextResults.filter((result) => result.status === "failed").length;
+      const unknown = nextResults.filter((result) => result.status === "unknown").length;
+      setStatus(
+        failed > 0 || unknown > 0
+          ? {
+              severity: "warning",
+              message:
+                `${failed} failed and ${unknown} unconfirmed of ${nextResults.length} rows. ` +
+                "Send again to retry failed rows; unconfirmed rows are checked first and only " +
+                "resent once their transaction has expired without landing."
+            }
+          : {
+              severity: "success",
+              message: `Paid all ${nextResults.length} rows.`
+            }
+      );
+      refresh();
+    } finally {
+      setProgress(null);
+      setIsSending(false);
+    }
+  }
+
+  function downloadReport() {
+    if (!plan) {
+      return;
+    }
+    const blob = new Blob([serializePayoutReportCsv(plan.parsed.rows, results)], {
+      type: "text/csv;charset=utf-8;"
+    });
+    const url = window.URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = `payout-report-${Date.now()}.csv`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    window.URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Stack spacing={1}>
+      <TextField
+        select
+        size="small"
+        label="Pay With"
+        value={assetSource}
+        onChange={(event) => {
+          setAssetSource(event.target.value);
+          resetPlan();
+        }}
+        fullWidth
+      >
+        <MenuItem value={SOL_ASSET}>SOL | {holdings.sol} SOL</MenuItem>
+        {positiveAccounts.map((account) => (
+          <MenuItem key={account.account} value={account.account}>
+            {getTokenMetadata(account.mint)?.symbol || shortenAddress(account.mint)} |{" "}
+            {account.amountLabel} | {shortenAddress(account.account)}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        size="small"
+        label="Recipients (address,amount[,memo] per line)"
+        value={input}
+        onChange={(event) => {
+          setInput(event.target.value);
+          resetPlan();
+        }}
+        multiline
+        minRows={4}
+        maxRows={10}
+        fullWidth
+        inputProps={{ style: { fontFamily: "var(--font-mono), monospace" } }}
+      />
+      <TextField
+        size="small"
+        label="Default Memo (rows without a memo)"
+        value={defaultMemo}
+        onChange={(event) => {
+          setDefaultMemo(event.target.value);
+          resetPlan();
+        }}
+        fullWidth
+      />
+      <FormControlLabel
+        control={
+          <Checkbox
+            checked={attachReferences}
+            onChange={(event) => {
+              setAttachReferences(event.target.checked);
+              resetPlan();
+            }}
+          />
+        }
+        label="Attach a unique reference key to each row (included in the report)"
+      />
+      <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+        <Button variant="outlined" component="label" disabled={isSending}>
+          Load CSV
+          <input
+            hidden
+            type="file"
+            accept=".csv,text/csv,text/plain"
+            onChange={(event) => {
+              void loadFile(event);
+            }}
+          />
+        </Button>
+        <Button
+          variant="outlined"
+          onClick={() => {
+            void reviewPayouts();
+          }}
+          disabled={!connected || isReviewing || isSending || !input.trim()}
+        >
+          {isReviewing ? "Reviewing..." : "Review Payouts"}
+        </Button>
+        <Button
+          variant="contained"
+          onClick={() => {
+            void sendPayouts();
+          }}
+          disabled={
+            !connected ||
+            isSending ||
+            !plan ||
+            plan.batches.length === 0 ||
+            (results.length > 0 && sentRows === results.length)
+          }
+        >
+          {isSending
+            ? "Sending..."
+            : failedRows > 0 || unknownRows > 0
+              ? [
+                  failedRows > 0 ? `Retry ${failedRows} Failed` : "",
+                  unknownRows > 0 ? `Check ${unknownRows} Unconfirmed` : ""
+                ]
+                  .filter(Boolean)
+                  .join(" + ")
+              : `Send ${plan?.batches.length ?? 0} Transactions`}
+        </Button>
+      </Stack>
+
+      {plan && plan.parsed.errors.length > 0 ? (
+        <Alert severity="error">
+          {plan.parsed.errors.map((error) => (
+            <Typography key={error} variant="caption" display="block">
+              {error}
+            </Typography>
+          ))}
+        </Alert>
+      ) : null}
+      {plan && plan.parsed.warnings.length > 0 ? (
+        <Alert severity="warning" sx={{ wordBreak: "break-all" }}>
+          {plan.parsed.warnings.map((warning) => (
+            <Typography key={warning} variant="caption" display="block">
+              {warning}
+            </Typography>
+          ))}
+        </Alert>
+      ) : null}
+
+      {plan && plan.batches.length > 0 ? (
+        <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+          <CardContent sx={{ p: 1.25 }}>
+            <Stack spacing={0.9}>
+              <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                <Chip size="small" variant="outlined" label={`${plan.parsed.rows.length} rows`} />
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={`Total ${formatBaseUnits(plan.totalAmount, getPayoutDecimals(plan.asset))} ${assetLabel}`}
+                />
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={`${plan.batches.length} transaction${plan.batches.length === 1 ? "" : "s"}`}
+                />
+                {plan.newAccounts > 0 ? (
+                  <Chip
+                    size="small"
+                    color="warning"
+                    variant="outlined"
+                    label={`${plan.newAccounts} new ATAs | ${formatLamportsSol(plan.rentLamports)} SOL rent`}
+                  />
+                ) : null}
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={`~${formatLamportsSol(plan.feeLamports)} SOL base fees + priority`}
+                />
+                {sentRows > 0 ? (
+                  <Chip size="small" color="success" label={`${sentRows} sent`} />
+                ) : null}
+                {failedRows > 0 ? (
+                  <Chip size="small" color="error" label={`${failedRows} failed`} />
+                ) : null}
+                {unknownRows > 0 ? (
+                  <Chip size="small" color="warning" label={`${unknownRows} unconfirmed`} />
+                ) : null}
+              </Stack>
+              {progress ? (
+                <Typography variant="caption" color="text.secondary">
+                  {progress}
+                </Typography>
+              ) : null}
+              <Box sx={{ maxHeight: 260, overflow: "auto", display: "grid", gap: 0.4 }}>
+                {plan.parsed.rows.map((row, index) => {
+                  const result = results[index];
+                  return (
+                    <Box key={`${row.row}-${row.recipient}`}>
+                      <Stack direction="row" spacing={0.6} alignItems="center">
+                        <Chip
+                          size="small"
+                          color={
+                            result?.status === "sent"
+                              ? "success"
+                              : result?.status === "failed"
+                                ? "error"
+                                : result?.status === "unknown"
+                                  ? "warning"
+                                  : "default"
+                          }
+                          label={result?.status ?? "pending"}
+                        />
+                        <Typography
+                          variant="caption"
+                          sx={{ fontFamily: "var(--font-mono), monospace" }}
+                        >
+                          #{row.row} {shortenAddress(row.recipient)} {row.amountLabel}{" "}
+                          {assetLabel}
+                          {row.memo ? ` | ${row.memo}` : ""}
+                        </Typography>
+                      </Stack>
+                      {result?.error ? (
+                        <Typography variant="caption" color="error.main" display="block">
+                          {result.error}
+                        </Typography>
+                      ) : null}
+                    </Box>
+                  );
+                })}
+              </Box>
+              <Button
+                size="small"
+                variant="outlined"
+                onClick={downloadReport}
+                disabled={results.length === 0}
+              >
+                Download Report CSV
+              </Button>
+            </Stack>
+          </CardContent>
+        </Card>
+      ) : null}
+
+      {status ? <Alert severity={status.severity}>{status.message}</Alert> : null}
+    </Stack>
+  );
+}
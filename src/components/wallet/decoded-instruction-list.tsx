@@ -0,0 +1,79 @@
+"use client";
+
+import { Box, Chip, Stack, Typography } from "@mui/material";
+import type { DecodedAccount, DecodedInstruction } from "@/lib/instruction-decoder";
+
+type DecodedInstructionListProps = {
+  instructions: DecodedInstruction[];
+  maxHeight?: number;
+};
+
+function formatAccountRole(account: DecodedAccount) {
+  const flags = [account.isSigner ? "S" : null, account.isWritable ? "W" : null]
+    .filter(Boolean)
+    .join("/");
+  return flags ? ` [${flags}]` : "";
+}
+
+export function DecodedInstructionList({
+  instructions,
+  maxHeight = 320
+}: DecodedInstructionListProps) {
+  return (
+    <Box sx={{ maxHeight, overflow: "auto", display: "grid", gap: 0.5 }}>
+      {instructions.map((instruction, index) => (
+        <Box
+          key={`${instruction.programId}-${index}`}
+          sx={{
+            p: 0.7,
+            border: "1px solid",
+            borderColor: "divider",
+            borderRadius: 1
+          }}
+        >
+          <Stack direction="row" spacing={0.6} alignItems="center" flexWrap="wrap" useFlexGap>
+            <Typography variant="caption">
+              #{index + 1} {instruction.programLabel}
+            </Typography>
+            <Chip
+              size="small"
+              variant="outlined"
+              color={instruction.decoded ? "default" : "warning"}
+              label={instruction.name}
+            />
+          </Stack>
+          <Typography
+            variant="caption"
+            display="block"
+            color="text.secondary"
+            sx={{ wordBreak: "break-all" }}
+          >
+            {instruction.programId} · {instruction.dataLength} data bytes
+          </Typography>
+          {instruction.args.map((argument) => (
+            <Typography
+              key={argument.name}
+              variant="caption"
+              display="block"
+              sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+            >
+              {argument.name}: {argument.value}
+            </Typography>
+          ))}
+          {instruction.accounts.map((account, accountIndex) => (
+            <Typography
+              key={`${account.address}-${accountIndex}`}
+              variant="caption"
+              display="block"
+              color="text.secondary"
+              sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+            >
+              {account.name}: {account.address}
+              {formatAccountRole(account)}
+            </Typography>
+          ))}
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -1,12 +1,12 @@
 "use client";
 
 import { useMemo, useState } from "react";
-import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { useWallet } from "@solana/wallet-adapter-react";
 import {
   TOKEN_PROGRAM_ID,
   createRevokeInstruction
 } from "@solana/spl-token";
-import { PublicKey, Transaction, type TransactionInstruction } from "@solana/web3.js";
+import { PublicKey, type TransactionInstruction } from "@solana/web3.js";
 import {
   Alert,
   Box,
@@ -21,8 +21,12 @@ import {
   Stack,
   Typography
 } from "@mui/material";
+import { InstructionExportPanel } from "@/components/wallet/instruction-export-panel";
+import { useInstructionExport } from "@/hooks/use-instruction-export";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
 import type { TokenHolding, WalletHoldingsState } from "@/hooks/use-wallet-holdings";
 import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { planInstructionBatches } from "@/lib/versioned-transactions";
 
 type DelegateManagerProps = {
   holdingsState: WalletHoldingsState;
@@ -33,26 +37,14 @@ type DelegateStatus = {
   message: string;
 } | null;
 
-const MAX_INSTRUCTIONS_PER_TX = 8;
-
 function shortenAddress(address: string) {
   return `${address.slice(0, 4)}...${address.slice(-4)}`;
 }
 
-function chunkInstructions(
-  instructions: TransactionInstruction[],
-  chunkSize: number
-) {
-  const chunks: TransactionInstruction[][] = [];
-  for (let index = 0; index < instructions.length; index += chunkSize) {
-    chunks.push(instructions.slice(index, index + chunkSize));
-  }
-  return chunks;
-}
-
 export function DelegateManager({ holdingsState }: DelegateManagerProps) {
-  const { connection } = useConnection();
-  const { publicKey, connected, sendTransaction } = useWallet();
+  const { publicKey, connected } = useWallet();
+  const { sendInstructionBatches } = useTransactionPipeline();
+  const instructionExport = useInstructionExport();
   const { holdings, refresh } = holdingsState;
 
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -98,7 +90,7 @@ export function DelegateManager({ holdingsState }: DelegateManagerProps) {
     instructions: TransactionInstruction[],
     successLabel: string
   ) {
-    if (!connected || !publicKey || !sendTransaction) {
+    if (!connected || !publicKey) {
       setStatus({
         severity: "error",
         message: "Connect an identity wallet to manage delegates."
@@ -118,30 +110,24 @@ export function DelegateManager({ holdingsState }: DelegateManagerProps) {
     setStatus(null);
 
     try {
-      const batches = chunkInstructions(instructions, MAX_INSTRUCTIONS_PER_TX);
-
-      for (const batch of batches) {
-        const latestBlockhash = await connection.getLatestBlockhash("confirmed");
-        const transaction = new Transaction({
-          feePayer: publicKey,
-          blockhash: latestBlockhash.blockhash,
-          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-        }).add(...batch);
-
-        const signature = await sendTransaction(transaction, connection, {
-          preflightCommitment: "confirmed"
-        });
-
-        await connection.confirmTransaction(
-          {
-            signature,
-            blockhash: latestBlockhash.blockhash,
-            lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-          },
-          "confirmed"
-        );
+      const instructionGroups = instructions.map((instruction) => [instruction]);
+      if (instructionExport.isExternal) {
+        const transactionCount = planInstructionBatches(
+          publicKey,
+          instructionGroups
+        ).directTransactions;
+        if (transactionCount > 1) {
+          throw new Error(
+            `An unsigned export is a single transaction; this revoke needs ${transactionCount}. Revoke fewer accounts at a time.`
+          );
+        }
+        const outcome = await instructionExport.submit(instructions);
+        setStatus({ severity: "success", message: outcome.message });
+        return;
       }
 
+      await sendInstructionBatches(instructionGroups);
+
       setStatus({
         severity: "success",
         message: successLabel
@@ -210,10 +196,28 @@ export function DelegateManager({ holdingsState }: DelegateManagerProps) {
   }
 
   const impactedAccountCount = confirmState?.mode === "all" ? delegatedAccounts.length : 1;
-  const estimatedTxCount = Math.max(
-    1,
-    Math.ceil(impactedAccountCount / MAX_INSTRUCTIONS_PER_TX)
-  );
+  const estimatedTxCount = useMemo(() => {
+    const impactedAccounts =
+      confirmState?.mode === "all"
+        ? delegatedAccounts
+        : confirmState?.account
+          ? [confirmState.account]
+          : [];
+    if (!publicKey || impactedAccounts.length === 0) {
+      return 1;
+    }
+    return planInstructionBatches(
+      publicKey,
+      impactedAccounts.map((account) => [
+        createRevokeInstruction(
+          new PublicKey(account.account),
+          publicKey,
+          [],
+          TOKEN_PROGRAM_ID
+        )
+      ])
+    ).directTransactions;
+  }, [confirmState, delegatedAccounts, publicKey]);
 
   return (
     <Card className="fx-card" variant="outlined" sx={{ borderRadius: 2 }}>
@@ -237,6 +241,12 @@ export function DelegateManager({ holdingsState }: DelegateManagerProps) {
             Revoking delegates can break listings, staking/game actions, or active approvals.
           </Alert>
 
+          <InstructionExportPanel
+            exportState={instructionExport}
+            modes={["wallet", "unsigned"]}
+            description="Revoke instructions are built for the connected wallet. Set the fee payer to the wallet that will sign offline."
+          />
+
           <Divider />
 
           <Typography variant="caption" color="text.secondary">
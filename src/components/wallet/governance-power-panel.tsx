@@ -0,0 +1,524 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import { PublicKey, Transaction } from "@solana/web3.js";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
+import {
+  DEFAULT_SPL_GOVERNANCE_PROGRAM_ID,
+  buildDepositGoverningTokensInstruction,
+  buildRelinquishVoteInstruction,
+  buildWithdrawGoverningTokensInstruction,
+  fetchGoverningTokenProgramId,
+  fetchOpenVoteRecords,
+  fetchRealmSummary,
+  fetchTokenOwnerRecords,
+  type GovernanceRealmSummary,
+  type TokenOwnerRecordRow
+} from "@/lib/spl-governance";
+import { parsePositiveTokenAmount } from "@/lib/token-amount";
+
+type StatusState = {
+  severity: "success" | "error" | "info";
+  message: string;
+  signature?: string;
+} | null;
+
+type DepositSource = {
+  balance: bigint;
+  decimals: number;
+  tokenProgramId: PublicKey;
+} | null;
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`;
+}
+
+function formatTokenAmount(amount: bigint, decimals: number) {
+  if (decimals === 0) {
+    return amount.toLocaleString();
+  }
+  const base = 10n ** BigInt(decimals);
+  const fraction = (amount % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+  const whole = (amount / base).toLocaleString();
+  return fraction ? `${whole}.${fraction}` : whole;
+}
+
+function getMintLabel(realm: GovernanceRealmSummary, mint: PublicKey) {
+  if (mint.equals(realm.communityMint)) {
+    return "Community";
+  }
+  return realm.councilMint && mint.equals(realm.councilMint) ? "Council" : "Unknown mint";
+}
+
+export function GovernancePowerPanel() {
+  const { connection } = useConnection();
+  const { connected, publicKey } = useWallet();
+  const { sendAndConfirm, sendInstructionBatches } = useTransactionPipeline();
+
+  const [programInput, setProgramInput] = useState(DEFAULT_SPL_GOVERNANCE_PROGRAM_ID.toBase58());
+  const [records, setRecords] = useState<TokenOwnerRecordRow[]>([]);
+  const [hasLoaded, setHasLoaded] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<StatusState>(null);
+
+  const [realmInput, setRealmInput] = useState("");
+  const [depositRealm, setDepositRealm] = useState<GovernanceRealmSummary | null>(null);
+  const [depositMint, setDepositMint] = useState("");
+  const [depositSource, setDepositSource] = useState<DepositSource>(null);
+  const [depositAmount, setDepositAmount] = useState("");
+  const walletRef = useRef<string | null>(null);
+
+  // Records and the deposit balance belong to the wallet that loaded them.
+  useEffect(() => {
+    walletRef.current = publicKey?.toBase58() ?? null;
+    setRecords([]);
+    setHasLoaded(false);
+    setDepositSource(null);
+    setDepositAmount("");
+    setStatus(null);
+  }, [publicKey]);
+
+  const getProgramId = useCallback(() => {
+    try {
+      return new PublicKey(programInput.trim());
+    } catch {
+      throw new Error("Enter a valid governance program ID.");
+    }
+  }, [programInput]);
+
+  const loadRecords = useCallback(async () => {
+    if (!publicKey) {
+      setRecords([]);
+      return;
+    }
+    setIsLoading(true);
+    try {
+      const nextRecords = await fetchTokenOwnerRecords(connection, getProgramId(), publicKey);
+      if (walletRef.current !== publicKey.toBase58()) {
+        return;
+      }
+      setRecords(nextRecords);
+      setHasLoaded(true);
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to load token owner records."
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [connection, getProgramId, publicKey]);
+
+  useEffect(() => {
+    if (!depositMint || !publicKey) {
+      setDepositSource(null);
+      return;
+    }
+    let cancelled = false;
+    const mint = new PublicKey(depositMint);
+    fetchGoverningTokenProgramId(connection, mint)
+      .then(async (tokenProgramId) => {
+        const balance = await connection
+          .getTokenAccountBalance(
+            getAssociatedTokenAddressSync(mint, publicKey, false, tokenProgramId),
+            "confirmed"
+          )
+          .then(({ value }) => ({ balance: BigInt(value.amount), decimals: value.decimals }))
+          .catch(() => ({ balance: 0n, decimals: 0 }));
+        if (!cancelled) {
+          setDepositSource({ ...balance, tokenProgramId });
+        }
+      })
+      .catch(() => {
+        if (!cancelled) {
+          setDepositSource(null);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connection, depositMint, publicKey]);
+
+  const loadDepositRealm = async (realmAddress: string) => {
+    setStatus(null);
+    try {
+      const realm = await fetchRealmSummary(
+        connection,
+        getProgramId(),
+        new PublicKey(realmAddress.trim())
+      );
+      setRealmInput(realm.address.toBase58());
+      setDepositRealm(realm);
+      setDepositMint(realm.communityMint.toBase58());
+      setDepositAmount("");
+    } catch (unknownError) {
+      setDepositRealm(null);
+      setStatus({
+        severity: "error",
+        message: unknownError instanceof Error ? unknownError.message : "Failed to load realm."
+      });
+    }
+  };
+
+  const selectRecordForDeposit = (record: TokenOwnerRecordRow) => {
+    setRealmInput(record.realm.address.toBase58());
+    setDepositRealm(record.realm);
+    setDepositMint(record.governingTokenMint.toBase58());
+    setDepositAmount("");
+  };
+
+  const submitDeposit = async () => {
+    if (!publicKey || !depositRealm || !depositMint) {
+      setStatus({ severity: "error", message: "Connect your wallet and load a realm first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      if (!depositSource || depositSource.balance === 0n) {
+        throw new Error("Wallet holds none of this governing token.");
+      }
+      const amount = parsePositiveTokenAmount(depositAmount, depositSource.decimals);
+      if (amount > depositSource.balance) {
+        throw new Error("Amount exceeds your token balance.");
+      }
+      const signature = await sendAndConfirm(
+        new Transaction().add(
+          buildDepositGoverningTokensInstruction(
+            getProgramId(),
+            depositRealm.address,
+            new PublicKey(depositMint),
+            publicKey,
+            amount,
+            depositSource.tokenProgramId
+          )
+        )
+      );
+      setStatus({
+        severity: "success",
+        message: `Deposited ${depositAmount.trim()} tokens into ${depositRealm.name || "the realm"}.`,
+        signature
+      });
+      setDepositAmount("");
+      setDepositMint("");
+      void loadRecords();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to deposit governing tokens."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitWithdraw = async (record: TokenOwnerRecordRow) => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const signature = await sendAndConfirm(
+        new Transaction().add(
+          buildWithdrawGoverningTokensInstruction(getProgramId(), record, publicKey)
+        )
+      );
+      setStatus({
+        severity: "success",
+        message: `Withdrew ${formatTokenAmount(record.depositAmount, record.governingTokenDecimals)} tokens from ${record.realm.name || "the realm"}.`,
+        signature
+      });
+      void loadRecords();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to withdraw governing tokens."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitRelinquish = async (record: TokenOwnerRecordRow) => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const programId = getProgramId();
+      const votes = await fetchOpenVoteRecords(connection, programId, publicKey, record);
+      if (votes.length === 0) {
+        throw new Error("No unrelinquished vote records found for this realm.");
+      }
+      await sendInstructionBatches(
+        votes.map((vote) => [buildRelinquishVoteInstruction(programId, record, vote, publicKey)])
+      );
+      const activeVotes = votes.filter((vote) => vote.proposalState === 2).length;
+      setStatus({
+        severity: "success",
+        message:
+          activeVotes > 0
+            ? `Relinquished ${votes.length} vote(s); ${activeVotes} were withdrawn from proposals still in voting.`
+            : `Relinquished ${votes.length} vote(s).`
+      });
+      void loadRecords();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error ? unknownError.message : "Failed to relinquish votes."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Card className="fx-card" variant="outlined" sx={{ borderRadius: 2 }}>
+      <CardContent sx={{ p: 1.75 }}>
+        <Stack spacing={1.2}>
+          <Typography variant="subtitle2">Governance Power</Typography>
+          <Typography variant="caption" color="text.secondary">
+            Token owner records for your wallet across SPL Governance realms. Deposit governing
+            tokens for voting power, relinquish finished votes, and withdraw once nothing is
+            outstanding.
+          </Typography>
+
+          <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+            <TextField
+              size="small"
+              label="Governance Program ID"
+              value={programInput}
+              onChange={(event) => {
+                setProgramInput(event.target.value);
+              }}
+              fullWidth
+            />
+            <Button
+              variant="outlined"
+              onClick={() => {
+                void loadRecords();
+              }}
+              disabled={isLoading || !connected}
+              sx={{ minWidth: 140 }}
+            >
+              {isLoading ? "Loading..." : hasLoaded ? "Refresh" : "Load Records"}
+            </Button>
+          </Stack>
+
+          {status ? (
+            <Alert
+              severity={status.severity}
+              action={
+                status.signature ? (
+                  <Button
+                    size="small"
+                    color="inherit"
+                    href={`https://explorer.solana.com/tx/${status.signature}?cluster=mainnet`}
+                    target="_blank"
+                    rel="noreferrer"
+                  >
+                    Explorer
+                  </Button>
+                ) : undefined
+              }
+            >
+              {status.message}
+            </Alert>
+          ) : null}
+
+          {!connected || !publicKey ? (
+            <Alert severity="info">Connect your wallet to manage governance power.</Alert>
+          ) : null}
+
+          {hasLoaded && records.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No token owner records found for this governance program.
+            </Typography>
+          ) : null}
+
+          {records.length > 0 ? (
+            <Box sx={{ display: "grid", gap: 0.7 }}>
+              {records.map((record) => {
+                const isLocked =
+                  record.unrelinquishedVotesCount > 0 || record.outstandingProposalCount > 0;
+                return (
+                  <Card key={record.address.toBase58()} variant="outlined" sx={{ borderRadius: 1.5 }}>
+                    <CardContent sx={{ p: 1.25 }}>
+                      <Stack spacing={0.6}>
+                        <Stack direction="row" justifyContent="space-between" alignItems="center">
+                          <Typography variant="body2">
+                            {record.realm.name || shortenAddress(record.realm.address.toBase58())}
+                          </Typography>
+                          <Chip
+                            size="small"
+                            variant="outlined"
+                            label={getMintLabel(record.realm, record.governingTokenMint)}
+                          />
+                        </Stack>
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          sx={{ fontFamily: "var(--font-mono), monospace" }}
+                        >
+                          Realm {shortenAddress(record.realm.address.toBase58())} | Mint{" "}
+                          {shortenAddress(record.governingTokenMint.toBase58())}
+                        </Typography>
+                        <Typography variant="body2">
+                          Deposited:{" "}
+                          {formatTokenAmount(record.depositAmount, record.governingTokenDecimals)}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          Unrelinquished votes: {record.unrelinquishedVotesCount} | Outstanding
+                          proposals: {record.outstandingProposalCount}
+                        </Typography>
+                        {isLocked ? (
+                          <Typography variant="caption" color="warning.main">
+                            Withdraw is blocked until votes are relinquished and proposals are
+                            finalized or cancelled.
+                          </Typography>
+                        ) : null}
+                        <Stack direction="row" spacing={1}>
+                          <Button size="small" onClick={() => selectRecordForDeposit(record)}>
+                            Deposit More
+                          </Button>
+                          <Button
+                            size="small"
+                            onClick={() => {
+                              void submitRelinquish(record);
+                            }}
+                            disabled={isSubmitting || record.unrelinquishedVotesCount === 0}
+                          >
+                            Relinquish Votes
+                          </Button>
+                          <Button
+                            size="small"
+                            color="warning"
+                            onClick={() => {
+                              void submitWithdraw(record);
+                            }}
+                            disabled={isSubmitting || isLocked || record.depositAmount === 0n}
+                          >
+                            Withdraw All
+                          </Button>
+                        </Stack>
+                      </Stack>
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </Box>
+          ) : null}
+
+          <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+            <CardContent sx={{ p: 1.25 }}>
+              <Stack spacing={1}>
+                <Typography variant="subtitle2">Deposit</Typography>
+                <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                  <TextField
+                    size="small"
+                    label="Realm Address"
+                    value={realmInput}
+                    onChange={(event) => {
+                      setRealmInput(event.target.value);
+                      setDepositRealm(null);
+                      setDepositMint("");
+                    }}
+                    fullWidth
+                  />
+                  <Button
+                    variant="outlined"
+                    onClick={() => {
+                      void loadDepositRealm(realmInput);
+                    }}
+                    disabled={!realmInput.trim()}
+                  >
+                    Load Realm
+                  </Button>
+                </Stack>
+                {depositRealm ? (
+                  <>
+                    <Typography variant="body2">
+                      {depositRealm.name || shortenAddress(depositRealm.address.toBase58())}
+                    </Typography>
+                    <TextField
+                      select
+                      size="small"
+                      label="Governing Token"
+                      value={depositMint}
+                      onChange={(event) => {
+                        setDepositMint(event.target.value);
+                      }}
+                    >
+                      <MenuItem value={depositRealm.communityMint.toBase58()}>
+                        Community ({shortenAddress(depositRealm.communityMint.toBase58())})
+                      </MenuItem>
+                      {depositRealm.councilMint ? (
+                        <MenuItem value={depositRealm.councilMint.toBase58()}>
+                          Council ({shortenAddress(depositRealm.councilMint.toBase58())})
+                        </MenuItem>
+                      ) : null}
+                    </TextField>
+                    <TextField
+                      size="small"
+                      label="Amount"
+                      value={depositAmount}
+                      onChange={(event) => {
+                        setDepositAmount(event.target.value);
+                      }}
+                      helperText={
+                        depositSource
+                          ? `Wallet balance: ${formatTokenAmount(depositSource.balance, depositSource.decimals)}`
+                          : undefined
+                      }
+                    />
+                    <Button
+                      variant="contained"
+                      onClick={() => {
+                        void submitDeposit();
+                      }}
+                      disabled={isSubmitting || !connected || !depositMint}
+                    >
+                      Deposit
+                    </Button>
+                  </>
+                ) : null}
+              </Stack>
+            </CardContent>
+          </Card>
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
@@ -3,7 +3,6 @@
 import { useMemo, useState } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import {
-  ASSOCIATED_TOKEN_PROGRAM_ID,
   TOKEN_PROGRAM_ID,
   createAssociatedTokenAccountInstruction,
   createBurnCheckedInstruction,
@@ -17,7 +16,8 @@ import {
   PublicKey,
   SystemProgram,
   Transaction,
-  TransactionInstruction as Web3TransactionInstruction
+  TransactionInstruction as Web3TransactionInstruction,
+  VersionedTransaction
 } from "@solana/web3.js";
 import { Buffer } from "buffer";
 import {
@@ -36,8 +36,30 @@ import {
   ToggleButtonGroup,
   Typography
 } from "@mui/material";
+import { BatchPayoutPanel } from "@/components/wallet/batch-payout-panel";
+import { DecodedInstructionList } from "@/components/wallet/decoded-instruction-list";
+import { InstructionExportPanel } from "@/components/wallet/instruction-export-panel";
+import { useInstructionExport } from "@/hooks/use-instruction-export";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
 import type { WalletHoldingsState } from "@/hooks/use-wallet-holdings";
 import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import {
+  simulateWithAccountDiffs,
+  type BalanceDelta,
+  type TokenBalanceDelta
+} from "@/lib/account-diff";
+import {
+  UNKNOWN_PROGRAM_LABEL,
+  decodeInstructions,
+  type DecodedInstruction
+} from "@/lib/instruction-decoder";
+import { buildMemoInstruction } from "@/lib/memo";
+import {
+  generateReference,
+  parseReferenceKeys,
+  withReferences
+} from "@/lib/solana-pay";
+import type { ComputeBudgetSummary } from "@/lib/transaction-pipeline";
 
 type IdentityActionsProps = {
   holdingsState: WalletHoldingsState;
@@ -48,7 +70,8 @@ type ActionMode =
   | "send-token"
   | "burn"
   | "close"
-  | "metaplex-burn";
+  | "metaplex-burn"
+  | "batch-payout";
 type StatusState = {
   severity: "success" | "error";
   message: string;
@@ -65,18 +88,17 @@ type PreparedAction = {
   tokenDeltas: TokenDelta[];
   rentImpactLamports: number;
   riskFlags: string[];
-};
-type DecodedInstruction = {
-  programId: string;
-  programLabel: string;
-  accounts: string[];
-  dataLength: number;
+  // Reference keys attached to the transfer, reported after sending.
+  references?: string[];
 };
 type SimulationPreview = {
   label: string;
   feeLamports: number | null;
+  computeBudget: ComputeBudgetSummary;
   rentImpactLamports: number;
-  tokenDeltas: TokenDelta[];
+  expectedDeltas: TokenDelta[];
+  balanceDeltas: BalanceDelta[];
+  tokenDeltas: TokenBalanceDelta[];
   riskFlags: string[];
   instructions: DecodedInstruction[];
   logs: string[];
@@ -85,13 +107,6 @@ type SimulationPreview = {
 
 const TOKEN_METADATA_PROGRAM_ID = new PublicKey(MPL_TOKEN_METADATA_PROGRAM_ID);
 
-const PROGRAM_LABELS: Record<string, string> = {
-  [SystemProgram.programId.toBase58()]: "System Program",
-  [TOKEN_PROGRAM_ID.toBase58()]: "SPL Token Program",
-  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: "Associated Token Program",
-  [TOKEN_METADATA_PROGRAM_ID.toBase58()]: "Metaplex Token Metadata"
-};
-
 function parseAmountToBaseUnits(input: string, decimals: number): bigint {
   const normalized = input.trim();
   if (!normalized) {
@@ -115,6 +130,15 @@ function shortenAddress(address: string) {
   return `${address.slice(0, 4)}...${address.slice(-4)}`;
 }
 
+function formatSignedBaseUnits(raw: bigint, decimals: number) {
+  const negative = raw < 0n;
+  const absolute = negative ? -raw : raw;
+  const divisor = 10n ** BigInt(decimals);
+  const fraction = (absolute % divisor).toString().padStart(decimals, "0").replace(/0+$/, "");
+  const whole = (absolute / divisor).toString();
+  return `${negative ? "-" : "+"}${fraction ? `${whole}.${fraction}` : whole}`;
+}
+
 function findMetadataPda(mint: PublicKey) {
   return PublicKey.findProgramAddressSync(
     [
@@ -138,28 +162,6 @@ function findMasterEditionPda(mint: PublicKey) {
   )[0];
 }
 
-function decodeInstructions(
-  instructions: TransactionInstruction[]
-): DecodedInstruction[] {
-  return instructions.map((instruction) => {
-    const programId = instruction.programId.toBase58();
-    return {
-      programId,
-      programLabel: PROGRAM_LABELS[programId] || "Unknown Program",
-      accounts: instruction.keys.map((key) => {
-        const flags = [
-          key.isSigner ? "S" : null,
-          key.isWritable ? "W" : null
-        ]
-          .filter(Boolean)
-          .join("/");
-        return `${key.pubkey.toBase58()}${flags ? ` [${flags}]` : ""}`;
-      }),
-      dataLength: instruction.data.length
-    };
-  });
-}
-
 function formatSimulationError(value: unknown) {
   if (!value) {
     return null;
@@ -172,7 +174,9 @@ function formatSimulationError(value: unknown) {
 
 export function IdentityActions({ holdingsState }: IdentityActionsProps) {
   const { connection } = useConnection();
-  const { publicKey, connected, sendTransaction } = useWallet();
+  const { publicKey, connected } = useWallet();
+  const { prepareTransaction, sendAndConfirm } = useTransactionPipeline();
+  const instructionExport = useInstructionExport();
   const { holdings, refresh } = holdingsState;
 
   const [mode, setMode] = useState<ActionMode>("send-sol");
@@ -189,6 +193,9 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
   const [tokenRecipient, setTokenRecipient] = useState("");
   const [tokenAmount, setTokenAmount] = useState("");
 
+  const [paymentMemo, setPaymentMemo] = useState("");
+  const [paymentReferences, setPaymentReferences] = useState("");
+
   const [burnSourceAccount, setBurnSourceAccount] = useState("");
   const [burnAmount, setBurnAmount] = useState("");
 
@@ -235,7 +242,7 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
   );
 
   async function executePreparedAction(preparedAction: PreparedAction) {
-    if (!connected || !publicKey || !sendTransaction) {
+    if (!connected || !publicKey) {
       setStatus({
         severity: "error",
         message: "Connect an identity wallet before sending transactions."
@@ -247,29 +254,27 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
     setStatus(null);
 
     try {
-      const latestBlockhash = await connection.getLatestBlockhash("confirmed");
-      const transaction = new Transaction({
-        feePayer: publicKey,
-        blockhash: latestBlockhash.blockhash,
-        lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-      }).add(...preparedAction.instructions);
-
-      const signature = await sendTransaction(transaction, connection, {
-        preflightCommitment: "confirmed"
-      });
-
-      await connection.confirmTransaction(
-        {
-          signature,
-          blockhash: latestBlockhash.blockhash,
-          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-        },
-        "confirmed"
+      if (instructionExport.isExternal) {
+        const outcome = await instructionExport.submit(preparedAction.instructions);
+        setStatus({
+          severity: "success",
+          message: `${preparedAction.label}: ${outcome.message}`,
+          signature: outcome.signature
+        });
+        return;
+      }
+
+      const signature = await sendAndConfirm(
+        new Transaction({ feePayer: publicKey }).add(...preparedAction.instructions)
       );
 
       setStatus({
         severity: "success",
-        message: `${preparedAction.label} submitted successfully.`,
+        message: `${preparedAction.label} submitted successfully.${
+          preparedAction.references?.length
+            ? ` Reference: ${preparedAction.references.join(", ")}.`
+            : ""
+        }`,
         signature
       });
       refresh();
@@ -305,15 +310,24 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
         blockhash: latestBlockhash.blockhash,
         lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
       }).add(...preparedAction.instructions);
-
-      const [simulationResult, feeResult] = await Promise.all([
-        connection.simulateTransaction(transaction),
-        connection.getFeeForMessage(transaction.compileMessage(), "confirmed")
+      const computeBudget = await prepareTransaction(transaction);
+
+      // Simulate with the accounts config so deltas reflect actual post-state,
+      // including rent refunds and side effects the action did not intend.
+      const message = transaction.compileMessage();
+      const [accountDiffs, feeResult] = await Promise.all([
+        simulateWithAccountDiffs(
+          connection,
+          new VersionedTransaction(message),
+          message.accountKeys
+        ),
+        connection.getFeeForMessage(message, "confirmed")
       ]);
+      const { simulation } = accountDiffs;
 
-      const decodedInstructions = decodeInstructions(preparedAction.instructions);
+      const decodedInstructions = decodeInstructions(transaction.instructions);
       const unknownProgramFlags = decodedInstructions
-        .filter((instruction) => instruction.programLabel === "Unknown Program")
+        .filter((instruction) => instruction.programLabel === UNKNOWN_PROGRAM_LABEL)
         .map(
           (instruction) =>
             `Unknown program in tx: ${instruction.programId}`
@@ -325,12 +339,19 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
       setSimulationPreview({
         label: preparedAction.label,
         feeLamports: feeResult.value,
+        computeBudget,
         rentImpactLamports: preparedAction.rentImpactLamports,
-        tokenDeltas: preparedAction.tokenDeltas,
+        expectedDeltas: preparedAction.tokenDeltas,
+        balanceDeltas: accountDiffs.balanceDeltas.filter(
+          (delta) => delta.postLamports !== delta.preLamports
+        ),
+        tokenDeltas: accountDiffs.tokenDeltas.filter(
+          (delta) => delta.postAmount !== delta.preAmount
+        ),
         riskFlags,
         instructions: decodedInstructions,
-        logs: simulationResult.value.logs ?? [],
-        error: formatSimulationError(simulationResult.value.err)
+        logs: simulation.logs ?? [],
+        error: formatSimulationError(simulation.err)
       });
     } catch (unknownError) {
       setStatus({
@@ -345,6 +366,20 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
     }
   }
 
+  // Optional memo goes right before the transfer, with references on the
+  // transfer itself, matching the Solana Pay transfer layout.
+  function buildPaymentInstructions(transfer: TransactionInstruction, payer: PublicKey) {
+    const references = parseReferenceKeys(paymentReferences);
+    const memo = paymentMemo.trim();
+    return {
+      instructions: [
+        ...(memo ? [buildMemoInstruction(memo, [payer])] : []),
+        withReferences(transfer, references)
+      ],
+      references: references.map((reference) => reference.toBase58())
+    };
+  }
+
   async function prepareSendSolAction(): Promise<PreparedAction> {
     if (!publicKey) {
       throw new Error("Connect an identity wallet first.");
@@ -367,15 +402,19 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
       riskFlags.push("Recipient is an external wallet.");
     }
 
+    const payment = buildPaymentInstructions(
+      SystemProgram.transfer({
+        fromPubkey: publicKey,
+        toPubkey: recipient,
+        lamports: Number(lamportsAmount)
+      }),
+      publicKey
+    );
+
     return {
       label: "SOL transfer",
-      instructions: [
-        SystemProgram.transfer({
-          fromPubkey: publicKey,
-          toPubkey: recipient,
-          lamports: Number(lamportsAmount)
-        })
-      ],
+      instructions: payment.instructions,
+      references: payment.references,
       tokenDeltas: [
         {
           asset: "SOL",
@@ -425,7 +464,7 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
       rentImpactLamports -= tokenAccountRent;
     }
 
-    instructions.push(
+    const payment = buildPaymentInstructions(
       createTransferCheckedInstruction(
         sourceAccount,
         mint,
@@ -433,8 +472,10 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
         publicKey,
         amount,
         selectedTokenSource.decimals
-      )
+      ),
+      publicKey
     );
+    instructions.push(...payment.instructions);
 
     const riskFlags: string[] = [];
     if (recipientOwner.toBase58() !== publicKey.toBase58()) {
@@ -447,6 +488,7 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
     return {
       label: "Token transfer",
       instructions,
+      references: payment.references,
       tokenDeltas: [
         {
           asset:
@@ -664,6 +706,7 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
             <ToggleButton value="burn">Burn</ToggleButton>
             <ToggleButton value="close">Close</ToggleButton>
             <ToggleButton value="metaplex-burn">Metaplex Burn</ToggleButton>
+            <ToggleButton value="batch-payout">Batch Payout</ToggleButton>
           </ToggleButtonGroup>
 
           {mode === "send-sol" ? (
@@ -721,6 +764,42 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
             </Stack>
           ) : null}
 
+          {mode === "send-sol" || mode === "send-token" ? (
+            <Stack spacing={1}>
+              <TextField
+                size="small"
+                label="Memo (optional)"
+                value={paymentMemo}
+                onChange={(event) => setPaymentMemo(event.target.value)}
+                fullWidth
+              />
+              <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+                <TextField
+                  size="small"
+                  label="Reference Keys (optional, comma separated)"
+                  value={paymentReferences}
+                  onChange={(event) => setPaymentReferences(event.target.value)}
+                  fullWidth
+                />
+                <Button
+                  variant="outlined"
+                  onClick={() => {
+                    setPaymentReferences((current) =>
+                      [current.trim(), generateReference()].filter(Boolean).join(", ")
+                    );
+                  }}
+                  sx={{ minWidth: 120 }}
+                >
+                  Generate
+                </Button>
+              </Stack>
+              <Typography variant="caption" color="text.secondary">
+                Memos are recorded on-chain for reconciliation. Reference keys let an
+                invoice be matched to this payment by looking up its signatures.
+              </Typography>
+            </Stack>
+          ) : null}
+
           {mode === "burn" ? (
             <Stack spacing={1}>
               <TextField
@@ -804,28 +883,44 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
             </Stack>
           ) : null}
 
-          <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
-            <Button
-              variant="outlined"
-              onClick={() => {
-                void onSimulateCurrentMode();
-              }}
-              disabled={!connected || isSubmitting || isSimulating}
-            >
-              {isSimulating ? "Simulating..." : "Simulate + Decode"}
-            </Button>
-            <Button
-              variant="contained"
-              onClick={() => {
-                void onExecuteCurrentMode();
-              }}
-              disabled={!connected || isSubmitting}
-            >
-              {isSubmitting ? "Submitting..." : "Execute"}
-            </Button>
-          </Stack>
-
-          {simulationPreview ? (
+          {mode === "batch-payout" ? <BatchPayoutPanel holdingsState={holdingsState} /> : null}
+
+          {mode !== "batch-payout" ? (
+            <InstructionExportPanel
+              exportState={instructionExport}
+              modes={["wallet", "unsigned"]}
+              description="Actions are built for the connected wallet. Set the fee payer to the wallet that will sign offline."
+            />
+          ) : null}
+
+          {mode !== "batch-payout" ? (
+            <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+              <Button
+                variant="outlined"
+                onClick={() => {
+                  void onSimulateCurrentMode();
+                }}
+                disabled={!connected || isSubmitting || isSimulating}
+              >
+                {isSimulating ? "Simulating..." : "Simulate + Decode"}
+              </Button>
+              <Button
+                variant="contained"
+                onClick={() => {
+                  void onExecuteCurrentMode();
+                }}
+                disabled={!connected || isSubmitting}
+              >
+                {isSubmitting
+                  ? "Submitting..."
+                  : instructionExport.isExternal
+                    ? "Export Unsigned"
+                    : "Execute"}
+              </Button>
+            </Stack>
+          ) : null}
+
+          {simulationPreview && mode !== "batch-payout" ? (
             <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
               <CardContent sx={{ p: 1.25 }}>
                 <Stack spacing={0.9}>
@@ -843,10 +938,68 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
                     )}{" "}
                     SOL
                   </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Compute:{" "}
+                    {simulationPreview.computeBudget.computeUnitLimit !== null
+                      ? `${simulationPreview.computeBudget.computeUnitLimit.toLocaleString()} CU limit`
+                      : "default limit"}
+                    {simulationPreview.computeBudget.unitsConsumed !== null
+                      ? ` (${simulationPreview.computeBudget.unitsConsumed.toLocaleString()} used)`
+                      : ""}{" "}
+                    | Priority:{" "}
+                    {simulationPreview.computeBudget.microLamports.toLocaleString()} µL/CU (
+                    {(simulationPreview.computeBudget.priorityFeeLamports / 1_000_000_000).toFixed(
+                      6
+                    )}{" "}
+                    SOL)
+                  </Typography>
 
-                  {simulationPreview.tokenDeltas.length > 0 ? (
+                  {simulationPreview.balanceDeltas.length > 0 ||
+                  simulationPreview.tokenDeltas.length > 0 ? (
+                    <>
+                      <Typography variant="caption" color="text.secondary">
+                        Account Changes
+                      </Typography>
+                      <Box sx={{ maxHeight: 160, overflow: "auto" }}>
+                        {simulationPreview.balanceDeltas.map((delta) => (
+                          <Typography
+                            key={delta.address}
+                            variant="caption"
+                            display="block"
+                            color={delta.postLamports > delta.preLamports ? "success.main" : "warning.main"}
+                            sx={{ fontFamily: "var(--font-mono), monospace" }}
+                          >
+                            {shortenAddress(delta.address)}
+                            {delta.address === publicKey?.toBase58() ? " (you)" : ""}{" "}
+                            {formatSignedBaseUnits(
+                              BigInt(delta.postLamports - delta.preLamports),
+                              9
+                            )}{" "}
+                            SOL
+                          </Typography>
+                        ))}
+                        {simulationPreview.tokenDeltas.map((delta) => (
+                          <Typography
+                            key={delta.account}
+                            variant="caption"
+                            display="block"
+                            color={delta.postAmount > delta.preAmount ? "success.main" : "warning.main"}
+                            sx={{ fontFamily: "var(--font-mono), monospace" }}
+                          >
+                            {shortenAddress(delta.account)}
+                            {delta.owner === publicKey?.toBase58() ? " (you)" : ""}{" "}
+                            {formatSignedBaseUnits(delta.postAmount - delta.preAmount, delta.decimals)}{" "}
+                            {getTokenMetadata(delta.mint)?.symbol || shortenAddress(delta.mint)}
+                          </Typography>
+                        ))}
+                      </Box>
+                    </>
+                  ) : simulationPreview.expectedDeltas.length > 0 ? (
                     <Stack direction="row" spacing={0.6} useFlexGap flexWrap="wrap">
-                      {simulationPreview.tokenDeltas.map((delta, index) => (
+                      <Typography variant="caption" color="text.secondary">
+                        Expected:
+                      </Typography>
+                      {simulationPreview.expectedDeltas.map((delta, index) => (
                         <Chip
                           key={`${delta.asset}-${index}`}
                           size="small"
@@ -878,36 +1031,10 @@ export function IdentityActions({ holdingsState }: IdentityActionsProps) {
                   <Typography variant="caption" color="text.secondary">
                     Exact Instructions ({simulationPreview.instructions.length})
                   </Typography>
-                  <Box sx={{ maxHeight: 180, overflow: "auto", display: "grid", gap: 0.5 }}>
-                    {simulationPreview.instructions.map((instruction, index) => (
-                      <Box
-                        key={`${instruction.programId}-${index}`}
-                        sx={{
-                          p: 0.7,
-                          border: "1px solid",
-                          borderColor: "divider",
-                          borderRadius: 1
-                        }}
-                      >
-                        <Typography variant="caption">
-                          #{index + 1} {instruction.programLabel} ({instruction.programId})
-                        </Typography>
-                        <Typography variant="caption" display="block" color="text.secondary">
-                          Data bytes: {instruction.dataLength}
-                        </Typography>
-                        {instruction.accounts.map((account) => (
-                          <Typography
-                            key={account}
-                            variant="caption"
-                            display="block"
-                            sx={{ fontFamily: "var(--font-mono), monospace" }}
-                          >
-                            {account}
-                          </Typography>
-                        ))}
-                      </Box>
-                    ))}
-                  </Box>
+                  <DecodedInstructionList
+                    instructions={simulationPreview.instructions}
+                    maxHeight={240}
+                  />
 
                   {simulationPreview.logs.length > 0 ? (
                     <>
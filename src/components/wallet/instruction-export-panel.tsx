@@ -0,0 +1,221 @@
+"use client";
+
+import {
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import type { InstructionExportState } from "@/hooks/use-instruction-export";
+import type { InstructionExport, InstructionExportMode } from "@/lib/multisig-export";
+import { serializeOfflineTransactionFile } from "@/lib/offline-signing";
+
+type InstructionExportPanelProps = {
+  exportState: InstructionExportState;
+  description?: string;
+  modes?: InstructionExportMode[];
+};
+
+const MODE_OPTIONS: Array<{ value: InstructionExportMode; label: string }> = [
+  { value: "wallet", label: "Sign with connected wallet" },
+  { value: "squads", label: "Squads v4 vault proposal" },
+  { value: "unsigned", label: "Unsigned transaction export" }
+];
+
+function downloadOfflineTransactionFile(result: InstructionExport) {
+  const blob = new Blob([serializeOfflineTransactionFile(result)], {
+    type: "application/json"
+  });
+  const url = window.URL.createObjectURL(blob);
+  const anchor = document.createElement("a");
+  anchor.href = url;
+  anchor.download = `unsigned-transaction-${Date.now()}.json`;
+  document.body.appendChild(anchor);
+  anchor.click();
+  document.body.removeChild(anchor);
+  window.URL.revokeObjectURL(url);
+}
+
+function ExportValue({ label, value }: { label: string; value: string }) {
+  return (
+    <Stack spacing={0.4}>
+      <Stack direction="row" justifyContent="space-between" alignItems="center">
+        <Typography variant="caption" color="text.secondary">
+          {label}
+        </Typography>
+        <Button
+          size="small"
+          onClick={() => {
+            void navigator.clipboard.writeText(value);
+          }}
+        >
+          Copy
+        </Button>
+      </Stack>
+      <Typography
+        variant="caption"
+        sx={{
+          fontFamily: "var(--font-mono), monospace",
+          wordBreak: "break-all",
+          maxHeight: 96,
+          overflow: "auto"
+        }}
+      >
+        {value}
+      </Typography>
+    </Stack>
+  );
+}
+
+export function InstructionExportPanel({
+  exportState,
+  description,
+  modes
+}: InstructionExportPanelProps) {
+  const { mode, result } = exportState;
+
+  return (
+    <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+      <CardContent sx={{ p: 1.2 }}>
+        <Stack spacing={1}>
+          <TextField
+            select
+            size="small"
+            label="Execution"
+            value={mode}
+            onChange={(event) => {
+              exportState.setMode(event.target.value as InstructionExportMode);
+              exportState.clearResult();
+            }}
+          >
+            {MODE_OPTIONS.filter((option) => !modes || modes.includes(option.value)).map(
+              (option) => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              )
+            )}
+          </TextField>
+          {description && mode !== "wallet" ? (
+            <Typography variant="caption" color="text.secondary">
+              {description}
+            </Typography>
+          ) : null}
+          {mode === "squads" ? (
+            <>
+              <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                <TextField
+                  size="small"
+                  fullWidth
+                  label="Squads Multisig Address"
+                  value={exportState.multisigAddress}
+                  onChange={(event) => {
+                    exportState.setMultisigAddress(event.target.value);
+                  }}
+                />
+                <TextField
+                  size="small"
+                  label="Vault Index"
+                  value={exportState.vaultIndex}
+                  onChange={(event) => {
+                    exportState.setVaultIndex(event.target.value);
+                  }}
+                  sx={{ minWidth: 120 }}
+                />
+              </Stack>
+              <Typography variant="caption" color="text.secondary" sx={{ wordBreak: "break-all" }}>
+                Vault authority: {exportState.vaultAddress || "enter a valid multisig address"}.
+                The connected wallet must be a member with the Initiate permission.
+              </Typography>
+            </>
+          ) : null}
+          {mode === "unsigned" ? (
+            <>
+              <TextField
+                size="small"
+                label="Authority / Fee Payer (empty = connected wallet)"
+                value={exportState.unsignedAuthority}
+                onChange={(event) => {
+                  exportState.setUnsignedAuthority(event.target.value);
+                }}
+              />
+              <TextField
+                size="small"
+                label={
+                  exportState.selectedNonceAccount
+                    ? "Durable Nonce Account (empty = selected nonce)"
+                    : "Durable Nonce Account (optional)"
+                }
+                value={exportState.nonceAccount}
+                onChange={(event) => {
+                  exportState.setNonceAccount(event.target.value);
+                }}
+                helperText="Use a nonce account so the transaction can be signed offline without expiring."
+              />
+            </>
+          ) : null}
+          {result ? (
+            <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+              <CardContent sx={{ p: 1.2 }}>
+                <Stack spacing={0.8}>
+                  <Typography variant="subtitle2">
+                    {result.mode === "squads" ? "Squads Vault Transaction" : "Unsigned Transaction"}
+                  </Typography>
+                  {result.proposal ? (
+                    <Typography variant="caption" color="text.secondary" sx={{ wordBreak: "break-all" }}>
+                      Proposal #{result.transactionIndex}: {result.proposal} · Vault {result.vault} ·{" "}
+                      {result.approvalThreshold} approval(s) required
+                    </Typography>
+                  ) : null}
+                  <Stack spacing={0.4}>
+                    <Typography variant="caption" color="text.secondary">
+                      Required Signers
+                    </Typography>
+                    <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                      {result.requiredSigners.map((signer) => (
+                        <Chip
+                          key={signer.address}
+                          size="small"
+                          variant="outlined"
+                          label={`${signer.address}${signer.writable ? " (writable)" : ""}`}
+                        />
+                      ))}
+                    </Stack>
+                  </Stack>
+                  <ExportValue label="Message (base58)" value={result.messageBase58} />
+                  <ExportValue label="Message (base64)" value={result.messageBase64} />
+                  {result.transactionBase64 ? (
+                    <>
+                      <ExportValue
+                        label="Unsigned Transaction (base64)"
+                        value={result.transactionBase64}
+                      />
+                      {result.nonceAccount ? (
+                        <Typography variant="caption" color="text.secondary" sx={{ wordBreak: "break-all" }}>
+                          Durable nonce account: {result.nonceAccount}
+                        </Typography>
+                      ) : null}
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        onClick={() => {
+                          downloadOfflineTransactionFile(result);
+                        }}
+                      >
+                        Download for Offline Signing
+                      </Button>
+                    </>
+                  ) : null}
+                </Stack>
+              </CardContent>
+            </Card>
+          ) : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
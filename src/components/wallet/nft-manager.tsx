@@ -47,8 +47,11 @@ import {
   TextField,
   Typography
 } from "@mui/material";
+import { useInstructionExport } from "@/hooks/use-instruction-export";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
 import type { WalletHoldingsState } from "@/hooks/use-wallet-holdings";
 import { CandyMachineManager } from "@/components/wallet/candy-machine-manager";
+import { InstructionExportPanel } from "@/components/wallet/instruction-export-panel";
 
 type NftManagerProps = {
   holdingsState: WalletHoldingsState;
@@ -141,7 +144,9 @@ function parseMintLines(input: string): string[] {
 
 export function NftManager({ holdingsState }: NftManagerProps) {
   const { connection } = useConnection();
-  const { publicKey, connected, sendTransaction } = useWallet();
+  const { publicKey, connected } = useWallet();
+  const { sendAndConfirm } = useTransactionPipeline();
+  const instructionExport = useInstructionExport();
   const { refresh } = holdingsState;
 
   const [status, setStatus] = useState<StatusState>(null);
@@ -185,12 +190,16 @@ export function NftManager({ holdingsState }: NftManagerProps) {
     if (!publicKey) {
       throw new Error("Connect your wallet first.");
     }
-    const signature = await sendTransaction(transaction, connection, { signers });
-    await connection.confirmTransaction(signature, "confirmed");
+    const signature = await sendAndConfirm(transaction, { signers });
     refresh();
     return signature;
   };
 
+  const exportInstructions = async (instructions: TransactionInstruction[]) => {
+    const outcome = await instructionExport.submit(instructions);
+    setStatus({ severity: "success", ...outcome });
+  };
+
   const createMetadataInstruction = (
     mintPublicKey: PublicKey,
     updateAuthority: PublicKey,
@@ -552,9 +561,10 @@ export function NftManager({ holdingsState }: NftManagerProps) {
     try {
       const mintPublicKey = new PublicKey(sendMintAddress.trim());
       const destinationOwner = new PublicKey(sendDestination.trim());
+      const owner = instructionExport.resolveAuthority();
       const sourceAta = getAssociatedTokenAddressSync(
         mintPublicKey,
-        publicKey,
+        owner,
         false,
         TOKEN_PROGRAM_ID,
         ASSOCIATED_TOKEN_PROGRAM_ID
@@ -578,7 +588,11 @@ export function NftManager({ holdingsState }: NftManagerProps) {
         throw new Error("Source mint is not a 0-decimal NFT.");
       }
       if (BigInt(sourceTokenAmount.amount ?? "0") < 1n) {
-        throw new Error("You do not hold this NFT.");
+        throw new Error(
+          instructionExport.isExternal
+            ? "Signing authority does not hold this NFT."
+            : "You do not hold this NFT."
+        );
       }
 
       const destinationAta = getAssociatedTokenAddressSync(
@@ -597,7 +611,7 @@ export function NftManager({ holdingsState }: NftManagerProps) {
       if (!destinationAtaInfo) {
         transaction.add(
           createAssociatedTokenAccountInstruction(
-            publicKey,
+            owner,
             destinationAta,
             destinationOwner,
             mintPublicKey,
@@ -611,13 +625,17 @@ export function NftManager({ holdingsState }: NftManagerProps) {
           sourceAta,
           mintPublicKey,
           destinationAta,
-          publicKey,
+          owner,
           1,
           0,
           [],
           TOKEN_PROGRAM_ID
         )
       );
+      if (instructionExport.isExternal) {
+        await exportInstructions(transaction.instructions);
+        return;
+      }
 
       const signature = await runWalletTransaction(transaction);
       setStatus({
@@ -706,11 +724,12 @@ export function NftManager({ holdingsState }: NftManagerProps) {
         throw new Error("Add at least one mint address or load managed NFTs.");
       }
 
+      const updateAuthority = instructionExport.resolveAuthority();
       const instructions = await Promise.all(
         targetMints.map(async (mint) => {
           const mintPublicKey = new PublicKey(mint);
           const metadata = await parseMetadataForMint(mintPublicKey);
-          if (metadata.updateAuthority !== publicKey.toBase58()) {
+          if (metadata.updateAuthority !== updateAuthority.toBase58()) {
             throw new Error(
               `Wallet is not update authority for mint ${mintPublicKey.toBase58()}.`
             );
@@ -743,12 +762,16 @@ export function NftManager({ holdingsState }: NftManagerProps) {
                 isSigner: false,
                 isWritable: true
               },
-              { pubkey: publicKey, isSigner: true, isWritable: false }
+              { pubkey: updateAuthority, isSigner: true, isWritable: false }
             ],
             data: Buffer.from(serializedData)
           });
         })
       );
+      if (instructionExport.isExternal) {
+        await exportInstructions(instructions);
+        return;
+      }
 
       const groupedInstructions = chunkArray(instructions, 6);
       const signatures: string[] = [];
@@ -806,7 +829,8 @@ export function NftManager({ holdingsState }: NftManagerProps) {
         ? findMasterEditionPda(collectionMintPublicKey)
         : null;
 
-      const walletAddress = publicKey.toBase58();
+      const authority = instructionExport.resolveAuthority();
+      const walletAddress = authority.toBase58();
       const instructions = await Promise.all(
         targetMints.map(async (mintAddress) => {
           const targetMint = new PublicKey(mintAddress);
@@ -838,7 +862,7 @@ export function NftManager({ holdingsState }: NftManagerProps) {
               programId: TOKEN_METADATA_PROGRAM_ID,
               keys: [
                 { pubkey: metadata.metadataPda, isSigner: false, isWritable: true },
-                { pubkey: publicKey, isSigner: true, isWritable: false }
+                { pubkey: authority, isSigner: true, isWritable: false }
               ],
               data: Buffer.from(clearData)
             });
@@ -861,9 +885,9 @@ export function NftManager({ holdingsState }: NftManagerProps) {
               programId: TOKEN_METADATA_PROGRAM_ID,
               keys: [
                 { pubkey: metadata.metadataPda, isSigner: false, isWritable: true },
-                { pubkey: publicKey, isSigner: true, isWritable: true },
-                { pubkey: publicKey, isSigner: true, isWritable: true },
-                { pubkey: publicKey, isSigner: false, isWritable: false },
+                { pubkey: authority, isSigner: true, isWritable: true },
+                { pubkey: authority, isSigner: true, isWritable: true },
+                { pubkey: authority, isSigner: false, isWritable: false },
                 {
                   pubkey: collectionMintPublicKey,
                   isSigner: false,
@@ -887,8 +911,8 @@ export function NftManager({ holdingsState }: NftManagerProps) {
               programId: TOKEN_METADATA_PROGRAM_ID,
               keys: [
                 { pubkey: metadata.metadataPda, isSigner: false, isWritable: true },
-                { pubkey: publicKey, isSigner: true, isWritable: true },
-                { pubkey: publicKey, isSigner: true, isWritable: true },
+                { pubkey: authority, isSigner: true, isWritable: true },
+                { pubkey: authority, isSigner: true, isWritable: true },
                 {
                   pubkey: collectionMintPublicKey,
                   isSigner: false,
@@ -911,7 +935,7 @@ export function NftManager({ holdingsState }: NftManagerProps) {
             programId: TOKEN_METADATA_PROGRAM_ID,
             keys: [
               { pubkey: metadata.metadataPda, isSigner: false, isWritable: true },
-              { pubkey: publicKey, isSigner: true, isWritable: true },
+              { pubkey: authority, isSigner: true, isWritable: true },
               { pubkey: collectionMintPublicKey, isSigner: false, isWritable: false },
               { pubkey: collectionMetadataPda, isSigner: false, isWritable: false },
               {
@@ -925,6 +949,11 @@ export function NftManager({ holdingsState }: NftManagerProps) {
         })
       );
 
+      if (instructionExport.isExternal) {
+        await exportInstructions(instructions);
+        return;
+      }
+
       const groupedInstructions = chunkArray(instructions, 5);
       const signatures: string[] = [];
       for (const instructionChunk of groupedInstructions) {
@@ -976,6 +1005,11 @@ export function NftManager({ holdingsState }: NftManagerProps) {
             Manage NFT minting and metadata operations from your connected wallet.
           </Typography>
 
+          <InstructionExportPanel
+            exportState={instructionExport}
+            description="Squads and unsigned export apply to Send NFT, batch metadata URI pushes and collection authority actions."
+          />
+
           {status ? (
             <Alert
               severity={status.severity}
@@ -0,0 +1,397 @@
+"use client";
+
+import { useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import {
+  Keypair,
+  LAMPORTS_PER_SOL,
+  NONCE_ACCOUNT_LENGTH,
+  PublicKey,
+  SystemProgram,
+  Transaction
+} from "@solana/web3.js";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import { useDurableNonce } from "@/components/providers/durable-nonce-provider";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
+import { fetchNonceAccountsByAuthority, type NonceAccountRow } from "@/lib/durable-nonce";
+
+type NonceStatus = {
+  severity: "success" | "error";
+  message: string;
+  signature?: string;
+} | null;
+
+function formatLamportsSol(lamports: number) {
+  return (lamports / LAMPORTS_PER_SOL).toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 9
+  });
+}
+
+function parseSolAmount(value: string) {
+  const parsed = Number(value.trim());
+  if (!Number.isFinite(parsed) || parsed <= 0) {
+    throw new Error("Enter a positive SOL amount.");
+  }
+  return Math.round(parsed * LAMPORTS_PER_SOL);
+}
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+export function NonceAccountManager() {
+  const { connection } = useConnection();
+  const { connected, publicKey } = useWallet();
+  const { sendAndConfirm } = useTransactionPipeline();
+  const { selectedNonceAccount, setSelectedNonceAccount } = useDurableNonce();
+
+  const [rows, setRows] = useState<NonceAccountRow[]>([]);
+  const [fundingAmount, setFundingAmount] = useState("");
+  const [withdrawAmount, setWithdrawAmount] = useState("");
+  const [withdrawRecipient, setWithdrawRecipient] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<NonceStatus>(null);
+
+  async function loadNonceAccounts() {
+    if (!publicKey) {
+      return;
+    }
+    setIsLoading(true);
+    try {
+      setRows(await fetchNonceAccountsByAuthority(connection, publicKey));
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to load nonce accounts."
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  // Nonce admin transactions always use a recent blockhash so the selected
+  // nonce is never advanced twice in one transaction.
+  async function runNonceTransaction(
+    buildTransaction: (authority: PublicKey) => Promise<{
+      transaction: Transaction;
+      signers?: Keypair[];
+      message: string;
+      onConfirmed?: () => void;
+    }>
+  ) {
+    if (!connected || !publicKey) {
+      setStatus({
+        severity: "error",
+        message: "Connect an identity wallet to manage nonce accounts."
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const { transaction, signers, message, onConfirmed } = await buildTransaction(publicKey);
+      const signature = await sendAndConfirm(transaction, {
+        signers,
+        skipDurableNonce: true
+      });
+      onConfirmed?.();
+      setStatus({ severity: "success", message, signature });
+      await loadNonceAccounts();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Nonce account transaction failed."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  }
+
+  async function createNonceAccount() {
+    await runNonceTransaction(async (authority) => {
+      const rentExemptLamports =
+        await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+      const lamports = fundingAmount.trim()
+        ? parseSolAmount(fundingAmount)
+        : rentExemptLamports;
+      if (lamports < rentExemptLamports) {
+        throw new Error(
+          `Nonce accounts need at least ${formatLamportsSol(rentExemptLamports)} SOL for rent.`
+        );
+      }
+      const nonceKeypair = Keypair.generate();
+      return {
+        transaction: new Transaction({ feePayer: authority }).add(
+          SystemProgram.createNonceAccount({
+            fromPubkey: authority,
+            noncePubkey: nonceKeypair.publicKey,
+            authorizedPubkey: authority,
+            lamports
+          })
+        ),
+        signers: [nonceKeypair],
+        message: `Created nonce account ${nonceKeypair.publicKey.toBase58()}.`
+      };
+    });
+  }
+
+  async function advanceNonce(row: NonceAccountRow) {
+    await runNonceTransaction(async (authority) => ({
+      transaction: new Transaction({ feePayer: authority }).add(
+        SystemProgram.nonceAdvance({
+          noncePubkey: new PublicKey(row.address),
+          authorizedPubkey: authority
+        })
+      ),
+      message: `Advanced nonce ${shortenAddress(row.address)}.`
+    }));
+  }
+
+  async function withdrawFromNonce(row: NonceAccountRow, closeAccount: boolean) {
+    await runNonceTransaction(async (authority) => {
+      const recipient = withdrawRecipient.trim()
+        ? new PublicKey(withdrawRecipient.trim())
+        : authority;
+      let lamports = row.lamports;
+      if (!closeAccount) {
+        const rentExemptLamports =
+          await connection.getMinimumBalanceForRentExemption(NONCE_ACCOUNT_LENGTH);
+        lamports = parseSolAmount(withdrawAmount);
+        if (lamports > row.lamports - rentExemptLamports) {
+          throw new Error(
+            `At most ${formatLamportsSol(Math.max(row.lamports - rentExemptLamports, 0))} SOL can be withdrawn without closing the account.`
+          );
+        }
+      }
+      return {
+        transaction: new Transaction({ feePayer: authority }).add(
+          SystemProgram.nonceWithdraw({
+            noncePubkey: new PublicKey(row.address),
+            authorizedPubkey: authority,
+            toPubkey: recipient,
+            lamports
+          })
+        ),
+        message: closeAccount
+          ? `Closed nonce ${shortenAddress(row.address)} and returned ${formatLamportsSol(lamports)} SOL.`
+          : `Withdrew ${formatLamportsSol(lamports)} SOL from nonce ${shortenAddress(row.address)}.`,
+        onConfirmed: () => {
+          if (closeAccount && selectedNonceAccount === row.address) {
+            setSelectedNonceAccount(null);
+          }
+        }
+      };
+    });
+  }
+
+  return (
+    <Card className="fx-card" variant="outlined" sx={{ borderRadius: 2 }}>
+      <CardContent sx={{ p: 1.75 }}>
+        <Stack spacing={1.2}>
+          <Typography variant="subtitle2">Durable Nonce Accounts</Typography>
+          <Typography variant="caption" color="text.secondary">
+            System Program nonce accounts controlled by the connected wallet. Select one to
+            have every transaction in the app use it instead of a recent blockhash.
+          </Typography>
+          {selectedNonceAccount ? (
+            <Alert
+              severity="info"
+              action={
+                <Button
+                  size="small"
+                  onClick={() => {
+                    setSelectedNonceAccount(null);
+                  }}
+                >
+                  Clear
+                </Button>
+              }
+              sx={{ wordBreak: "break-all" }}
+            >
+              Transactions use durable nonce {selectedNonceAccount}. Batches are sent one
+              transaction at a time.
+            </Alert>
+          ) : null}
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+            <TextField
+              size="small"
+              fullWidth
+              label="Funding (SOL, empty = rent-exempt minimum)"
+              value={fundingAmount}
+              onChange={(event) => {
+                setFundingAmount(event.target.value);
+              }}
+            />
+            <Button
+              variant="contained"
+              onClick={() => {
+                void createNonceAccount();
+              }}
+              disabled={!connected || isSubmitting}
+              sx={{ minWidth: 160 }}
+            >
+              Create Nonce
+            </Button>
+          </Stack>
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+            <TextField
+              size="small"
+              label="Withdraw Amount (SOL)"
+              value={withdrawAmount}
+              onChange={(event) => {
+                setWithdrawAmount(event.target.value);
+              }}
+            />
+            <TextField
+              size="small"
+              fullWidth
+              label="Withdraw Recipient (empty = connected wallet)"
+              value={withdrawRecipient}
+              onChange={(event) => {
+                setWithdrawRecipient(event.target.value);
+              }}
+            />
+          </Stack>
+          <Button
+            variant="outlined"
+            onClick={() => {
+              setStatus(null);
+              void loadNonceAccounts();
+            }}
+            disabled={!connected || isLoading}
+          >
+            {isLoading ? "Loading..." : "Load Nonce Accounts"}
+          </Button>
+
+          {rows.length === 0 ? (
+            <Typography variant="body2" color="text.secondary">
+              No nonce accounts loaded yet.
+            </Typography>
+          ) : (
+            <Box
+              sx={{
+                maxHeight: 320,
+                overflow: "auto",
+                border: "1px solid",
+                borderColor: "divider",
+                borderRadius: 1.5,
+                p: 0.7
+              }}
+            >
+              <Stack spacing={0.7}>
+                {rows.map((row) => {
+                  const isSelected = selectedNonceAccount === row.address;
+                  return (
+                    <Card key={row.address} variant="outlined" sx={{ borderRadius: 1.5 }}>
+                      <CardContent sx={{ p: "10px !important" }}>
+                        <Stack spacing={0.7}>
+                          <Typography
+                            variant="caption"
+                            sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                          >
+                            {row.address}
+                          </Typography>
+                          <Typography
+                            variant="caption"
+                            color="text.secondary"
+                            sx={{ wordBreak: "break-all" }}
+                          >
+                            Nonce: {row.nonce}
+                          </Typography>
+                          <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                            <Chip
+                              size="small"
+                              variant="outlined"
+                              label={`${formatLamportsSol(row.lamports)} SOL`}
+                            />
+                            <Chip
+                              size="small"
+                              variant="outlined"
+                              label={`${row.lamportsPerSignature} lamports/signature`}
+                            />
+                            {isSelected ? (
+                              <Chip size="small" color="success" label="In use" />
+                            ) : null}
+                          </Stack>
+                          <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                            <Button
+                              size="small"
+                              variant={isSelected ? "contained" : "outlined"}
+                              onClick={() => {
+                                setSelectedNonceAccount(isSelected ? null : row.address);
+                              }}
+                            >
+                              {isSelected ? "Stop Using" : "Use for Transactions"}
+                            </Button>
+                            <Button
+                              size="small"
+                              onClick={() => {
+                                void advanceNonce(row);
+                              }}
+                              disabled={isSubmitting}
+                            >
+                              Advance
+                            </Button>
+                            <Button
+                              size="small"
+                              onClick={() => {
+                                void withdrawFromNonce(row, false);
+                              }}
+                              disabled={isSubmitting || !withdrawAmount.trim()}
+                            >
+                              Withdraw
+                            </Button>
+                            <Button
+                              size="small"
+                              color="warning"
+                              onClick={() => {
+                                void withdrawFromNonce(row, true);
+                              }}
+                              disabled={isSubmitting}
+                            >
+                              Close
+                            </Button>
+                          </Stack>
+                        </Stack>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </Stack>
+            </Box>
+          )}
+
+          <Alert severity="warning">
+            Advancing or closing a nonce invalidates every transaction that was signed
+            against it.
+          </Alert>
+          {status ? (
+            <Alert severity={status.severity}>
+              {status.message}
+              {status.signature ? ` Signature: ${status.signature}` : ""}
+            </Alert>
+          ) : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
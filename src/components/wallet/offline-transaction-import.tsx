@@ -0,0 +1,289 @@
+"use client";
+
+import { useState, type ChangeEvent } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import { DecodedInstructionList } from "@/components/wallet/decoded-instruction-list";
+import { fetchDurableNonce } from "@/lib/durable-nonce";
+import { decodeInstructions } from "@/lib/instruction-decoder";
+import {
+  confirmBlockhashTransaction,
+  parseOfflineTransactionInput,
+  reviewOfflineTransaction,
+  type OfflineTransactionReview
+} from "@/lib/offline-signing";
+
+type ImportStatus = {
+  severity: "success" | "error" | "warning";
+  message: string;
+  signature?: string;
+} | null;
+
+function parseSignerList(value: string) {
+  return value
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => new PublicKey(entry).toBase58());
+}
+
+export function OfflineTransactionImport() {
+  const { connection } = useConnection();
+
+  const [input, setInput] = useState("");
+  const [expectedSignersInput, setExpectedSignersInput] = useState("");
+  const [review, setReview] = useState<OfflineTransactionReview | null>(null);
+  const [nonceAdvanced, setNonceAdvanced] = useState(false);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [isBroadcasting, setIsBroadcasting] = useState(false);
+  const [status, setStatus] = useState<ImportStatus>(null);
+
+  const unexpectedSigners = review
+    ? review.signers.filter((signer) => !signer.expected).map((signer) => signer.address)
+    : [];
+  const canBroadcast =
+    review !== null &&
+    review.fullySigned &&
+    review.signaturesValid &&
+    review.missingExpectedSigners.length === 0 &&
+    review.signers.every((signer) => signer.expected) &&
+    !nonceAdvanced;
+
+  async function loadFile(event: ChangeEvent<HTMLInputElement>) {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) {
+      return;
+    }
+    setInput(await file.text());
+    setReview(null);
+    setStatus(null);
+  }
+
+  async function reviewTransaction() {
+    setIsReviewing(true);
+    setStatus(null);
+    setReview(null);
+    setNonceAdvanced(false);
+    try {
+      const parsed = parseOfflineTransactionInput(input);
+      const manualSigners = parseSignerList(expectedSignersInput);
+      const nextReview = reviewOfflineTransaction(
+        parsed.transaction,
+        manualSigners.length > 0 ? manualSigners : parsed.expectedSigners
+      );
+      setReview(nextReview);
+
+      if (nextReview.nonce) {
+        const nonceAccount = await connection.getNonce(
+          new PublicKey(nextReview.nonce.account),
+          "confirmed"
+        );
+        if (!nonceAccount || nonceAccount.nonce !== nextReview.nonce.value) {
+          setNonceAdvanced(true);
+          setStatus({
+            severity: "warning",
+            message:
+              "The durable nonce has already advanced. This transaction was used or replaced and can no longer land."
+          });
+        }
+      }
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to read the signed transaction."
+      });
+    } finally {
+      setIsReviewing(false);
+    }
+  }
+
+  async function broadcastTransaction() {
+    if (!review || !canBroadcast) {
+      return;
+    }
+
+    setIsBroadcasting(true);
+    setStatus(null);
+    try {
+      const rawTransaction = review.transaction.serialize();
+      if (review.nonce) {
+        const durableNonce = await fetchDurableNonce(
+          connection,
+          new PublicKey(review.nonce.account)
+        );
+        const signature = await connection.sendRawTransaction(rawTransaction, {
+          preflightCommitment: "confirmed"
+        });
+        await connection.confirmTransaction(
+          {
+            signature,
+            nonceAccountPubkey: durableNonce.address,
+            nonceValue: review.nonce.value,
+            minContextSlot: durableNonce.minContextSlot
+          },
+          "confirmed"
+        );
+        setStatus({ severity: "success", message: "Transaction confirmed.", signature });
+      } else {
+        const signature = await connection.sendRawTransaction(rawTransaction, {
+          preflightCommitment: "confirmed"
+        });
+        await confirmBlockhashTransaction(
+          connection,
+          signature,
+          review.transaction.recentBlockhash ?? ""
+        );
+        setStatus({ severity: "success", message: "Transaction confirmed.", signature });
+      }
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error ? unknownError.message : "Broadcast failed."
+      });
+    } finally {
+      setIsBroadcasting(false);
+    }
+  }
+
+  return (
+    <Card className="fx-card" variant="outlined" sx={{ borderRadius: 2 }}>
+      <CardContent sx={{ p: 1.75 }}>
+        <Stack spacing={1.2}>
+          <Typography variant="subtitle2">Offline Signing Import</Typography>
+          <Typography variant="caption" color="text.secondary">
+            Load a transaction signed on an air-gapped machine, check its signatures and
+            instructions, then broadcast it from here.
+          </Typography>
+          <TextField
+            size="small"
+            label="Signed Transaction (export file JSON, base64 or base58)"
+            value={input}
+            onChange={(event) => {
+              setInput(event.target.value);
+              setReview(null);
+            }}
+            multiline
+            minRows={3}
+            maxRows={8}
+          />
+          <TextField
+            size="small"
+            label="Expected Signers (optional, overrides the export file)"
+            value={expectedSignersInput}
+            onChange={(event) => {
+              setExpectedSignersInput(event.target.value);
+            }}
+            multiline
+            minRows={1}
+            maxRows={4}
+          />
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+            <Button variant="outlined" component="label">
+              Load File
+              <input
+                hidden
+                type="file"
+                accept=".json,.txt,application/json,text/plain"
+                onChange={(event) => {
+                  void loadFile(event);
+                }}
+              />
+            </Button>
+            <Button
+              variant="outlined"
+              onClick={() => {
+                void reviewTransaction();
+              }}
+              disabled={!input.trim() || isReviewing}
+            >
+              {isReviewing ? "Checking..." : "Verify + Decode"}
+            </Button>
+            <Button
+              variant="contained"
+              onClick={() => {
+                void broadcastTransaction();
+              }}
+              disabled={!canBroadcast || isBroadcasting}
+            >
+              {isBroadcasting ? "Broadcasting..." : "Broadcast"}
+            </Button>
+          </Stack>
+
+          {review ? (
+            <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+              <CardContent sx={{ p: 1.25 }}>
+                <Stack spacing={0.9}>
+                  <Typography variant="subtitle2">Signers</Typography>
+                  <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                    {review.signers.map((signer) => (
+                      <Chip
+                        key={signer.address}
+                        size="small"
+                        variant="outlined"
+                        color={!signer.expected ? "warning" : signer.signed ? "success" : "error"}
+                        label={`${signer.address} · ${
+                          !signer.expected ? "unexpected" : signer.signed ? "signed" : "missing"
+                        }`}
+                      />
+                    ))}
+                  </Stack>
+                  {!review.signaturesValid ? (
+                    <Alert severity="error">
+                      One or more signatures do not match the transaction message.
+                    </Alert>
+                  ) : null}
+                  {!review.fullySigned ? (
+                    <Alert severity="warning">Transaction is not fully signed yet.</Alert>
+                  ) : null}
+                  {review.missingExpectedSigners.length > 0 ? (
+                    <Alert severity="error">
+                      Expected signers are not part of this transaction:{" "}
+                      {review.missingExpectedSigners.join(", ")}
+                    </Alert>
+                  ) : null}
+                  {unexpectedSigners.length > 0 ? (
+                    <Alert severity="error">
+                      Broadcast is blocked: the transaction requires signers that are not on the
+                      expected list: {unexpectedSigners.join(", ")}
+                    </Alert>
+                  ) : null}
+                  <Typography variant="caption" color="text.secondary" sx={{ wordBreak: "break-all" }}>
+                    {review.nonce
+                      ? `Durable nonce ${review.nonce.account} (authority ${review.nonce.authority}) · value ${review.nonce.value}`
+                      : `Recent blockhash ${review.transaction.recentBlockhash || "missing"} · expires about a minute after it was fetched`}
+                  </Typography>
+                  <Typography variant="subtitle2">Decoded Instructions</Typography>
+                  <DecodedInstructionList
+                    instructions={decodeInstructions(review.transaction.instructions)}
+                  />
+                </Stack>
+              </CardContent>
+            </Card>
+          ) : null}
+
+          {status ? (
+            <Alert severity={status.severity}>
+              {status.message}
+              {status.signature ? ` Signature: ${status.signature}` : ""}
+            </Alert>
+          ) : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
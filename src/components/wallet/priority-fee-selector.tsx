@@ -0,0 +1,154 @@
+"use client";
+
+import { useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { Button, MenuItem, Stack, TextField, Typography } from "@mui/material";
+import { usePriorityFee } from "@/components/providers/priority-fee-provider";
+import {
+  DEFAULT_PRIORITY_FEE_SETTINGS,
+  PRIORITY_FEE_PRESET_OPTIONS,
+  fetchPriorityFeeEstimates,
+  type PriorityFeeEstimates,
+  type PriorityFeePreset
+} from "@/lib/transaction-pipeline";
+
+type PriorityFeeSelectorProps = {
+  title?: string;
+  showTitle?: boolean;
+};
+
+function formatMicroLamports(value: number) {
+  return `${value.toLocaleString()} µL/CU`;
+}
+
+export function PriorityFeeSelector({
+  title = "Priority Fee",
+  showTitle = true
+}: PriorityFeeSelectorProps) {
+  const { connection } = useConnection();
+  const { settings, setSettings, resetSettings } = usePriorityFee();
+  const [customInput, setCustomInput] = useState(String(settings.customMicroLamports));
+  const [estimates, setEstimates] = useState<PriorityFeeEstimates | null>(null);
+  const [isLoadingEstimates, setIsLoadingEstimates] = useState(false);
+  const [estimateError, setEstimateError] = useState<string | null>(null);
+
+  const parsedCustom = Number(customInput);
+  const canApplyCustom =
+    customInput.trim().length > 0 &&
+    Number.isInteger(parsedCustom) &&
+    parsedCustom >= 0 &&
+    parsedCustom !== settings.customMicroLamports;
+
+  const loadEstimates = async () => {
+    setIsLoadingEstimates(true);
+    setEstimateError(null);
+    try {
+      setEstimates(await fetchPriorityFeeEstimates(connection));
+    } catch (unknownError) {
+      setEstimateError(
+        unknownError instanceof Error
+          ? unknownError.message
+          : "Unable to load recent prioritization fees."
+      );
+    } finally {
+      setIsLoadingEstimates(false);
+    }
+  };
+
+  return (
+    <Stack spacing={1}>
+      {showTitle ? (
+        <Typography variant="subtitle2" color="text.secondary">
+          {title}
+        </Typography>
+      ) : null}
+      <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+        <TextField
+          select
+          size="small"
+          label="Preset"
+          value={settings.preset}
+          onChange={(event) => {
+            setSettings({
+              ...settings,
+              preset: event.target.value as PriorityFeePreset
+            });
+          }}
+          sx={{ minWidth: { xs: "100%", md: 180 } }}
+        >
+          {PRIORITY_FEE_PRESET_OPTIONS.map((option) => (
+            <MenuItem key={option.value} value={option.value}>
+              {option.label}
+              {estimates && option.value !== "off" && option.value !== "custom"
+                ? ` (${formatMicroLamports(estimates[option.value])})`
+                : ""}
+            </MenuItem>
+          ))}
+        </TextField>
+        {settings.preset === "custom" ? (
+          <>
+            <TextField
+              size="small"
+              label="Micro-lamports per CU"
+              value={customInput}
+              onChange={(event) => {
+                setCustomInput(event.target.value.trim());
+              }}
+              fullWidth
+            />
+            <Button
+              variant="outlined"
+              onClick={() => {
+                setSettings({ ...settings, customMicroLamports: parsedCustom });
+              }}
+              disabled={!canApplyCustom}
+            >
+              Apply
+            </Button>
+          </>
+        ) : null}
+        <Button
+          variant="text"
+          onClick={() => {
+            void loadEstimates();
+          }}
+          disabled={isLoadingEstimates}
+          sx={{ whiteSpace: "nowrap" }}
+        >
+          {isLoadingEstimates ? "Loading..." : "Network Fees"}
+        </Button>
+        <Button
+          variant="text"
+          onClick={() => {
+            resetSettings();
+            setCustomInput(String(DEFAULT_PRIORITY_FEE_SETTINGS.customMicroLamports));
+          }}
+          sx={{ whiteSpace: "nowrap" }}
+        >
+          Reset
+        </Button>
+      </Stack>
+      <Typography variant="caption" color="text.secondary">
+        Every wallet transaction is simulated to size its compute-unit limit, then
+        priced with the selected preset from recent prioritization fees.
+      </Typography>
+      {estimates ? (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ display: "block", fontFamily: "var(--font-mono), monospace" }}
+        >
+          Low {formatMicroLamports(estimates.low)} | Medium{" "}
+          {formatMicroLamports(estimates.medium)} | High{" "}
+          {formatMicroLamports(estimates.high)} | Turbo{" "}
+          {formatMicroLamports(estimates.turbo)}
+        </Typography>
+      ) : null}
+      {estimateError ? (
+        <Typography variant="caption" color="error.main">
+          {estimateError}
+        </Typography>
+      ) : null}
+    </Stack>
+  );
+}
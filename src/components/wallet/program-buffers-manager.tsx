@@ -20,6 +20,9 @@ import {
   TextField,
   Typography
 } from "@mui/material";
+import { InstructionExportPanel } from "@/components/wallet/instruction-export-panel";
+import { useInstructionExport } from "@/hooks/use-instruction-export";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
 
 type BufferRow = {
   address: string;
@@ -66,7 +69,9 @@ function explorerAddressUrl(address: string) {
 
 export function ProgramBuffersManager() {
   const { connection } = useConnection();
-  const { connected, publicKey, sendTransaction } = useWallet();
+  const { connected, publicKey } = useWallet();
+  const { sendAndConfirm } = useTransactionPipeline();
+  const instructionExport = useInstructionExport();
 
   const [bufferAuthority, setBufferAuthority] = useState("");
   const [closeRecipient, setCloseRecipient] = useState("");
@@ -146,7 +151,7 @@ export function ProgramBuffersManager() {
   }
 
   async function closeBuffer(bufferAddress: string) {
-    if (!connected || !publicKey || !sendTransaction) {
+    if (!connected || !publicKey) {
       setStatus({
         severity: "error",
         message: "Connect an identity wallet to close buffers."
@@ -157,12 +162,13 @@ export function ProgramBuffersManager() {
     setIsSubmitting(true);
     setStatus(null);
     try {
+      const signingAuthority = instructionExport.resolveAuthority();
       const authority = new PublicKey(activeAuthority);
-      if (!authority.equals(publicKey)) {
-        throw new Error("Connected wallet must match the selected buffer authority.");
+      if (!authority.equals(signingAuthority)) {
+        throw new Error("Signing authority must match the selected buffer authority.");
       }
       const recipient = new PublicKey(
-        (closeRecipient.trim() || publicKey.toBase58()).trim()
+        (closeRecipient.trim() || signingAuthority.toBase58()).trim()
       );
       const buffer = new PublicKey(bufferAddress);
 
@@ -180,8 +186,8 @@ export function ProgramBuffersManager() {
         throw new Error("Account is not an authority-owned buffer.");
       }
       const recordAuthority = new PublicKey(accountInfo.data.slice(5, 37));
-      if (!recordAuthority.equals(publicKey)) {
-        throw new Error(`Connected wallet is not buffer authority: ${recordAuthority.toBase58()}`);
+      if (!recordAuthority.equals(signingAuthority)) {
+        throw new Error(`Signing authority is not buffer authority: ${recordAuthority.toBase58()}`);
       }
 
       const data = Buffer.alloc(4);
@@ -191,28 +197,18 @@ export function ProgramBuffersManager() {
         keys: [
           { pubkey: buffer, isSigner: false, isWritable: true },
           { pubkey: recipient, isSigner: false, isWritable: true },
-          { pubkey: publicKey, isSigner: true, isWritable: false }
+          { pubkey: signingAuthority, isSigner: true, isWritable: false }
         ],
         data
       });
+      if (instructionExport.isExternal) {
+        const outcome = await instructionExport.submit([instruction]);
+        setStatus({ severity: "success", ...outcome });
+        return;
+      }
 
-      const latestBlockhash = await connection.getLatestBlockhash("confirmed");
-      const transaction = new Transaction({
-        feePayer: publicKey,
-        blockhash: latestBlockhash.blockhash,
-        lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-      }).add(instruction);
-
-      const signature = await sendTransaction(transaction, connection, {
-        preflightCommitment: "confirmed"
-      });
-      await connection.confirmTransaction(
-        {
-          signature,
-          blockhash: latestBlockhash.blockhash,
-          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-        },
-        "confirmed"
+      const signature = await sendAndConfirm(
+        new Transaction({ feePayer: publicKey }).add(instruction)
       );
 
       setStatus({
@@ -259,12 +255,13 @@ export function ProgramBuffersManager() {
           />
           <TextField
             size="small"
-            label="Close Recipient (empty = connected wallet)"
+            label="Close Recipient (empty = signing authority)"
             value={closeRecipient}
             onChange={(event) => {
               setCloseRecipient(event.target.value);
             }}
           />
+          <InstructionExportPanel exportState={instructionExport} />
           <Button
             variant="outlined"
             onClick={() => {
@@ -0,0 +1,332 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey } from "@solana/web3.js";
+import QRCode from "qrcode";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import type { WalletHoldingsState } from "@/hooks/use-wallet-holdings";
+import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import {
+  encodeTransferRequestUrl,
+  findReferenceSignature,
+  generateReference,
+  validateTransfer,
+  validateTransferRequest,
+  type TransferRequest
+} from "@/lib/solana-pay";
+
+type ReceivePanelProps = {
+  holdingsState: WalletHoldingsState;
+};
+
+type PaymentRequest = {
+  request: TransferRequest;
+  url: string;
+  qrDataUrl: string;
+  assetLabel: string;
+};
+
+type PaymentState =
+  | { state: "waiting"; note: string | null }
+  | { state: "paid"; signature: string };
+
+type ReceiveStatus = {
+  severity: "error";
+  message: string;
+} | null;
+
+const SOL_ASSET = "sol";
+const SOL_DECIMALS = 9;
+const WATCH_INTERVAL_MS = 5000;
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+export function ReceivePanel({ holdingsState }: ReceivePanelProps) {
+  const { connection } = useConnection();
+  const { publicKey } = useWallet();
+  const { holdings } = holdingsState;
+
+  const [asset, setAsset] = useState(SOL_ASSET);
+  const [recipient, setRecipient] = useState("");
+  const [amount, setAmount] = useState("");
+  const [label, setLabel] = useState("");
+  const [message, setMessage] = useState("");
+  const [memo, setMemo] = useState("");
+  const [reference, setReference] = useState(() => generateReference());
+  const [paymentRequest, setPaymentRequest] = useState<PaymentRequest | null>(null);
+  const [payment, setPayment] = useState<PaymentState | null>(null);
+  const [status, setStatus] = useState<ReceiveStatus>(null);
+
+  // holdings.tokens can list several accounts for one mint.
+  const tokenOptions = useMemo(() => {
+    const byMint = new Map<string, number>();
+    holdings.tokens.forEach((token) => {
+      byMint.set(token.mint, token.decimals);
+    });
+    return Array.from(byMint.entries()).map(([mint, decimals]) => ({ mint, decimals }));
+  }, [holdings.tokens]);
+  const { getTokenMetadata } = useTokenMetadata(tokenOptions.map((token) => token.mint));
+
+  const watchedRequest = payment?.state === "waiting" ? paymentRequest?.request : null;
+
+  useEffect(() => {
+    if (!watchedRequest) {
+      return;
+    }
+    let cancelled = false;
+    const [watchedReference] = watchedRequest.references;
+
+    async function checkPayment() {
+      try {
+        const signature = await findReferenceSignature(connection, watchedReference);
+        if (cancelled || !signature) {
+          return;
+        }
+        await validateTransfer(connection, signature, watchedRequest as TransferRequest);
+        if (!cancelled) {
+          setPayment({ state: "paid", signature });
+        }
+      } catch (unknownError) {
+        if (!cancelled) {
+          setPayment({
+            state: "waiting",
+            note:
+              unknownError instanceof Error
+                ? unknownError.message
+                : "Failed to check for payment."
+          });
+        }
+      }
+    }
+
+    void checkPayment();
+    const intervalId = window.setInterval(() => {
+      void checkPayment();
+    }, WATCH_INTERVAL_MS);
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(intervalId);
+    };
+  }, [connection, watchedRequest]);
+
+  async function createRequest() {
+    setStatus(null);
+    setPaymentRequest(null);
+    setPayment(null);
+    try {
+      const recipientKey = recipient.trim() ? new PublicKey(recipient.trim()) : publicKey;
+      if (!recipientKey) {
+        throw new Error("Connect a wallet or enter a recipient address.");
+      }
+      const token = tokenOptions.find((option) => option.mint === asset);
+      const request: TransferRequest = {
+        recipient: recipientKey,
+        amount: amount.trim() || null,
+        decimals: token?.decimals ?? SOL_DECIMALS,
+        splToken: token ? new PublicKey(token.mint) : null,
+        references: [new PublicKey(reference)],
+        label: label.trim(),
+        message: message.trim(),
+        memo: memo.trim()
+      };
+      validateTransferRequest(request);
+      const url = encodeTransferRequestUrl(request);
+      setPaymentRequest({
+        request,
+        url,
+        qrDataUrl: await QRCode.toDataURL(url, { margin: 1, width: 240 }),
+        assetLabel: token
+          ? getTokenMetadata(token.mint)?.symbol || shortenAddress(token.mint)
+          : "SOL"
+      });
+      setPayment({ state: "waiting", note: null });
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to create payment request."
+      });
+    }
+  }
+
+  function startNewRequest() {
+    setPaymentRequest(null);
+    setPayment(null);
+    setReference(generateReference());
+  }
+
+  return (
+    <Card className="fx-card" variant="outlined" sx={{ borderRadius: 2 }}>
+      <CardContent sx={{ p: 1.75 }}>
+        <Stack spacing={1.2}>
+          <Typography variant="subtitle2">Receive (Solana Pay)</Typography>
+          <Typography variant="caption" color="text.secondary">
+            Build a Solana Pay transfer request for SOL or a held token. The panel watches
+            for a transaction carrying the request reference and marks it paid once the
+            amount, recipient and memo check out.
+          </Typography>
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+            <TextField
+              select
+              size="small"
+              label="Asset"
+              value={asset}
+              onChange={(event) => setAsset(event.target.value)}
+              fullWidth
+            >
+              <MenuItem value={SOL_ASSET}>SOL</MenuItem>
+              {tokenOptions.map((token) => (
+                <MenuItem key={token.mint} value={token.mint}>
+                  {getTokenMetadata(token.mint)?.symbol || shortenAddress(token.mint)}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              label="Amount (empty = payer chooses)"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              fullWidth
+            />
+          </Stack>
+          <TextField
+            size="small"
+            label="Recipient (empty = connected wallet)"
+            value={recipient}
+            onChange={(event) => setRecipient(event.target.value)}
+            fullWidth
+          />
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+            <TextField
+              size="small"
+              label="Label"
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              fullWidth
+            />
+            <TextField
+              size="small"
+              label="Message"
+              value={message}
+              onChange={(event) => setMessage(event.target.value)}
+              fullWidth
+            />
+          </Stack>
+          <TextField
+            size="small"
+            label="Memo (optional, recorded on-chain)"
+            value={memo}
+            onChange={(event) => setMemo(event.target.value)}
+            fullWidth
+          />
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+            <TextField
+              size="small"
+              label="Reference"
+              value={reference}
+              InputProps={{ readOnly: true }}
+              fullWidth
+              inputProps={{ style: { fontFamily: "var(--font-mono), monospace" } }}
+            />
+            <Button
+              variant="outlined"
+              onClick={() => setReference(generateReference())}
+              disabled={payment?.state === "waiting"}
+              sx={{ minWidth: 120 }}
+            >
+              New Reference
+            </Button>
+          </Stack>
+          <Button
+            variant="contained"
+            onClick={() => {
+              void createRequest();
+            }}
+            disabled={payment?.state === "waiting"}
+          >
+            Create Payment Request
+          </Button>
+
+          {paymentRequest ? (
+            <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+              <CardContent sx={{ p: 1.25 }}>
+                <Stack spacing={0.9} alignItems="center">
+                  <Box
+                    component="img"
+                    src={paymentRequest.qrDataUrl}
+                    alt="Solana Pay QR code"
+                    sx={{ width: 240, height: 240, borderRadius: 1, bgcolor: "#fff" }}
+                  />
+                  <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      label={`${paymentRequest.request.amount ?? "Any amount"} ${paymentRequest.assetLabel}`}
+                    />
+                    <Chip
+                      size="small"
+                      variant="outlined"
+                      label={`To ${shortenAddress(paymentRequest.request.recipient.toBase58())}`}
+                    />
+                    {payment?.state === "paid" ? (
+                      <Chip size="small" color="success" label="Paid" />
+                    ) : (
+                      <Chip size="small" color="info" label="Watching for payment" />
+                    )}
+                  </Stack>
+                  <Typography
+                    variant="caption"
+                    sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                  >
+                    {paymentRequest.url}
+                  </Typography>
+                  <Stack direction="row" spacing={1}>
+                    <Button
+                      size="small"
+                      onClick={() => {
+                        void navigator.clipboard.writeText(paymentRequest.url);
+                      }}
+                    >
+                      Copy URL
+                    </Button>
+                    <Button size="small" onClick={startNewRequest}>
+                      {payment?.state === "paid" ? "New Request" : "Cancel"}
+                    </Button>
+                  </Stack>
+                  {payment?.state === "paid" ? (
+                    <Alert severity="success" sx={{ width: "100%", wordBreak: "break-all" }}>
+                      Payment received and validated. Signature: {payment.signature}
+                    </Alert>
+                  ) : payment?.note ? (
+                    <Alert severity="warning" sx={{ width: "100%" }}>
+                      {payment.note}
+                    </Alert>
+                  ) : null}
+                </Stack>
+              </CardContent>
+            </Card>
+          ) : null}
+
+          {status ? <Alert severity={status.severity}>{status.message}</Alert> : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
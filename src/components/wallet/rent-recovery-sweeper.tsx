@@ -3,7 +3,7 @@
 import { useEffect, useMemo, useState } from "react";
 import { useConnection, useWallet } from "@solana/wallet-adapter-react";
 import { createCloseAccountInstruction } from "@solana/spl-token";
-import { PublicKey, Transaction, type TransactionInstruction } from "@solana/web3.js";
+import { PublicKey } from "@solana/web3.js";
 import {
   Alert,
   Box,
@@ -20,8 +20,12 @@ import {
   Stack,
   Typography
 } from "@mui/material";
+import { InstructionExportPanel } from "@/components/wallet/instruction-export-panel";
+import { useInstructionExport } from "@/hooks/use-instruction-export";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
 import type { WalletHoldingsState } from "@/hooks/use-wallet-holdings";
 import { useTokenMetadata } from "@/hooks/use-token-metadata";
+import { planInstructionBatches } from "@/lib/versioned-transactions";
 
 type RentRecoverySweeperProps = {
   holdingsState: WalletHoldingsState;
@@ -33,26 +37,22 @@ type SweepStatus = {
 } | null;
 
 const TOKEN_ACCOUNT_SIZE = 165;
-const MAX_CLOSES_PER_TX = 8;
 
 function shortenAddress(address: string) {
   return `${address.slice(0, 4)}...${address.slice(-4)}`;
 }
 
-function chunkInstructions(
-  instructions: TransactionInstruction[],
-  chunkSize: number
-) {
-  const chunks: TransactionInstruction[][] = [];
-  for (let index = 0; index < instructions.length; index += chunkSize) {
-    chunks.push(instructions.slice(index, index + chunkSize));
-  }
-  return chunks;
+function buildCloseInstructionGroups(accountAddresses: string[], owner: PublicKey) {
+  return accountAddresses.map((accountAddress) => [
+    createCloseAccountInstruction(new PublicKey(accountAddress), owner, owner)
+  ]);
 }
 
 export function RentRecoverySweeper({ holdingsState }: RentRecoverySweeperProps) {
   const { connection } = useConnection();
-  const { connected, publicKey, sendTransaction } = useWallet();
+  const { connected, publicKey } = useWallet();
+  const { sendInstructionBatches } = useTransactionPipeline();
+  const instructionExport = useInstructionExport();
   const { holdings, refresh } = holdingsState;
 
   const [rentPerAccountLamports, setRentPerAccountLamports] = useState(0);
@@ -93,9 +93,15 @@ export function RentRecoverySweeper({ holdingsState }: RentRecoverySweeperProps)
 
   const estimatedRecoverySol =
     (selectedAccounts.length * rentPerAccountLamports) / 1_000_000_000;
-  const estimatedTxCount = Math.max(
-    1,
-    Math.ceil(selectedAccounts.length / MAX_CLOSES_PER_TX)
+  const estimatedTxCount = useMemo(
+    () =>
+      publicKey && selectedAccounts.length > 0
+        ? planInstructionBatches(
+            publicKey,
+            buildCloseInstructionGroups(selectedAccounts, publicKey)
+          ).directTransactions
+        : 1,
+    [publicKey, selectedAccounts]
   );
 
   function toggleAccount(account: string) {
@@ -107,7 +113,7 @@ export function RentRecoverySweeper({ holdingsState }: RentRecoverySweeperProps)
   }
 
   async function closeSelectedAccounts() {
-    if (!connected || !publicKey || !sendTransaction) {
+    if (!connected || !publicKey) {
       setStatus({
         severity: "error",
         message: "Connect an identity wallet to run rent recovery."
@@ -127,41 +133,20 @@ export function RentRecoverySweeper({ holdingsState }: RentRecoverySweeperProps)
     setIsSubmitting(true);
 
     try {
-      const instructions = selectedAccounts.map((accountAddress) =>
-        createCloseAccountInstruction(
-          new PublicKey(accountAddress),
-          publicKey,
-          publicKey
-        )
-      );
-
-      const batchedInstructions = chunkInstructions(
-        instructions,
-        MAX_CLOSES_PER_TX
-      );
-
-      for (const batch of batchedInstructions) {
-        const latestBlockhash = await connection.getLatestBlockhash("confirmed");
-        const transaction = new Transaction({
-          feePayer: publicKey,
-          blockhash: latestBlockhash.blockhash,
-          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-        }).add(...batch);
-
-        const signature = await sendTransaction(transaction, connection, {
-          preflightCommitment: "confirmed"
-        });
-
-        await connection.confirmTransaction(
-          {
-            signature,
-            blockhash: latestBlockhash.blockhash,
-            lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
-          },
-          "confirmed"
-        );
+      const instructionGroups = buildCloseInstructionGroups(selectedAccounts, publicKey);
+      if (instructionExport.isExternal) {
+        if (estimatedTxCount > 1) {
+          throw new Error(
+            `An unsigned export is a single transaction; this selection needs ${estimatedTxCount}. Select fewer accounts.`
+          );
+        }
+        const outcome = await instructionExport.submit(instructionGroups.flat());
+        setStatus({ severity: "success", message: outcome.message });
+        return;
       }
 
+      await sendInstructionBatches(instructionGroups);
+
       setStatus({
         severity: "success",
         message: `Closed ${selectedAccounts.length} token account(s). Estimated recovered SOL: ${estimatedRecoverySol.toFixed(
@@ -261,6 +246,12 @@ export function RentRecoverySweeper({ holdingsState }: RentRecoverySweeperProps)
             </Box>
           )}
 
+          <InstructionExportPanel
+            exportState={instructionExport}
+            modes={["wallet", "unsigned"]}
+            description="Close instructions are built for the connected wallet. Set the fee payer to the wallet that will sign offline."
+          />
+
           <Button
             variant="contained"
             color="warning"
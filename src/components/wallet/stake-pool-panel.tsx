@@ -0,0 +1,545 @@
+"use client";
+
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { Keypair, PublicKey, StakeProgram, Transaction } from "@solana/web3.js";
+import {
+  Alert,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import { useSavedStakePools } from "@/hooks/use-saved-stake-pools";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
+import { getStakePhase, type StakeAccountRow } from "@/lib/stake-accounts";
+import {
+  applyStakePoolFee,
+  buildDepositSolInstructions,
+  buildDepositStakeInstructions,
+  buildWithdrawSolInstructions,
+  buildWithdrawStakeInstructions,
+  fetchStakePool,
+  formatStakePoolFee,
+  getPoolTokenAccount,
+  lamportsToPoolTokens,
+  poolTokensToLamports,
+  type StakePoolInfo
+} from "@/lib/spl-stake-pool";
+import { parsePositiveTokenAmount } from "@/lib/token-amount";
+
+type StakePoolPanelProps = {
+  stakeAccounts: StakeAccountRow[];
+  onStakeAccountsChanged: () => void;
+};
+
+type StatusState = {
+  severity: "success" | "error" | "info";
+  message: string;
+  signature?: string;
+} | null;
+
+const SOL_DECIMALS = 9;
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`;
+}
+
+function formatBaseUnits(amount: bigint, decimals: number) {
+  const base = 10n ** BigInt(decimals);
+  const fraction = (amount % base).toString().padStart(decimals, "0").replace(/0+$/, "");
+  return fraction ? `${amount / base}.${fraction.slice(0, 6)}` : `${amount / base}`;
+}
+
+export function StakePoolPanel({ stakeAccounts, onStakeAccountsChanged }: StakePoolPanelProps) {
+  const { connection } = useConnection();
+  const { connected, publicKey } = useWallet();
+  const { sendAndConfirm } = useTransactionPipeline();
+  const { pools, addPool, removePool } = useSavedStakePools();
+
+  const [poolInput, setPoolInput] = useState("");
+  const [selectedPool, setSelectedPool] = useState("");
+  const [poolInfo, setPoolInfo] = useState<StakePoolInfo | null>(null);
+  const [poolTokenBalance, setPoolTokenBalance] = useState<bigint>(0n);
+  const [isLoadingPool, setIsLoadingPool] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [status, setStatus] = useState<StatusState>(null);
+
+  const [depositSolAmount, setDepositSolAmount] = useState("");
+  const [withdrawSolAmount, setWithdrawSolAmount] = useState("");
+  const [depositStakeAccount, setDepositStakeAccount] = useState("");
+  const [withdrawStakeAmount, setWithdrawStakeAmount] = useState("");
+
+  const loadPool = useCallback(
+    async (address: string) => {
+      if (!address) {
+        setPoolInfo(null);
+        return;
+      }
+      setIsLoadingPool(true);
+      try {
+        const info = await fetchStakePool(connection, new PublicKey(address));
+        setPoolInfo(info);
+        if (publicKey) {
+          try {
+            const { value } = await connection.getTokenAccountBalance(
+              getPoolTokenAccount(info, publicKey),
+              "confirmed"
+            );
+            setPoolTokenBalance(BigInt(value.amount));
+          } catch {
+            // No pool token account yet.
+            setPoolTokenBalance(0n);
+          }
+        }
+      } catch (unknownError) {
+        setPoolInfo(null);
+        setStatus({
+          severity: "error",
+          message:
+            unknownError instanceof Error ? unknownError.message : "Failed to load stake pool."
+        });
+      } finally {
+        setIsLoadingPool(false);
+      }
+    },
+    [connection, publicKey]
+  );
+
+  useEffect(() => {
+    void loadPool(selectedPool);
+  }, [loadPool, selectedPool]);
+
+  // Only stake delegated to an active pool validator can be deposited.
+  const depositableStakeAccounts = useMemo(() => {
+    if (!poolInfo) {
+      return [];
+    }
+    const poolVoters = new Set(
+      poolInfo.validators
+        .filter((validator) => validator.status === 0)
+        .map((validator) => validator.voteAccount.toBase58())
+    );
+    return stakeAccounts.filter(
+      (account) =>
+        getStakePhase(account) === "active" && account.voter && poolVoters.has(account.voter)
+    );
+  }, [poolInfo, stakeAccounts]);
+
+  const poolTokenDecimals = poolInfo?.poolMintDecimals ?? SOL_DECIMALS;
+  const exchangeRate = poolInfo
+    ? poolTokensToLamports(poolInfo, 10n ** BigInt(poolInfo.poolMintDecimals))
+    : 0n;
+
+  const addPoolAddress = () => {
+    try {
+      const address = new PublicKey(poolInput.trim()).toBase58();
+      addPool(address);
+      setSelectedPool(address);
+      setPoolInput("");
+      setStatus(null);
+    } catch {
+      setStatus({ severity: "error", message: "Enter a valid stake pool address." });
+    }
+  };
+
+  const submitPoolTransaction = async (
+    buildTransaction: (pool: StakePoolInfo, wallet: PublicKey) => Promise<{
+      transaction: Transaction;
+      signers?: Keypair[];
+      message: string;
+    }>,
+    fallbackError: string,
+    onSuccess: () => void
+  ) => {
+    if (!publicKey || !poolInfo) {
+      setStatus({ severity: "error", message: "Connect your wallet and select a pool first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const { transaction, signers, message } = await buildTransaction(poolInfo, publicKey);
+      const signature = await sendAndConfirm(transaction, { signers });
+      setStatus({ severity: "success", message, signature });
+      onSuccess();
+      void loadPool(poolInfo.address.toBase58());
+      onStakeAccountsChanged();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message: unknownError instanceof Error ? unknownError.message : fallbackError
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitDepositSol = () =>
+    submitPoolTransaction(async (pool, wallet) => {
+      const lamports = parsePositiveTokenAmount(depositSolAmount, SOL_DECIMALS);
+      return {
+        transaction: new Transaction().add(...buildDepositSolInstructions(pool, wallet, lamports)),
+        message: `Deposited ${formatBaseUnits(lamports, SOL_DECIMALS)} SOL into the pool.`
+      };
+    }, "Failed to deposit SOL.", () => setDepositSolAmount(""));
+
+  const submitWithdrawSol = () =>
+    submitPoolTransaction(async (pool, wallet) => {
+      const poolTokens = parsePositiveTokenAmount(withdrawSolAmount, pool.poolMintDecimals);
+      if (poolTokens > poolTokenBalance) {
+        throw new Error("Amount exceeds your pool token balance.");
+      }
+      return {
+        transaction: new Transaction().add(
+          ...buildWithdrawSolInstructions(pool, wallet, poolTokens)
+        ),
+        message: `Withdrew ${formatBaseUnits(poolTokens, pool.poolMintDecimals)} pool tokens as SOL.`
+      };
+    }, "Failed to withdraw SOL.", () => setWithdrawSolAmount(""));
+
+  const submitDepositStake = () =>
+    submitPoolTransaction(async (pool, wallet) => {
+      const stakeAccount = depositableStakeAccounts.find(
+        (account) => account.address === depositStakeAccount
+      );
+      if (!stakeAccount || !stakeAccount.voter) {
+        throw new Error("Select an active stake account delegated to a pool validator.");
+      }
+      return {
+        transaction: new Transaction().add(
+          ...buildDepositStakeInstructions(
+            pool,
+            wallet,
+            new PublicKey(stakeAccount.address),
+            new PublicKey(stakeAccount.voter)
+          )
+        ),
+        message: `Deposited stake account ${shortenAddress(stakeAccount.address)} into the pool.`
+      };
+    }, "Failed to deposit stake.", () => setDepositStakeAccount(""));
+
+  const submitWithdrawStake = () =>
+    submitPoolTransaction(async (pool, wallet) => {
+      const poolTokens = parsePositiveTokenAmount(withdrawStakeAmount, pool.poolMintDecimals);
+      if (poolTokens > poolTokenBalance) {
+        throw new Error("Amount exceeds your pool token balance.");
+      }
+      const stakeKeypair = Keypair.generate();
+      const [rentExemption, { value: minimumDelegation }] = await Promise.all([
+        connection.getMinimumBalanceForRentExemption(StakeProgram.space),
+        connection.getStakeMinimumDelegation({ commitment: "confirmed" })
+      ]);
+      return {
+        transaction: new Transaction().add(
+          ...buildWithdrawStakeInstructions(
+            pool,
+            wallet,
+            poolTokens,
+            stakeKeypair.publicKey,
+            rentExemption,
+            minimumDelegation
+          )
+        ),
+        signers: [stakeKeypair],
+        message: `Withdrew stake into ${shortenAddress(stakeKeypair.publicKey.toBase58())}.`
+      };
+    }, "Failed to withdraw stake.", () => setWithdrawStakeAmount(""));
+
+  const estimateLabel = (
+    input: string,
+    decimals: number,
+    estimate: (pool: StakePoolInfo, amount: bigint) => string
+  ) => {
+    if (!poolInfo || !input) {
+      return null;
+    }
+    try {
+      return estimate(poolInfo, parsePositiveTokenAmount(input, decimals));
+    } catch {
+      return null;
+    }
+  };
+
+  const depositSolEstimate = estimateLabel(depositSolAmount, SOL_DECIMALS, (pool, lamports) => {
+    const tokens = lamportsToPoolTokens(pool, lamports);
+    return `~${formatBaseUnits(
+      tokens - applyStakePoolFee(tokens, pool.solDepositFee),
+      pool.poolMintDecimals
+    )} pool tokens`;
+  });
+  const withdrawSolEstimate = estimateLabel(
+    withdrawSolAmount,
+    poolTokenDecimals,
+    (pool, tokens) =>
+      `~${formatBaseUnits(
+        poolTokensToLamports(pool, tokens - applyStakePoolFee(tokens, pool.solWithdrawalFee)),
+        SOL_DECIMALS
+      )} SOL`
+  );
+  const withdrawStakeEstimate = estimateLabel(
+    withdrawStakeAmount,
+    poolTokenDecimals,
+    (pool, tokens) =>
+      `~${formatBaseUnits(
+        poolTokensToLamports(pool, tokens - applyStakePoolFee(tokens, pool.stakeWithdrawalFee)),
+        SOL_DECIMALS
+      )} SOL of stake`
+  );
+
+  return (
+    <Stack spacing={1.2}>
+      <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+        <TextField
+          size="small"
+          label="Stake Pool Address"
+          value={poolInput}
+          onChange={(event) => {
+            setPoolInput(event.target.value);
+          }}
+          fullWidth
+        />
+        <Button variant="outlined" onClick={addPoolAddress}>
+          Add Pool
+        </Button>
+      </Stack>
+
+      {pools.length > 0 ? (
+        <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+          {pools.map((pool) => (
+            <Chip
+              key={pool}
+              size="small"
+              variant={pool === selectedPool ? "filled" : "outlined"}
+              color={pool === selectedPool ? "primary" : "default"}
+              label={shortenAddress(pool)}
+              onClick={() => setSelectedPool(pool)}
+              onDelete={() => {
+                removePool(pool);
+                if (pool === selectedPool) {
+                  setSelectedPool("");
+                }
+              }}
+            />
+          ))}
+        </Stack>
+      ) : (
+        <Typography variant="body2" color="text.secondary">
+          Add a stake pool by address to deposit or withdraw.
+        </Typography>
+      )}
+
+      {status ? (
+        <Alert
+          severity={status.severity}
+          action={
+            status.signature ? (
+              <Button
+                size="small"
+                color="inherit"
+                href={`https://explorer.solana.com/tx/${status.signature}?cluster=mainnet`}
+                target="_blank"
+                rel="noreferrer"
+              >
+                Explorer
+              </Button>
+            ) : undefined
+          }
+        >
+          {status.message}
+        </Alert>
+      ) : null}
+
+      {isLoadingPool ? (
+        <Typography variant="body2" color="text.secondary">
+          Loading stake pool...
+        </Typography>
+      ) : null}
+
+      {poolInfo ? (
+        <>
+          <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+            <CardContent sx={{ p: 1.2 }}>
+              <Stack spacing={0.6}>
+                <Stack direction="row" justifyContent="space-between" alignItems="center">
+                  <Typography variant="subtitle2">Pool</Typography>
+                  <Button
+                    size="small"
+                    variant="outlined"
+                    onClick={() => {
+                      void loadPool(poolInfo.address.toBase58());
+                    }}
+                    disabled={isLoadingPool}
+                  >
+                    Refresh
+                  </Button>
+                </Stack>
+                <Typography
+                  variant="caption"
+                  sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                >
+                  Pool Mint: {poolInfo.poolMint.toBase58()}
+                </Typography>
+                <Typography variant="body2">
+                  1 pool token = {formatBaseUnits(exchangeRate, SOL_DECIMALS)} SOL | Total:{" "}
+                  {formatBaseUnits(poolInfo.totalLamports, SOL_DECIMALS)} SOL |{" "}
+                  {poolInfo.validators.length} validators
+                </Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Fees: epoch {formatStakePoolFee(poolInfo.epochFee)} | SOL deposit{" "}
+                  {formatStakePoolFee(poolInfo.solDepositFee)} | SOL withdraw{" "}
+                  {formatStakePoolFee(poolInfo.solWithdrawalFee)} | stake deposit{" "}
+                  {formatStakePoolFee(poolInfo.stakeDepositFee)} | stake withdraw{" "}
+                  {formatStakePoolFee(poolInfo.stakeWithdrawalFee)}
+                </Typography>
+                <Typography variant="body2">
+                  Your balance: {formatBaseUnits(poolTokenBalance, poolInfo.poolMintDecimals)} pool
+                  tokens (~
+                  {formatBaseUnits(
+                    poolTokensToLamports(poolInfo, poolTokenBalance),
+                    SOL_DECIMALS
+                  )}{" "}
+                  SOL)
+                </Typography>
+                {poolInfo.lastUpdateEpoch < poolInfo.currentEpoch ? (
+                  <Alert severity="warning">
+                    Pool was last updated in epoch {poolInfo.lastUpdateEpoch}. Deposits and
+                    withdrawals fail until the epoch {poolInfo.currentEpoch} update runs.
+                  </Alert>
+                ) : null}
+              </Stack>
+            </CardContent>
+          </Card>
+
+          <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+            <CardContent sx={{ p: 1.2 }}>
+              <Stack spacing={1}>
+                <Typography variant="subtitle2">Deposit SOL</Typography>
+                <TextField
+                  size="small"
+                  label="Amount (SOL)"
+                  value={depositSolAmount}
+                  onChange={(event) => {
+                    setDepositSolAmount(event.target.value);
+                  }}
+                  helperText={depositSolEstimate ?? undefined}
+                />
+                <Button
+                  variant="contained"
+                  onClick={() => {
+                    void submitDepositSol();
+                  }}
+                  disabled={isSubmitting || !connected || Boolean(poolInfo.solDepositAuthority)}
+                >
+                  Deposit SOL
+                </Button>
+              </Stack>
+            </CardContent>
+          </Card>
+
+          <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+            <CardContent sx={{ p: 1.2 }}>
+              <Stack spacing={1}>
+                <Typography variant="subtitle2">Deposit Stake Account</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Active stake delegated to one of the pool&apos;s validators. Both stake
+                  authorities move to the pool.
+                </Typography>
+                <TextField
+                  select
+                  size="small"
+                  label="Stake Account"
+                  value={depositStakeAccount}
+                  onChange={(event) => {
+                    setDepositStakeAccount(event.target.value);
+                  }}
+                  helperText={
+                    depositableStakeAccounts.length === 0
+                      ? "No active stake accounts delegated to pool validators."
+                      : undefined
+                  }
+                >
+                  {depositableStakeAccounts.map((account) => (
+                    <MenuItem key={account.address} value={account.address}>
+                      {shortenAddress(account.address)} (
+                      {formatBaseUnits(BigInt(account.lamports), SOL_DECIMALS)} SOL)
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Button
+                  variant="outlined"
+                  onClick={() => {
+                    void submitDepositStake();
+                  }}
+                  disabled={isSubmitting || !connected}
+                >
+                  Deposit Stake
+                </Button>
+              </Stack>
+            </CardContent>
+          </Card>
+
+          <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+            <CardContent sx={{ p: 1.2 }}>
+              <Stack spacing={1}>
+                <Typography variant="subtitle2">Withdraw SOL</Typography>
+                <TextField
+                  size="small"
+                  label="Pool Tokens"
+                  value={withdrawSolAmount}
+                  onChange={(event) => {
+                    setWithdrawSolAmount(event.target.value);
+                  }}
+                  helperText={withdrawSolEstimate ?? undefined}
+                />
+                <Button
+                  variant="outlined"
+                  onClick={() => {
+                    void submitWithdrawSol();
+                  }}
+                  disabled={isSubmitting || !connected || Boolean(poolInfo.solWithdrawAuthority)}
+                >
+                  Withdraw SOL
+                </Button>
+              </Stack>
+            </CardContent>
+          </Card>
+
+          <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+            <CardContent sx={{ p: 1.2 }}>
+              <Stack spacing={1}>
+                <Typography variant="subtitle2">Withdraw Stake</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Splits stake out of the pool into a new stake account owned by your wallet.
+                </Typography>
+                <TextField
+                  size="small"
+                  label="Pool Tokens"
+                  value={withdrawStakeAmount}
+                  onChange={(event) => {
+                    setWithdrawStakeAmount(event.target.value);
+                  }}
+                  helperText={withdrawStakeEstimate ?? undefined}
+                />
+                <Button
+                  variant="outlined"
+                  onClick={() => {
+                    void submitWithdrawStake();
+                  }}
+                  disabled={isSubmitting || !connected}
+                >
+                  Withdraw Stake
+                </Button>
+              </Stack>
+            </CardContent>
+          </Card>
+        </>
+      ) : null}
+    </Stack>
+  );
+}
@@ -0,0 +1,236 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import type { StakeAccountRow } from "@/lib/stake-accounts";
+import {
+  MAX_REWARD_EPOCHS,
+  fetchStakeRewardHistory,
+  serializeStakeRewardsCsv,
+  summarizeStakeRewards,
+  type StakeRewardHistory,
+  type StakeRewardSummary
+} from "@/lib/stake-rewards";
+
+type StakeRewardsReportProps = {
+  stakeAccounts: StakeAccountRow[];
+};
+
+const DEFAULT_EPOCH_SPAN = 10;
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`;
+}
+
+function lamportsToSolLabel(lamports: number) {
+  return (lamports / LAMPORTS_PER_SOL).toLocaleString(undefined, {
+    maximumFractionDigits: 6
+  });
+}
+
+function formatApy(apy: number | null) {
+  return apy === null ? "--" : `${(apy * 100).toFixed(2)}%`;
+}
+
+function parseEpoch(input: string, label: string) {
+  if (!/^\d+$/.test(input.trim())) {
+    throw new Error(`${label} must be a whole epoch number.`);
+  }
+  return Number(input.trim());
+}
+
+function RewardSummaryList({
+  title,
+  summaries
+}: {
+  title: string;
+  summaries: StakeRewardSummary[];
+}) {
+  return (
+    <Stack spacing={0.6}>
+      <Typography variant="caption" color="text.secondary">
+        {title}
+      </Typography>
+      <Box sx={{ display: "grid", gap: 0.5 }}>
+        {summaries.map((summary) => (
+          <Stack
+            key={summary.key}
+            direction="row"
+            justifyContent="space-between"
+            alignItems="center"
+            spacing={1}
+          >
+            <Typography variant="caption" sx={{ fontFamily: "var(--font-mono), monospace" }}>
+              {shortenAddress(summary.key)}
+            </Typography>
+            <Typography variant="caption">
+              {lamportsToSolLabel(summary.totalLamports)} SOL | {summary.epochs} epochs | APY{" "}
+              {formatApy(summary.apy)}
+            </Typography>
+          </Stack>
+        ))}
+      </Box>
+    </Stack>
+  );
+}
+
+export function StakeRewardsReport({ stakeAccounts }: StakeRewardsReportProps) {
+  const { connection } = useConnection();
+
+  const [fromEpoch, setFromEpoch] = useState("");
+  const [toEpoch, setToEpoch] = useState("");
+  const [history, setHistory] = useState<StakeRewardHistory | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    connection
+      .getEpochInfo("confirmed")
+      .then((epochInfo) => {
+        if (cancelled) {
+          return;
+        }
+        const lastCompleted = epochInfo.epoch - 1;
+        setToEpoch((current) => current || String(lastCompleted));
+        setFromEpoch(
+          (current) => current || String(Math.max(0, lastCompleted - DEFAULT_EPOCH_SPAN + 1))
+        );
+      })
+      .catch(() => {
+        // Leave the range for the user to fill in.
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [connection]);
+
+  const accountSummaries = useMemo(
+    () => (history ? summarizeStakeRewards(history, (reward) => reward.stakeAccount) : []),
+    [history]
+  );
+  const validatorSummaries = useMemo(
+    () => (history ? summarizeStakeRewards(history, (reward) => reward.voter) : []),
+    [history]
+  );
+  const totalSummary = useMemo(
+    () => (history ? summarizeStakeRewards(history, () => "total")[0] ?? null : null),
+    [history]
+  );
+
+  const loadRewards = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      if (stakeAccounts.length === 0) {
+        throw new Error("No stake accounts to report on.");
+      }
+      setHistory(
+        await fetchStakeRewardHistory(
+          connection,
+          stakeAccounts,
+          parseEpoch(fromEpoch, "Start epoch"),
+          parseEpoch(toEpoch, "End epoch")
+        )
+      );
+    } catch (unknownError) {
+      setError(
+        unknownError instanceof Error ? unknownError.message : "Failed to load stake rewards."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  function downloadCsv() {
+    if (!history) {
+      return;
+    }
+    const blob = new Blob([serializeStakeRewardsCsv(history)], {
+      type: "text/csv;charset=utf-8;"
+    });
+    const url = window.URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = `stake-rewards-${history.fromEpoch}-${history.toEpoch}.csv`;
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    window.URL.revokeObjectURL(url);
+  }
+
+  return (
+    <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+      <CardContent sx={{ p: 1.2 }}>
+        <Stack spacing={1}>
+          <Typography variant="subtitle2">Rewards History</Typography>
+          <Typography variant="caption" color="text.secondary">
+            Inflation rewards per completed epoch for the stake accounts above (up to{" "}
+            {MAX_REWARD_EPOCHS} epochs). APY is annualized from the realized per-epoch return.
+            Validator totals only cover epochs after the current delegation of each account took
+            effect; earlier rewards count toward the account and overall totals only.
+          </Typography>
+          <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+            <TextField
+              size="small"
+              label="From Epoch"
+              value={fromEpoch}
+              onChange={(event) => setFromEpoch(event.target.value)}
+              fullWidth
+            />
+            <TextField
+              size="small"
+              label="To Epoch"
+              value={toEpoch}
+              onChange={(event) => setToEpoch(event.target.value)}
+              fullWidth
+            />
+            <Button
+              variant="outlined"
+              onClick={() => {
+                void loadRewards();
+              }}
+              disabled={isLoading}
+              sx={{ minWidth: 140 }}
+            >
+              {isLoading ? "Loading..." : "Load Rewards"}
+            </Button>
+          </Stack>
+
+          {error ? <Alert severity="error">{error}</Alert> : null}
+
+          {history ? (
+            history.rewards.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                No rewards found for epochs {history.fromEpoch}-{history.toEpoch}.
+              </Typography>
+            ) : (
+              <>
+                <Typography variant="body2">
+                  Total: {lamportsToSolLabel(totalSummary?.totalLamports ?? 0)} SOL over epochs{" "}
+                  {history.fromEpoch}-{history.toEpoch} | APY {formatApy(totalSummary?.apy ?? null)}
+                </Typography>
+                <RewardSummaryList title="By stake account" summaries={accountSummaries} />
+                <RewardSummaryList title="By validator" summaries={validatorSummaries} />
+                <Button size="small" variant="outlined" onClick={downloadCsv}>
+                  Download CSV
+                </Button>
+              </>
+            )
+          ) : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,7 +9,9 @@ import {
   LAMPORTS_PER_SOL,
   Lockup,
   PublicKey,
-  StakeProgram
+  StakeAuthorizationLayout,
+  StakeProgram,
+  type Transaction
 } from "@solana/web3.js";
 import {
   Alert,
@@ -17,28 +19,35 @@ import {
   Button,
   Card,
   CardContent,
+  Checkbox,
   Chip,
+  FormControlLabel,
   MenuItem,
   Stack,
   TextField,
   Typography
 } from "@mui/material";
 import { useRpcEndpoint } from "@/components/providers/solana-wallet-provider";
+import { InstructionExportPanel } from "@/components/wallet/instruction-export-panel";
+import { StakePoolPanel } from "@/components/wallet/stake-pool-panel";
+import { StakeRewardsReport } from "@/components/wallet/stake-rewards-report";
+import { ValidatorBrowser } from "@/components/wallet/validator-browser";
+import { useInstructionExport } from "@/hooks/use-instruction-export";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
 import {
   SHYFT_NETWORK,
   extractShyftResultArray,
   fetchShyft
 } from "@/lib/shyft";
-
-type StakeAccountRow = {
-  address: string;
-  lamports: number;
-  state: string;
-  delegatedLamports: number;
-  voter: string | null;
-  staker: string | null;
-  withdrawer: string | null;
-};
+import { STAKE_POOL_PROGRAM_ID } from "@/lib/spl-stake-pool";
+import {
+  planRedelegate,
+  validateAuthorize,
+  validateMerge,
+  validateSplit,
+  type StakeAccountRow,
+  type StakeAuthorityKind
+} from "@/lib/stake-accounts";
 
 type StatusState = {
   severity: "success" | "error" | "info";
@@ -98,11 +107,14 @@ function shortenAddress(address: string) {
 }
 
 const NATIVE_STAKE_PROGRAM_ID = StakeProgram.programId.toBase58();
+const SPL_STAKE_POOL_PROGRAM_ID = STAKE_POOL_PROGRAM_ID.toBase58();
 const STAKE_REFRESH_INTERVAL_MS = 30_000;
 
 export function StakingConsole() {
   const { connection } = useConnection();
-  const { connected, publicKey, sendTransaction } = useWallet();
+  const { connected, publicKey } = useWallet();
+  const { sendAndConfirm } = useTransactionPipeline();
+  const instructionExport = useInstructionExport();
   const { shyftApiKey } = useRpcEndpoint();
 
   const [programInput, setProgramInput] = useState(NATIVE_STAKE_PROGRAM_ID);
@@ -116,6 +128,19 @@ export function StakingConsole() {
   const [stakeAmount, setStakeAmount] = useState("");
   const [voteAccount, setVoteAccount] = useState("");
 
+  const [delegateStakeAccount, setDelegateStakeAccount] = useState("");
+
+  const [splitStakeAccount, setSplitStakeAccount] = useState("");
+  const [splitAmount, setSplitAmount] = useState("");
+
+  const [mergeDestination, setMergeDestination] = useState("");
+  const [mergeSource, setMergeSource] = useState("");
+
+  const [authorizeStakeAccount, setAuthorizeStakeAccount] = useState("");
+  const [authorizeKind, setAuthorizeKind] = useState<StakeAuthorityKind>("staker");
+  const [newAuthority, setNewAuthority] = useState("");
+  const [confirmAuthorize, setConfirmAuthorize] = useState(false);
+
   const [deactivateStakeAccount, setDeactivateStakeAccount] = useState("");
 
   const [withdrawStakeAccount, setWithdrawStakeAccount] = useState("");
@@ -125,6 +150,9 @@ export function StakingConsole() {
     () => activeProgramId === NATIVE_STAKE_PROGRAM_ID,
     [activeProgramId]
   );
+  const isStakePoolProgram = activeProgramId === SPL_STAKE_POOL_PROGRAM_ID;
+  // The stake pool adapter deposits native stake accounts, so it loads them too.
+  const loadsNativeStakes = isNativeProgram || isStakePoolProgram;
 
   const mapShyftStakeAccount = useCallback((account: ShyftStakeAccountShape) => {
     const address =
@@ -202,7 +230,7 @@ export function StakingConsole() {
       setStakeAccounts([]);
       return;
     }
-    if (!isNativeProgram) {
+    if (!loadsNativeStakes) {
       setStakeAccounts([]);
       return;
     }
@@ -313,14 +341,14 @@ export function StakingConsole() {
   }, [
     connected,
     connection,
-    isNativeProgram,
+    loadsNativeStakes,
     loadShyftStakeAccounts,
     publicKey,
     shyftApiKey
   ]);
 
   useEffect(() => {
-    if (!connected || !publicKey || !isNativeProgram) {
+    if (!connected || !publicKey || !loadsNativeStakes) {
       return;
     }
     let cancelled = false;
@@ -340,11 +368,11 @@ export function StakingConsole() {
       cancelled = true;
       window.clearInterval(intervalId);
     };
-  }, [connected, isNativeProgram, loadNativeStakeAccounts, publicKey]);
+  }, [connected, loadNativeStakeAccounts, loadsNativeStakes, publicKey]);
 
-  const applyProgramId = () => {
+  const applyProgramId = (input: string) => {
     try {
-      const nextProgramId = programInput.trim();
+      const nextProgramId = input.trim();
       if (!nextProgramId) {
         throw new Error("Program ID is required.");
       }
@@ -357,7 +385,9 @@ export function StakingConsole() {
         message:
           normalized === NATIVE_STAKE_PROGRAM_ID
             ? "Native stake adapter enabled."
-            : "Custom program selected. Adapter support can be plugged in for this Program ID."
+            : normalized === SPL_STAKE_POOL_PROGRAM_ID
+              ? "SPL Stake Pool adapter enabled."
+              : "Custom program selected. Adapter support can be plugged in for this Program ID."
       });
     } catch (unknownError) {
       setStatus({
@@ -415,10 +445,9 @@ export function StakingConsole() {
         }).instructions
       );
 
-      const signature = await sendTransaction(transaction, connection, {
+      const signature = await sendAndConfirm(transaction, {
         signers: [stakeKeypair]
       });
-      await connection.confirmTransaction(signature, "confirmed");
 
       setStatus({
         severity: "success",
@@ -440,6 +469,245 @@ export function StakingConsole() {
     }
   };
 
+  // Only authority-signed stake instructions go through the export path.
+  const exportStakeTransaction = async (transaction: Transaction) => {
+    const outcome = await instructionExport.submit(transaction.instructions);
+    setStatus({ severity: "success", ...outcome });
+  };
+
+  const submitRedelegate = async () => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+    const stakeAccount = stakeAccounts.find(
+      (account) => account.address === delegateStakeAccount
+    );
+    if (!stakeAccount) {
+      setStatus({
+        severity: "error",
+        message: "Select a stake account to delegate."
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const votePubkey = new PublicKey(voteAccount.trim());
+      const plan = planRedelegate(stakeAccount, publicKey.toBase58(), votePubkey.toBase58());
+      const stakePubkey = new PublicKey(stakeAccount.address);
+
+      if (instructionExport.isExternal) {
+        await exportStakeTransaction(
+          plan === "deactivate"
+            ? StakeProgram.deactivate({ stakePubkey, authorizedPubkey: publicKey })
+            : StakeProgram.delegate({ stakePubkey, authorizedPubkey: publicKey, votePubkey })
+        );
+        return;
+      }
+
+      if (plan === "deactivate") {
+        const signature = await sendAndConfirm(
+          StakeProgram.deactivate({ stakePubkey, authorizedPubkey: publicKey })
+        );
+        setStatus({
+          severity: "info",
+          message: `Step 1 of 2: stake is deactivating. Delegate it to ${shortenAddress(votePubkey.toBase58())} once it is inactive after the epoch ends.`,
+          signature
+        });
+      } else {
+        const signature = await sendAndConfirm(
+          StakeProgram.delegate({ stakePubkey, authorizedPubkey: publicKey, votePubkey })
+        );
+        setStatus({
+          severity: "success",
+          message: `Stake account delegated to ${shortenAddress(votePubkey.toBase58())}.`,
+          signature
+        });
+      }
+      void loadNativeStakeAccounts();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to submit delegate transaction."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitSplit = async () => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+    const stakeAccount = stakeAccounts.find((account) => account.address === splitStakeAccount);
+    if (!stakeAccount) {
+      setStatus({ severity: "error", message: "Select a stake account to split." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const lamportsBigint = parseSolToLamports(splitAmount);
+      const [rentExemptReserve, { value: minimumDelegation }] = await Promise.all([
+        connection.getMinimumBalanceForRentExemption(StakeProgram.space),
+        connection.getStakeMinimumDelegation({ commitment: "confirmed" })
+      ]);
+      validateSplit(stakeAccount, publicKey.toBase58(), lamportsBigint, {
+        rentExemptReserve,
+        minimumDelegation
+      });
+
+      const splitKeypair = Keypair.generate();
+      const signature = await sendAndConfirm(
+        StakeProgram.split(
+          {
+            stakePubkey: new PublicKey(stakeAccount.address),
+            authorizedPubkey: publicKey,
+            splitStakePubkey: splitKeypair.publicKey,
+            lamports: Number(lamportsBigint)
+          },
+          rentExemptReserve
+        ),
+        { signers: [splitKeypair] }
+      );
+      setStatus({
+        severity: "success",
+        message: `Split ${splitAmount.trim()} SOL into ${shortenAddress(splitKeypair.publicKey.toBase58())}.`,
+        signature
+      });
+      setSplitAmount("");
+      void loadNativeStakeAccounts();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to submit split transaction."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitMerge = async () => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+    const destination = stakeAccounts.find((account) => account.address === mergeDestination);
+    const source = stakeAccounts.find((account) => account.address === mergeSource);
+    if (!destination || !source) {
+      setStatus({
+        severity: "error",
+        message: "Select a destination and a source stake account to merge."
+      });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      validateMerge(destination, source, publicKey.toBase58());
+      const transaction = StakeProgram.merge({
+        stakePubkey: new PublicKey(destination.address),
+        sourceStakePubKey: new PublicKey(source.address),
+        authorizedPubkey: publicKey
+      });
+      if (instructionExport.isExternal) {
+        await exportStakeTransaction(transaction);
+        return;
+      }
+      const signature = await sendAndConfirm(transaction);
+      setStatus({
+        severity: "success",
+        message: `Merged ${shortenAddress(source.address)} into ${shortenAddress(destination.address)}.`,
+        signature
+      });
+      setMergeSource("");
+      void loadNativeStakeAccounts();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to submit merge transaction."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const submitAuthorize = async () => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+    const stakeAccount = stakeAccounts.find(
+      (account) => account.address === authorizeStakeAccount
+    );
+    if (!stakeAccount) {
+      setStatus({ severity: "error", message: "Select a stake account to update." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const newAuthorizedPubkey = new PublicKey(newAuthority.trim());
+      validateAuthorize(
+        stakeAccount,
+        publicKey.toBase58(),
+        authorizeKind,
+        newAuthorizedPubkey.toBase58()
+      );
+      if (!confirmAuthorize) {
+        throw new Error("Confirm the authority change before submitting.");
+      }
+
+      const transaction = StakeProgram.authorize({
+        stakePubkey: new PublicKey(stakeAccount.address),
+        authorizedPubkey: publicKey,
+        newAuthorizedPubkey,
+        stakeAuthorizationType:
+          authorizeKind === "staker"
+            ? StakeAuthorizationLayout.Staker
+            : StakeAuthorizationLayout.Withdrawer
+      });
+      if (instructionExport.isExternal) {
+        await exportStakeTransaction(transaction);
+        return;
+      }
+      const signature = await sendAndConfirm(transaction);
+      setStatus({
+        severity: "success",
+        message: `${authorizeKind === "staker" ? "Staker" : "Withdrawer"} set to ${shortenAddress(newAuthorizedPubkey.toBase58())}.`,
+        signature
+      });
+      setNewAuthority("");
+      setConfirmAuthorize(false);
+      void loadNativeStakeAccounts();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to submit authorize transaction."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const submitDeactivate = async () => {
     if (!publicKey) {
       setStatus({ severity: "error", message: "Connect your wallet first." });
@@ -456,14 +724,15 @@ export function StakingConsole() {
     setIsSubmitting(true);
     setStatus(null);
     try {
-      const signature = await sendTransaction(
-        StakeProgram.deactivate({
-          stakePubkey: new PublicKey(deactivateStakeAccount),
-          authorizedPubkey: publicKey
-        }),
-        connection
-      );
-      await connection.confirmTransaction(signature, "confirmed");
+      const transaction = StakeProgram.deactivate({
+        stakePubkey: new PublicKey(deactivateStakeAccount),
+        authorizedPubkey: publicKey
+      });
+      if (instructionExport.isExternal) {
+        await exportStakeTransaction(transaction);
+        return;
+      }
+      const signature = await sendAndConfirm(transaction);
       setStatus({
         severity: "success",
         message:
@@ -505,16 +774,17 @@ export function StakingConsole() {
         throw new Error("Withdraw amount too large.");
       }
 
-      const signature = await sendTransaction(
-        StakeProgram.withdraw({
-          stakePubkey: new PublicKey(withdrawStakeAccount),
-          authorizedPubkey: publicKey,
-          toPubkey: publicKey,
-          lamports: Number(lamportsBigint)
-        }),
-        connection
-      );
-      await connection.confirmTransaction(signature, "confirmed");
+      const transaction = StakeProgram.withdraw({
+        stakePubkey: new PublicKey(withdrawStakeAccount),
+        authorizedPubkey: publicKey,
+        toPubkey: publicKey,
+        lamports: Number(lamportsBigint)
+      });
+      if (instructionExport.isExternal) {
+        await exportStakeTransaction(transaction);
+        return;
+      }
+      const signature = await sendAndConfirm(transaction);
       setStatus({
         severity: "success",
         message: "Withdraw transaction submitted.",
@@ -546,7 +816,8 @@ export function StakingConsole() {
 
           <Typography variant="body2" color="text.secondary">
             Enter a staking Program ID. Native stake operations are enabled by
-            default; custom adapters can be plugged in for other programs.
+            default, the SPL Stake Pool program has a liquid staking adapter, and
+            custom adapters can be plugged in for other programs.
           </Typography>
 
           <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
@@ -559,11 +830,35 @@ export function StakingConsole() {
               }}
               fullWidth
             />
-            <Button variant="outlined" onClick={applyProgramId}>
+            <Button
+              variant="outlined"
+              onClick={() => {
+                applyProgramId(programInput);
+              }}
+            >
               Apply
             </Button>
           </Stack>
 
+          <Stack direction="row" spacing={0.8}>
+            <Chip
+              size="small"
+              variant={isNativeProgram ? "filled" : "outlined"}
+              label="Native Stake"
+              onClick={() => {
+                applyProgramId(NATIVE_STAKE_PROGRAM_ID);
+              }}
+            />
+            <Chip
+              size="small"
+              variant={isStakePoolProgram ? "filled" : "outlined"}
+              label="SPL Stake Pool"
+              onClick={() => {
+                applyProgramId(SPL_STAKE_POOL_PROGRAM_ID);
+              }}
+            />
+          </Stack>
+
           <Typography
             variant="caption"
             sx={{ wordBreak: "break-all", fontFamily: "var(--font-mono), monospace" }}
@@ -597,10 +892,18 @@ export function StakingConsole() {
             <Alert severity="info">Connect your wallet to manage staking.</Alert>
           ) : null}
 
-          {!isNativeProgram ? (
+          {isStakePoolProgram ? (
+            <StakePoolPanel
+              stakeAccounts={stakeAccounts}
+              onStakeAccountsChanged={() => {
+                void loadNativeStakeAccounts();
+              }}
+            />
+          ) : !isNativeProgram ? (
             <Alert severity="warning">
               Custom Program ID accepted. Staking actions are currently enabled
-              for native stake only (`{NATIVE_STAKE_PROGRAM_ID}`).
+              for native stake (`{NATIVE_STAKE_PROGRAM_ID}`) and the SPL Stake Pool
+              program (`{SPL_STAKE_POOL_PROGRAM_ID}`).
             </Alert>
           ) : (
             <>
@@ -666,6 +969,13 @@ export function StakingConsole() {
                               Vote: {shortenAddress(account.voter)}
                             </Typography>
                           ) : null}
+                          {account.staker || account.withdrawer ? (
+                            <Typography variant="caption" color="text.secondary">
+                              Staker: {account.staker ? shortenAddress(account.staker) : "--"} |
+                              Withdrawer:{" "}
+                              {account.withdrawer ? shortenAddress(account.withdrawer) : "--"}
+                            </Typography>
+                          ) : null}
                         </Stack>
                       </CardContent>
                     </Card>
@@ -673,6 +983,19 @@ export function StakingConsole() {
                 </Box>
               )}
 
+              <StakeRewardsReport stakeAccounts={stakeAccounts} />
+
+              <ValidatorBrowser
+                selectedVoteAccount={voteAccount.trim()}
+                onSelect={setVoteAccount}
+              />
+
+              <InstructionExportPanel
+                exportState={instructionExport}
+                modes={["wallet", "unsigned"]}
+                description="Delegate, merge, authorize, harvest and withdraw can be exported. Stake and Split create a stake account whose generated keypair must sign, so they only run from the connected wallet."
+              />
+
               <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
                 <CardContent sx={{ p: 1.2 }}>
                   <Stack spacing={1}>
@@ -698,7 +1021,7 @@ export function StakingConsole() {
                       onClick={() => {
                         void submitStake();
                       }}
-                      disabled={isSubmitting || !connected}
+                      disabled={isSubmitting || !connected || instructionExport.isExternal}
                     >
                       Stake
                     </Button>
@@ -706,6 +1029,225 @@ export function StakingConsole() {
                 </CardContent>
               </Card>
 
+              <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+                <CardContent sx={{ p: 1.2 }}>
+                  <Stack spacing={1}>
+                    <Typography variant="subtitle2">Delegate / Redelegate</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Inactive stake is delegated to the vote account above right away.
+                      Active stake is deactivated first; submit again once it is inactive
+                      after the epoch ends.
+                    </Typography>
+                    <TextField
+                      select
+                      size="small"
+                      label="Stake Account"
+                      value={delegateStakeAccount}
+                      onChange={(event) => {
+                        setDelegateStakeAccount(event.target.value);
+                      }}
+                    >
+                      {stakeAccounts.map((account) => (
+                        <MenuItem key={account.address} value={account.address}>
+                          {shortenAddress(account.address)} ({account.state})
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <Typography
+                      variant="caption"
+                      color="text.secondary"
+                      sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                    >
+                      Vote Account: {voteAccount.trim() || "--"}
+                    </Typography>
+                    <Button
+                      variant="outlined"
+                      onClick={() => {
+                        void submitRedelegate();
+                      }}
+                      disabled={isSubmitting || !connected}
+                    >
+                      Delegate / Redelegate
+                    </Button>
+                  </Stack>
+                </CardContent>
+              </Card>
+
+              <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+                <CardContent sx={{ p: 1.2 }}>
+                  <Stack spacing={1}>
+                    <Typography variant="subtitle2">Split</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Moves part of a stake account into a new account with the same
+                      authorities and delegation. The new account&apos;s rent reserve is paid
+                      by your wallet.
+                    </Typography>
+                    <TextField
+                      select
+                      size="small"
+                      label="Stake Account"
+                      value={splitStakeAccount}
+                      onChange={(event) => {
+                        setSplitStakeAccount(event.target.value);
+                      }}
+                    >
+                      {stakeAccounts.map((account) => (
+                        <MenuItem key={account.address} value={account.address}>
+                          {shortenAddress(account.address)} ({account.state},{" "}
+                          {lamportsToSolLabel(account.lamports)} SOL)
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      size="small"
+                      label="Amount (SOL)"
+                      value={splitAmount}
+                      onChange={(event) => {
+                        setSplitAmount(event.target.value);
+                      }}
+                    />
+                    <Button
+                      variant="outlined"
+                      onClick={() => {
+                        void submitSplit();
+                      }}
+                      disabled={isSubmitting || !connected || instructionExport.isExternal}
+                    >
+                      Split
+                    </Button>
+                  </Stack>
+                </CardContent>
+              </Card>
+
+              <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+                <CardContent sx={{ p: 1.2 }}>
+                  <Stack spacing={1}>
+                    <Typography variant="subtitle2">Merge</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Merges the source into the destination and closes the source. Accounts
+                      need the same authorities and validator, and both inactive, both
+                      activating, or both active.
+                    </Typography>
+                    <TextField
+                      select
+                      size="small"
+                      label="Destination"
+                      value={mergeDestination}
+                      onChange={(event) => {
+                        setMergeDestination(event.target.value);
+                      }}
+                    >
+                      {stakeAccounts.map((account) => (
+                        <MenuItem key={account.address} value={account.address}>
+                          {shortenAddress(account.address)} ({account.state})
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      select
+                      size="small"
+                      label="Source (closed)"
+                      value={mergeSource}
+                      onChange={(event) => {
+                        setMergeSource(event.target.value);
+                      }}
+                    >
+                      {stakeAccounts
+                        .filter((account) => account.address !== mergeDestination)
+                        .map((account) => (
+                          <MenuItem key={account.address} value={account.address}>
+                            {shortenAddress(account.address)} ({account.state})
+                          </MenuItem>
+                        ))}
+                    </TextField>
+                    <Button
+                      variant="outlined"
+                      onClick={() => {
+                        void submitMerge();
+                      }}
+                      disabled={isSubmitting || !connected}
+                    >
+                      Merge
+                    </Button>
+                  </Stack>
+                </CardContent>
+              </Card>
+
+              <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+                <CardContent sx={{ p: 1.2 }}>
+                  <Stack spacing={1}>
+                    <Typography variant="subtitle2">Authorize</Typography>
+                    <Typography variant="caption" color="text.secondary">
+                      Changes the staker or withdrawer. The new authority can be any
+                      address, including a governance PDA or multisig vault.
+                    </Typography>
+                    <TextField
+                      select
+                      size="small"
+                      label="Stake Account"
+                      value={authorizeStakeAccount}
+                      onChange={(event) => {
+                        setAuthorizeStakeAccount(event.target.value);
+                      }}
+                    >
+                      {stakeAccounts.map((account) => (
+                        <MenuItem key={account.address} value={account.address}>
+                          {shortenAddress(account.address)} ({account.state})
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                    <TextField
+                      select
+                      size="small"
+                      label="Authority"
+                      value={authorizeKind}
+                      onChange={(event) => {
+                        setAuthorizeKind(event.target.value as StakeAuthorityKind);
+                      }}
+                    >
+                      <MenuItem value="staker">Staker</MenuItem>
+                      <MenuItem value="withdrawer">Withdrawer</MenuItem>
+                    </TextField>
+                    <TextField
+                      size="small"
+                      label="New Authority"
+                      value={newAuthority}
+                      onChange={(event) => {
+                        setNewAuthority(event.target.value);
+                      }}
+                    />
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          size="small"
+                          checked={confirmAuthorize}
+                          onChange={(event) => {
+                            setConfirmAuthorize(event.target.checked);
+                          }}
+                        />
+                      }
+                      label={
+                        <Typography variant="caption">
+                          I understand this wallet can no longer act as{" "}
+                          {authorizeKind === "staker" ? "staker" : "withdrawer"} unless the
+                          new authority returns it.
+                        </Typography>
+                      }
+                    />
+                    <Button
+                      variant="outlined"
+                      color="warning"
+                      onClick={() => {
+                        void submitAuthorize();
+                      }}
+                      disabled={isSubmitting || !connected || !confirmAuthorize}
+                    >
+                      Update Authority
+                    </Button>
+                  </Stack>
+                </CardContent>
+              </Card>
+
               <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
                 <CardContent sx={{ p: 1.2 }}>
                   <Stack spacing={1}>
@@ -6,24 +6,27 @@ import type { MessageSignerWalletAdapter } from "@solana/wallet-adapter-base";
 import {
   ASSOCIATED_TOKEN_PROGRAM_ID,
   AuthorityType,
-  ExtensionType,
+  ACCOUNT_SIZE,
+  AccountState,
   MINT_SIZE,
   TOKEN_2022_PROGRAM_ID,
   TOKEN_PROGRAM_ID,
   createAssociatedTokenAccountIdempotentInstruction,
   createAssociatedTokenAccountInstruction,
   createCloseAccountInstruction,
-  createInitializeMintCloseAuthorityInstruction,
   createInitializeMint2Instruction,
   createMintToInstruction,
   createSetAuthorityInstruction,
+  createSetTransferFeeInstruction,
   createTransferInstruction,
+  createWithdrawWithheldTokensFromMintInstruction,
   getAssociatedTokenAddressSync,
+  getEpochFee,
   getMint,
-  getMintCloseAuthority,
-  getMintLen
+  getMintCloseAuthority
 } from "@solana/spl-token";
 import {
+  type AccountInfo,
   type ParsedAccountData,
   LAMPORTS_PER_SOL,
   PublicKey,
@@ -46,7 +49,6 @@ import {
   GRAPE_DISTRIBUTOR_PROGRAM_ID,
   decodeClaimStatusAccount,
   computeLeaf,
-  hashSortedPair,
   verifyMerkleProofSorted
 } from "grape-distributor-sdk";
 import { Buffer } from "buffer";
@@ -67,7 +69,71 @@ import {
   TextField,
   Typography
 } from "@mui/material";
+import { InstructionExportPanel } from "@/components/wallet/instruction-export-panel";
+import { useInstructionExport } from "@/hooks/use-instruction-export";
+import { useRiskRuleConfig } from "@/hooks/use-risk-rule-config";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
 import type { WalletHoldingsState } from "@/hooks/use-wallet-holdings";
+import {
+  diffAuthorityInventoryReports,
+  parseAuthorityInventoryReport,
+  serializeAuthorityInventoryCsv,
+  serializeAuthorityInventoryJson,
+  type AuthorityInventoryReport,
+  type AuthorityInventoryRow,
+  type MetadataStandard
+} from "@/lib/authority-inventory";
+import {
+  BUILT_IN_RISK_RULES,
+  RISK_SEVERITIES,
+  classifyAuthorityAccount,
+  evaluateRiskRules,
+  normalizeRiskRuleConfig,
+  type RiskFinding,
+  type RiskRuleContext,
+  type RiskSeverity
+} from "@/lib/authority-risk-rules";
+import {
+  buildDistributorClaimPackage,
+  describeDistributorMerkleProgress
+} from "@/lib/distributor-merkle";
+import {
+  fetchDistributorShardManifest,
+  getDistributorShardPrefixLength,
+  isDistributorShardIndex
+} from "@/lib/distributor-shards";
+import {
+  parseDistributorSnapshot,
+  type DistributorSnapshotAllocation,
+  type ParsedDistributorSnapshot
+} from "@/lib/distributor-snapshot";
+import {
+  DEFAULT_SPL_GOVERNANCE_PROGRAM_ID,
+  buildGovernanceProposalInstructionGroups,
+  fetchGovernanceProposerContext,
+  getGovernanceAuthorityAddress,
+  type GovernanceAuthorityKind,
+  type GovernanceProposalTarget
+} from "@/lib/spl-governance";
+import {
+  buildEmbeddedMetadataAuthorityInstruction,
+  buildHarvestWithheldInstructionGroups,
+  buildInitializeEmbeddedMetadataInstructions,
+  buildMintExtensionInstructions,
+  buildUpdateEmbeddedMetadataInstructions,
+  describeMintExtensions,
+  fetchTransferFeeState,
+  formatAdditionalMetadataInput,
+  getMintSpace,
+  parseAdditionalMetadataInput,
+  readEmbeddedMetadata,
+  validateMintExtensionConfig,
+  type EmbeddedMetadataState,
+  type MintExtensionConfig,
+  type MintExtensionSummary,
+  type TransferFeeState
+} from "@/lib/token-extensions";
+import type { LookupTableMode } from "@/lib/versioned-transactions";
 
 type TokenAuthorityManagerProps = {
   holdingsState: WalletHoldingsState;
@@ -84,10 +150,9 @@ type DistributorAllocation = {
   index: bigint;
 };
 
-type DistributorAllocationInput = {
-  wallet: PublicKey;
-  amount: bigint;
-  explicitIndex: bigint | null;
+type DistributorWizardSnapshotReport = ParsedDistributorSnapshot & {
+  source: string;
+  decimals: number;
 };
 
 type TokenMetadataTemplate = {
@@ -113,21 +178,7 @@ type AuthorityMint = {
   isInitialized: boolean;
 };
 
-type AuthorityInventoryRow = {
-  mint: string;
-  programId: string;
-  decimals: number;
-  supplyLabel: string;
-  mintAuthority: string | null;
-  freezeAuthority: string | null;
-  metadataUpdateAuthority: string | null;
-  metadataUri: string | null;
-  metadataMutable: boolean | null;
-  hasMintAuthority: boolean;
-  hasFreezeAuthority: boolean;
-  hasMetadataAuthority: boolean;
-  riskFlags: string[];
-};
+type AuthorityInventoryScanEntry = Omit<RiskRuleContext, "authorityClasses">;
 
 type UpgradeableBufferRow = {
   address: string;
@@ -142,6 +193,53 @@ type StatusState = {
   signature?: string;
 } | null;
 
+type MintExtensionDraft = {
+  transferFeeEnabled: boolean;
+  transferFeeBasisPoints: string;
+  transferFeeMaximum: string;
+  interestBearingEnabled: boolean;
+  interestRateBasisPoints: string;
+  nonTransferable: boolean;
+  permanentDelegateEnabled: boolean;
+  permanentDelegate: string;
+  defaultAccountStateEnabled: boolean;
+  defaultAccountState: "initialized" | "frozen";
+  embeddedMetadataEnabled: boolean;
+  embeddedMetadataName: string;
+  embeddedMetadataSymbol: string;
+  embeddedMetadataUri: string;
+  transferHookEnabled: boolean;
+  transferHookProgramId: string;
+};
+
+type CreateMintPlan = {
+  decimals: number;
+  freezeAuthority: PublicKey | null;
+  extensions: MintExtensionConfig;
+  summaries: MintExtensionSummary[];
+  mintLen: number;
+  rentLamports: number;
+};
+
+const DEFAULT_MINT_EXTENSION_DRAFT: MintExtensionDraft = {
+  transferFeeEnabled: false,
+  transferFeeBasisPoints: "50",
+  transferFeeMaximum: "",
+  interestBearingEnabled: false,
+  interestRateBasisPoints: "500",
+  nonTransferable: false,
+  permanentDelegateEnabled: false,
+  permanentDelegate: "",
+  defaultAccountStateEnabled: false,
+  defaultAccountState: "initialized",
+  embeddedMetadataEnabled: false,
+  embeddedMetadataName: "",
+  embeddedMetadataSymbol: "",
+  embeddedMetadataUri: "",
+  transferHookEnabled: false,
+  transferHookProgramId: ""
+};
+
 const TOKEN_METADATA_PROGRAM_ID = new PublicKey(MPL_TOKEN_METADATA_PROGRAM_ID);
 const METADATA_SEED = new TextEncoder().encode("metadata");
 
@@ -150,15 +248,37 @@ const TOKEN_PROGRAM_OPTIONS = [
   { label: "SPL Token 2022", value: TOKEN_2022_PROGRAM_ID.toBase58() }
 ];
 
-const DEFAULT_SPL_GOVERNANCE_PROGRAM_ID = new PublicKey(
-  "GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw"
-);
 const UPGRADEABLE_LOADER_PROGRAM_ID = new PublicKey(
   "BPFLoaderUpgradeab1e11111111111111111111111"
 );
 const UPGRADEABLE_LOADER_BUFFER_STATE = 1;
 const UPGRADEABLE_LOADER_BUFFER_META_SIZE = 37;
 const UPGRADEABLE_LOADER_CLOSE_INSTRUCTION_INDEX = 5;
+const METADATA_STANDARD_LABELS: Record<MetadataStandard, string> = {
+  metaplex: "Metaplex Metadata",
+  "token-2022": "Token-2022 Metadata",
+  both: "Metaplex + Token-2022 Metadata",
+  none: "No Metadata"
+};
+const RISK_SEVERITY_WEIGHTS: Record<RiskSeverity, number> = {
+  high: 1000,
+  medium: 100,
+  low: 10,
+  info: 1
+};
+const RISK_SEVERITY_COLORS: Record<RiskSeverity, "error" | "warning" | "info" | "default"> = {
+  high: "error",
+  medium: "warning",
+  low: "info",
+  info: "default"
+};
+// Base58 encoding of the single Token-2022 AccountType.Mint byte (1).
+const MINT_ACCOUNT_TYPE_BYTES = "2";
+// Above this many wallets one distributor-wide claim status scan beats per-wallet queries.
+const DISTRIBUTOR_PER_WALLET_SCAN_LIMIT = 100;
+// Larger generated claim packages are kept as a Blob and not rendered inline.
+const DISTRIBUTOR_PACKAGE_INLINE_BYTES = 200_000;
+const DISTRIBUTOR_SNAPSHOT_ISSUES_SHOWN = 50;
 
 function parseAmountToBaseUnits(input: string, decimals: number): bigint {
   const normalized = input.trim();
@@ -333,90 +453,19 @@ function parseDistributionRecipients(
   return recipients;
 }
 
-function parseDistributorAllocationsInput(input: string, decimals: number) {
-  const lines = input
-    .split(/\r?\n/)
-    .map((line) => line.trim())
-    .filter((line) => line.length > 0 && !line.startsWith("#"));
-
-  if (lines.length === 0) {
-    throw new Error("Add at least one allocation line.");
-  }
-
-  const allocations: DistributorAllocationInput[] = lines.map((line, index) => {
-    const parts = line.includes(",")
-      ? line.split(",").map((value) => value.trim())
-      : line.split(/\s+/).map((value) => value.trim());
-    if (parts.length < 2 || !parts[0] || !parts[1]) {
-      throw new Error(
-        `Invalid allocation format on line ${index + 1}. Use wallet,amount.`
-      );
-    }
-
-    const wallet = new PublicKey(parts[0]);
-    const amount = parseAmountToBaseUnits(parts[1], decimals);
-    if (amount <= 0n) {
-      throw new Error(
-        `Allocation amount must be greater than zero on line ${index + 1}.`
-      );
-    }
-
-    const explicitIndexInput = (parts[2] || "").trim();
-    const explicitIndex =
-      explicitIndexInput.length > 0
-        ? (() => {
-            if (!/^\d+$/.test(explicitIndexInput)) {
-              throw new Error(
-                `Allocation index must be a non-negative integer on line ${index + 1}.`
-              );
-            }
-            return BigInt(explicitIndexInput);
-          })()
-        : null;
-
-    return { wallet, amount, explicitIndex };
-  });
-
-  return allocations;
-}
-
-function buildMerkleRootAndProofs(leaves: Uint8Array[]) {
-  if (leaves.length === 0) {
-    throw new Error("At least one leaf is required.");
-  }
-
-  const levels: Uint8Array[][] = [leaves];
-  while (levels[levels.length - 1].length > 1) {
-    const currentLevel = levels[levels.length - 1];
-    const nextLevel: Uint8Array[] = [];
-    for (let index = 0; index < currentLevel.length; index += 2) {
-      const left = currentLevel[index];
-      const right = currentLevel[index + 1] ?? currentLevel[index];
-      nextLevel.push(hashSortedPair(left, right));
-    }
-    levels.push(nextLevel);
-  }
-
-  const proofs: Uint8Array[][] = leaves.map((_leaf, leafIndex) => {
-    const proof: Uint8Array[] = [];
-    let cursor = leafIndex;
-    for (let level = 0; level < levels.length - 1; level += 1) {
-      const nodes = levels[level];
-      const siblingIndex = cursor ^ 1;
-      proof.push(nodes[siblingIndex] ?? nodes[cursor]);
-      cursor = Math.floor(cursor / 2);
-    }
-    return proof;
-  });
-
-  return {
-    root: levels[levels.length - 1][0],
-    proofs
-  };
+function describeDistributorSnapshotReport(report: DistributorWizardSnapshotReport) {
+  return (
+    `${report.allocations.length} allocation(s) from ${report.rowCount} row(s) in ${report.source}: ` +
+    `${report.mergedRowCount} duplicate row(s) merged, ${report.offCurveCount} off-curve wallet(s), ` +
+    `${report.errors.length} invalid row(s). Total ${formatRawUnits(report.totalAmount, report.decimals)} tokens.`
+  );
 }
 
-function toHexPrefixed(bytes: Uint8Array) {
-  return `0x${Buffer.from(bytes).toString("hex")}`;
+function getRiskSeverityWeight(findings: RiskFinding[]) {
+  return findings.reduce(
+    (total, finding) => total + RISK_SEVERITY_WEIGHTS[finding.severity],
+    0
+  );
 }
 
 function shortenAddress(address: string) {
@@ -637,7 +686,9 @@ function findMetadataPda(mint: PublicKey) {
 
 export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerProps) {
   const { connection } = useConnection();
-  const { connected, publicKey, sendTransaction, wallet } = useWallet();
+  const { connected, publicKey, wallet } = useWallet();
+  const { sendAndConfirm, sendInstructionBatches } = useTransactionPipeline();
+  const instructionExport = useInstructionExport();
   const { refresh } = holdingsState;
 
   const [status, setStatus] = useState<StatusState>(null);
@@ -657,6 +708,10 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     "disabled" | "self" | "custom"
   >("disabled");
   const [customMintCloseAuthority, setCustomMintCloseAuthority] = useState("");
+  const [mintExtensionDraft, setMintExtensionDraft] = useState<MintExtensionDraft>(
+    DEFAULT_MINT_EXTENSION_DRAFT
+  );
+  const [createMintPlan, setCreateMintPlan] = useState<CreateMintPlan | null>(null);
   const [closeMintAddress, setCloseMintAddress] = useState("");
   const [closeMintDestination, setCloseMintDestination] = useState("");
   const [closeMintAcknowledged, setCloseMintAcknowledged] = useState(false);
@@ -669,11 +724,71 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
   const [authorityScanScope, setAuthorityScanScope] = useState<
     "known" | "active" | "all"
   >("known");
-  const [authorityInventory, setAuthorityInventory] = useState<
-    AuthorityInventoryRow[]
+  const [authorityInventoryEntries, setAuthorityInventoryEntries] = useState<
+    AuthorityInventoryScanEntry[]
   >([]);
+  const [authorityAccountInfos, setAuthorityAccountInfos] = useState<
+    Map<string, AccountInfo<Buffer> | null>
+  >(() => new Map());
+  const { config: riskRuleConfig, setConfig: setRiskRuleConfig, resetConfig: resetRiskRuleConfig } =
+    useRiskRuleConfig();
+  const [riskSeverityFilter, setRiskSeverityFilter] = useState<RiskSeverity[]>([]);
+  const [showRiskRules, setShowRiskRules] = useState(false);
+  const authorityInventory = useMemo<AuthorityInventoryRow[]>(
+    () =>
+      authorityInventoryEntries
+        .map(({ supplyRaw, ...entry }) => {
+          const classify = (address: string | null) =>
+            classifyAuthorityAccount(
+              address,
+              address ? authorityAccountInfos.get(address) ?? null : null,
+              riskRuleConfig
+            );
+          const riskFindings = evaluateRiskRules(
+            {
+              ...entry,
+              supplyRaw,
+              authorityClasses: {
+                mint: classify(entry.mintAuthority),
+                freeze: classify(entry.freezeAuthority),
+                metadata: classify(entry.metadataUpdateAuthority)
+              }
+            },
+            riskRuleConfig
+          );
+          return {
+            ...entry,
+            riskFlags: riskFindings.map((finding) => finding.label),
+            riskFindings
+          };
+        })
+        .sort((left, right) => {
+          const severityDelta =
+            getRiskSeverityWeight(right.riskFindings) - getRiskSeverityWeight(left.riskFindings);
+          if (severityDelta !== 0) {
+            return severityDelta;
+          }
+          return left.mint.localeCompare(right.mint);
+        }),
+    [authorityAccountInfos, authorityInventoryEntries, riskRuleConfig]
+  );
+  const filteredAuthorityInventory = useMemo(
+    () =>
+      riskSeverityFilter.length === 0
+        ? authorityInventory
+        : authorityInventory.filter((row) =>
+            row.riskFindings.some((finding) => riskSeverityFilter.includes(finding.severity))
+          ),
+    [authorityInventory, riskSeverityFilter]
+  );
   const [authorityInventoryLoading, setAuthorityInventoryLoading] = useState(false);
   const [authorityInventoryInput, setAuthorityInventoryInput] = useState("");
+  const [authorityInventoryScan, setAuthorityInventoryScan] = useState<{
+    generatedAt: string;
+    slot: number;
+  } | null>(null);
+  const [authorityInventoryBaseline, setAuthorityInventoryBaseline] =
+    useState<AuthorityInventoryReport | null>(null);
   const [upgradeableBufferAuthority, setUpgradeableBufferAuthority] = useState("");
   const [upgradeableBufferCloseRecipient, setUpgradeableBufferCloseRecipient] =
     useState("");
@@ -690,19 +805,43 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     useState(true);
   const [rotateMetadataAuthorityEnabled, setRotateMetadataAuthorityEnabled] =
     useState(true);
+  const [proposalModeEnabled, setProposalModeEnabled] = useState(false);
+  const [proposalGovernanceProgramId, setProposalGovernanceProgramId] = useState(
+    DEFAULT_SPL_GOVERNANCE_PROGRAM_ID.toBase58()
+  );
+  const [proposalRealm, setProposalRealm] = useState("");
+  const [proposalGovernance, setProposalGovernance] = useState("");
+  const [proposalAuthorityKind, setProposalAuthorityKind] =
+    useState<GovernanceAuthorityKind>("native-treasury");
+  const [proposalName, setProposalName] = useState("");
+  const [proposalDescriptionLink, setProposalDescriptionLink] = useState("");
+  const [proposalSignOff, setProposalSignOff] = useState(true);
 
   const [mintAddress, setMintAddress] = useState("");
   const [mintDestinationOwner, setMintDestinationOwner] = useState("");
   const [mintAmount, setMintAmount] = useState("");
   const [distributionMintAddress, setDistributionMintAddress] = useState("");
   const [distributionRecipients, setDistributionRecipients] = useState("");
+  const [distributionLookupTableMode, setDistributionLookupTableMode] =
+    useState<LookupTableMode>("auto");
   const [distributorWizardMint, setDistributorWizardMint] = useState("");
   const [distributorWizardClaimant, setDistributorWizardClaimant] = useState("");
   const [distributorWizardAllocations, setDistributorWizardAllocations] =
     useState("");
+  const [distributorWizardSnapshotFile, setDistributorWizardSnapshotFile] = useState<{
+    name: string;
+    text: string;
+  } | null>(null);
+  const [distributorWizardSnapshotReport, setDistributorWizardSnapshotReport] =
+    useState<DistributorWizardSnapshotReport | null>(null);
+  const [distributorWizardProgress, setDistributorWizardProgress] = useState("");
+  const [isDistributorWizardBusy, setIsDistributorWizardBusy] = useState(false);
   const [distributorWizardIndexMode, setDistributorWizardIndexMode] = useState<
     "onchain" | "line"
   >("onchain");
+  const [distributorWizardPackageFormat, setDistributorWizardPackageFormat] = useState<
+    "manifest" | "sharded"
+  >("manifest");
   const [distributorWizardRealm, setDistributorWizardRealm] = useState("");
   const [
     distributorWizardGovernanceProgramId,
@@ -746,6 +885,11 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
   const [distributorClaimRoot, setDistributorClaimRoot] = useState("");
   const [distributorClaimPackageJson, setDistributorClaimPackageJson] =
     useState("");
+  const [distributorClaimPackageFile, setDistributorClaimPackageFile] = useState<{
+    blob: Blob;
+    fileName: string;
+    shardCount: number | null;
+  } | null>(null);
   const [distributorClaimPackageUrl, setDistributorClaimPackageUrl] =
     useState("");
   const [uploadedDistributorClaimPackageUrl, setUploadedDistributorClaimPackageUrl] =
@@ -759,6 +903,13 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
   const [authorityType, setAuthorityType] = useState<"mint" | "freeze">("mint");
   const [newAuthority, setNewAuthority] = useState("");
 
+  const [transferFeeMint, setTransferFeeMint] = useState("");
+  const [transferFeeState, setTransferFeeState] = useState<TransferFeeState | null>(null);
+  const [transferFeeLoading, setTransferFeeLoading] = useState(false);
+  const [transferFeeTreasuryOwner, setTransferFeeTreasuryOwner] = useState("");
+  const [nextTransferFeeBasisPoints, setNextTransferFeeBasisPoints] = useState("");
+  const [nextTransferFeeMaximum, setNextTransferFeeMaximum] = useState("");
+
   const [metadataMint, setMetadataMint] = useState("");
   const [metadataName, setMetadataName] = useState("");
   const [metadataSymbol, setMetadataSymbol] = useState("");
@@ -771,6 +922,15 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
   const [metadataNewUpdateAuthority, setMetadataNewUpdateAuthority] = useState("");
   const [metadataUriOnlyMint, setMetadataUriOnlyMint] = useState("");
   const [metadataUriOnlyValue, setMetadataUriOnlyValue] = useState("");
+  const [embeddedMetadataMint, setEmbeddedMetadataMint] = useState("");
+  const [embeddedMetadataState, setEmbeddedMetadataState] =
+    useState<EmbeddedMetadataState | null>(null);
+  const [embeddedMetadataLoading, setEmbeddedMetadataLoading] = useState(false);
+  const [embeddedMetadataName, setEmbeddedMetadataName] = useState("");
+  const [embeddedMetadataSymbol, setEmbeddedMetadataSymbol] = useState("");
+  const [embeddedMetadataUri, setEmbeddedMetadataUri] = useState("");
+  const [embeddedMetadataAdditional, setEmbeddedMetadataAdditional] = useState("");
+  const [embeddedMetadataNewAuthority, setEmbeddedMetadataNewAuthority] = useState("");
   const [isUploadingMetadata, setIsUploadingMetadata] = useState(false);
   const [uploadedMetadataUrl, setUploadedMetadataUrl] = useState("");
   const [tokenImageUri, setTokenImageUri] = useState("");
@@ -824,8 +984,59 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     if (!isToken2022Program && mintCloseAuthorityMode !== "disabled") {
       setMintCloseAuthorityMode("disabled");
     }
+    if (!isToken2022Program) {
+      setMintExtensionDraft(DEFAULT_MINT_EXTENSION_DRAFT);
+    }
   }, [isToken2022Program, mintCloseAuthorityMode]);
 
+  useEffect(() => {
+    setCreateMintPlan(null);
+  }, [
+    createDecimals,
+    customFreezeAuthority,
+    customMintCloseAuthority,
+    freezeAuthorityMode,
+    mintCloseAuthorityMode,
+    mintExtensionDraft,
+    tokenProgramId
+  ]);
+
+  const authorityInventoryDiff = useMemo(
+    () =>
+      authorityInventoryBaseline && authorityInventoryScan
+        ? diffAuthorityInventoryReports(authorityInventoryBaseline, {
+            ...authorityInventoryScan,
+            rows: authorityInventory
+          })
+        : null,
+    [authorityInventory, authorityInventoryBaseline, authorityInventoryScan]
+  );
+
+  const proposalTarget = useMemo<GovernanceProposalTarget | null>(() => {
+    try {
+      return {
+        programId: new PublicKey(proposalGovernanceProgramId.trim()),
+        realm: new PublicKey(proposalRealm.trim()),
+        governance: new PublicKey(proposalGovernance.trim()),
+        authorityKind: proposalAuthorityKind
+      };
+    } catch {
+      return null;
+    }
+  }, [proposalAuthorityKind, proposalGovernance, proposalGovernanceProgramId, proposalRealm]);
+
+  const token2022AuthorityMints = useMemo(
+    () =>
+      authorityMints.filter(
+        (entry) => entry.programId === TOKEN_2022_PROGRAM_ID.toBase58()
+      ),
+    [authorityMints]
+  );
+
+  const updateMintExtensionDraft = (patch: Partial<MintExtensionDraft>) => {
+    setMintExtensionDraft((current) => ({ ...current, ...patch }));
+  };
+
   const loadAuthorityMintsFromKnownMints = useCallback(async () => {
     if (!publicKey) {
       return [];
@@ -963,10 +1174,21 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
           authorityScanScope === "all"
             ? [TOKEN_PROGRAM_ID, TOKEN_2022_PROGRAM_ID]
             : [activeTokenProgramPublicKey];
-        const queryPlan = programIds.flatMap((programId) => [
-          { programId, offset: 4 },
-          { programId, offset: 50 }
-        ]);
+        // Token-2022 mints with extensions are longer than MINT_SIZE and carry
+        // the Mint account type byte right after the base account length.
+        const sizeFilters = (programId: PublicKey) =>
+          programId.equals(TOKEN_2022_PROGRAM_ID)
+            ? [
+                { dataSize: MINT_SIZE },
+                { memcmp: { offset: ACCOUNT_SIZE, bytes: MINT_ACCOUNT_TYPE_BYTES } }
+              ]
+            : [{ dataSize: MINT_SIZE }];
+        const queryPlan = programIds.flatMap((programId) =>
+          sizeFilters(programId).flatMap((sizeFilter) => [
+            { programId, offset: 4, sizeFilter },
+            { programId, offset: 50, sizeFilter }
+          ])
+        );
 
         const queryResults: Awaited<
           ReturnType<typeof connection.getProgramAccounts>
@@ -974,7 +1196,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
         for (const query of queryPlan) {
           const accounts = await connection.getProgramAccounts(query.programId, {
             filters: [
-              { dataSize: MINT_SIZE },
+              query.sizeFilter,
               { memcmp: { offset: query.offset, bytes: walletAddress } }
             ],
             dataSlice: { offset: 0, length: MINT_SIZE }
@@ -1143,7 +1365,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     try {
       const candidateMints = buildInventoryCandidateMints();
       if (candidateMints.length === 0) {
-        setAuthorityInventory([]);
+        setAuthorityInventoryEntries([]);
         setStatus({
           severity: "info",
           message: "No candidate mints found. Add mint addresses or connect holdings."
@@ -1173,9 +1395,10 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
         );
       }
       const metadataInfos = metadataInfoChunks.flat();
+      const scanSlot = await connection.getSlot("confirmed");
 
       const walletAddress = publicKey.toBase58();
-      const rows: AuthorityInventoryRow[] = candidateMints
+      const entries: AuthorityInventoryScanEntry[] = candidateMints
         .map((mint, index) => {
           const mintInfo = mintInfos[index];
           if (
@@ -1189,15 +1412,17 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
 
           const parsedMint = parseMintAccountCore(mintInfo.data);
           const metadataInfo = metadataInfos[index];
+          const hasMetaplexMetadata = Boolean(
+            metadataInfo && metadataInfo.owner.equals(TOKEN_METADATA_PROGRAM_ID)
+          );
+          const embeddedMetadata =
+            readEmbeddedMetadata(mintPublicKeys[index], mintInfo)?.metadata ?? null;
 
           let metadataUpdateAuthority: string | null = null;
           let metadataUri: string | null = null;
           let metadataMutable: boolean | null = null;
 
-          if (
-            metadataInfo &&
-            metadataInfo.owner.equals(TOKEN_METADATA_PROGRAM_ID)
-          ) {
+          if (metadataInfo && hasMetaplexMetadata) {
             try {
               const [metadata] = getMetadataAccountDataSerializer().deserialize(
                 metadataInfo.data
@@ -1210,39 +1435,33 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
               metadataUri = null;
               metadataMutable = null;
             }
+          } else if (embeddedMetadata) {
+            metadataUpdateAuthority = embeddedMetadata.updateAuthority?.toBase58() ?? null;
+            metadataUri = embeddedMetadata.uri.trim() || null;
+            metadataMutable = embeddedMetadata.updateAuthority !== null;
           }
 
+          const metadataStandard: MetadataStandard =
+            hasMetaplexMetadata && embeddedMetadata
+              ? "both"
+              : hasMetaplexMetadata
+                ? "metaplex"
+                : embeddedMetadata
+                  ? "token-2022"
+                  : "none";
           const hasMintAuthority = parsedMint.mintAuthority === walletAddress;
           const hasFreezeAuthority = parsedMint.freezeAuthority === walletAddress;
-          const hasMetadataAuthority = metadataUpdateAuthority === walletAddress;
-          const isNftCandidate =
-            parsedMint.decimals === 0 && parsedMint.supplyRaw === 1n;
-          const riskFlags: string[] = [];
-
-          if (hasMintAuthority) {
-            riskFlags.push("Wallet retains mint authority");
-          }
-          if (hasFreezeAuthority) {
-            riskFlags.push("Wallet retains freeze authority");
-          }
-          if (hasMetadataAuthority) {
-            riskFlags.push("Wallet retains metadata update authority");
-          }
-          if (isNftCandidate && !metadataInfo) {
-            riskFlags.push("NFT candidate missing metadata account");
-          }
-          if (metadataInfo && !metadataUri) {
-            riskFlags.push("Metadata URI is empty");
-          }
-          if (metadataMutable === true) {
-            riskFlags.push("Metadata remains mutable");
-          }
+          const hasMetadataAuthority =
+            metadataUpdateAuthority === walletAddress ||
+            embeddedMetadata?.updateAuthority?.toBase58() === walletAddress;
 
           return {
             mint,
             programId: mintInfo.owner.toBase58(),
+            metadataStandard,
             decimals: parsedMint.decimals,
             supplyLabel: formatRawUnits(parsedMint.supplyRaw, parsedMint.decimals),
+            supplyRaw: parsedMint.supplyRaw,
             mintAuthority: parsedMint.mintAuthority,
             freezeAuthority: parsedMint.freezeAuthority,
             metadataUpdateAuthority,
@@ -1250,20 +1469,37 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
             metadataMutable,
             hasMintAuthority,
             hasFreezeAuthority,
-            hasMetadataAuthority,
-            riskFlags
-          } satisfies AuthorityInventoryRow;
+            hasMetadataAuthority
+          } satisfies AuthorityInventoryScanEntry;
         })
-        .filter((row): row is AuthorityInventoryRow => Boolean(row))
-        .sort((left, right) => {
-          if (left.riskFlags.length !== right.riskFlags.length) {
-            return right.riskFlags.length - left.riskFlags.length;
-          }
-          return left.mint.localeCompare(right.mint);
+        .filter((entry): entry is AuthorityInventoryScanEntry => Boolean(entry));
+
+      // Authority account owners let the rule engine tell wallets from governance/multisig PDAs.
+      const authorityAddresses = Array.from(
+        new Set(
+          entries.flatMap((entry) =>
+            [entry.mintAuthority, entry.freezeAuthority, entry.metadataUpdateAuthority].filter(
+              (address): address is string => Boolean(address)
+            )
+          )
+        )
+      );
+      const nextAuthorityAccountInfos = new Map<string, AccountInfo<Buffer> | null>();
+      for (let index = 0; index < authorityAddresses.length; index += 100) {
+        const chunk = authorityAddresses.slice(index, index + 100);
+        const infos = await connection.getMultipleAccountsInfo(
+          chunk.map((address) => new PublicKey(address)),
+          "confirmed"
+        );
+        chunk.forEach((address, chunkIndex) => {
+          nextAuthorityAccountInfos.set(address, infos[chunkIndex] ?? null);
         });
+      }
 
-      setAuthorityInventory(rows);
-      const rotationCandidates = rows
+      setAuthorityAccountInfos(nextAuthorityAccountInfos);
+      setAuthorityInventoryEntries(entries);
+      setAuthorityInventoryScan({ generatedAt: new Date().toISOString(), slot: scanSlot });
+      const rotationCandidates = entries
         .filter(
           (row) =>
             row.hasMintAuthority || row.hasFreezeAuthority || row.hasMetadataAuthority
@@ -1272,10 +1508,10 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
       setRotationTargetMints(rotationCandidates.join("\n"));
       setStatus({
         severity: "success",
-        message: `Scanned ${rows.length} mints. Found ${rotationCandidates.length} with wallet authority.`
+        message: `Scanned ${entries.length} mints. Found ${rotationCandidates.length} with wallet authority.`
       });
     } catch (unknownError) {
-      setAuthorityInventory([]);
+      setAuthorityInventoryEntries([]);
       setStatus({
         severity: "error",
         message:
@@ -1288,56 +1524,31 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     }
   };
 
-  const exportAuthorityInventoryCsv = () => {
-    if (authorityInventory.length === 0) {
+  const exportAuthorityInventory = (format: "csv" | "json") => {
+    if (authorityInventory.length === 0 || !authorityInventoryScan) {
       setStatus({
         severity: "info",
-        message: "Run authority inventory scan before exporting CSV."
+        message: "Run authority inventory scan before exporting."
       });
       return;
     }
 
-    const csvEscape = (value: string) => `"${value.replace(/"/g, "\"\"")}"`;
-    const header = [
-      "mint",
-      "program_id",
-      "decimals",
-      "supply",
-      "mint_authority",
-      "freeze_authority",
-      "metadata_update_authority",
-      "metadata_uri",
-      "metadata_mutable",
-      "has_mint_authority",
-      "has_freeze_authority",
-      "has_metadata_authority",
-      "risk_flags"
-    ];
-    const lines = authorityInventory.map((row) =>
-      [
-        row.mint,
-        row.programId,
-        String(row.decimals),
-        row.supplyLabel,
-        row.mintAuthority || "",
-        row.freezeAuthority || "",
-        row.metadataUpdateAuthority || "",
-        row.metadataUri || "",
-        row.metadataMutable === null ? "" : String(row.metadataMutable),
-        String(row.hasMintAuthority),
-        String(row.hasFreezeAuthority),
-        String(row.hasMetadataAuthority),
-        row.riskFlags.join(" | ")
-      ]
-        .map(csvEscape)
-        .join(",")
-    );
-    const csvContent = [header.join(","), ...lines].join("\n");
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const report: AuthorityInventoryReport = {
+      ...authorityInventoryScan,
+      rows: authorityInventory
+    };
+    const blob =
+      format === "csv"
+        ? new Blob([serializeAuthorityInventoryCsv(report)], {
+            type: "text/csv;charset=utf-8;"
+          })
+        : new Blob([serializeAuthorityInventoryJson(report)], {
+            type: "application/json;charset=utf-8;"
+          });
     const url = window.URL.createObjectURL(blob);
     const anchor = document.createElement("a");
     anchor.href = url;
-    anchor.download = `authority-inventory-${Date.now()}.csv`;
+    anchor.download = `authority-inventory-slot-${report.slot}.${format}`;
     document.body.appendChild(anchor);
     anchor.click();
     document.body.removeChild(anchor);
@@ -1345,8 +1556,62 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
 
     setStatus({
       severity: "success",
-      message: `Exported ${authorityInventory.length} rows to CSV.`
+      message: `Exported ${authorityInventory.length} rows to ${format.toUpperCase()}.`
+    });
+  };
+
+  const exportRiskRuleConfig = () => {
+    const blob = new Blob([JSON.stringify(riskRuleConfig, null, 2)], {
+      type: "application/json;charset=utf-8;"
     });
+    const url = window.URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download = "authority-risk-rules.json";
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const importRiskRuleConfig = async (file: File | null) => {
+    if (!file) {
+      return;
+    }
+    try {
+      setRiskRuleConfig(normalizeRiskRuleConfig(JSON.parse(await file.text())));
+      setStatus({ severity: "success", message: `Loaded risk rules from ${file.name}.` });
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to import risk rules."
+      });
+    }
+  };
+
+  const importAuthorityInventoryBaseline = async (file: File | null) => {
+    if (!file) {
+      return;
+    }
+    try {
+      const report = parseAuthorityInventoryReport(await file.text(), file.name);
+      setAuthorityInventoryBaseline(report);
+      setStatus({
+        severity: "success",
+        message: `Loaded baseline report with ${report.rows.length} mints (slot ${report.slot}).`
+      });
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to import authority inventory report."
+      });
+    }
   };
 
   const runBulkAuthorityRotation = async () => {
@@ -1359,12 +1624,17 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     setStatus(null);
     try {
       const nextAuthority = new PublicKey(rotationNewAuthority.trim());
+      const currentAuthority = resolveCurrentAuthority();
+      const currentAuthorityAddress = currentAuthority.toBase58();
       let targetMints = parseMintAddressesInput(rotationTargetMints);
       if (targetMints.length === 0) {
         targetMints = authorityInventory
-          .filter(
-            (row) =>
-              row.hasMintAuthority || row.hasFreezeAuthority || row.hasMetadataAuthority
+          .filter((row) =>
+            proposalModeEnabled
+              ? [row.mintAuthority, row.freezeAuthority, row.metadataUpdateAuthority].includes(
+                  currentAuthorityAddress
+                )
+              : row.hasMintAuthority || row.hasFreezeAuthority || row.hasMetadataAuthority
           )
           .map((row) => row.mint);
       }
@@ -1406,7 +1676,6 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
       }
       const metadataInfos = metadataInfoChunks.flat();
 
-      const walletAddress = publicKey.toBase58();
       const instructions: TransactionInstruction[] = [];
       let mintAuthorityUpdates = 0;
       let freezeAuthorityUpdates = 0;
@@ -1427,12 +1696,12 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
 
         if (
           rotateMintAuthorityEnabled &&
-          parsedMint.mintAuthority === walletAddress
+          parsedMint.mintAuthority === currentAuthorityAddress
         ) {
           instructions.push(
             createSetAuthorityInstruction(
               mintPublicKey,
-              publicKey,
+              currentAuthority,
               AuthorityType.MintTokens,
               nextAuthority,
               [],
@@ -1444,12 +1713,12 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
 
         if (
           rotateFreezeAuthorityEnabled &&
-          parsedMint.freezeAuthority === walletAddress
+          parsedMint.freezeAuthority === currentAuthorityAddress
         ) {
           instructions.push(
             createSetAuthorityInstruction(
               mintPublicKey,
-              publicKey,
+              currentAuthority,
               AuthorityType.FreezeAccount,
               nextAuthority,
               [],
@@ -1469,7 +1738,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
               const [metadata] = getMetadataAccountDataSerializer().deserialize(
                 metadataInfo.data
               );
-              if (String(metadata.updateAuthority) === walletAddress) {
+              if (String(metadata.updateAuthority) === currentAuthorityAddress) {
                 const data =
                   getUpdateMetadataAccountV2InstructionDataSerializer().serialize({
                     data: null,
@@ -1486,7 +1755,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                         isSigner: false,
                         isWritable: true
                       },
-                      { pubkey: publicKey, isSigner: true, isWritable: false }
+                      { pubkey: currentAuthority, isSigner: true, isWritable: false }
                     ],
                     data: Buffer.from(data)
                   })
@@ -1497,6 +1766,18 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
               // Skip malformed metadata account.
             }
           }
+
+          const embeddedMetadata = readEmbeddedMetadata(mintPublicKey, mintInfo)?.metadata;
+          if (embeddedMetadata?.updateAuthority?.toBase58() === currentAuthorityAddress) {
+            instructions.push(
+              buildEmbeddedMetadataAuthorityInstruction(
+                mintPublicKey,
+                currentAuthority,
+                nextAuthority
+              )
+            );
+            metadataAuthorityUpdates += 1;
+          }
         }
       });
 
@@ -1506,24 +1787,37 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
         );
       }
 
-      const instructionChunks = [];
-      for (let index = 0; index < instructions.length; index += 8) {
-        instructionChunks.push(instructions.slice(index, index + 8));
-      }
-
-      const signatures: string[] = [];
-      for (const instructionChunk of instructionChunks) {
-        const signature = await runWalletTransaction(
-          new Transaction().add(...instructionChunk)
+      const rotationSummary =
+        `${mintAuthorityUpdates} mint, ${freezeAuthorityUpdates} freeze, ` +
+        `${metadataAuthorityUpdates} metadata update`;
+      if (proposalModeEnabled) {
+        const { proposal, signature } = await submitGovernanceProposal(
+          instructions.map((instruction) => [instruction])
         );
-        signatures.push(signature);
+        setStatus({
+          severity: "success",
+          message:
+            `Created governance proposal ${proposal} rotating ${rotationSummary} ` +
+            `authorities across ${targetMints.length} mint(s).`,
+          signature
+        });
+        return;
+      }
+      if (instructionExport.isExternal) {
+        await exportInstructions(instructions);
+        return;
       }
 
+      const { signatures } = await sendInstructionBatches(
+        instructions.map((instruction) => [instruction]),
+        { lookupTable: "never" }
+      );
+      refresh();
+
       setStatus({
         severity: "success",
         message:
-          `Rotated authorities across ${targetMints.length} mint(s): ` +
-          `${mintAuthorityUpdates} mint, ${freezeAuthorityUpdates} freeze, ${metadataAuthorityUpdates} metadata update.`,
+          `Rotated authorities across ${targetMints.length} mint(s): ${rotationSummary}.`,
         signature: signatures[0]
       });
       void loadAuthorityMints();
@@ -1548,12 +1842,57 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     if (!publicKey) {
       throw new Error("Connect your wallet first.");
     }
-    const signature = await sendTransaction(transaction, connection, { signers });
-    await connection.confirmTransaction(signature, "confirmed");
+    const signature = await sendAndConfirm(transaction, { signers });
     refresh();
     return signature;
   };
 
+  // In proposal or export mode the governance/multisig address signs instead of the wallet.
+  const resolveCurrentAuthority = () => {
+    if (!proposalModeEnabled) {
+      return instructionExport.resolveAuthority();
+    }
+    if (!proposalTarget) {
+      throw new Error("Enter a valid governance program, realm and governance account.");
+    }
+    return getGovernanceAuthorityAddress(proposalTarget);
+  };
+
+  const exportInstructions = async (instructions: TransactionInstruction[]) => {
+    const outcome = await instructionExport.submit(instructions);
+    setStatus({ severity: "success", ...outcome });
+  };
+
+  const submitGovernanceProposal = async (transactions: TransactionInstruction[][]) => {
+    if (!publicKey) {
+      throw new Error("Connect your wallet first.");
+    }
+    if (!proposalTarget) {
+      throw new Error("Enter a valid governance program, realm and governance account.");
+    }
+    const context = await fetchGovernanceProposerContext(
+      connection,
+      proposalTarget,
+      publicKey
+    );
+    const { proposal, groups } = buildGovernanceProposalInstructionGroups(
+      context,
+      publicKey,
+      {
+        name: proposalName,
+        descriptionLink: proposalDescriptionLink,
+        signOff: proposalSignOff
+      },
+      transactions
+    );
+    const { signatures } = await sendInstructionBatches(groups, { lookupTable: "never" });
+    refresh();
+    return {
+      proposal: proposal.toBase58(),
+      signature: signatures[signatures.length - 1]
+    };
+  };
+
   const loadUpgradeableLoaderBuffers = async () => {
     if (!publicKey) {
       setStatus({ severity: "error", message: "Connect your wallet first." });
@@ -1629,17 +1968,18 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     setIsSubmitting(true);
     setStatus(null);
     try {
+      const signingAuthority = instructionExport.resolveAuthority();
       const authority = new PublicKey(
-        (upgradeableBufferAuthority.trim() || publicKey.toBase58()).trim()
+        (upgradeableBufferAuthority.trim() || signingAuthority.toBase58()).trim()
       );
-      if (!authority.equals(publicKey)) {
+      if (!authority.equals(signingAuthority)) {
         throw new Error(
-          "Connected wallet must match the selected buffer authority to close buffers."
+          "Signing authority must match the selected buffer authority to close buffers."
         );
       }
 
       const recipient = new PublicKey(
-        (upgradeableBufferCloseRecipient.trim() || publicKey.toBase58()).trim()
+        (upgradeableBufferCloseRecipient.trim() || signingAuthority.toBase58()).trim()
       );
       const buffer = new PublicKey(bufferAddress);
       const bufferInfo = await connection.getAccountInfo(buffer, "confirmed");
@@ -1659,9 +1999,9 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
         throw new Error("Buffer has no authority and cannot be closed by wallet.");
       }
       const recordAuthority = new PublicKey(bufferInfo.data.slice(5, 37));
-      if (!recordAuthority.equals(publicKey)) {
+      if (!recordAuthority.equals(signingAuthority)) {
         throw new Error(
-          `Connected wallet is not buffer authority. Authority: ${recordAuthority.toBase58()}`
+          `Signing authority is not buffer authority. Authority: ${recordAuthority.toBase58()}`
         );
       }
 
@@ -1672,10 +2012,14 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
         keys: [
           { pubkey: buffer, isSigner: false, isWritable: true },
           { pubkey: recipient, isSigner: false, isWritable: true },
-          { pubkey: publicKey, isSigner: true, isWritable: false }
+          { pubkey: signingAuthority, isSigner: true, isWritable: false }
         ],
         data
       });
+      if (instructionExport.isExternal) {
+        await exportInstructions([instruction]);
+        return;
+      }
 
       const signature = await runWalletTransaction(
         new Transaction().add(instruction)
@@ -1727,77 +2071,155 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     }
   };
 
-  const createMint = async () => {
+  const buildCreateMintPlan = async (): Promise<CreateMintPlan> => {
     if (!publicKey) {
-      setStatus({ severity: "error", message: "Connect your wallet first." });
-      return;
+      throw new Error("Connect your wallet first.");
     }
 
-    setIsSubmitting(true);
-    setStatus(null);
-    try {
-      const decimals = Number.parseInt(createDecimals, 10);
-      if (!Number.isFinite(decimals) || decimals < 0 || decimals > 9) {
-        throw new Error("Decimals must be between 0 and 9.");
-      }
-
-      let freezeAuthorityPublicKey: PublicKey | null = null;
-      if (freezeAuthorityMode === "self") {
-        freezeAuthorityPublicKey = publicKey;
-      } else if (freezeAuthorityMode === "custom") {
-        freezeAuthorityPublicKey = new PublicKey(customFreezeAuthority.trim());
-      }
-
-      const usesMintCloseAuthority = mintCloseAuthorityMode !== "disabled";
-      if (usesMintCloseAuthority && !isToken2022Program) {
-        throw new Error(
-          "Mint close authority is only supported with Token-2022. Select SPL Token 2022 first."
-        );
-      }
+    const decimals = Number.parseInt(createDecimals, 10);
+    if (!Number.isFinite(decimals) || decimals < 0 || decimals > 9) {
+      throw new Error("Decimals must be between 0 and 9.");
+    }
 
-      let mintCloseAuthorityPublicKey: PublicKey | null = null;
-      if (mintCloseAuthorityMode === "self") {
-        mintCloseAuthorityPublicKey = publicKey;
-      } else if (mintCloseAuthorityMode === "custom") {
-        mintCloseAuthorityPublicKey = new PublicKey(customMintCloseAuthority.trim());
-      }
+    let freezeAuthorityPublicKey: PublicKey | null = null;
+    if (freezeAuthorityMode === "self") {
+      freezeAuthorityPublicKey = publicKey;
+    } else if (freezeAuthorityMode === "custom") {
+      freezeAuthorityPublicKey = new PublicKey(customFreezeAuthority.trim());
+    }
 
-      const mintKeypair = Keypair.generate();
-      const mintSize = usesMintCloseAuthority
-        ? getMintLen([ExtensionType.MintCloseAuthority])
-        : MINT_SIZE;
-      const rentExempt = await connection.getMinimumBalanceForRentExemption(
-        mintSize
+    const usesMintCloseAuthority = mintCloseAuthorityMode !== "disabled";
+    if (usesMintCloseAuthority && !isToken2022Program) {
+      throw new Error(
+        "Mint close authority is only supported with Token-2022. Select SPL Token 2022 first."
       );
+    }
 
-      const transaction = new Transaction().add(
-        SystemProgram.createAccount({
-          fromPubkey: publicKey,
-          newAccountPubkey: mintKeypair.publicKey,
-          space: mintSize,
-          lamports: rentExempt,
-          programId: activeTokenProgramPublicKey
-        })
-      );
+    const extensions: MintExtensionConfig = {};
+    if (mintCloseAuthorityMode === "self") {
+      extensions.mintCloseAuthority = publicKey;
+    } else if (mintCloseAuthorityMode === "custom") {
+      extensions.mintCloseAuthority = new PublicKey(customMintCloseAuthority.trim());
+    }
 
-      if (usesMintCloseAuthority) {
-        transaction.add(
-          createInitializeMintCloseAuthorityInstruction(
-            mintKeypair.publicKey,
-            mintCloseAuthorityPublicKey,
-            activeTokenProgramPublicKey
-          )
-        );
+    if (isToken2022Program) {
+      const draft = mintExtensionDraft;
+      if (draft.transferFeeEnabled) {
+        extensions.transferFee = {
+          basisPoints: Number(draft.transferFeeBasisPoints.trim()),
+          maximumFee: draft.transferFeeMaximum.trim()
+            ? parseAmountToBaseUnits(draft.transferFeeMaximum, decimals)
+            : BigInt("18446744073709551615"),
+          configAuthority: publicKey,
+          withdrawAuthority: publicKey
+        };
+      }
+      if (draft.interestBearingEnabled) {
+        extensions.interestBearing = {
+          rateBasisPoints: Number(draft.interestRateBasisPoints.trim()),
+          rateAuthority: publicKey
+        };
+      }
+      if (draft.nonTransferable) {
+        extensions.nonTransferable = true;
+      }
+      if (draft.permanentDelegateEnabled) {
+        extensions.permanentDelegate = draft.permanentDelegate.trim()
+          ? new PublicKey(draft.permanentDelegate.trim())
+          : publicKey;
       }
+      if (draft.defaultAccountStateEnabled) {
+        extensions.defaultAccountState =
+          draft.defaultAccountState === "frozen"
+            ? AccountState.Frozen
+            : AccountState.Initialized;
+      }
+      if (draft.transferHookEnabled) {
+        extensions.transferHook = {
+          programId: new PublicKey(draft.transferHookProgramId.trim()),
+          authority: publicKey
+        };
+      }
+      if (draft.embeddedMetadataEnabled) {
+        extensions.metadata = {
+          name: draft.embeddedMetadataName.trim(),
+          symbol: draft.embeddedMetadataSymbol.trim(),
+          uri: draft.embeddedMetadataUri.trim(),
+          updateAuthority: publicKey
+        };
+      }
+    }
 
-      transaction.add(
-        createInitializeMint2Instruction(
-          mintKeypair.publicKey,
-          decimals,
+    validateMintExtensionConfig(extensions, {
+      hasFreezeAuthority: Boolean(freezeAuthorityPublicKey)
+    });
+    const { mintLen, rentSpace } = getMintSpace(extensions);
+    const rentLamports = await connection.getMinimumBalanceForRentExemption(rentSpace);
+
+    return {
+      decimals,
+      freezeAuthority: freezeAuthorityPublicKey,
+      extensions,
+      summaries: describeMintExtensions(
+        extensions,
+        (rawAmount) => formatRawUnits(rawAmount, decimals)
+      ),
+      mintLen,
+      rentLamports
+    };
+  };
+
+  const reviewCreateMint = async () => {
+    setStatus(null);
+    try {
+      setCreateMintPlan(await buildCreateMintPlan());
+    } catch (unknownError) {
+      setCreateMintPlan(null);
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to review mint configuration."
+      });
+    }
+  };
+
+  const createMint = async () => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const plan = createMintPlan ?? (await buildCreateMintPlan());
+      const mintKeypair = Keypair.generate();
+      const { preInitialize, postInitialize } = buildMintExtensionInstructions(
+        mintKeypair.publicKey,
+        publicKey,
+        plan.extensions,
+        activeTokenProgramPublicKey
+      );
+
+      const transaction = new Transaction().add(
+        SystemProgram.createAccount({
+          fromPubkey: publicKey,
+          newAccountPubkey: mintKeypair.publicKey,
+          space: plan.mintLen,
+          lamports: plan.rentLamports,
+          programId: activeTokenProgramPublicKey
+        }),
+        ...preInitialize,
+        createInitializeMint2Instruction(
+          mintKeypair.publicKey,
+          plan.decimals,
           publicKey,
-          freezeAuthorityPublicKey,
+          plan.freezeAuthority,
           activeTokenProgramPublicKey
-        )
+        ),
+        ...postInitialize
       );
 
       const signature = await runWalletTransaction(transaction, [mintKeypair]);
@@ -1810,12 +2232,16 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
       setDistributionMintAddress((current) => current || mintBase58);
       setAuthorityMint((current) => current || mintBase58);
       setMetadataMint((current) => current || mintBase58);
+      setCreateMintPlan(null);
       void loadAuthorityMints();
       setStatus({
         severity: "success",
-        message: usesMintCloseAuthority
-          ? `Created Token-2022 closable mint ${mintBase58}`
-          : `Created mint ${mintBase58}`,
+        message:
+          plan.summaries.length > 0
+            ? `Created Token-2022 mint ${mintBase58} with ${plan.summaries
+                .map((summary) => summary.extension)
+                .join(", ")}`
+            : `Created mint ${mintBase58}`,
         signature
       });
     } catch (unknownError) {
@@ -1950,11 +2376,12 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
         "confirmed"
       );
 
+      const mintAuthority = instructionExport.resolveAuthority();
       const transaction = new Transaction();
       if (!destinationAtaInfo) {
         transaction.add(
           createAssociatedTokenAccountInstruction(
-            publicKey,
+            mintAuthority,
             destinationAta,
             destinationOwner,
             mintPublicKey,
@@ -1968,12 +2395,16 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
         createMintToInstruction(
           mintPublicKey,
           destinationAta,
-          publicKey,
+          mintAuthority,
           amount,
           [],
           activeTokenProgramPublicKey
         )
       );
+      if (instructionExport.isExternal) {
+        await exportInstructions(transaction.instructions);
+        return;
+      }
 
       const signature = await runWalletTransaction(transaction);
       setStatus({
@@ -2013,34 +2444,257 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
           ? AuthorityType.MintTokens
           : AuthorityType.FreezeAccount;
 
+      const instruction = createSetAuthorityInstruction(
+        mintPublicKey,
+        resolveCurrentAuthority(),
+        authorityEnum,
+        nextAuthority,
+        [],
+        activeTokenProgramPublicKey
+      );
+
+      if (proposalModeEnabled) {
+        const { proposal, signature } = await submitGovernanceProposal([[instruction]]);
+        setStatus({
+          severity: "success",
+          message: `Created governance proposal ${proposal} to update the ${authorityType} authority.`,
+          signature
+        });
+        return;
+      }
+      if (instructionExport.isExternal) {
+        await exportInstructions([instruction]);
+        return;
+      }
+
+      const signature = await runWalletTransaction(new Transaction().add(instruction));
+      void loadAuthorityMints();
+      setStatus({
+        severity: "success",
+        message:
+          authorityType === "mint"
+            ? "Mint authority updated."
+            : "Freeze authority updated.",
+        signature
+      });
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to update authority."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const loadTransferFeeState = async (mintOverride?: string) => {
+    const mintInput = (mintOverride ?? transferFeeMint).trim();
+    if (!mintInput) {
+      setStatus({ severity: "error", message: "Enter a Token-2022 mint address." });
+      return;
+    }
+
+    setTransferFeeLoading(true);
+    try {
+      const state = await fetchTransferFeeState(connection, new PublicKey(mintInput));
+      setTransferFeeState(state);
+      setNextTransferFeeBasisPoints(
+        String(state.config.newerTransferFee.transferFeeBasisPoints)
+      );
+      setNextTransferFeeMaximum(
+        formatRawUnits(state.config.newerTransferFee.maximumFee, state.decimals)
+      );
+    } catch (unknownError) {
+      setTransferFeeState(null);
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to load transfer fee config."
+      });
+    } finally {
+      setTransferFeeLoading(false);
+    }
+  };
+
+  const harvestWithheldFees = async () => {
+    if (!publicKey || !transferFeeState) {
+      setStatus({ severity: "error", message: "Load the transfer fee config first." });
+      return;
+    }
+    if (transferFeeState.withheldAccounts.length === 0) {
+      setStatus({ severity: "info", message: "No holder accounts have withheld fees." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const mintPublicKey = new PublicKey(transferFeeMint.trim());
+      const { signatures } = await sendInstructionBatches(
+        buildHarvestWithheldInstructionGroups(
+          mintPublicKey,
+          transferFeeState.withheldAccounts.map((entry) => entry.address)
+        ),
+        {
+          onProgress: (sentTransactions, totalTransactions) => {
+            setStatus({
+              severity: "info",
+              message: `Harvesting withheld fees... ${sentTransactions}/${totalTransactions} transactions confirmed.`
+            });
+          }
+        }
+      );
+      refresh();
+      setStatus({
+        severity: "success",
+        message: `Harvested ${formatRawUnits(
+          transferFeeState.totalAccountWithheld,
+          transferFeeState.decimals
+        )} from ${transferFeeState.withheldAccounts.length} accounts to the mint in ${signatures.length} transactions.`,
+        signature: signatures[signatures.length - 1]
+      });
+      await loadTransferFeeState();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to harvest withheld fees."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const withdrawWithheldFees = async () => {
+    if (!publicKey || !transferFeeState) {
+      setStatus({ severity: "error", message: "Load the transfer fee config first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      if (!transferFeeState.config.withdrawWithheldAuthority.equals(publicKey)) {
+        throw new Error("Connected wallet is not the withdraw withheld authority.");
+      }
+      if (transferFeeState.config.withheldAmount === 0n) {
+        throw new Error("Mint has no harvested fees to withdraw. Harvest first.");
+      }
+
+      const mintPublicKey = new PublicKey(transferFeeMint.trim());
+      const treasuryOwner = transferFeeTreasuryOwner.trim()
+        ? new PublicKey(transferFeeTreasuryOwner.trim())
+        : publicKey;
+      const treasuryAta = getAssociatedTokenAddressSync(
+        mintPublicKey,
+        treasuryOwner,
+        true,
+        TOKEN_2022_PROGRAM_ID
+      );
+
       const transaction = new Transaction().add(
-        createSetAuthorityInstruction(
+        createAssociatedTokenAccountIdempotentInstruction(
+          publicKey,
+          treasuryAta,
+          treasuryOwner,
+          mintPublicKey,
+          TOKEN_2022_PROGRAM_ID
+        ),
+        createWithdrawWithheldTokensFromMintInstruction(
           mintPublicKey,
+          treasuryAta,
           publicKey,
-          authorityEnum,
-          nextAuthority,
           [],
-          activeTokenProgramPublicKey
+          TOKEN_2022_PROGRAM_ID
         )
       );
 
       const signature = await runWalletTransaction(transaction);
-      void loadAuthorityMints();
       setStatus({
         severity: "success",
+        message: `Withdrew ${formatRawUnits(
+          transferFeeState.config.withheldAmount,
+          transferFeeState.decimals
+        )} to treasury ATA ${treasuryAta.toBase58()}.`,
+        signature
+      });
+      await loadTransferFeeState();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
         message:
-          authorityType === "mint"
-            ? "Mint authority updated."
-            : "Freeze authority updated.",
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to withdraw withheld fees."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const scheduleTransferFee = async () => {
+    if (!publicKey || !transferFeeState) {
+      setStatus({ severity: "error", message: "Load the transfer fee config first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      if (!transferFeeState.config.transferFeeConfigAuthority.equals(publicKey)) {
+        throw new Error("Connected wallet is not the transfer fee config authority.");
+      }
+      const basisPoints = Number(nextTransferFeeBasisPoints.trim());
+      const maximumFee = parseAmountToBaseUnits(
+        nextTransferFeeMaximum,
+        transferFeeState.decimals
+      );
+      validateMintExtensionConfig(
+        {
+          transferFee: {
+            basisPoints,
+            maximumFee,
+            configAuthority: publicKey,
+            withdrawAuthority: transferFeeState.config.withdrawWithheldAuthority
+          }
+        },
+        { hasFreezeAuthority: false }
+      );
+
+      const transaction = new Transaction().add(
+        createSetTransferFeeInstruction(
+          new PublicKey(transferFeeMint.trim()),
+          publicKey,
+          [],
+          basisPoints,
+          maximumFee,
+          TOKEN_2022_PROGRAM_ID
+        )
+      );
+
+      const signature = await runWalletTransaction(transaction);
+      setStatus({
+        severity: "success",
+        message: `Scheduled ${basisPoints} bps fee (max ${nextTransferFeeMaximum.trim()}). It takes effect at epoch ${(
+          transferFeeState.currentEpoch + 2n
+        ).toString()}.`,
         signature
       });
+      await loadTransferFeeState();
     } catch (unknownError) {
       setStatus({
         severity: "error",
         message:
           unknownError instanceof Error
             ? unknownError.message
-            : "Failed to update authority."
+            : "Failed to schedule transfer fee."
       });
     } finally {
       setIsSubmitting(false);
@@ -2069,59 +2723,74 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
       const parsedData = mintInfo.value.data as ParsedAccountData;
       const decimals = Number(parsedData.parsed.info.decimals ?? 0);
       const recipients = parseDistributionRecipients(distributionRecipients, decimals);
-      const maxRecipientsPerTransaction = 7;
-      const signatures: string[] = [];
-
-      for (let i = 0; i < recipients.length; i += maxRecipientsPerTransaction) {
-        const chunk = recipients.slice(i, i + maxRecipientsPerTransaction);
-        const destinationAtas = chunk.map((recipient) =>
-          getAssociatedTokenAddressSync(
-            mintPublicKey,
-            recipient.owner,
-            false,
-            activeTokenProgramPublicKey,
-            ASSOCIATED_TOKEN_PROGRAM_ID
-          )
-        );
-        const destinationAtaInfos = await connection.getMultipleAccountsInfo(
-          destinationAtas,
-          "confirmed"
+      const destinationAtas = recipients.map((recipient) =>
+        getAssociatedTokenAddressSync(
+          mintPublicKey,
+          recipient.owner,
+          false,
+          activeTokenProgramPublicKey,
+          ASSOCIATED_TOKEN_PROGRAM_ID
+        )
+      );
+      const destinationAtaInfos: Array<AccountInfo<Buffer> | null> = [];
+      for (let index = 0; index < destinationAtas.length; index += 100) {
+        destinationAtaInfos.push(
+          ...(await connection.getMultipleAccountsInfo(
+            destinationAtas.slice(index, index + 100),
+            "confirmed"
+          ))
         );
+      }
 
-        const transaction = new Transaction();
-        chunk.forEach((recipient, index) => {
-          const destinationAta = destinationAtas[index];
-          if (!destinationAtaInfos[index]) {
-            transaction.add(
-              createAssociatedTokenAccountInstruction(
-                publicKey,
-                destinationAta,
-                recipient.owner,
-                mintPublicKey,
-                activeTokenProgramPublicKey,
-                ASSOCIATED_TOKEN_PROGRAM_ID
-              )
-            );
-          }
-          transaction.add(
-            createMintToInstruction(
-              mintPublicKey,
-              destinationAta,
+      const instructionGroups = recipients.map((recipient, index) => {
+        const destinationAta = destinationAtas[index];
+        const group: TransactionInstruction[] = [];
+        if (!destinationAtaInfos[index]) {
+          group.push(
+            createAssociatedTokenAccountInstruction(
               publicKey,
-              recipient.amountBaseUnits,
-              [],
-              activeTokenProgramPublicKey
+              destinationAta,
+              recipient.owner,
+              mintPublicKey,
+              activeTokenProgramPublicKey,
+              ASSOCIATED_TOKEN_PROGRAM_ID
             )
           );
-        });
+        }
+        group.push(
+          createMintToInstruction(
+            mintPublicKey,
+            destinationAta,
+            publicKey,
+            recipient.amountBaseUnits,
+            [],
+            activeTokenProgramPublicKey
+          )
+        );
+        return group;
+      });
 
-        const signature = await runWalletTransaction(transaction);
-        signatures.push(signature);
-      }
+      const { signatures, lookupTableAddress } = await sendInstructionBatches(
+        instructionGroups,
+        {
+          lookupTable: distributionLookupTableMode,
+          onProgress: (sentTransactions, totalTransactions) => {
+            setStatus({
+              severity: "info",
+              message: `Distributing... ${sentTransactions}/${totalTransactions} transaction(s) confirmed.`
+            });
+          }
+        }
+      );
+      refresh();
 
       setStatus({
         severity: "success",
-        message: `Distributed mint to ${recipients.length} wallet(s) across ${signatures.length} transaction(s).`,
+        message:
+          `Distributed mint to ${recipients.length} wallet(s) across ${signatures.length} transaction(s).` +
+          (lookupTableAddress
+            ? ` Lookup table ${lookupTableAddress} was deactivated and can be closed after cooldown.`
+            : ""),
         signature: signatures[0]
       });
     } catch (unknownError) {
@@ -2177,7 +2846,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
   };
 
   const assignLegacyDistributorAllocationIndices = (
-    allocations: DistributorAllocationInput[]
+    allocations: DistributorSnapshotAllocation[]
   ) => {
     const seenByWallet = new Map<string, Set<bigint>>();
     return allocations.map((allocation, index) => {
@@ -2206,6 +2875,31 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     const uniqueWalletAddresses = Array.from(
       new Set(wallets.map((wallet) => wallet.toBase58()))
     );
+    if (uniqueWalletAddresses.length > DISTRIBUTOR_PER_WALLET_SCAN_LIMIT) {
+      const accounts = await connection.getProgramAccounts(distributorClient.programId, {
+        commitment: "confirmed",
+        filters: [
+          { dataSize: CLAIM_STATUS_ACCOUNT_SIZE },
+          { memcmp: { offset: 8, bytes: distributor.toBase58() } }
+        ]
+      });
+      const usedByWallet = new Map<string, Set<bigint>>();
+      accounts.forEach((account) => {
+        try {
+          const decoded = decodeClaimStatusAccount(account.account.data);
+          if (!decoded.distributor.equals(distributor)) {
+            return;
+          }
+          const claimantAddress = decoded.claimant.toBase58();
+          const usedIndexes = usedByWallet.get(claimantAddress) ?? new Set<bigint>();
+          usedIndexes.add(decoded.index);
+          usedByWallet.set(claimantAddress, usedIndexes);
+        } catch {
+          // Ignore non-claim-status accounts in filter result.
+        }
+      });
+      return usedByWallet;
+    }
     const entries = await Promise.all(
       uniqueWalletAddresses.map(async (walletAddress) => {
         const claimant = new PublicKey(walletAddress);
@@ -2239,7 +2933,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
 
   const assignCollisionSafeDistributorAllocationIndices = async (
     distributor: PublicKey,
-    allocations: DistributorAllocationInput[]
+    allocations: DistributorSnapshotAllocation[]
   ) => {
     const existingByWallet = await loadClaimStatusIndexesByWallet(
       distributor,
@@ -2297,24 +2991,138 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     });
   };
 
-  const generateDistributorWizardRootAndClaimPackage = async () => {
+  const fetchDistributorWizardMintDecimals = async () => {
+    if (!distributorWizardMint.trim()) {
+      throw new Error("Enter the mint address first; amounts are converted with its decimals.");
+    }
+    const mint = new PublicKey(distributorWizardMint.trim());
+    const mintState = await getMint(connection, mint, "confirmed", TOKEN_PROGRAM_ID);
+    return mintState.decimals;
+  };
+
+  const parseDistributorWizardAllocations = async (
+    decimals: number,
+    snapshotFile = distributorWizardSnapshotFile
+  ) => {
+    const parsed = await parseDistributorSnapshot(
+      snapshotFile ? snapshotFile.text : distributorWizardAllocations,
+      decimals,
+      {
+        fileName: snapshotFile?.name,
+        onProgress: (processed, total) => {
+          setDistributorWizardProgress(`Validating rows ${processed} / ${total}...`);
+        }
+      }
+    );
+    const report: DistributorWizardSnapshotReport = {
+      ...parsed,
+      source: snapshotFile ? snapshotFile.name : "pasted allocations",
+      decimals
+    };
+    setDistributorWizardSnapshotReport(report);
+    return report;
+  };
+
+  const validateDistributorWizardAllocations = async (
+    snapshotFile = distributorWizardSnapshotFile
+  ) => {
+    setIsDistributorWizardBusy(true);
     setStatus(null);
     try {
-      const mint = new PublicKey(distributorWizardMint.trim());
-      const realmInput = distributorWizardRealm.trim();
-      const governanceProgramInput =
-        distributorWizardGovernanceProgramId.trim();
-      const governanceProgramVersionInput =
-        distributorWizardGovernanceProgramVersion.trim();
-      const realm = realmInput ? new PublicKey(realmInput).toBase58() : undefined;
-      const governanceProgramId = realm
-        ? (
-            governanceProgramInput
-              ? new PublicKey(governanceProgramInput)
-              : DEFAULT_SPL_GOVERNANCE_PROGRAM_ID
-          ).toBase58()
-        : undefined;
-      const governanceProgramVersion = realm
+      const report = await parseDistributorWizardAllocations(
+        await fetchDistributorWizardMintDecimals(),
+        snapshotFile
+      );
+      setStatus({
+        severity: report.errors.length > 0 ? "error" : "info",
+        message: describeDistributorSnapshotReport(report)
+      });
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to validate allocations."
+      });
+    } finally {
+      setIsDistributorWizardBusy(false);
+      setDistributorWizardProgress("");
+    }
+  };
+
+  const importDistributorWizardSnapshot = async (file: File | null) => {
+    if (!file) {
+      return;
+    }
+    try {
+      const snapshotFile = { name: file.name, text: await file.text() };
+      setDistributorWizardSnapshotFile(snapshotFile);
+      setDistributorWizardSnapshotReport(null);
+      if (distributorWizardMint.trim()) {
+        await validateDistributorWizardAllocations(snapshotFile);
+      } else {
+        setStatus({
+          severity: "info",
+          message: `Loaded ${file.name}. Enter the mint address and validate to convert amounts.`
+        });
+      }
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to read snapshot file."
+      });
+    }
+  };
+
+  const clearDistributorWizardSnapshot = () => {
+    setDistributorWizardSnapshotFile(null);
+    setDistributorWizardSnapshotReport(null);
+  };
+
+  const downloadDistributorClaimPackage = () => {
+    const blob =
+      distributorClaimPackageFile?.blob ??
+      (distributorClaimPackageJson
+        ? new Blob([distributorClaimPackageJson], {
+            type: "application/json;charset=utf-8;"
+          })
+        : null);
+    if (!blob) {
+      return;
+    }
+    const url = window.URL.createObjectURL(blob);
+    const anchor = document.createElement("a");
+    anchor.href = url;
+    anchor.download =
+      distributorClaimPackageFile?.fileName ?? "grape-distributor-claim-manifest.json";
+    document.body.appendChild(anchor);
+    anchor.click();
+    document.body.removeChild(anchor);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const generateDistributorWizardRootAndClaimPackage = async () => {
+    setStatus(null);
+    try {
+      const mint = new PublicKey(distributorWizardMint.trim());
+      const realmInput = distributorWizardRealm.trim();
+      const governanceProgramInput =
+        distributorWizardGovernanceProgramId.trim();
+      const governanceProgramVersionInput =
+        distributorWizardGovernanceProgramVersion.trim();
+      const realm = realmInput ? new PublicKey(realmInput).toBase58() : undefined;
+      const governanceProgramId = realm
+        ? (
+            governanceProgramInput
+              ? new PublicKey(governanceProgramInput)
+              : DEFAULT_SPL_GOVERNANCE_PROGRAM_ID
+          ).toBase58()
+        : undefined;
+      const governanceProgramVersion = realm
         ? (() => {
             const parsed = Number(governanceProgramVersionInput || "3");
             if (!Number.isInteger(parsed) || parsed <= 0) {
@@ -2334,10 +3142,14 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
       );
       const mintState = await getMint(connection, mint, "confirmed", TOKEN_PROGRAM_ID);
 
-      const allocationInputs = parseDistributorAllocationsInput(
-        distributorWizardAllocations,
-        mintState.decimals
-      );
+      setIsDistributorWizardBusy(true);
+      const snapshot = await parseDistributorWizardAllocations(mintState.decimals);
+      if (snapshot.errors.length > 0) {
+        throw new Error(
+          `${snapshot.errors.length} allocation row(s) failed validation; fix them before generating.`
+        );
+      }
+      const allocationInputs = snapshot.allocations;
       const allocations =
         distributorWizardIndexMode === "onchain"
           ? await assignCollisionSafeDistributorAllocationIndices(
@@ -2345,11 +3157,48 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
               allocationInputs
             )
           : assignLegacyDistributorAllocationIndices(allocationInputs);
-      const leaves = allocations.map((allocation) =>
-        computeLeaf(distributor, allocation.wallet, allocation.index, allocation.amount)
+      const configuredClaimantAddress = (
+        distributorWizardClaimant.trim() || publicKey?.toBase58() || ""
+      ).trim();
+      const claimantAddress =
+        configuredClaimantAddress || allocations[0]?.wallet.toBase58() || "";
+      const usedFallbackClaimant =
+        !configuredClaimantAddress && claimantAddress.length > 0;
+      const campaignFields = {
+        mint: mint.toBase58(),
+        vault: vaultAta.toBase58(),
+        distributor: distributor.toBase58(),
+        ...(realm ? { realm } : {}),
+        ...(governanceProgramId ? { governanceProgramId } : {}),
+        ...(governanceProgramVersion
+          ? { governanceProgramVersion }
+          : {})
+      };
+      const merkle = await buildDistributorClaimPackage(
+        {
+          distributor: distributor.toBase58(),
+          allocations: allocations.map((allocation) => ({
+            wallet: allocation.wallet.toBase58(),
+            index: allocation.index.toString(),
+            amount: allocation.amount.toString()
+          })),
+          campaign: {
+            id: `distributor-${mint.toBase58().slice(0, 8)}`,
+            label: "Grape Distributor Campaign",
+            ...campaignFields
+          },
+          generatedAt: new Date().toISOString(),
+          claimant: claimantAddress ? new PublicKey(claimantAddress).toBase58() : undefined,
+          shardPrefixLength:
+            distributorWizardPackageFormat === "sharded"
+              ? getDistributorShardPrefixLength(allocations.length)
+              : undefined
+        },
+        (progress) => {
+          setDistributorWizardProgress(describeDistributorMerkleProgress(progress));
+        }
       );
-      const { root, proofs } = buildMerkleRootAndProofs(leaves);
-      const rootHex = toHexPrefixed(root);
+      const rootHex = merkle.root;
 
       setDistributorIssueMerkleRoot(rootHex);
       setDistributorSetRootValue(rootHex);
@@ -2371,78 +3220,43 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
       setDistributorWizardVaultAuthorityPda(vaultAuthority.toBase58());
       setDistributorWizardVaultAta(vaultAta.toBase58());
 
-      const configuredClaimantAddress = (
-        distributorWizardClaimant.trim() || publicKey?.toBase58() || ""
-      ).trim();
-      const claimantAddress =
-        configuredClaimantAddress || allocations[0]?.wallet.toBase58() || "";
-      const usedFallbackClaimant =
-        !configuredClaimantAddress && claimantAddress.length > 0;
       let claimantLoaded = false;
-      if (claimantAddress) {
-        const claimant = new PublicKey(claimantAddress).toBase58();
-        const claimantAllocationIndex = allocations.findIndex(
-          (allocation) => allocation.wallet.toBase58() === claimant
+      if (merkle.claimantEntry) {
+        applyDistributorClaimPackagePayload(
+          { ...campaignFields, ...merkle.claimantEntry, root: rootHex },
+          "Wizard claim package"
         );
-        if (claimantAllocationIndex >= 0) {
-          const allocation = allocations[claimantAllocationIndex];
-          const claimantProof = proofs[claimantAllocationIndex];
-          const claimPackage = {
-            wallet: claimant,
-            mint: mint.toBase58(),
-            vault: vaultAta.toBase58(),
-            distributor: distributor.toBase58(),
-            ...(realm ? { realm } : {}),
-            ...(governanceProgramId ? { governanceProgramId } : {}),
-            ...(governanceProgramVersion
-              ? { governanceProgramVersion }
-              : {}),
-            index: allocation.index.toString(),
-            amount: allocation.amount.toString(),
-            root: rootHex,
-            proof: claimantProof.map((node) => toHexPrefixed(node))
-          };
-          applyDistributorClaimPackagePayload(claimPackage, "Wizard claim package");
-          claimantLoaded = true;
-        }
+        claimantLoaded = true;
       }
 
-      const claimManifest = {
-        version: 1,
-        generatedAt: new Date().toISOString(),
-        campaigns: [
-          {
-            id: `distributor-${mint.toBase58().slice(0, 8)}`,
-            label: "Grape Distributor Campaign",
-            mint: mint.toBase58(),
-            vault: vaultAta.toBase58(),
-            distributor: distributor.toBase58(),
-            ...(realm ? { realm } : {}),
-            ...(governanceProgramId ? { governanceProgramId } : {}),
-            ...(governanceProgramVersion
-              ? { governanceProgramVersion }
-              : {}),
-            root: rootHex,
-            claims: allocations.map((allocation, allocationIndex) => ({
-              wallet: allocation.wallet.toBase58(),
-              index: allocation.index.toString(),
-              amount: allocation.amount.toString(),
-              proof: proofs[allocationIndex].map((node) => toHexPrefixed(node))
-            }))
-          }
-        ]
-      };
-      setDistributorClaimPackageJson(JSON.stringify(claimManifest, null, 2));
+      setDistributorClaimPackageFile({
+        blob: merkle.claimPackage,
+        fileName:
+          merkle.shardCount === null
+            ? "grape-distributor-claim-manifest.json"
+            : "grape-distributor-claims-sharded.zip",
+        shardCount: merkle.shardCount
+      });
+      setDistributorClaimPackageJson(
+        merkle.shardCount === null &&
+          merkle.claimPackage.size <= DISTRIBUTOR_PACKAGE_INLINE_BYTES
+          ? JSON.stringify(JSON.parse(await merkle.claimPackage.text()), null, 2)
+          : ""
+      );
+      const packageLabel =
+        merkle.shardCount === null
+          ? "claim manifest"
+          : `sharded claim package (${merkle.shardCount} shards)`;
 
       setStatus({
         severity: "success",
         message: claimantLoaded
           ? usedFallbackClaimant
-            ? `Generated root + claim manifest (${allocations.length} allocation(s)); loaded wallet claim for ${shortenAddress(claimantAddress)}. Amounts parsed with mint decimals (${mintState.decimals}). Index mode: ${distributorWizardIndexMode === "onchain" ? "on-chain safe" : "line order"}.`
-            : `Generated root + claim manifest (${allocations.length} allocation(s)) and loaded claimant package. Amounts parsed with mint decimals (${mintState.decimals}). Index mode: ${distributorWizardIndexMode === "onchain" ? "on-chain safe" : "line order"}.`
+            ? `Generated root + ${packageLabel} (${allocations.length} allocation(s)); loaded wallet claim for ${shortenAddress(claimantAddress)}. Amounts parsed with mint decimals (${mintState.decimals}). Index mode: ${distributorWizardIndexMode === "onchain" ? "on-chain safe" : "line order"}.`
+            : `Generated root + ${packageLabel} (${allocations.length} allocation(s)) and loaded claimant package. Amounts parsed with mint decimals (${mintState.decimals}). Index mode: ${distributorWizardIndexMode === "onchain" ? "on-chain safe" : "line order"}.`
           : configuredClaimantAddress
-            ? `Generated root + claim manifest (${allocations.length} allocation(s)), but claimant wallet is not present in allocations. Amounts parsed with mint decimals (${mintState.decimals}). Index mode: ${distributorWizardIndexMode === "onchain" ? "on-chain safe" : "line order"}.`
-            : `Generated root + claim manifest (${allocations.length} allocation(s)). Amounts parsed with mint decimals (${mintState.decimals}). Set claimant wallet to auto-load one entry for testing. Index mode: ${distributorWizardIndexMode === "onchain" ? "on-chain safe" : "line order"}.`
+            ? `Generated root + ${packageLabel} (${allocations.length} allocation(s)), but claimant wallet is not present in allocations. Amounts parsed with mint decimals (${mintState.decimals}). Index mode: ${distributorWizardIndexMode === "onchain" ? "on-chain safe" : "line order"}.`
+            : `Generated root + ${packageLabel} (${allocations.length} allocation(s)). Amounts parsed with mint decimals (${mintState.decimals}). Set claimant wallet to auto-load one entry for testing. Index mode: ${distributorWizardIndexMode === "onchain" ? "on-chain safe" : "line order"}.`
       });
     } catch (unknownError) {
       setStatus({
@@ -2452,6 +3266,9 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
             ? unknownError.message
             : "Failed to generate merkle root."
       });
+    } finally {
+      setIsDistributorWizardBusy(false);
+      setDistributorWizardProgress("");
     }
   };
 
@@ -2941,8 +3758,15 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
           `Failed to fetch claim package: ${response.status} ${response.statusText}`
         );
       }
-      const payload = (await response.json()) as Record<string, unknown>;
+      let payload = (await response.json()) as Record<string, unknown>;
+      if (isDistributorShardIndex(payload)) {
+        if (!publicKey) {
+          throw new Error("Connect your wallet to load its claim shard.");
+        }
+        payload = await fetchDistributorShardManifest(packageUrl, payload, publicKey);
+      }
       setDistributorClaimPackageJson(JSON.stringify(payload, null, 2));
+      setDistributorClaimPackageFile(null);
       const { claimPayload, sourceLabel } = resolveDistributorClaimPayloadFromManifest(
         payload,
         publicKey?.toBase58()
@@ -2970,16 +3794,26 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     setIsDistributorClaimPackageLoading(true);
     setStatus(null);
     try {
-      if (!distributorClaimPackageJson.trim()) {
-        throw new Error("Claim package JSON is required.");
+      let claimPackageContents: BlobPart;
+      if (distributorClaimPackageFile && distributorClaimPackageFile.shardCount !== null) {
+        throw new Error(
+          "Sharded packages are a folder of files. Download the zip, host its contents and use the index.json URL."
+        );
+      }
+      if (distributorClaimPackageFile) {
+        claimPackageContents = distributorClaimPackageFile.blob;
+      } else {
+        if (!distributorClaimPackageJson.trim()) {
+          throw new Error("Claim package JSON is required.");
+        }
+        const payload = JSON.parse(distributorClaimPackageJson) as Record<
+          string,
+          unknown
+        >;
+        claimPackageContents = JSON.stringify(payload, null, 2);
       }
-      const payload = JSON.parse(distributorClaimPackageJson) as Record<
-        string,
-        unknown
-      >;
-      const normalized = JSON.stringify(payload, null, 2);
       const claimPackageFile = new File(
-        [normalized],
+        [claimPackageContents],
         "grape-distributor-claim-manifest.json",
         {
           type: "application/json"
@@ -3343,10 +4177,14 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
         programId: TOKEN_METADATA_PROGRAM_ID,
         keys: [
           { pubkey: metadataPda, isSigner: false, isWritable: true },
-          { pubkey: publicKey, isSigner: true, isWritable: false }
+          { pubkey: instructionExport.resolveAuthority(), isSigner: true, isWritable: false }
         ],
         data: Buffer.from(data)
       });
+      if (instructionExport.isExternal) {
+        await exportInstructions([instruction]);
+        return;
+      }
 
       const signature = await runWalletTransaction(
         new Transaction().add(instruction)
@@ -3461,6 +4299,143 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     }
   };
 
+  const loadEmbeddedMetadata = async () => {
+    setEmbeddedMetadataLoading(true);
+    try {
+      const mintPublicKey = new PublicKey(embeddedMetadataMint.trim());
+      const mintInfo = await connection.getAccountInfo(mintPublicKey, "confirmed");
+      if (!mintInfo || !mintInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+        throw new Error("Embedded metadata is only available on Token-2022 mints.");
+      }
+      const state = readEmbeddedMetadata(mintPublicKey, mintInfo);
+      if (!state) {
+        throw new Error("Mint has no MetadataPointer or TokenMetadata extension.");
+      }
+      setEmbeddedMetadataState(state);
+      setEmbeddedMetadataName(state.metadata?.name ?? "");
+      setEmbeddedMetadataSymbol(state.metadata?.symbol ?? "");
+      setEmbeddedMetadataUri(state.metadata?.uri ?? "");
+      setEmbeddedMetadataAdditional(
+        formatAdditionalMetadataInput(state.metadata?.additionalMetadata ?? [])
+      );
+    } catch (unknownError) {
+      setEmbeddedMetadataState(null);
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to load embedded metadata."
+      });
+    } finally {
+      setEmbeddedMetadataLoading(false);
+    }
+  };
+
+  const saveEmbeddedMetadata = async () => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const mintPublicKey = new PublicKey(embeddedMetadataMint.trim());
+      const mintInfo = await connection.getAccountInfo(mintPublicKey, "confirmed");
+      if (!mintInfo) {
+        throw new Error("Mint account not found.");
+      }
+      const draft = {
+        name: embeddedMetadataName.trim(),
+        symbol: embeddedMetadataSymbol.trim(),
+        uri: embeddedMetadataUri.trim(),
+        additionalMetadata: parseAdditionalMetadataInput(embeddedMetadataAdditional)
+      };
+      if (!draft.name || !draft.symbol) {
+        throw new Error("Embedded metadata requires a name and symbol.");
+      }
+
+      const isInitialized = Boolean(readEmbeddedMetadata(mintPublicKey, mintInfo)?.metadata);
+      const instructions = isInitialized
+        ? await buildUpdateEmbeddedMetadataInstructions(connection, {
+            mint: mintPublicKey,
+            info: mintInfo,
+            payer: publicKey,
+            updateAuthority: publicKey,
+            draft
+          })
+        : await buildInitializeEmbeddedMetadataInstructions(connection, {
+            mint: mintPublicKey,
+            info: mintInfo,
+            payer: publicKey,
+            mintAuthority: publicKey,
+            updateAuthority: publicKey,
+            draft
+          });
+
+      const signature = await runWalletTransaction(new Transaction().add(...instructions));
+      setStatus({
+        severity: "success",
+        message: isInitialized
+          ? `Embedded metadata updated for ${mintPublicKey.toBase58()}.`
+          : `Embedded metadata initialized for ${mintPublicKey.toBase58()}.`,
+        signature
+      });
+      await loadEmbeddedMetadata();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to save embedded metadata."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const updateEmbeddedMetadataAuthority = async () => {
+    if (!publicKey) {
+      setStatus({ severity: "error", message: "Connect your wallet first." });
+      return;
+    }
+
+    setIsSubmitting(true);
+    setStatus(null);
+    try {
+      const mintPublicKey = new PublicKey(embeddedMetadataMint.trim());
+      const nextAuthority = embeddedMetadataNewAuthority.trim()
+        ? new PublicKey(embeddedMetadataNewAuthority.trim())
+        : null;
+
+      const signature = await runWalletTransaction(
+        new Transaction().add(
+          buildEmbeddedMetadataAuthorityInstruction(mintPublicKey, publicKey, nextAuthority)
+        )
+      );
+      setStatus({
+        severity: "success",
+        message: nextAuthority
+          ? "Embedded metadata update authority changed."
+          : "Embedded metadata update authority revoked. Metadata is now immutable.",
+        signature
+      });
+      await loadEmbeddedMetadata();
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to update embedded metadata authority."
+      });
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
   const uploadFileToIrys = async (file: File) => {
     if (!publicKey) {
       throw new Error("Connect your wallet first.");
@@ -3539,8 +4514,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
           lamports: Number(topUpAmount)
         })
       );
-      const fundingSignature = await sendTransaction(fundingTx, connection);
-      await connection.confirmTransaction(fundingSignature, "confirmed");
+      const fundingSignature = await sendAndConfirm(fundingTx);
 
       const registerFundResponse = await fetch(`${irysNode}/account/balance/solana`, {
         method: "POST",
@@ -3721,6 +4695,108 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
     });
   };
 
+  const governanceProposalFields = (
+    <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+      <CardContent sx={{ p: 1.2 }}>
+        <Stack spacing={1}>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={proposalModeEnabled}
+                onChange={(event) => {
+                  setProposalModeEnabled(event.target.checked);
+                }}
+              />
+            }
+            label="Output as Governance Proposal"
+          />
+          {proposalModeEnabled ? (
+            <>
+              <Typography variant="caption" color="text.secondary">
+                Instructions are inserted into a new SPL Governance proposal instead of being
+                signed by this wallet. The wallet must have deposited community or council
+                tokens in the realm.
+              </Typography>
+              <TextField
+                size="small"
+                label="Governance Program ID"
+                value={proposalGovernanceProgramId}
+                onChange={(event) => {
+                  setProposalGovernanceProgramId(event.target.value);
+                }}
+              />
+              <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                <TextField
+                  size="small"
+                  fullWidth
+                  label="Realm"
+                  value={proposalRealm}
+                  onChange={(event) => {
+                    setProposalRealm(event.target.value);
+                  }}
+                />
+                <TextField
+                  size="small"
+                  fullWidth
+                  label="Governance Account"
+                  value={proposalGovernance}
+                  onChange={(event) => {
+                    setProposalGovernance(event.target.value);
+                  }}
+                />
+              </Stack>
+              <TextField
+                select
+                size="small"
+                label="Current Authority"
+                value={proposalAuthorityKind}
+                onChange={(event) => {
+                  setProposalAuthorityKind(event.target.value as GovernanceAuthorityKind);
+                }}
+              >
+                <MenuItem value="native-treasury">Native Treasury</MenuItem>
+                <MenuItem value="governance">Governance Account</MenuItem>
+              </TextField>
+              <Typography variant="caption" color="text.secondary" sx={{ wordBreak: "break-all" }}>
+                Authority address:{" "}
+                {proposalTarget
+                  ? getGovernanceAuthorityAddress(proposalTarget).toBase58()
+                  : "enter a valid realm and governance account"}
+              </Typography>
+              <TextField
+                size="small"
+                label="Proposal Title"
+                value={proposalName}
+                onChange={(event) => {
+                  setProposalName(event.target.value);
+                }}
+              />
+              <TextField
+                size="small"
+                label="Description Link (optional)"
+                value={proposalDescriptionLink}
+                onChange={(event) => {
+                  setProposalDescriptionLink(event.target.value);
+                }}
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={proposalSignOff}
+                    onChange={(event) => {
+                      setProposalSignOff(event.target.checked);
+                    }}
+                  />
+                }
+                label="Sign off proposal (start voting)"
+              />
+            </>
+          ) : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+
   return (
     <Card variant="outlined" sx={{ borderRadius: 1.75 }}>
       <CardContent sx={{ p: 1.75 }}>
@@ -3778,6 +4854,11 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
             Active Token Program: {tokenProgramId}
           </Typography>
 
+          <InstructionExportPanel
+            exportState={instructionExport}
+            description="Squads and unsigned export apply to program buffer close, authority rotation and updates, mint tokens, and metadata authority changes."
+          />
+
           {status ? (
             <Alert
               severity={status.severity}
@@ -4018,40 +5099,355 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                     <Button
                       size="small"
                       variant="text"
-                      onClick={exportAuthorityInventoryCsv}
+                      onClick={() => {
+                        exportAuthorityInventory("csv");
+                      }}
                       disabled={authorityInventory.length === 0}
                     >
                       Export CSV
                     </Button>
+                    <Button
+                      size="small"
+                      variant="text"
+                      onClick={() => {
+                        exportAuthorityInventory("json");
+                      }}
+                      disabled={authorityInventory.length === 0}
+                    >
+                      Export JSON
+                    </Button>
+                    <Button size="small" variant="text" component="label">
+                      Import Report
+                      <input
+                        hidden
+                        type="file"
+                        accept=".csv,.json,text/csv,application/json"
+                        onChange={(event) => {
+                          const selectedFile = event.target.files?.[0] ?? null;
+                          void importAuthorityInventoryBaseline(selectedFile);
+                          event.currentTarget.value = "";
+                        }}
+                      />
+                    </Button>
                   </Stack>
                 </Stack>
                 <Typography variant="caption" color="text.secondary">
                   Scans token + metadata authority exposure and flags high-risk authority retention.
                 </Typography>
-                <TextField
-                  multiline
-                  minRows={4}
-                  size="small"
-                  label="Additional Mint Inputs (optional, one per line)"
-                  value={authorityInventoryInput}
-                  onChange={(event) => {
-                    setAuthorityInventoryInput(event.target.value);
-                  }}
-                  placeholder="Add mint addresses to include in scan."
-                />
-                {authorityInventoryLoading ? (
-                  <Stack direction="row" spacing={1} alignItems="center">
-                    <CircularProgress size={16} />
-                    <Typography variant="caption" color="text.secondary">
-                      Scanning authority inventory...
-                    </Typography>
-                  </Stack>
-                ) : null}
-                {authorityInventory.length > 0 ? (
-                  <Stack spacing={0.7}>
-                    {authorityInventory.slice(0, 30).map((row) => (
-                      <Card key={row.mint} variant="outlined" sx={{ borderRadius: 1.1 }}>
-                        <CardContent sx={{ p: 1, "&:last-child": { pb: 1 } }}>
+                <Stack direction="row" spacing={0.8} alignItems="center">
+                  <Button
+                    size="small"
+                    variant="text"
+                    onClick={() => {
+                      setShowRiskRules((current) => !current);
+                    }}
+                  >
+                    {showRiskRules ? "Hide Risk Rules" : "Risk Rules"}
+                  </Button>
+                  <Typography variant="caption" color="text.secondary">
+                    {
+                      BUILT_IN_RISK_RULES.filter((rule) => riskRuleConfig.rules[rule.id]?.enabled)
+                        .length
+                    }
+                    /{BUILT_IN_RISK_RULES.length} rules enabled
+                  </Typography>
+                </Stack>
+                {showRiskRules ? (
+                  <Card variant="outlined" sx={{ borderRadius: 1.1 }}>
+                    <CardContent sx={{ p: 1, "&:last-child": { pb: 1 } }}>
+                      <Stack spacing={0.8}>
+                        <Typography variant="caption" color="text.secondary">
+                          Rule settings are saved in this browser. Export them to share a team
+                          profile.
+                        </Typography>
+                        {BUILT_IN_RISK_RULES.map((rule) => {
+                          const settings = riskRuleConfig.rules[rule.id];
+                          const updateSettings = (patch: Partial<typeof settings>) => {
+                            setRiskRuleConfig({
+                              ...riskRuleConfig,
+                              rules: {
+                                ...riskRuleConfig.rules,
+                                [rule.id]: { ...settings, ...patch }
+                              }
+                            });
+                          };
+                          return (
+                            <Stack
+                              key={rule.id}
+                              direction={{ xs: "column", md: "row" }}
+                              spacing={1}
+                              alignItems={{ md: "center" }}
+                            >
+                              <FormControlLabel
+                                control={
+                                  <Checkbox
+                                    checked={settings.enabled}
+                                    onChange={(event) => {
+                                      updateSettings({ enabled: event.target.checked });
+                                    }}
+                                  />
+                                }
+                                label={
+                                  <Stack spacing={0}>
+                                    <Typography variant="body2">{rule.label}</Typography>
+                                    <Typography variant="caption" color="text.secondary">
+                                      {rule.description}
+                                    </Typography>
+                                  </Stack>
+                                }
+                                sx={{ flex: 1 }}
+                              />
+                              {rule.thresholdLabel ? (
+                                <TextField
+                                  size="small"
+                                  type="number"
+                                  label={rule.thresholdLabel}
+                                  value={settings.threshold ?? ""}
+                                  onChange={(event) => {
+                                    updateSettings({ threshold: Number(event.target.value) });
+                                  }}
+                                  sx={{ width: { xs: "100%", md: 200 } }}
+                                />
+                              ) : null}
+                              <TextField
+                                select
+                                size="small"
+                                label="Severity"
+                                value={settings.severity}
+                                onChange={(event) => {
+                                  updateSettings({ severity: event.target.value as RiskSeverity });
+                                }}
+                                sx={{ width: { xs: "100%", md: 130 } }}
+                              >
+                                {RISK_SEVERITIES.map((severity) => (
+                                  <MenuItem key={severity} value={severity}>
+                                    {severity.toUpperCase()}
+                                  </MenuItem>
+                                ))}
+                              </TextField>
+                            </Stack>
+                          );
+                        })}
+                        <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                          <TextField
+                            multiline
+                            minRows={2}
+                            size="small"
+                            label="Governance Program IDs (one per line)"
+                            defaultValue={riskRuleConfig.governanceProgramIds.join("\n")}
+                            key={`governance-${riskRuleConfig.governanceProgramIds.join(",")}`}
+                            onBlur={(event) => {
+                              setRiskRuleConfig(
+                                normalizeRiskRuleConfig({
+                                  ...riskRuleConfig,
+                                  governanceProgramIds: event.target.value.split(/\s+/).filter(Boolean)
+                                })
+                              );
+                            }}
+                            fullWidth
+                          />
+                          <TextField
+                            multiline
+                            minRows={2}
+                            size="small"
+                            label="Multisig Program IDs (one per line)"
+                            defaultValue={riskRuleConfig.multisigProgramIds.join("\n")}
+                            key={`multisig-${riskRuleConfig.multisigProgramIds.join(",")}`}
+                            onBlur={(event) => {
+                              setRiskRuleConfig(
+                                normalizeRiskRuleConfig({
+                                  ...riskRuleConfig,
+                                  multisigProgramIds: event.target.value.split(/\s+/).filter(Boolean)
+                                })
+                              );
+                            }}
+                            fullWidth
+                          />
+                        </Stack>
+                        <Stack direction="row" spacing={0.8}>
+                          <Button
+                            size="small"
+                            variant="outlined"
+                            onClick={exportRiskRuleConfig}
+                          >
+                            Export Rules
+                          </Button>
+                          <Button size="small" variant="outlined" component="label">
+                            Import Rules
+                            <input
+                              hidden
+                              type="file"
+                              accept=".json,application/json"
+                              onChange={(event) => {
+                                const selectedFile = event.target.files?.[0] ?? null;
+                                void importRiskRuleConfig(selectedFile);
+                                event.currentTarget.value = "";
+                              }}
+                            />
+                          </Button>
+                          <Button size="small" variant="text" onClick={resetRiskRuleConfig}>
+                            Reset Defaults
+                          </Button>
+                        </Stack>
+                      </Stack>
+                    </CardContent>
+                  </Card>
+                ) : null}
+                <TextField
+                  multiline
+                  minRows={4}
+                  size="small"
+                  label="Additional Mint Inputs (optional, one per line)"
+                  value={authorityInventoryInput}
+                  onChange={(event) => {
+                    setAuthorityInventoryInput(event.target.value);
+                  }}
+                  placeholder="Add mint addresses to include in scan."
+                />
+                {authorityInventoryLoading ? (
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <CircularProgress size={16} />
+                    <Typography variant="caption" color="text.secondary">
+                      Scanning authority inventory...
+                    </Typography>
+                  </Stack>
+                ) : null}
+                {authorityInventoryScan ? (
+                  <Typography variant="caption" color="text.secondary">
+                    Last scan: {authorityInventoryScan.generatedAt} at slot{" "}
+                    {authorityInventoryScan.slot}
+                  </Typography>
+                ) : null}
+                {authorityInventoryBaseline ? (
+                  <Card variant="outlined" sx={{ borderRadius: 1.1 }}>
+                    <CardContent sx={{ p: 1, "&:last-child": { pb: 1 } }}>
+                      <Stack spacing={0.6}>
+                        <Stack direction="row" justifyContent="space-between" alignItems="center">
+                          <Typography variant="caption">
+                            Baseline: {authorityInventoryBaseline.generatedAt || "unknown time"} at
+                            slot {authorityInventoryBaseline.slot} (
+                            {authorityInventoryBaseline.rows.length} mints)
+                          </Typography>
+                          <Button
+                            size="small"
+                            onClick={() => {
+                              setAuthorityInventoryBaseline(null);
+                            }}
+                          >
+                            Clear
+                          </Button>
+                        </Stack>
+                        {!authorityInventoryDiff ? (
+                          <Typography variant="caption" color="text.secondary">
+                            Run a scan to diff against this baseline.
+                          </Typography>
+                        ) : authorityInventoryDiff.length === 0 ? (
+                          <Typography variant="caption" color="text.secondary">
+                            No authority or risk flag changes since baseline.
+                          </Typography>
+                        ) : (
+                          authorityInventoryDiff.map((entry) => (
+                            <Stack key={`diff-${entry.mint}`} spacing={0.4}>
+                              <Stack direction="row" spacing={0.6} alignItems="center">
+                                <Chip
+                                  size="small"
+                                  variant="outlined"
+                                  color={
+                                    entry.status === "changed"
+                                      ? "warning"
+                                      : entry.status === "added"
+                                        ? "info"
+                                        : "default"
+                                  }
+                                  label={entry.status}
+                                />
+                                <Typography
+                                  variant="caption"
+                                  sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                                >
+                                  {entry.mint}
+                                </Typography>
+                              </Stack>
+                              {entry.changes.map((change) => (
+                                <Typography
+                                  key={`diff-${entry.mint}-${change.field}`}
+                                  variant="caption"
+                                  color="warning.main"
+                                  sx={{ wordBreak: "break-all" }}
+                                >
+                                  {change.field}: {change.before ?? "None"} → {change.after ?? "None"}
+                                </Typography>
+                              ))}
+                              {entry.newRiskFlags.length > 0 || entry.resolvedRiskFlags.length > 0 ? (
+                                <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                                  {entry.newRiskFlags.map((flag) => (
+                                    <Chip
+                                      key={`diff-${entry.mint}-new-${flag}`}
+                                      size="small"
+                                      color="error"
+                                      variant="outlined"
+                                      label={`New: ${flag}`}
+                                    />
+                                  ))}
+                                  {entry.resolvedRiskFlags.map((flag) => (
+                                    <Chip
+                                      key={`diff-${entry.mint}-resolved-${flag}`}
+                                      size="small"
+                                      color="success"
+                                      variant="outlined"
+                                      label={`Cleared: ${flag}`}
+                                    />
+                                  ))}
+                                </Stack>
+                              ) : null}
+                            </Stack>
+                          ))
+                        )}
+                      </Stack>
+                    </CardContent>
+                  </Card>
+                ) : null}
+                {authorityInventory.length > 0 ? (
+                  <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                    {RISK_SEVERITIES.map((severity) => {
+                      const count = authorityInventory.filter((row) =>
+                        row.riskFindings.some((finding) => finding.severity === severity)
+                      ).length;
+                      const isSelected = riskSeverityFilter.includes(severity);
+                      return (
+                        <Chip
+                          key={`severity-filter-${severity}`}
+                          size="small"
+                          color={RISK_SEVERITY_COLORS[severity]}
+                          variant={isSelected ? "filled" : "outlined"}
+                          label={`${severity.toUpperCase()} ${count}`}
+                          onClick={() => {
+                            setRiskSeverityFilter((current) =>
+                              isSelected
+                                ? current.filter((entry) => entry !== severity)
+                                : [...current, severity]
+                            );
+                          }}
+                        />
+                      );
+                    })}
+                    {riskSeverityFilter.length > 0 ? (
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label="Clear Filter"
+                        onClick={() => {
+                          setRiskSeverityFilter([]);
+                        }}
+                      />
+                    ) : null}
+                  </Stack>
+                ) : null}
+                {filteredAuthorityInventory.length > 0 ? (
+                  <Stack spacing={0.7}>
+                    {filteredAuthorityInventory.slice(0, 30).map((row) => (
+                      <Card key={row.mint} variant="outlined" sx={{ borderRadius: 1.1 }}>
+                        <CardContent sx={{ p: 1, "&:last-child": { pb: 1 } }}>
                           <Stack spacing={0.65}>
                             <Stack direction="row" justifyContent="space-between" alignItems="center">
                               <Typography
@@ -4083,6 +5479,11 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                                 }
                               />
                               <Chip size="small" variant="outlined" label={`Supply ${row.supplyLabel}`} />
+                              <Chip
+                                size="small"
+                                variant="outlined"
+                                label={METADATA_STANDARD_LABELS[row.metadataStandard]}
+                              />
                               {row.hasMintAuthority ? (
                                 <Chip size="small" color="primary" variant="outlined" label="Mint Auth" />
                               ) : null}
@@ -4093,15 +5494,15 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                                 <Chip size="small" color="warning" variant="outlined" label="Metadata Auth" />
                               ) : null}
                             </Stack>
-                            {row.riskFlags.length > 0 ? (
+                            {row.riskFindings.length > 0 ? (
                               <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
-                                {row.riskFlags.map((flag) => (
+                                {row.riskFindings.map((finding) => (
                                   <Chip
-                                    key={`${row.mint}-${flag}`}
+                                    key={`${row.mint}-${finding.ruleId}`}
                                     size="small"
-                                    color="error"
+                                    color={RISK_SEVERITY_COLORS[finding.severity]}
                                     variant="outlined"
-                                    label={flag}
+                                    label={`${finding.severity.toUpperCase()} · ${finding.label}`}
                                   />
                                 ))}
                               </Stack>
@@ -4335,6 +5736,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                   }}
                   placeholder="Leave empty to use scan-derived authority mints."
                 />
+                {governanceProposalFields}
                 <Button
                   variant="contained"
                   onClick={() => {
@@ -4342,7 +5744,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                   }}
                   disabled={!connected || isSubmitting}
                 >
-                  Rotate Authorities
+                  {proposalModeEnabled ? "Create Rotation Proposal" : "Rotate Authorities"}
                 </Button>
                   </Stack>
                 </CardContent>
@@ -4656,15 +6058,264 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                     />
                   ) : null}
                 </Stack>
-                <Button
-                  variant="contained"
-                  onClick={() => {
-                    void createMint();
-                  }}
-                  disabled={!connected || isSubmitting}
-                >
-                  Create Mint
-                </Button>
+                {isToken2022Program ? (
+                  <Stack spacing={0.5}>
+                    <Typography variant="caption" color="text.secondary">
+                      Token-2022 Extensions
+                    </Typography>
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={mintExtensionDraft.transferFeeEnabled}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ transferFeeEnabled: event.target.checked });
+                          }}
+                        />
+                      }
+                      label="Transfer Fee"
+                    />
+                    {mintExtensionDraft.transferFeeEnabled ? (
+                      <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                        <TextField
+                          size="small"
+                          label="Fee (basis points)"
+                          value={mintExtensionDraft.transferFeeBasisPoints}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ transferFeeBasisPoints: event.target.value });
+                          }}
+                          helperText="100 bps = 1%"
+                        />
+                        <TextField
+                          size="small"
+                          label="Maximum Fee (tokens)"
+                          value={mintExtensionDraft.transferFeeMaximum}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ transferFeeMaximum: event.target.value });
+                          }}
+                          helperText="Leave empty for no cap"
+                        />
+                      </Stack>
+                    ) : null}
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={mintExtensionDraft.interestBearingEnabled}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ interestBearingEnabled: event.target.checked });
+                          }}
+                        />
+                      }
+                      label="Interest Bearing"
+                    />
+                    {mintExtensionDraft.interestBearingEnabled ? (
+                      <TextField
+                        size="small"
+                        label="Rate (basis points / year)"
+                        value={mintExtensionDraft.interestRateBasisPoints}
+                        onChange={(event) => {
+                          updateMintExtensionDraft({ interestRateBasisPoints: event.target.value });
+                        }}
+                      />
+                    ) : null}
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={mintExtensionDraft.nonTransferable}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ nonTransferable: event.target.checked });
+                          }}
+                        />
+                      }
+                      label="Non-Transferable"
+                    />
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={mintExtensionDraft.permanentDelegateEnabled}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ permanentDelegateEnabled: event.target.checked });
+                          }}
+                        />
+                      }
+                      label="Permanent Delegate"
+                    />
+                    {mintExtensionDraft.permanentDelegateEnabled ? (
+                      <TextField
+                        size="small"
+                        label="Permanent Delegate"
+                        value={mintExtensionDraft.permanentDelegate}
+                        onChange={(event) => {
+                          updateMintExtensionDraft({ permanentDelegate: event.target.value });
+                        }}
+                        fullWidth
+                        helperText="Leave empty to use the connected wallet"
+                      />
+                    ) : null}
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={mintExtensionDraft.defaultAccountStateEnabled}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ defaultAccountStateEnabled: event.target.checked });
+                          }}
+                        />
+                      }
+                      label="Default Account State"
+                    />
+                    {mintExtensionDraft.defaultAccountStateEnabled ? (
+                      <TextField
+                        select
+                        size="small"
+                        label="Default State"
+                        value={mintExtensionDraft.defaultAccountState}
+                        onChange={(event) => {
+                          updateMintExtensionDraft({
+                            defaultAccountState: event.target.value as "initialized" | "frozen"
+                          });
+                        }}
+                        sx={{ maxWidth: { md: 220 } }}
+                      >
+                        <MenuItem value="initialized">Initialized</MenuItem>
+                        <MenuItem value="frozen">Frozen</MenuItem>
+                      </TextField>
+                    ) : null}
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={mintExtensionDraft.transferHookEnabled}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ transferHookEnabled: event.target.checked });
+                          }}
+                        />
+                      }
+                      label="Transfer Hook"
+                    />
+                    {mintExtensionDraft.transferHookEnabled ? (
+                      <TextField
+                        size="small"
+                        label="Transfer Hook Program ID"
+                        value={mintExtensionDraft.transferHookProgramId}
+                        onChange={(event) => {
+                          updateMintExtensionDraft({ transferHookProgramId: event.target.value });
+                        }}
+                        fullWidth
+                      />
+                    ) : null}
+                    <FormControlLabel
+                      control={
+                        <Checkbox
+                          checked={mintExtensionDraft.embeddedMetadataEnabled}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ embeddedMetadataEnabled: event.target.checked });
+                          }}
+                        />
+                      }
+                      label="Embedded Metadata (Metadata Pointer + Token Metadata)"
+                    />
+                    {mintExtensionDraft.embeddedMetadataEnabled ? (
+                      <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                        <TextField
+                          size="small"
+                          label="Name"
+                          value={mintExtensionDraft.embeddedMetadataName}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ embeddedMetadataName: event.target.value });
+                          }}
+                        />
+                        <TextField
+                          size="small"
+                          label="Symbol"
+                          value={mintExtensionDraft.embeddedMetadataSymbol}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ embeddedMetadataSymbol: event.target.value });
+                          }}
+                        />
+                        <TextField
+                          size="small"
+                          label="URI"
+                          value={mintExtensionDraft.embeddedMetadataUri}
+                          onChange={(event) => {
+                            updateMintExtensionDraft({ embeddedMetadataUri: event.target.value });
+                          }}
+                          fullWidth
+                        />
+                      </Stack>
+                    ) : null}
+                  </Stack>
+                ) : (
+                  <Typography variant="caption" color="text.secondary">
+                    Select SPL Token 2022 to add transfer fee, interest, soulbound, delegate,
+                    default state, transfer hook, or embedded metadata extensions.
+                  </Typography>
+                )}
+                {createMintPlan ? (
+                  <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+                    <CardContent sx={{ p: 1.2 }}>
+                      <Stack spacing={0.5}>
+                        <Typography variant="subtitle2">Review Mint</Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          Program: {isToken2022Program ? "SPL Token 2022" : "SPL Token"} | Decimals:{" "}
+                          {createMintPlan.decimals}
+                        </Typography>
+                        <Typography
+                          variant="caption"
+                          color="text.secondary"
+                          sx={{ wordBreak: "break-all" }}
+                        >
+                          Mint authority: {publicKey?.toBase58() ?? "-"} | Freeze authority:{" "}
+                          {createMintPlan.freezeAuthority?.toBase58() ?? "None"}
+                        </Typography>
+                        {createMintPlan.summaries.length > 0 ? (
+                          createMintPlan.summaries.map((summary) => (
+                            <Typography
+                              key={summary.extension}
+                              variant="caption"
+                              sx={{ wordBreak: "break-all" }}
+                            >
+                              <strong>{summary.extension}</strong>: {summary.detail}
+                            </Typography>
+                          ))
+                        ) : (
+                          <Typography variant="caption">No extensions.</Typography>
+                        )}
+                        <Typography variant="caption" color="text.secondary">
+                          Account size: {createMintPlan.mintLen} bytes | Rent:{" "}
+                          {formatLamportsSol(createMintPlan.rentLamports)} SOL
+                        </Typography>
+                        <Stack direction="row" spacing={1}>
+                          <Button
+                            variant="contained"
+                            onClick={() => {
+                              void createMint();
+                            }}
+                            disabled={!connected || isSubmitting}
+                          >
+                            Confirm Create Mint
+                          </Button>
+                          <Button
+                            variant="outlined"
+                            onClick={() => {
+                              setCreateMintPlan(null);
+                            }}
+                            disabled={isSubmitting}
+                          >
+                            Edit
+                          </Button>
+                        </Stack>
+                      </Stack>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <Button
+                    variant="contained"
+                    onClick={() => {
+                      void reviewCreateMint();
+                    }}
+                    disabled={!connected || isSubmitting}
+                  >
+                    Review Mint
+                  </Button>
+                )}
                 {createdMint ? (
                   <Typography
                     variant="caption"
@@ -4881,8 +6532,22 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                   }}
                   placeholder={`WalletAddress1,100\nWalletAddress2,250.5`}
                 />
-                <Button
-                  variant="outlined"
+                <TextField
+                  select
+                  size="small"
+                  label="Address Lookup Table"
+                  value={distributionLookupTableMode}
+                  onChange={(event) => {
+                    setDistributionLookupTableMode(event.target.value as LookupTableMode);
+                  }}
+                  helperText="Recipients are packed into v0 transactions by serialized size. Auto only creates a lookup table when it saves transactions."
+                >
+                  <MenuItem value="auto">Auto</MenuItem>
+                  <MenuItem value="always">Always</MenuItem>
+                  <MenuItem value="never">Never</MenuItem>
+                </TextField>
+                <Button
+                  variant="outlined"
                   onClick={() => {
                     void distributeMintTokens();
                   }}
@@ -4956,6 +6621,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                     setNewAuthority(event.target.value);
                   }}
                 />
+                {governanceProposalFields}
                 <Button
                   variant="outlined"
                   onClick={() => {
@@ -4963,7 +6629,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                   }}
                   disabled={!connected || isSubmitting}
                 >
-                  Update Authority
+                  {proposalModeEnabled ? "Create Authority Proposal" : "Update Authority"}
                 </Button>
                   </Stack>
                 </CardContent>
@@ -4971,6 +6637,238 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
             </AccordionDetails>
           </Accordion>
 
+          <Accordion
+            expanded={expandedOperation === "transfer-fee-admin"}
+            onChange={(_event, isExpanded) => {
+              setExpandedOperation(isExpanded ? "transfer-fee-admin" : false);
+            }}
+            disableGutters
+            sx={{
+              bgcolor: "transparent",
+              border: "1px solid",
+              borderColor: "divider",
+              borderRadius: "8px !important",
+              order: 4
+            }}
+          >
+            <AccordionSummary
+              expandIcon={
+                <Typography color="text.secondary">
+                  {expandedOperation === "transfer-fee-admin" ? "−" : "+"}
+                </Typography>
+              }
+            >
+              <Typography variant="subtitle2">4. Transfer Fee Admin (Token-2022)</Typography>
+            </AccordionSummary>
+            <AccordionDetails sx={{ pt: 0.5 }}>
+              <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+                <CardContent sx={{ p: 1.2 }}>
+                  <Stack spacing={1}>
+                <Typography variant="subtitle2">Transfer Fee Admin</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Read withheld fees across holder accounts, harvest them to the mint, withdraw
+                  to a treasury ATA, and schedule a new fee.
+                </Typography>
+                <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                  <TextField
+                    size="small"
+                    label="Token-2022 Mint Address"
+                    value={transferFeeMint}
+                    onChange={(event) => {
+                      setTransferFeeMint(event.target.value);
+                      setTransferFeeState(null);
+                    }}
+                    fullWidth
+                  />
+                  {token2022AuthorityMints.length > 0 ? (
+                    <TextField
+                      select
+                      size="small"
+                      label="From Authority Mints"
+                      value={
+                        token2022AuthorityMints.some((entry) => entry.mint === transferFeeMint)
+                          ? transferFeeMint
+                          : ""
+                      }
+                      onChange={(event) => {
+                        setTransferFeeMint(event.target.value);
+                        setTransferFeeState(null);
+                        void loadTransferFeeState(event.target.value);
+                      }}
+                      sx={{ minWidth: { xs: "100%", md: 220 } }}
+                    >
+                      {token2022AuthorityMints.map((entry) => (
+                        <MenuItem key={entry.mint} value={entry.mint}>
+                          {shortenAddress(entry.mint)} ({entry.supplyLabel})
+                        </MenuItem>
+                      ))}
+                    </TextField>
+                  ) : null}
+                  <Button
+                    variant="outlined"
+                    onClick={() => {
+                      void loadTransferFeeState();
+                    }}
+                    disabled={!connected || transferFeeLoading}
+                  >
+                    Load Fees
+                  </Button>
+                </Stack>
+                {token2022AuthorityMints.length === 0 ? (
+                  <Typography variant="caption" color="text.secondary">
+                    Load Authority Mints (section 5) to pick from your Token-2022 mints.
+                  </Typography>
+                ) : null}
+                {transferFeeLoading ? (
+                  <Stack direction="row" spacing={1} alignItems="center">
+                    <CircularProgress size={16} />
+                    <Typography variant="caption" color="text.secondary">
+                      Scanning holder accounts...
+                    </Typography>
+                  </Stack>
+                ) : null}
+                {transferFeeState ? (
+                  <Stack spacing={0.7}>
+                    <Stack direction="row" spacing={0.7} flexWrap="wrap" useFlexGap>
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={`Current ${getEpochFee(
+                          transferFeeState.config,
+                          transferFeeState.currentEpoch
+                        ).transferFeeBasisPoints} bps`}
+                      />
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={`Epoch ${transferFeeState.currentEpoch.toString()}`}
+                      />
+                      {transferFeeState.config.newerTransferFee.epoch >
+                      transferFeeState.currentEpoch ? (
+                        <Chip
+                          size="small"
+                          color="warning"
+                          variant="outlined"
+                          label={`${transferFeeState.config.newerTransferFee.transferFeeBasisPoints} bps from epoch ${transferFeeState.config.newerTransferFee.epoch.toString()}`}
+                        />
+                      ) : null}
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={`Mint withheld ${formatRawUnits(
+                          transferFeeState.config.withheldAmount,
+                          transferFeeState.decimals
+                        )}`}
+                      />
+                      <Chip
+                        size="small"
+                        variant="outlined"
+                        label={`Accounts withheld ${formatRawUnits(
+                          transferFeeState.totalAccountWithheld,
+                          transferFeeState.decimals
+                        )} (${transferFeeState.withheldAccounts.length})`}
+                      />
+                    </Stack>
+                    <Typography
+                      variant="caption"
+                      color="text.secondary"
+                      sx={{ wordBreak: "break-all" }}
+                    >
+                      Config authority:{" "}
+                      {transferFeeState.config.transferFeeConfigAuthority.toBase58()} | Withdraw
+                      authority: {transferFeeState.config.withdrawWithheldAuthority.toBase58()}
+                    </Typography>
+                    {transferFeeState.withheldAccounts.slice(0, 10).map((entry) => (
+                      <Typography
+                        key={entry.address.toBase58()}
+                        variant="caption"
+                        sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                      >
+                        {shortenAddress(entry.address.toBase58())} (owner{" "}
+                        {shortenAddress(entry.owner.toBase58())}):{" "}
+                        {formatRawUnits(entry.withheldAmount, transferFeeState.decimals)}
+                      </Typography>
+                    ))}
+                    {transferFeeState.withheldAccounts.length > 10 ? (
+                      <Typography variant="caption" color="text.secondary">
+                        +{transferFeeState.withheldAccounts.length - 10} more accounts
+                      </Typography>
+                    ) : null}
+                    <Button
+                      variant="outlined"
+                      onClick={() => {
+                        void harvestWithheldFees();
+                      }}
+                      disabled={
+                        !connected ||
+                        isSubmitting ||
+                        transferFeeState.withheldAccounts.length === 0
+                      }
+                    >
+                      Harvest Withheld to Mint
+                    </Button>
+                    <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                      <TextField
+                        size="small"
+                        label="Treasury Owner (leave empty for connected wallet)"
+                        value={transferFeeTreasuryOwner}
+                        onChange={(event) => {
+                          setTransferFeeTreasuryOwner(event.target.value);
+                        }}
+                        fullWidth
+                      />
+                      <Button
+                        variant="outlined"
+                        onClick={() => {
+                          void withdrawWithheldFees();
+                        }}
+                        disabled={
+                          !connected ||
+                          isSubmitting ||
+                          transferFeeState.config.withheldAmount === 0n
+                        }
+                      >
+                        Withdraw to Treasury
+                      </Button>
+                    </Stack>
+                    <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                      <TextField
+                        size="small"
+                        label="New Fee (basis points)"
+                        value={nextTransferFeeBasisPoints}
+                        onChange={(event) => {
+                          setNextTransferFeeBasisPoints(event.target.value);
+                        }}
+                      />
+                      <TextField
+                        size="small"
+                        label="New Maximum Fee (tokens)"
+                        value={nextTransferFeeMaximum}
+                        onChange={(event) => {
+                          setNextTransferFeeMaximum(event.target.value);
+                        }}
+                      />
+                      <Button
+                        variant="outlined"
+                        onClick={() => {
+                          void scheduleTransferFee();
+                        }}
+                        disabled={!connected || isSubmitting}
+                      >
+                        Schedule Fee
+                      </Button>
+                    </Stack>
+                    <Typography variant="caption" color="text.secondary">
+                      New fees take effect two epochs after they are set.
+                    </Typography>
+                  </Stack>
+                ) : null}
+                  </Stack>
+                </CardContent>
+              </Card>
+            </AccordionDetails>
+          </Accordion>
+
           <Accordion
             expanded={expandedOperation === "create-metadata"}
             onChange={(_event, isExpanded) => {
@@ -5204,6 +7102,154 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
             </AccordionDetails>
           </Accordion>
 
+          <Accordion
+            expanded={expandedOperation === "embedded-metadata"}
+            onChange={(_event, isExpanded) => {
+              setExpandedOperation(isExpanded ? "embedded-metadata" : false);
+            }}
+            disableGutters
+            sx={{
+              bgcolor: "transparent",
+              border: "1px solid",
+              borderColor: "divider",
+              borderRadius: "8px !important",
+              order: 12
+            }}
+          >
+            <AccordionSummary
+              expandIcon={
+                <Typography color="text.secondary">
+                  {expandedOperation === "embedded-metadata" ? "−" : "+"}
+                </Typography>
+              }
+            >
+              <Typography variant="subtitle2">12. Token-2022 Embedded Metadata</Typography>
+            </AccordionSummary>
+            <AccordionDetails sx={{ pt: 0.5 }}>
+              <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+                <CardContent sx={{ p: 1.2 }}>
+                  <Stack spacing={1}>
+                <Typography variant="subtitle2">Token-2022 Embedded Metadata</Typography>
+                <Typography variant="caption" color="text.secondary">
+                  Create, update, or hand off TokenMetadata stored in the mint through its
+                  MetadataPointer. The pointer must be set when the mint is created.
+                </Typography>
+                <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                  <TextField
+                    size="small"
+                    label="Token-2022 Mint Address"
+                    value={embeddedMetadataMint}
+                    onChange={(event) => {
+                      setEmbeddedMetadataMint(event.target.value);
+                      setEmbeddedMetadataState(null);
+                    }}
+                    fullWidth
+                  />
+                  <Button
+                    variant="outlined"
+                    onClick={() => {
+                      void loadEmbeddedMetadata();
+                    }}
+                    disabled={!embeddedMetadataMint.trim() || embeddedMetadataLoading}
+                  >
+                    Load
+                  </Button>
+                </Stack>
+                {embeddedMetadataState ? (
+                  <>
+                    <Typography
+                      variant="caption"
+                      color="text.secondary"
+                      sx={{ wordBreak: "break-all" }}
+                    >
+                      Pointer: {embeddedMetadataState.metadataAddress?.toBase58() ?? "None"} |
+                      Pointer authority:{" "}
+                      {embeddedMetadataState.pointerAuthority?.toBase58() ?? "None"} | Update
+                      authority:{" "}
+                      {embeddedMetadataState.metadata
+                        ? embeddedMetadataState.metadata.updateAuthority?.toBase58() ??
+                          "None (immutable)"
+                        : "Not initialized"}
+                    </Typography>
+                    <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                      <TextField
+                        size="small"
+                        label="Name"
+                        value={embeddedMetadataName}
+                        onChange={(event) => {
+                          setEmbeddedMetadataName(event.target.value);
+                        }}
+                      />
+                      <TextField
+                        size="small"
+                        label="Symbol"
+                        value={embeddedMetadataSymbol}
+                        onChange={(event) => {
+                          setEmbeddedMetadataSymbol(event.target.value);
+                        }}
+                      />
+                      <TextField
+                        size="small"
+                        label="URI"
+                        value={embeddedMetadataUri}
+                        onChange={(event) => {
+                          setEmbeddedMetadataUri(event.target.value);
+                        }}
+                        fullWidth
+                      />
+                    </Stack>
+                    <TextField
+                      size="small"
+                      label="Additional Fields (key=value per line)"
+                      value={embeddedMetadataAdditional}
+                      onChange={(event) => {
+                        setEmbeddedMetadataAdditional(event.target.value);
+                      }}
+                      multiline
+                      minRows={3}
+                      helperText="Keys missing from this list are removed on update."
+                    />
+                    <Button
+                      variant="outlined"
+                      onClick={() => {
+                        void saveEmbeddedMetadata();
+                      }}
+                      disabled={!connected || isSubmitting}
+                    >
+                      {embeddedMetadataState.metadata
+                        ? "Update Embedded Metadata"
+                        : "Initialize Embedded Metadata"}
+                    </Button>
+                    {embeddedMetadataState.metadata?.updateAuthority ? (
+                      <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
+                        <TextField
+                          size="small"
+                          label="New Update Authority (leave empty to make immutable)"
+                          value={embeddedMetadataNewAuthority}
+                          onChange={(event) => {
+                            setEmbeddedMetadataNewAuthority(event.target.value);
+                          }}
+                          fullWidth
+                        />
+                        <Button
+                          variant="outlined"
+                          onClick={() => {
+                            void updateEmbeddedMetadataAuthority();
+                          }}
+                          disabled={!connected || isSubmitting}
+                        >
+                          Update Authority
+                        </Button>
+                      </Stack>
+                    ) : null}
+                  </>
+                ) : null}
+                  </Stack>
+                </CardContent>
+              </Card>
+            </AccordionDetails>
+          </Accordion>
+
           <Accordion
             expanded={expandedOperation === "grape-distributor-wizard"}
             onChange={(_event, isExpanded) => {
@@ -5237,7 +7283,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                       Wizard: Mint → Vault → Root → Claim Package
                     </Typography>
                     <Typography variant="caption" color="text.secondary">
-                      One line per allocation: `wallet,amount` or `wallet,amount,index` (token units converted by mint decimals).
+                      One line per allocation: `wallet,amount` or `wallet,amount,index` (token units converted by mint decimals), or import a CSV/JSON snapshot file. Duplicate wallets without an index are merged.
                     </Typography>
                     <TextField
                       select
@@ -5258,6 +7304,25 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                     <Typography variant="caption" color="text.secondary">
                       On-chain safe mode auto-selects the next unused index per wallet for this distributor to prevent claim-status collisions.
                     </Typography>
+                    <TextField
+                      select
+                      size="small"
+                      label="Claim Package Format"
+                      value={distributorWizardPackageFormat}
+                      onChange={(event) => {
+                        setDistributorWizardPackageFormat(
+                          event.target.value as "manifest" | "sharded"
+                        );
+                      }}
+                    >
+                      <MenuItem value="manifest">Single Manifest</MenuItem>
+                      <MenuItem value="sharded">
+                        Sharded (index + wallet-prefix shards)
+                      </MenuItem>
+                    </TextField>
+                    <Typography variant="caption" color="text.secondary">
+                      Sharded packages let the claim page fetch only the connected wallet&apos;s shard; use them for large campaigns.
+                    </Typography>
                     <TextField
                       size="small"
                       label="Mint Address"
@@ -5316,12 +7381,97 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                         setDistributorWizardAllocations(event.target.value);
                       }}
                       placeholder={`WalletAddress1,1\nWalletAddress2,2.5\nWalletAddress3,3,42`}
+                      disabled={Boolean(distributorWizardSnapshotFile)}
+                      helperText={
+                        distributorWizardSnapshotFile
+                          ? `Using snapshot file ${distributorWizardSnapshotFile.name} instead.`
+                          : undefined
+                      }
                     />
+                    <Stack direction="row" spacing={0.8} alignItems="center" flexWrap="wrap" useFlexGap>
+                      <Button
+                        size="small"
+                        variant="outlined"
+                        component="label"
+                        disabled={isDistributorWizardBusy}
+                      >
+                        Import CSV/JSON Snapshot
+                        <input
+                          hidden
+                          type="file"
+                          accept=".csv,.json,.txt,text/csv,application/json,text/plain"
+                          onChange={(event) => {
+                            const selectedFile = event.target.files?.[0] ?? null;
+                            void importDistributorWizardSnapshot(selectedFile);
+                            event.currentTarget.value = "";
+                          }}
+                        />
+                      </Button>
+                      <Button
+                        size="small"
+                        variant="text"
+                        onClick={() => {
+                          void validateDistributorWizardAllocations();
+                        }}
+                        disabled={isDistributorWizardBusy}
+                      >
+                        Validate Allocations
+                      </Button>
+                      {distributorWizardSnapshotFile ? (
+                        <Chip
+                          size="small"
+                          variant="outlined"
+                          label={distributorWizardSnapshotFile.name}
+                          onDelete={clearDistributorWizardSnapshot}
+                        />
+                      ) : null}
+                    </Stack>
+                    {distributorWizardProgress ? (
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <CircularProgress size={14} />
+                        <Typography variant="caption" color="text.secondary">
+                          {distributorWizardProgress}
+                        </Typography>
+                      </Stack>
+                    ) : null}
+                    {distributorWizardSnapshotReport ? (
+                      <Stack spacing={0.6}>
+                        <Typography variant="caption" color="text.secondary">
+                          {describeDistributorSnapshotReport(distributorWizardSnapshotReport)}
+                        </Typography>
+                        {distributorWizardSnapshotReport.errors.length > 0 ? (
+                          <Alert severity="error" sx={{ whiteSpace: "pre-wrap" }}>
+                            {distributorWizardSnapshotReport.errors
+                              .slice(0, DISTRIBUTOR_SNAPSHOT_ISSUES_SHOWN)
+                              .map((issue) =>
+                                issue.row > 0 ? `Row ${issue.row}: ${issue.message}` : issue.message
+                              )
+                              .join("\n")}
+                            {distributorWizardSnapshotReport.errors.length >
+                            DISTRIBUTOR_SNAPSHOT_ISSUES_SHOWN
+                              ? `\n...and ${distributorWizardSnapshotReport.errors.length - DISTRIBUTOR_SNAPSHOT_ISSUES_SHOWN} more.`
+                              : ""}
+                          </Alert>
+                        ) : null}
+                        {distributorWizardSnapshotReport.warnings.length > 0 ? (
+                          <Alert severity="warning" sx={{ whiteSpace: "pre-wrap" }}>
+                            {distributorWizardSnapshotReport.warnings
+                              .slice(0, DISTRIBUTOR_SNAPSHOT_ISSUES_SHOWN)
+                              .map((issue) => `Row ${issue.row}: ${issue.message}`)
+                              .join("\n")}
+                            {distributorWizardSnapshotReport.warnings.length >
+                            DISTRIBUTOR_SNAPSHOT_ISSUES_SHOWN
+                              ? `\n...and ${distributorWizardSnapshotReport.warnings.length - DISTRIBUTOR_SNAPSHOT_ISSUES_SHOWN} more.`
+                              : ""}
+                          </Alert>
+                        ) : null}
+                      </Stack>
+                    ) : null}
                     <Stack direction={{ xs: "column", md: "row" }} spacing={1}>
                       <Button
                         variant="outlined"
                         onClick={deriveDistributorWizardAccounts}
-                        disabled={isSubmitting}
+                        disabled={isSubmitting || isDistributorWizardBusy}
                       >
                         Derive Distributor + Vault
                       </Button>
@@ -5330,9 +7480,9 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                         onClick={() => {
                           void generateDistributorWizardRootAndClaimPackage();
                         }}
-                        disabled={isSubmitting}
+                        disabled={isSubmitting || isDistributorWizardBusy}
                       >
-                        Generate Root + Claim Package
+                        {isDistributorWizardBusy ? "Working..." : "Generate Root + Claim Package"}
                       </Button>
                     </Stack>
                     <Typography variant="caption" color="text.secondary">
@@ -5358,7 +7508,25 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                       value={distributorClaimPackageJson}
                       InputProps={{ readOnly: true }}
                       placeholder="Claim package JSON will appear here after generation."
+                      helperText={
+                        distributorClaimPackageFile && distributorClaimPackageFile.shardCount !== null
+                          ? `Sharded package: index.json + ${distributorClaimPackageFile.shardCount} shard file(s), ${(distributorClaimPackageFile.blob.size / 1_048_576).toFixed(1)} MB zipped. Host the unzipped folder and share the index.json URL.`
+                          : distributorClaimPackageFile && !distributorClaimPackageJson
+                            ? `Claim package is ${(distributorClaimPackageFile.blob.size / 1_048_576).toFixed(1)} MB; download or upload it instead of editing inline.`
+                            : undefined
+                      }
                     />
+                    <Button
+                      size="small"
+                      variant="outlined"
+                      onClick={downloadDistributorClaimPackage}
+                      disabled={!distributorClaimPackageFile && !distributorClaimPackageJson}
+                      sx={{ alignSelf: "flex-start" }}
+                    >
+                      {distributorClaimPackageFile && distributorClaimPackageFile.shardCount !== null
+                        ? "Download Sharded Package (.zip)"
+                        : "Download Claim Package"}
+                    </Button>
                     {distributorWizardDistributorPda ? (
                       <Typography
                         variant="caption"
@@ -5626,6 +7794,7 @@ export function TokenAuthorityManager({ holdingsState }: TokenAuthorityManagerPr
                       value={distributorClaimPackageJson}
                       onChange={(event) => {
                         setDistributorClaimPackageJson(event.target.value);
+                        setDistributorClaimPackageFile(null);
                       }}
                       placeholder={`{\n  "version": 1,\n  "campaigns": [\n    {\n      "mint": "...",\n      "vault": "...",\n      "root": "0x...",\n      "claims": [\n        { "wallet": "...", "index": "0", "amount": "1000000", "proof": ["0x..."] }\n      ]\n    }\n  ]\n}`}
                     />
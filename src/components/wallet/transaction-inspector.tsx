@@ -0,0 +1,289 @@
+"use client";
+
+import { useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardContent,
+  Chip,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import { DecodedInstructionList } from "@/components/wallet/decoded-instruction-list";
+import {
+  inspectLandedTransaction,
+  inspectSerializedTransaction,
+  parseInspectorInput,
+  type TransactionInspection
+} from "@/lib/transaction-inspector";
+
+type InspectorStatus = {
+  severity: "error";
+  message: string;
+} | null;
+
+function formatLamportsDelta(lamports: number) {
+  const sol = (lamports / LAMPORTS_PER_SOL).toLocaleString(undefined, {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 9
+  });
+  return lamports > 0 ? `+${sol}` : sol;
+}
+
+function formatTokenDelta(raw: bigint, decimals: number) {
+  const negative = raw < 0n;
+  const absolute = negative ? -raw : raw;
+  const divisor = 10n ** BigInt(decimals);
+  const whole = absolute / divisor;
+  const fraction = (absolute % divisor).toString().padStart(decimals, "0").replace(/0+$/, "");
+  const formatted = fraction ? `${whole.toString()}.${fraction}` : whole.toString();
+  return negative ? `-${formatted}` : `+${formatted}`;
+}
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`;
+}
+
+export function TransactionInspector() {
+  const { connection } = useConnection();
+  const { publicKey } = useWallet();
+
+  const [input, setInput] = useState("");
+  const [inspection, setInspection] = useState<TransactionInspection | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+  const [status, setStatus] = useState<InspectorStatus>(null);
+
+  const balanceChanges =
+    inspection?.balanceDeltas.filter((delta) => delta.postLamports !== delta.preLamports) ?? [];
+  const tokenChanges =
+    inspection?.tokenDeltas.filter((delta) => delta.postAmount !== delta.preAmount) ?? [];
+
+  async function inspectTransaction() {
+    setIsInspecting(true);
+    setStatus(null);
+    setInspection(null);
+    try {
+      const parsed = parseInspectorInput(input);
+      setInspection(
+        parsed.kind === "signature"
+          ? await inspectLandedTransaction(connection, parsed.signature, publicKey)
+          : await inspectSerializedTransaction(connection, parsed.transaction, publicKey)
+      );
+    } catch (unknownError) {
+      setStatus({
+        severity: "error",
+        message:
+          unknownError instanceof Error
+            ? unknownError.message
+            : "Failed to inspect transaction."
+      });
+    } finally {
+      setIsInspecting(false);
+    }
+  }
+
+  return (
+    <Card className="fx-card" variant="outlined" sx={{ borderRadius: 2 }}>
+      <CardContent sx={{ p: 1.75 }}>
+        <Stack spacing={1.2}>
+          <Typography variant="subtitle2">Transaction Inspector</Typography>
+          <Typography variant="caption" color="text.secondary">
+            Paste a base58 or base64 serialized transaction (legacy or v0) to simulate it
+            against current state, or a signature to review a landed transaction. Nothing
+            is signed or sent.
+          </Typography>
+          <TextField
+            size="small"
+            fullWidth
+            multiline
+            minRows={3}
+            maxRows={8}
+            label="Serialized transaction or signature"
+            value={input}
+            onChange={(event) => {
+              setInput(event.target.value);
+              setInspection(null);
+            }}
+            inputProps={{ style: { fontFamily: "var(--font-mono), monospace" } }}
+          />
+          <Button
+            variant="contained"
+            onClick={() => {
+              void inspectTransaction();
+            }}
+            disabled={isInspecting || !input.trim()}
+          >
+            {isInspecting ? "Inspecting..." : "Inspect"}
+          </Button>
+
+          {inspection ? (
+            <Stack spacing={1}>
+              <Stack direction="row" spacing={0.6} flexWrap="wrap" useFlexGap>
+                <Chip
+                  size="small"
+                  color={inspection.source === "simulation" ? "info" : "default"}
+                  label={inspection.source === "simulation" ? "Simulated" : "Landed"}
+                />
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={inspection.version === "legacy" ? "Legacy" : `v${inspection.version}`}
+                />
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={`Fee payer ${shortenAddress(inspection.feePayer)}`}
+                />
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={`${inspection.signers.length} signer${inspection.signers.length === 1 ? "" : "s"}`}
+                />
+                {inspection.feeLamports !== null ? (
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    label={`Fee ${inspection.feeLamports.toLocaleString()} lamports`}
+                  />
+                ) : null}
+                {inspection.computeUnits !== null ? (
+                  <Chip
+                    size="small"
+                    variant="outlined"
+                    label={`${inspection.computeUnits.toLocaleString()} CU`}
+                  />
+                ) : null}
+              </Stack>
+
+              {inspection.error ? (
+                <Alert severity="error" sx={{ wordBreak: "break-word" }}>
+                  {inspection.source === "simulation" ? "Simulation failed: " : "Transaction failed: "}
+                  {inspection.error}
+                </Alert>
+              ) : (
+                <Alert severity="success">
+                  {inspection.source === "simulation"
+                    ? "Simulation succeeded."
+                    : "Transaction landed successfully."}
+                </Alert>
+              )}
+
+              {inspection.riskFlags.length > 0 ? (
+                <Alert severity="warning" sx={{ wordBreak: "break-all" }}>
+                  {inspection.riskFlags.map((flag) => (
+                    <Typography key={flag} variant="caption" display="block">
+                      {flag}
+                    </Typography>
+                  ))}
+                </Alert>
+              ) : null}
+
+              <Typography variant="caption" color="text.secondary">
+                SOL Balance Changes
+              </Typography>
+              {balanceChanges.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No SOL balances change.
+                </Typography>
+              ) : (
+                <Box sx={{ maxHeight: 220, overflow: "auto", display: "grid", gap: 0.4 }}>
+                  {balanceChanges.map((delta) => (
+                    <Stack
+                      key={delta.address}
+                      direction="row"
+                      spacing={0.8}
+                      justifyContent="space-between"
+                    >
+                      <Typography
+                        variant="caption"
+                        sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                      >
+                        {delta.address}
+                        {publicKey?.toBase58() === delta.address ? " (you)" : ""}
+                      </Typography>
+                      <Typography
+                        variant="caption"
+                        color={delta.postLamports > delta.preLamports ? "success.main" : "error.main"}
+                        sx={{ whiteSpace: "nowrap" }}
+                      >
+                        {formatLamportsDelta(delta.postLamports - delta.preLamports)} SOL
+                      </Typography>
+                    </Stack>
+                  ))}
+                </Box>
+              )}
+
+              <Typography variant="caption" color="text.secondary">
+                Token Balance Changes
+              </Typography>
+              {tokenChanges.length === 0 ? (
+                <Typography variant="body2" color="text.secondary">
+                  No token balances change.
+                </Typography>
+              ) : (
+                <Box sx={{ maxHeight: 220, overflow: "auto", display: "grid", gap: 0.4 }}>
+                  {tokenChanges.map((delta) => (
+                    <Box key={delta.account}>
+                      <Stack direction="row" spacing={0.8} justifyContent="space-between">
+                        <Typography
+                          variant="caption"
+                          sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                        >
+                          {delta.mint}
+                        </Typography>
+                        <Typography
+                          variant="caption"
+                          color={delta.postAmount > delta.preAmount ? "success.main" : "error.main"}
+                          sx={{ whiteSpace: "nowrap" }}
+                        >
+                          {formatTokenDelta(delta.postAmount - delta.preAmount, delta.decimals)}
+                        </Typography>
+                      </Stack>
+                      <Typography variant="caption" display="block" color="text.secondary">
+                        Account {shortenAddress(delta.account)} · owner{" "}
+                        {shortenAddress(delta.owner)}
+                        {publicKey?.toBase58() === delta.owner ? " (you)" : ""}
+                      </Typography>
+                    </Box>
+                  ))}
+                </Box>
+              )}
+
+              <Typography variant="caption" color="text.secondary">
+                Instructions
+              </Typography>
+              <DecodedInstructionList instructions={inspection.instructions} maxHeight={280} />
+
+              {inspection.logs.length > 0 ? (
+                <>
+                  <Typography variant="caption" color="text.secondary">
+                    Runtime Logs
+                  </Typography>
+                  <Box sx={{ maxHeight: 160, overflow: "auto" }}>
+                    {inspection.logs.map((log, index) => (
+                      <Typography
+                        key={`${index}-${log}`}
+                        variant="caption"
+                        display="block"
+                        sx={{ fontFamily: "var(--font-mono), monospace", wordBreak: "break-all" }}
+                      >
+                        {log}
+                      </Typography>
+                    ))}
+                  </Box>
+                </>
+              ) : null}
+            </Stack>
+          ) : null}
+
+          {status ? <Alert severity={status.severity}>{status.message}</Alert> : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,230 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { useConnection } from "@solana/wallet-adapter-react";
+import { LAMPORTS_PER_SOL } from "@solana/web3.js";
+import {
+  Alert,
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardContent,
+  Checkbox,
+  Chip,
+  FormControlLabel,
+  MenuItem,
+  Stack,
+  TextField,
+  Typography
+} from "@mui/material";
+import {
+  fetchValidatorSnapshot,
+  filterValidators,
+  sortValidators,
+  type ValidatorSnapshot,
+  type ValidatorSortKey
+} from "@/lib/validators";
+
+type ValidatorBrowserProps = {
+  selectedVoteAccount: string;
+  onSelect: (votePubkey: string) => void;
+};
+
+const PAGE_SIZE = 25;
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`;
+}
+
+function formatStake(lamports: number) {
+  return (lamports / LAMPORTS_PER_SOL).toLocaleString(undefined, {
+    maximumFractionDigits: 0
+  });
+}
+
+function formatSkipRate(skipRate: number | null) {
+  return skipRate === null ? "--" : `${(skipRate * 100).toFixed(1)}%`;
+}
+
+export function ValidatorBrowser({ selectedVoteAccount, onSelect }: ValidatorBrowserProps) {
+  const { connection } = useConnection();
+
+  const [snapshot, setSnapshot] = useState<ValidatorSnapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState("");
+  const [sortKey, setSortKey] = useState<ValidatorSortKey>("stake");
+  const [hideDelinquent, setHideDelinquent] = useState(true);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+
+  const visibleValidators = useMemo(() => {
+    if (!snapshot) {
+      return [];
+    }
+    const active = hideDelinquent
+      ? snapshot.validators.filter((validator) => !validator.delinquent)
+      : snapshot.validators;
+    return sortValidators(filterValidators(active, query), sortKey);
+  }, [hideDelinquent, query, snapshot, sortKey]);
+
+  const totalStake = useMemo(
+    () =>
+      snapshot?.validators.reduce((sum, validator) => sum + validator.activatedStake, 0) ?? 0,
+    [snapshot]
+  );
+
+  const loadValidators = async () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setSnapshot(await fetchValidatorSnapshot(connection));
+      setVisibleCount(PAGE_SIZE);
+    } catch (unknownError) {
+      setError(
+        unknownError instanceof Error ? unknownError.message : "Failed to load validators."
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <Card variant="outlined" sx={{ borderRadius: 1.5 }}>
+      <CardContent sx={{ p: 1.2 }}>
+        <Stack spacing={1}>
+          <Stack direction="row" justifyContent="space-between" alignItems="center">
+            <Typography variant="subtitle2">Validators</Typography>
+            <Button
+              size="small"
+              variant="outlined"
+              onClick={() => {
+                void loadValidators();
+              }}
+              disabled={isLoading}
+            >
+              {isLoading ? "Loading..." : snapshot ? "Refresh" : "Load Validators"}
+            </Button>
+          </Stack>
+          <Typography variant="caption" color="text.secondary">
+            Vote accounts from the cluster with commission, activated stake, last vote and
+            skip rate. Select one to use it for new stake or delegation.
+          </Typography>
+
+          {error ? <Alert severity="error">{error}</Alert> : null}
+
+          {snapshot ? (
+            <>
+              <Stack direction={{ xs: "column", sm: "row" }} spacing={1}>
+                <TextField
+                  size="small"
+                  label="Search vote or identity address"
+                  value={query}
+                  onChange={(event) => {
+                    setQuery(event.target.value);
+                    setVisibleCount(PAGE_SIZE);
+                  }}
+                  fullWidth
+                />
+                <TextField
+                  select
+                  size="small"
+                  label="Sort"
+                  value={sortKey}
+                  onChange={(event) => setSortKey(event.target.value as ValidatorSortKey)}
+                  sx={{ minWidth: 170 }}
+                >
+                  <MenuItem value="stake">Activated stake</MenuItem>
+                  <MenuItem value="commission">Commission</MenuItem>
+                  <MenuItem value="skip-rate">Skip rate</MenuItem>
+                  <MenuItem value="last-vote">Last vote</MenuItem>
+                </TextField>
+              </Stack>
+              <Stack direction="row" justifyContent="space-between" alignItems="center">
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      size="small"
+                      checked={hideDelinquent}
+                      onChange={(event) => setHideDelinquent(event.target.checked)}
+                    />
+                  }
+                  label={<Typography variant="caption">Hide delinquent</Typography>}
+                />
+                <Typography variant="caption" color="text.secondary">
+                  {visibleValidators.length} of {snapshot.validators.length} | skip rate over{" "}
+                  {snapshot.skipRateEpochs} epoch{snapshot.skipRateEpochs === 1 ? "" : "s"}
+                </Typography>
+              </Stack>
+
+              <Box sx={{ display: "grid", gap: 0.7, maxHeight: 420, overflowY: "auto" }}>
+                {visibleValidators.slice(0, visibleCount).map((validator) => {
+                  const isSelected = validator.votePubkey === selectedVoteAccount;
+                  return (
+                    <Card
+                      key={validator.votePubkey}
+                      variant="outlined"
+                      sx={{
+                        borderRadius: 1.4,
+                        borderColor: isSelected ? "primary.main" : undefined
+                      }}
+                    >
+                      <CardActionArea onClick={() => onSelect(validator.votePubkey)}>
+                        <CardContent sx={{ p: "10px !important" }}>
+                          <Stack spacing={0.45}>
+                            <Stack
+                              direction="row"
+                              justifyContent="space-between"
+                              alignItems="center"
+                            >
+                              <Typography
+                                variant="caption"
+                                sx={{ fontFamily: "var(--font-mono), monospace" }}
+                              >
+                                Vote {shortenAddress(validator.votePubkey)}
+                              </Typography>
+                              <Stack direction="row" spacing={0.5}>
+                                {isSelected ? (
+                                  <Chip size="small" color="primary" label="Selected" />
+                                ) : null}
+                                {validator.delinquent ? (
+                                  <Chip size="small" color="error" label="Delinquent" />
+                                ) : null}
+                              </Stack>
+                            </Stack>
+                            <Typography variant="body2">
+                              {formatStake(validator.activatedStake)} SOL
+                              {totalStake > 0
+                                ? ` (${((validator.activatedStake / totalStake) * 100).toFixed(2)}%)`
+                                : ""}{" "}
+                              | Commission {validator.commission}% | Skip{" "}
+                              {formatSkipRate(validator.skipRate)}
+                            </Typography>
+                            <Typography variant="caption" color="text.secondary">
+                              Identity {shortenAddress(validator.nodePubkey)} | Last vote{" "}
+                              {validator.lastVote.toLocaleString()} (
+                              {validator.slotsBehind.toLocaleString()} slots behind) | Blocks{" "}
+                              {validator.blocksProduced}/{validator.leaderSlots}
+                            </Typography>
+                          </Stack>
+                        </CardContent>
+                      </CardActionArea>
+                    </Card>
+                  );
+                })}
+              </Box>
+              {visibleValidators.length > visibleCount ? (
+                <Button
+                  size="small"
+                  onClick={() => setVisibleCount((current) => current + PAGE_SIZE)}
+                >
+                  Show More
+                </Button>
+              ) : null}
+            </>
+          ) : null}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+}
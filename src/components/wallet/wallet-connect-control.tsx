@@ -3,10 +3,23 @@
 import { useWallet } from "@solana/wallet-adapter-react";
 import { useWalletModal } from "@solana/wallet-adapter-react-ui";
 import SettingsRoundedIcon from "@mui/icons-material/SettingsRounded";
-import { Button, Chip, Dialog, DialogContent, DialogTitle, IconButton, Stack, Tooltip } from "@mui/material";
+import {
+  Button,
+  Chip,
+  Dialog,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  IconButton,
+  Stack,
+  Tooltip
+} from "@mui/material";
 import { useState } from "react";
+import { usePriorityFee } from "@/components/providers/priority-fee-provider";
 import { useRpcEndpoint } from "@/components/providers/solana-wallet-provider";
+import { PriorityFeeSelector } from "@/components/wallet/priority-fee-selector";
 import { RpcEndpointSelector } from "@/components/wallet/rpc-endpoint-selector";
+import { PRIORITY_FEE_PRESET_OPTIONS } from "@/lib/transaction-pipeline";
 
 type WalletConnectControlProps = {
   connectText?: string;
@@ -15,6 +28,7 @@ type WalletConnectControlProps = {
   showAdapterChip?: boolean;
   showNetworkChip?: boolean;
   showRpcSettings?: boolean;
+  showPriorityFeeChip?: boolean;
   rpcSettingsTitle?: string;
   buttonMinWidth?: number;
 };
@@ -44,12 +58,14 @@ export function WalletConnectControl({
   showAdapterChip = true,
   showNetworkChip = true,
   showRpcSettings = true,
+  showPriorityFeeChip = true,
   rpcSettingsTitle = "RPC Provider",
   buttonMinWidth = 170
 }: WalletConnectControlProps) {
   const { connected, publicKey, disconnect, wallet } = useWallet();
   const { setVisible } = useWalletModal();
   const { endpoint } = useRpcEndpoint();
+  const { settings: priorityFeeSettings } = usePriorityFee();
   const [isRpcModalOpen, setIsRpcModalOpen] = useState(false);
 
   const label = connected
@@ -60,6 +76,10 @@ export function WalletConnectControl({
         : "Wallet Connected"
     : connectText;
 
+  const priorityFeeLabel =
+    PRIORITY_FEE_PRESET_OPTIONS.find((option) => option.value === priorityFeeSettings.preset)
+      ?.label ?? "Off";
+
   return (
     <>
       <Stack
@@ -98,8 +118,11 @@ export function WalletConnectControl({
         {showNetworkChip ? (
           <Chip variant="outlined" color="secondary" label={inferNetworkLabel(endpoint)} />
         ) : null}
+        {showPriorityFeeChip ? (
+          <Chip variant="outlined" label={`Priority: ${priorityFeeLabel}`} />
+        ) : null}
         {showRpcSettings ? (
-          <Tooltip title="RPC Settings">
+          <Tooltip title="RPC + Priority Fee Settings">
             <IconButton
               aria-label="Open RPC settings"
               onClick={() => setIsRpcModalOpen(true)}
@@ -124,7 +147,11 @@ export function WalletConnectControl({
         >
           <DialogTitle>{rpcSettingsTitle}</DialogTitle>
           <DialogContent dividers>
-            <RpcEndpointSelector compact showTitle={false} />
+            <Stack spacing={1.5}>
+              <RpcEndpointSelector compact showTitle={false} />
+              <Divider />
+              <PriorityFeeSelector />
+            </Stack>
           </DialogContent>
         </Dialog>
       ) : null}
@@ -14,11 +14,16 @@ import {
 } from "@mui/material";
 import { useState } from "react";
 import { DelegateManager } from "@/components/wallet/delegate-manager";
+import { GovernancePowerPanel } from "@/components/wallet/governance-power-panel";
 import { IdentityActions } from "@/components/wallet/identity-actions";
 import { HoldingsPanel } from "@/components/wallet/holdings-panel";
+import { NonceAccountManager } from "@/components/wallet/nonce-account-manager";
+import { OfflineTransactionImport } from "@/components/wallet/offline-transaction-import";
 import { ProgramBuffersManager } from "@/components/wallet/program-buffers-manager";
+import { ReceivePanel } from "@/components/wallet/receive-panel";
 import { RentRecoverySweeper } from "@/components/wallet/rent-recovery-sweeper";
 import { StakingConsole } from "@/components/wallet/staking-console";
+import { TransactionInspector } from "@/components/wallet/transaction-inspector";
 import { WalletConnectControl } from "@/components/wallet/wallet-connect-control";
 import { useWalletHoldings } from "@/hooks/use-wallet-holdings";
 
@@ -84,6 +89,24 @@ export function WalletSection() {
                 </AccordionDetails>
               </Accordion>
 
+              <Accordion
+                expanded={expandedTool === "receive"}
+                onChange={(_event, isExpanded) => {
+                  setExpandedTool(isExpanded ? "receive" : false);
+                }}
+                disableGutters
+                sx={{ bgcolor: "transparent", border: "1px solid", borderColor: "divider", borderRadius: "8px !important" }}
+              >
+                <AccordionSummary
+                  expandIcon={<Typography color="text.secondary">{expandedTool === "receive" ? "−" : "+"}</Typography>}
+                >
+                  <Typography variant="subtitle2">Receive</Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ pt: 0.5 }}>
+                  <ReceivePanel holdingsState={holdingsState} />
+                </AccordionDetails>
+              </Accordion>
+
               <Accordion
                 expanded={expandedTool === "staking"}
                 onChange={(_event, isExpanded) => {
@@ -102,6 +125,24 @@ export function WalletSection() {
                 </AccordionDetails>
               </Accordion>
 
+              <Accordion
+                expanded={expandedTool === "governance-power"}
+                onChange={(_event, isExpanded) => {
+                  setExpandedTool(isExpanded ? "governance-power" : false);
+                }}
+                disableGutters
+                sx={{ bgcolor: "transparent", border: "1px solid", borderColor: "divider", borderRadius: "8px !important" }}
+              >
+                <AccordionSummary
+                  expandIcon={<Typography color="text.secondary">{expandedTool === "governance-power" ? "−" : "+"}</Typography>}
+                >
+                  <Typography variant="subtitle2">Governance Power</Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ pt: 0.5 }}>
+                  <GovernancePowerPanel />
+                </AccordionDetails>
+              </Accordion>
+
               <Accordion
                 expanded={expandedTool === "approvals"}
                 onChange={(_event, isExpanded) => {
@@ -155,6 +196,60 @@ export function WalletSection() {
                   <ProgramBuffersManager />
                 </AccordionDetails>
               </Accordion>
+
+              <Accordion
+                expanded={expandedTool === "durable-nonce"}
+                onChange={(_event, isExpanded) => {
+                  setExpandedTool(isExpanded ? "durable-nonce" : false);
+                }}
+                disableGutters
+                sx={{ bgcolor: "transparent", border: "1px solid", borderColor: "divider", borderRadius: "8px !important" }}
+              >
+                <AccordionSummary
+                  expandIcon={<Typography color="text.secondary">{expandedTool === "durable-nonce" ? "−" : "+"}</Typography>}
+                >
+                  <Typography variant="subtitle2">Durable Nonce Accounts</Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ pt: 0.5 }}>
+                  <NonceAccountManager />
+                </AccordionDetails>
+              </Accordion>
+
+              <Accordion
+                expanded={expandedTool === "offline-import"}
+                onChange={(_event, isExpanded) => {
+                  setExpandedTool(isExpanded ? "offline-import" : false);
+                }}
+                disableGutters
+                sx={{ bgcolor: "transparent", border: "1px solid", borderColor: "divider", borderRadius: "8px !important" }}
+              >
+                <AccordionSummary
+                  expandIcon={<Typography color="text.secondary">{expandedTool === "offline-import" ? "−" : "+"}</Typography>}
+                >
+                  <Typography variant="subtitle2">Offline Signing Import</Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ pt: 0.5 }}>
+                  <OfflineTransactionImport />
+                </AccordionDetails>
+              </Accordion>
+
+              <Accordion
+                expanded={expandedTool === "inspector"}
+                onChange={(_event, isExpanded) => {
+                  setExpandedTool(isExpanded ? "inspector" : false);
+                }}
+                disableGutters
+                sx={{ bgcolor: "transparent", border: "1px solid", borderColor: "divider", borderRadius: "8px !important" }}
+              >
+                <AccordionSummary
+                  expandIcon={<Typography color="text.secondary">{expandedTool === "inspector" ? "−" : "+"}</Typography>}
+                >
+                  <Typography variant="subtitle2">Transaction Inspector</Typography>
+                </AccordionSummary>
+                <AccordionDetails sx={{ pt: 0.5 }}>
+                  <TransactionInspector />
+                </AccordionDetails>
+              </Accordion>
             </Stack>
           </Grid>
 
@@ -0,0 +1,162 @@
+"use client";
+
+import { useCallback, useMemo, useState } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import { PublicKey, type TransactionInstruction } from "@solana/web3.js";
+import { useDurableNonce } from "@/components/providers/durable-nonce-provider";
+import { useTransactionPipeline } from "@/hooks/use-transaction-pipeline";
+import {
+  buildSquadsProposalInstructions,
+  buildUnsignedTransactionExport,
+  fetchSquadsMultisig,
+  getSquadsVaultAddress,
+  type InstructionExport,
+  type InstructionExportMode
+} from "@/lib/multisig-export";
+import { fetchDurableNonce } from "@/lib/durable-nonce";
+
+export type InstructionExportOutcome = {
+  message: string;
+  signature?: string;
+};
+
+export type InstructionExportState = ReturnType<typeof useInstructionExport>;
+
+function parseVaultIndex(value: string) {
+  const parsed = Number(value.trim() || "0");
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 255) {
+    throw new Error("Vault index must be an integer between 0 and 255.");
+  }
+  return parsed;
+}
+
+/**
+ * Routes prepared instructions to the connected wallet, a Squads v4 vault
+ * proposal, or an unsigned transaction export. Callers build instructions
+ * with `resolveAuthority()` as the signing authority.
+ */
+export function useInstructionExport() {
+  const { connection } = useConnection();
+  const { publicKey } = useWallet();
+  const { sendInstructionBatches } = useTransactionPipeline();
+  const { selectedNonceAccount } = useDurableNonce();
+  const [mode, setMode] = useState<InstructionExportMode>("wallet");
+  const [multisigAddress, setMultisigAddress] = useState("");
+  const [vaultIndex, setVaultIndex] = useState("0");
+  const [unsignedAuthority, setUnsignedAuthority] = useState("");
+  const [nonceAccount, setNonceAccount] = useState("");
+  const [result, setResult] = useState<InstructionExport | null>(null);
+
+  const vaultAddress = useMemo(() => {
+    try {
+      return getSquadsVaultAddress(
+        new PublicKey(multisigAddress.trim()),
+        parseVaultIndex(vaultIndex)
+      ).toBase58();
+    } catch {
+      return "";
+    }
+  }, [multisigAddress, vaultIndex]);
+
+  const resolveAuthority = useCallback(() => {
+    if (!publicKey) {
+      throw new Error("Connect your wallet first.");
+    }
+    if (mode === "squads") {
+      if (!vaultAddress) {
+        throw new Error("Enter a valid Squads multisig address and vault index.");
+      }
+      return new PublicKey(vaultAddress);
+    }
+    if (mode === "unsigned" && unsignedAuthority.trim()) {
+      return new PublicKey(unsignedAuthority.trim());
+    }
+    return publicKey;
+  }, [mode, publicKey, unsignedAuthority, vaultAddress]);
+
+  const submit = useCallback(
+    async (instructions: TransactionInstruction[]): Promise<InstructionExportOutcome> => {
+      if (!publicKey) {
+        throw new Error("Connect your wallet first.");
+      }
+      if (instructions.length === 0) {
+        throw new Error("No instructions to export.");
+      }
+      const { blockhash } = await connection.getLatestBlockhash("confirmed");
+
+      if (mode === "squads") {
+        const multisig = await fetchSquadsMultisig(
+          connection,
+          new PublicKey(multisigAddress.trim())
+        );
+        const proposal = buildSquadsProposalInstructions({
+          multisig,
+          vaultIndex: parseVaultIndex(vaultIndex),
+          creator: publicKey,
+          instructions,
+          recentBlockhash: blockhash
+        });
+        const { signatures } = await sendInstructionBatches([proposal.instructions], {
+          lookupTable: "never"
+        });
+        setResult(proposal.export);
+        return {
+          message:
+            `Created Squads proposal #${proposal.export.transactionIndex} ` +
+            `(${multisig.threshold} approval(s) required).`,
+          signature: signatures[0]
+        };
+      }
+
+      const nonceAddress = nonceAccount.trim() || selectedNonceAccount;
+      const durableNonce = nonceAddress
+        ? await fetchDurableNonce(connection, new PublicKey(nonceAddress))
+        : undefined;
+      const exported = buildUnsignedTransactionExport(
+        resolveAuthority(),
+        instructions,
+        blockhash,
+        durableNonce
+      );
+      setResult(exported);
+      return {
+        message:
+          `Prepared unsigned transaction with ${exported.requiredSigners.length} required ` +
+          (durableNonce
+            ? `signer(s) using durable nonce ${durableNonce.address.toBase58()}.`
+            : "signer(s). The blockhash expires in about a minute.")
+      };
+    },
+    [
+      connection,
+      mode,
+      multisigAddress,
+      nonceAccount,
+      publicKey,
+      resolveAuthority,
+      selectedNonceAccount,
+      sendInstructionBatches,
+      vaultIndex
+    ]
+  );
+
+  return {
+    mode,
+    setMode,
+    multisigAddress,
+    setMultisigAddress,
+    vaultIndex,
+    setVaultIndex,
+    vaultAddress,
+    unsignedAuthority,
+    setUnsignedAuthority,
+    nonceAccount,
+    setNonceAccount,
+    selectedNonceAccount,
+    result,
+    clearResult: () => setResult(null),
+    isExternal: mode !== "wallet",
+    resolveAuthority,
+    submit
+  };
+}
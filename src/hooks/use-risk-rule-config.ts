@@ -0,0 +1,46 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import {
+  DEFAULT_RISK_RULE_CONFIG,
+  normalizeRiskRuleConfig,
+  type RiskRuleConfig
+} from "@/lib/authority-risk-rules";
+
+const RISK_RULE_STORAGE_KEY = "grapehub.risk-rules";
+
+export function useRiskRuleConfig() {
+  const [config, setConfigState] = useState<RiskRuleConfig>(DEFAULT_RISK_RULE_CONFIG);
+
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const raw = window.localStorage.getItem(RISK_RULE_STORAGE_KEY);
+    if (!raw) {
+      return;
+    }
+    try {
+      setConfigState(normalizeRiskRuleConfig(JSON.parse(raw)));
+    } catch {
+      window.localStorage.removeItem(RISK_RULE_STORAGE_KEY);
+    }
+  }, []);
+
+  const setConfig = useCallback((nextConfig: RiskRuleConfig) => {
+    setConfigState(nextConfig);
+    if (typeof window !== "undefined") {
+      window.localStorage.setItem(RISK_RULE_STORAGE_KEY, JSON.stringify(nextConfig));
+    }
+  }, []);
+
+  const resetConfig = useCallback(() => {
+    setConfigState(DEFAULT_RISK_RULE_CONFIG);
+    if (typeof window !== "undefined") {
+      window.localStorage.removeItem(RISK_RULE_STORAGE_KEY);
+    }
+  }, []);
+
+  return { config, setConfig, resetConfig };
+}
@@ -0,0 +1,68 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { PublicKey } from "@solana/web3.js";
+
+const STAKE_POOLS_STORAGE_KEY = "grapehub.stake-pools";
+
+function normalizeStoredPools(value: unknown) {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter((entry): entry is string => {
+    if (typeof entry !== "string") {
+      return false;
+    }
+    try {
+      new PublicKey(entry);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+export function useSavedStakePools() {
+  const [pools, setPools] = useState<string[]>([]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") {
+      return;
+    }
+
+    const raw = window.localStorage.getItem(STAKE_POOLS_STORAGE_KEY);
+    if (!raw) {
+      return;
+    }
+    try {
+      setPools(normalizeStoredPools(JSON.parse(raw)));
+    } catch {
+      window.localStorage.removeItem(STAKE_POOLS_STORAGE_KEY);
+    }
+  }, []);
+
+  const persist = useCallback((nextPools: string[]) => {
+    setPools(nextPools);
+    if (typeof window !== "undefined") {
+      window.localStorage.setItem(STAKE_POOLS_STORAGE_KEY, JSON.stringify(nextPools));
+    }
+  }, []);
+
+  const addPool = useCallback(
+    (address: string) => {
+      if (!pools.includes(address)) {
+        persist([...pools, address]);
+      }
+    },
+    [persist, pools]
+  );
+
+  const removePool = useCallback(
+    (address: string) => {
+      persist(pools.filter((pool) => pool !== address));
+    },
+    [persist, pools]
+  );
+
+  return { pools, addPool, removePool };
+}
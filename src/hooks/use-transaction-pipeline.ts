@@ -0,0 +1,386 @@
+"use client";
+
+import { useCallback } from "react";
+import { useConnection, useWallet } from "@solana/wallet-adapter-react";
+import {
+  PublicKey,
+  type AddressLookupTableAccount,
+  type Keypair,
+  type Transaction,
+  type TransactionInstruction,
+  type VersionedTransaction
+} from "@solana/web3.js";
+import { useDurableNonce } from "@/components/providers/durable-nonce-provider";
+import { usePriorityFee } from "@/components/providers/priority-fee-provider";
+import {
+  applyDurableNonce,
+  buildNonceAdvanceInstruction,
+  fetchDurableNonce,
+  withDurableNonce,
+  type DurableNonceState
+} from "@/lib/durable-nonce";
+import {
+  applyComputeBudget,
+  buildComputeBudgetInstructions,
+  estimateComputeUnits,
+  resolveComputeUnitLimit,
+  resolvePriorityFeeMicroLamports,
+  type ComputeBudgetSummary,
+  type SentTransaction
+} from "@/lib/transaction-pipeline";
+import {
+  buildDeactivateLookupTableInstruction,
+  buildLookupTableSetup,
+  collectLookupTableCandidates,
+  compileV0Transaction,
+  packInstructionGroups,
+  planInstructionBatches,
+  type InstructionGroup,
+  type LookupTableMode
+} from "@/lib/versioned-transactions";
+
+type SendPipelineOptions = {
+  signers?: Keypair[];
+  // Use a recent blockhash even when a durable nonce is selected.
+  skipDurableNonce?: boolean;
+};
+
+type SendBatchOptions = {
+  lookupTable?: LookupTableMode;
+  onProgress?: (sentTransactions: number, totalTransactions: number) => void;
+  // Called before confirmation, so a timed-out send can still be looked up.
+  onTransactionSent?: (sent: SentTransaction) => void;
+};
+
+export type BatchSendResult = {
+  signatures: string[];
+  lookupTableAddress: string | null;
+};
+
+export type TransactionPipeline = {
+  prepareTransaction: (transaction: Transaction) => Promise<ComputeBudgetSummary>;
+  sendAndConfirm: (
+    transaction: Transaction,
+    options?: SendPipelineOptions
+  ) => Promise<string>;
+  sendInstructionBatches: (
+    groups: InstructionGroup[],
+    options?: SendBatchOptions
+  ) => Promise<BatchSendResult>;
+};
+
+// Number of batch transactions signed per wallet approval when signAllTransactions is available.
+const SIGN_ALL_WINDOW = 10;
+const LOOKUP_TABLE_POLL_MS = 500;
+const LOOKUP_TABLE_MAX_POLLS = 40;
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export function useTransactionPipeline(): TransactionPipeline {
+  const { connection } = useConnection();
+  const { publicKey, sendTransaction, signAllTransactions } = useWallet();
+  const { settings } = usePriorityFee();
+  const { selectedNonceAccount, setSelectedNonceAccount } = useDurableNonce();
+
+  // A selected nonce replaces the recent blockhash; the wallet must be its authority.
+  const resolveDurableNonce = useCallback(async () => {
+    if (!selectedNonceAccount || !publicKey) {
+      return null;
+    }
+    const durableNonce = await fetchDurableNonce(
+      connection,
+      new PublicKey(selectedNonceAccount)
+    );
+    if (!durableNonce.authority.equals(publicKey)) {
+      // The nonce authority moved since it was selected; clear it so retries fall back.
+      setSelectedNonceAccount(null);
+      throw new Error(
+        `Selected nonce account ${selectedNonceAccount} is no longer controlled by the connected wallet. ` +
+          "The selection was cleared; retry to send with a recent blockhash."
+      );
+    }
+    return durableNonce;
+  }, [connection, publicKey, selectedNonceAccount, setSelectedNonceAccount]);
+
+  const confirmWithNonce = useCallback(
+    async (signature: string, durableNonce: DurableNonceState) => {
+      await connection.confirmTransaction(
+        {
+          signature,
+          nonceAccountPubkey: durableNonce.address,
+          nonceValue: durableNonce.nonce,
+          minContextSlot: durableNonce.minContextSlot
+        },
+        "confirmed"
+      );
+    },
+    [connection]
+  );
+
+  const prepareTransaction = useCallback(
+    async (transaction: Transaction) => {
+      const payer = transaction.feePayer ?? publicKey;
+      if (!payer) {
+        throw new Error("Connect your wallet first.");
+      }
+      return applyComputeBudget(connection, transaction, settings, payer);
+    },
+    [connection, publicKey, settings]
+  );
+
+  const sendAndConfirm = useCallback(
+    async (transaction: Transaction, options: SendPipelineOptions = {}) => {
+      if (!publicKey) {
+        throw new Error("Connect your wallet first.");
+      }
+
+      await prepareTransaction(transaction);
+      transaction.feePayer = transaction.feePayer ?? publicKey;
+
+      const durableNonce = options.skipDurableNonce ? null : await resolveDurableNonce();
+      if (durableNonce) {
+        applyDurableNonce(transaction, durableNonce);
+        const signature = await sendTransaction(transaction, connection, {
+          signers: options.signers,
+          preflightCommitment: "confirmed"
+        });
+        await confirmWithNonce(signature, durableNonce);
+        return signature;
+      }
+
+      const latestBlockhash = await connection.getLatestBlockhash("confirmed");
+      transaction.recentBlockhash = latestBlockhash.blockhash;
+      transaction.lastValidBlockHeight = latestBlockhash.lastValidBlockHeight;
+
+      const signature = await sendTransaction(transaction, connection, {
+        signers: options.signers,
+        preflightCommitment: "confirmed"
+      });
+      await connection.confirmTransaction(
+        {
+          signature,
+          blockhash: latestBlockhash.blockhash,
+          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
+        },
+        "confirmed"
+      );
+      return signature;
+    },
+    [
+      confirmWithNonce,
+      connection,
+      prepareTransaction,
+      publicKey,
+      resolveDurableNonce,
+      sendTransaction
+    ]
+  );
+
+  const sendV0Batches = useCallback(
+    async (
+      payer: PublicKey,
+      batches: TransactionInstruction[][],
+      lookupTables: AddressLookupTableAccount[],
+      onBatchConfirmed?: () => void,
+      onTransactionSent?: (sent: SentTransaction) => void
+    ) => {
+      const microLamports = await resolvePriorityFeeMicroLamports(
+        connection,
+        settings,
+        batches.flat()
+      ).catch(() => 0);
+      const signatures: string[] = [];
+
+      // Each advance changes the nonce value, so nonce batches are sent one at a time.
+      const windowSize = selectedNonceAccount ? 1 : SIGN_ALL_WINDOW;
+      for (let start = 0; start < batches.length; start += windowSize) {
+        const windowBatches = batches.slice(start, start + windowSize);
+        const durableNonce = await resolveDurableNonce();
+        const latestBlockhash = await connection.getLatestBlockhash("confirmed");
+        const transactions: VersionedTransaction[] = [];
+        for (const batch of windowBatches) {
+          const estimate = await estimateComputeUnits(
+            connection,
+            batch,
+            payer,
+            lookupTables
+          ).catch(() => ({ unitsConsumed: null, error: null }));
+          const instructions = [
+            ...buildComputeBudgetInstructions(
+              resolveComputeUnitLimit(estimate),
+              microLamports
+            ),
+            ...batch
+          ];
+          transactions.push(
+            compileV0Transaction(
+              payer,
+              durableNonce ? withDurableNonce(instructions, durableNonce) : instructions,
+              durableNonce?.nonce ?? latestBlockhash.blockhash,
+              lookupTables
+            )
+          );
+        }
+
+        const confirm = async (signature: string) => {
+          onTransactionSent?.({
+            signature,
+            recentBlockhash: durableNonce?.nonce ?? latestBlockhash.blockhash,
+            nonceAccount: durableNonce?.address.toBase58() ?? null
+          });
+          if (durableNonce) {
+            await confirmWithNonce(signature, durableNonce);
+          } else {
+            await connection.confirmTransaction(
+              {
+                signature,
+                blockhash: latestBlockhash.blockhash,
+                lastValidBlockHeight: latestBlockhash.lastValidBlockHeight
+              },
+              "confirmed"
+            );
+          }
+          signatures.push(signature);
+          onBatchConfirmed?.();
+        };
+
+        if (signAllTransactions && transactions.length > 1) {
+          const signedTransactions = await signAllTransactions(transactions);
+          for (const signedTransaction of signedTransactions) {
+            const signature = await connection.sendRawTransaction(
+              signedTransaction.serialize(),
+              { preflightCommitment: "confirmed" }
+            );
+            await confirm(signature);
+          }
+        } else {
+          for (const transaction of transactions) {
+            const signature = await sendTransaction(transaction, connection, {
+              preflightCommitment: "confirmed"
+            });
+            await confirm(signature);
+          }
+        }
+      }
+
+      return signatures;
+    },
+    [
+      confirmWithNonce,
+      connection,
+      resolveDurableNonce,
+      selectedNonceAccount,
+      sendTransaction,
+      settings,
+      signAllTransactions
+    ]
+  );
+
+  const waitForLookupTable = useCallback(
+    async (lookupTableAddress: PublicKey, expectedAddresses: number) => {
+      for (let attempt = 0; attempt < LOOKUP_TABLE_MAX_POLLS; attempt += 1) {
+        const [{ value }, slot] = await Promise.all([
+          connection.getAddressLookupTable(lookupTableAddress, {
+            commitment: "confirmed"
+          }),
+          connection.getSlot("confirmed")
+        ]);
+        // Extended addresses only become usable in a slot after the extension.
+        if (
+          value &&
+          value.state.addresses.length >= expectedAddresses &&
+          slot > value.state.lastExtendedSlot
+        ) {
+          return value;
+        }
+        await sleep(LOOKUP_TABLE_POLL_MS);
+      }
+      throw new Error(
+        `Lookup table ${lookupTableAddress.toBase58()} did not activate in time.`
+      );
+    },
+    [connection]
+  );
+
+  const sendInstructionBatches = useCallback(
+    async (groups: InstructionGroup[], options: SendBatchOptions = {}) => {
+      if (!publicKey) {
+        throw new Error("Connect your wallet first.");
+      }
+
+      const durableNonce = await resolveDurableNonce();
+      const reservedInstructions = durableNonce
+        ? [buildNonceAdvanceInstruction(durableNonce)]
+        : [];
+      const plan = planInstructionBatches(
+        publicKey,
+        groups,
+        options.lookupTable ?? "auto",
+        reservedInstructions
+      );
+      const lookupTables: AddressLookupTableAccount[] = [];
+      const trailingGroups: InstructionGroup[] = [];
+      const signatures: string[] = [];
+      let lookupTableAddress: PublicKey | null = null;
+      let sentTransactions = 0;
+      const totalTransactions = plan.useLookupTable
+        ? plan.lookupTableTransactions ?? plan.directTransactions
+        : plan.directTransactions;
+      const onBatchConfirmed = () => {
+        sentTransactions += 1;
+        options.onProgress?.(sentTransactions, totalTransactions);
+      };
+
+      if (plan.useLookupTable) {
+        const recentSlot = await connection.getSlot("finalized");
+        const setup = buildLookupTableSetup(
+          publicKey,
+          recentSlot,
+          collectLookupTableCandidates(groups, publicKey)
+        );
+        signatures.push(
+          ...(await sendV0Batches(
+            publicKey,
+            packInstructionGroups(publicKey, setup.instructionGroups, [], reservedInstructions),
+            [],
+            onBatchConfirmed,
+            options.onTransactionSent
+          ))
+        );
+        lookupTables.push(
+          await waitForLookupTable(setup.lookupTableAddress, setup.addresses.length)
+        );
+        lookupTableAddress = setup.lookupTableAddress;
+        // Start the cooldown so the table rent can be reclaimed once the batch lands.
+        trailingGroups.push([
+          buildDeactivateLookupTableInstruction(setup.lookupTableAddress, publicKey)
+        ]);
+      }
+
+      signatures.push(
+        ...(await sendV0Batches(
+          publicKey,
+          packInstructionGroups(
+            publicKey,
+            [...groups, ...trailingGroups],
+            lookupTables,
+            reservedInstructions
+          ),
+          lookupTables,
+          onBatchConfirmed,
+          options.onTransactionSent
+        ))
+      );
+
+      return {
+        signatures,
+        lookupTableAddress: lookupTableAddress?.toBase58() ?? null
+      };
+    },
+    [connection, publicKey, resolveDurableNonce, sendV0Batches, waitForLookupTable]
+  );
+
+  return { prepareTransaction, sendAndConfirm, sendInstructionBatches };
+}
@@ -0,0 +1,175 @@
+import {
+  type AccountInfo,
+  type Connection,
+  PublicKey,
+  type SimulatedTransactionResponse,
+  type VersionedTransaction
+} from "@solana/web3.js";
+import { TOKEN_2022_PROGRAM_ID, TOKEN_PROGRAM_ID } from "@solana/spl-token";
+import { Buffer } from "buffer";
+
+export type BalanceDelta = {
+  address: string;
+  preLamports: number;
+  postLamports: number;
+  isSigner: boolean;
+  isWritable: boolean;
+};
+
+export type TokenBalanceDelta = {
+  account: string;
+  mint: string;
+  owner: string;
+  decimals: number;
+  preAmount: bigint;
+  postAmount: bigint;
+};
+
+export type AccountDiffSimulation = {
+  simulation: SimulatedTransactionResponse;
+  balanceDeltas: BalanceDelta[];
+  tokenDeltas: TokenBalanceDelta[];
+};
+
+type TokenAccountState = {
+  mint: string;
+  owner: string;
+  amount: bigint;
+};
+
+const TOKEN_ACCOUNT_SIZE = 165;
+// Token-2022 `AccountType` byte that follows the base layout on extended accounts.
+const TOKEN_2022_ACCOUNT_TYPE_OFFSET = 165;
+const TOKEN_2022_ACCOUNT_TYPE_ACCOUNT = 2;
+// Token-2022 never sizes an account to this length, so a stray byte inside the
+// signer list can't make a multisig look like an extended account.
+const TOKEN_MULTISIG_SIZE = 355;
+const MINT_DECIMALS_OFFSET = 44;
+const MULTIPLE_ACCOUNTS_CHUNK = 100;
+
+/**
+ * Only exact 165-byte accounts, or extended Token-2022 accounts tagged as
+ * `AccountType::Account`. Extended mints (tagged Mint) and 355-byte multisig
+ * accounts are also owned by the token programs and must not be read as
+ * balances.
+ */
+function isTokenAccountData(data: Buffer) {
+  if (data.length === TOKEN_ACCOUNT_SIZE) {
+    return true;
+  }
+  return (
+    data.length > TOKEN_ACCOUNT_SIZE &&
+    data.length !== TOKEN_MULTISIG_SIZE &&
+    data[TOKEN_2022_ACCOUNT_TYPE_OFFSET] === TOKEN_2022_ACCOUNT_TYPE_ACCOUNT
+  );
+}
+
+function readTokenAccount(owner: PublicKey | string, data: Buffer): TokenAccountState | null {
+  const ownerAddress = typeof owner === "string" ? owner : owner.toBase58();
+  if (
+    (ownerAddress !== TOKEN_PROGRAM_ID.toBase58() &&
+      ownerAddress !== TOKEN_2022_PROGRAM_ID.toBase58()) ||
+    !isTokenAccountData(data)
+  ) {
+    return null;
+  }
+  return {
+    mint: new PublicKey(data.subarray(0, 32)).toBase58(),
+    owner: new PublicKey(data.subarray(32, 64)).toBase58(),
+    amount: data.readBigUInt64LE(64)
+  };
+}
+
+async function fetchAccountsChunked(connection: Connection, addresses: PublicKey[]) {
+  const results: Array<AccountInfo<Buffer> | null> = [];
+  for (let index = 0; index < addresses.length; index += MULTIPLE_ACCOUNTS_CHUNK) {
+    results.push(
+      ...(await connection.getMultipleAccountsInfo(
+        addresses.slice(index, index + MULTIPLE_ACCOUNTS_CHUNK),
+        "confirmed"
+      ))
+    );
+  }
+  return results;
+}
+
+/**
+ * Simulates a transaction while capturing every account it loads, then diffs
+ * lamports and token balances against the current state. `accountKeys` must be
+ * the full resolved key list in message order. Deltas are empty when the
+ * simulation fails, since the RPC returns no post-state in that case.
+ */
+export async function simulateWithAccountDiffs(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  accountKeys: PublicKey[],
+  options: { replaceRecentBlockhash?: boolean } = {}
+): Promise<AccountDiffSimulation> {
+  const { message } = transaction;
+  const preAccounts = await fetchAccountsChunked(connection, accountKeys);
+  const { value: simulation } = await connection.simulateTransaction(transaction, {
+    commitment: "confirmed",
+    replaceRecentBlockhash: options.replaceRecentBlockhash ?? false,
+    sigVerify: false,
+    accounts: {
+      encoding: "base64",
+      addresses: accountKeys.map((address) => address.toBase58())
+    }
+  });
+  if (simulation.err || !simulation.accounts) {
+    return { simulation, balanceDeltas: [], tokenDeltas: [] };
+  }
+  const postAccounts = simulation.accounts;
+
+  const balanceDeltas: BalanceDelta[] = [];
+  const tokenStates: Array<{
+    account: string;
+    pre: TokenAccountState | null;
+    post: TokenAccountState | null;
+  }> = [];
+  accountKeys.forEach((address, index) => {
+    const pre = preAccounts[index];
+    const post = postAccounts[index];
+    balanceDeltas.push({
+      address: address.toBase58(),
+      preLamports: pre?.lamports ?? 0,
+      postLamports: post?.lamports ?? 0,
+      isSigner: message.isAccountSigner(index),
+      isWritable: message.isAccountWritable(index)
+    });
+    const preToken = pre ? readTokenAccount(pre.owner, pre.data) : null;
+    const postToken = post
+      ? readTokenAccount(post.owner, Buffer.from(post.data[0], "base64"))
+      : null;
+    if (preToken || postToken) {
+      tokenStates.push({ account: address.toBase58(), pre: preToken, post: postToken });
+    }
+  });
+
+  const mints = Array.from(
+    new Set(tokenStates.map((state) => (state.post ?? state.pre)?.mint ?? ""))
+  ).filter(Boolean);
+  const mintInfos = await fetchAccountsChunked(
+    connection,
+    mints.map((mint) => new PublicKey(mint))
+  );
+  const decimalsByMint = new Map(
+    mints.map((mint, index) => [mint, mintInfos[index]?.data[MINT_DECIMALS_OFFSET] ?? 0])
+  );
+
+  return {
+    simulation,
+    balanceDeltas,
+    tokenDeltas: tokenStates.map(({ account, pre, post }) => {
+      const state = (post ?? pre) as TokenAccountState;
+      return {
+        account,
+        mint: state.mint,
+        owner: state.owner,
+        decimals: decimalsByMint.get(state.mint) ?? 0,
+        preAmount: pre?.amount ?? 0n,
+        postAmount: post?.amount ?? 0n
+      };
+    })
+  };
+}
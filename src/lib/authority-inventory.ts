@@ -0,0 +1,280 @@
+import {
+  RISK_SEVERITIES,
+  type RiskFinding,
+  type RiskSeverity
+} from "@/lib/authority-risk-rules";
+import { csvEscape, parseCsv } from "@/lib/csv";
+
+export type MetadataStandard = "metaplex" | "token-2022" | "both" | "none";
+
+export type AuthorityInventoryRow = {
+  mint: string;
+  programId: string;
+  metadataStandard: MetadataStandard;
+  decimals: number;
+  supplyLabel: string;
+  mintAuthority: string | null;
+  freezeAuthority: string | null;
+  metadataUpdateAuthority: string | null;
+  metadataUri: string | null;
+  metadataMutable: boolean | null;
+  hasMintAuthority: boolean;
+  hasFreezeAuthority: boolean;
+  hasMetadataAuthority: boolean;
+  riskFlags: string[];
+  riskFindings: RiskFinding[];
+};
+
+export type AuthorityInventoryReport = {
+  generatedAt: string;
+  slot: number;
+  rows: AuthorityInventoryRow[];
+};
+
+export type AuthorityInventoryFieldChange = {
+  field: string;
+  before: string | null;
+  after: string | null;
+};
+
+export type AuthorityInventoryDiffEntry = {
+  mint: string;
+  status: "added" | "removed" | "changed";
+  changes: AuthorityInventoryFieldChange[];
+  newRiskFlags: string[];
+  resolvedRiskFlags: string[];
+};
+
+const REPORT_VERSION = 1;
+const RISK_FLAG_SEPARATOR = " | ";
+
+const CSV_COLUMNS = [
+  "mint",
+  "program_id",
+  "decimals",
+  "supply",
+  "mint_authority",
+  "freeze_authority",
+  "metadata_update_authority",
+  "metadata_uri",
+  "metadata_mutable",
+  "metadata_standard",
+  "has_mint_authority",
+  "has_freeze_authority",
+  "has_metadata_authority",
+  "risk_flags",
+  "risk_findings",
+  "generated_at",
+  "slot"
+] as const;
+
+// Added after the first report format; older CSV exports omit it.
+const OPTIONAL_CSV_COLUMNS = new Set<string>(["risk_findings"]);
+
+// Authority-bearing fields compared when diffing two reports.
+const DIFF_FIELDS: Array<{
+  field: string;
+  read: (row: AuthorityInventoryRow) => string | null;
+}> = [
+  { field: "Mint authority", read: (row) => row.mintAuthority },
+  { field: "Freeze authority", read: (row) => row.freezeAuthority },
+  { field: "Metadata update authority", read: (row) => row.metadataUpdateAuthority },
+  {
+    field: "Metadata mutable",
+    read: (row) => (row.metadataMutable === null ? null : String(row.metadataMutable))
+  },
+  { field: "Metadata standard", read: (row) => row.metadataStandard },
+  { field: "Metadata URI", read: (row) => row.metadataUri },
+  { field: "Supply", read: (row) => row.supplyLabel }
+];
+
+function parseNullableBoolean(value: string | undefined) {
+  if (value === "true") {
+    return true;
+  }
+  if (value === "false") {
+    return false;
+  }
+  return null;
+}
+
+function isMetadataStandard(value: unknown): value is MetadataStandard {
+  return value === "metaplex" || value === "token-2022" || value === "both" || value === "none";
+}
+
+function parseRiskFindingCell(cell: string): RiskFinding[] {
+  const [severity, ruleId, ...labelParts] = cell.split(":");
+  const label = labelParts.join(":");
+  if (!ruleId || !label || !RISK_SEVERITIES.includes(severity as RiskSeverity)) {
+    return [];
+  }
+  return [{ severity: severity as RiskSeverity, ruleId, label }];
+}
+
+export function serializeAuthorityInventoryCsv(report: AuthorityInventoryReport) {
+  const lines = report.rows.map((row) =>
+    [
+      row.mint,
+      row.programId,
+      String(row.decimals),
+      row.supplyLabel,
+      row.mintAuthority || "",
+      row.freezeAuthority || "",
+      row.metadataUpdateAuthority || "",
+      row.metadataUri || "",
+      row.metadataMutable === null ? "" : String(row.metadataMutable),
+      row.metadataStandard,
+      String(row.hasMintAuthority),
+      String(row.hasFreezeAuthority),
+      String(row.hasMetadataAuthority),
+      row.riskFlags.join(RISK_FLAG_SEPARATOR),
+      row.riskFindings
+        .map((finding) => `${finding.severity}:${finding.ruleId}:${finding.label}`)
+        .join(RISK_FLAG_SEPARATOR),
+      report.generatedAt,
+      String(report.slot)
+    ]
+      .map(csvEscape)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...lines].join("\n");
+}
+
+export function serializeAuthorityInventoryJson(report: AuthorityInventoryReport) {
+  return JSON.stringify({ version: REPORT_VERSION, ...report }, null, 2);
+}
+
+function parseAuthorityInventoryCsv(text: string): AuthorityInventoryReport {
+  const [header, ...records] = parseCsv(text);
+  if (!header) {
+    throw new Error("CSV report is empty.");
+  }
+  const columnIndex = new Map(header.map((name, index) => [name.trim(), index]));
+  const missingColumns = CSV_COLUMNS.filter(
+    (column) => !columnIndex.has(column) && !OPTIONAL_CSV_COLUMNS.has(column)
+  );
+  if (missingColumns.length > 0) {
+    throw new Error(`CSV report is missing columns: ${missingColumns.join(", ")}.`);
+  }
+  const read = (record: string[], column: (typeof CSV_COLUMNS)[number]) =>
+    record[columnIndex.get(column) ?? -1] ?? "";
+
+  const rows = records.map((record) => {
+    const metadataStandard = read(record, "metadata_standard");
+    const riskFlags = read(record, "risk_flags");
+    const riskFindings = read(record, "risk_findings");
+    return {
+      mint: read(record, "mint"),
+      programId: read(record, "program_id"),
+      metadataStandard: isMetadataStandard(metadataStandard) ? metadataStandard : "none",
+      decimals: Number(read(record, "decimals")) || 0,
+      supplyLabel: read(record, "supply"),
+      mintAuthority: read(record, "mint_authority") || null,
+      freezeAuthority: read(record, "freeze_authority") || null,
+      metadataUpdateAuthority: read(record, "metadata_update_authority") || null,
+      metadataUri: read(record, "metadata_uri") || null,
+      metadataMutable: parseNullableBoolean(read(record, "metadata_mutable")),
+      hasMintAuthority: read(record, "has_mint_authority") === "true",
+      hasFreezeAuthority: read(record, "has_freeze_authority") === "true",
+      hasMetadataAuthority: read(record, "has_metadata_authority") === "true",
+      riskFlags: riskFlags ? riskFlags.split(RISK_FLAG_SEPARATOR) : [],
+      riskFindings: riskFindings
+        ? riskFindings.split(RISK_FLAG_SEPARATOR).flatMap(parseRiskFindingCell)
+        : []
+    } satisfies AuthorityInventoryRow;
+  });
+
+  const firstRecord = records[0];
+  return {
+    generatedAt: firstRecord ? read(firstRecord, "generated_at") : "",
+    slot: firstRecord ? Number(read(firstRecord, "slot")) || 0 : 0,
+    rows
+  };
+}
+
+function parseAuthorityInventoryJson(text: string): AuthorityInventoryReport {
+  const parsed = JSON.parse(text) as Partial<AuthorityInventoryReport> & {
+    version?: number;
+  };
+  if (!parsed || !Array.isArray(parsed.rows)) {
+    throw new Error("JSON report must contain a rows array.");
+  }
+  if (parsed.version !== undefined && parsed.version > REPORT_VERSION) {
+    throw new Error(`Unsupported report version ${parsed.version}.`);
+  }
+  return {
+    generatedAt: typeof parsed.generatedAt === "string" ? parsed.generatedAt : "",
+    slot: typeof parsed.slot === "number" ? parsed.slot : 0,
+    rows: parsed.rows.map((row) => ({
+      ...row,
+      metadataStandard: isMetadataStandard(row.metadataStandard)
+        ? row.metadataStandard
+        : "none",
+      riskFlags: Array.isArray(row.riskFlags) ? row.riskFlags : [],
+      riskFindings: Array.isArray(row.riskFindings) ? row.riskFindings : []
+    }))
+  };
+}
+
+export function parseAuthorityInventoryReport(text: string, fileName: string) {
+  const trimmed = text.trim();
+  if (fileName.toLowerCase().endsWith(".json") || trimmed.startsWith("{")) {
+    return parseAuthorityInventoryJson(trimmed);
+  }
+  return parseAuthorityInventoryCsv(trimmed);
+}
+
+/**
+ * Compares a saved report against a fresh scan. Mints missing from either side
+ * are reported as added/removed; shared mints only appear when an authority
+ * field or risk flag changed.
+ */
+export function diffAuthorityInventoryReports(
+  baseline: AuthorityInventoryReport,
+  current: AuthorityInventoryReport
+): AuthorityInventoryDiffEntry[] {
+  const baselineRows = new Map(baseline.rows.map((row) => [row.mint, row]));
+  const currentRows = new Map(current.rows.map((row) => [row.mint, row]));
+  const entries: AuthorityInventoryDiffEntry[] = [];
+
+  current.rows.forEach((row) => {
+    const previous = baselineRows.get(row.mint);
+    if (!previous) {
+      entries.push({
+        mint: row.mint,
+        status: "added",
+        changes: [],
+        newRiskFlags: row.riskFlags,
+        resolvedRiskFlags: []
+      });
+      return;
+    }
+
+    const changes = DIFF_FIELDS.map(({ field, read }) => ({
+      field,
+      before: read(previous),
+      after: read(row)
+    })).filter((change) => change.before !== change.after);
+    const newRiskFlags = row.riskFlags.filter((flag) => !previous.riskFlags.includes(flag));
+    const resolvedRiskFlags = previous.riskFlags.filter(
+      (flag) => !row.riskFlags.includes(flag)
+    );
+    if (changes.length > 0 || newRiskFlags.length > 0 || resolvedRiskFlags.length > 0) {
+      entries.push({ mint: row.mint, status: "changed", changes, newRiskFlags, resolvedRiskFlags });
+    }
+  });
+
+  baseline.rows.forEach((row) => {
+    if (!currentRows.has(row.mint)) {
+      entries.push({
+        mint: row.mint,
+        status: "removed",
+        changes: [],
+        newRiskFlags: [],
+        resolvedRiskFlags: row.riskFlags
+      });
+    }
+  });
+
+  return entries;
+}
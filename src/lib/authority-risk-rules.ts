@@ -0,0 +1,288 @@
+import { type AccountInfo, PublicKey } from "@solana/web3.js";
+import type { AuthorityInventoryRow } from "@/lib/authority-inventory";
+
+export type RiskSeverity = "high" | "medium" | "low" | "info";
+
+export type RiskFinding = {
+  ruleId: string;
+  label: string;
+  severity: RiskSeverity;
+};
+
+/**
+ * How an authority address is controlled: a plain wallet keypair, an SPL
+ * Governance account, a multisig, some other program-derived address, or unset.
+ */
+export type AuthorityClass = "eoa" | "governance" | "multisig" | "pda" | "none";
+
+export type RiskRuleContext = Omit<AuthorityInventoryRow, "riskFlags" | "riskFindings"> & {
+  supplyRaw: bigint;
+  authorityClasses: {
+    mint: AuthorityClass;
+    freeze: AuthorityClass;
+    metadata: AuthorityClass;
+  };
+};
+
+export type RiskRuleSettings = {
+  enabled: boolean;
+  severity: RiskSeverity;
+  threshold?: number;
+};
+
+export type RiskRuleConfig = {
+  rules: Record<string, RiskRuleSettings>;
+  governanceProgramIds: string[];
+  multisigProgramIds: string[];
+};
+
+export type RiskRuleDefinition = {
+  id: string;
+  label: string;
+  description: string;
+  defaultSeverity: RiskSeverity;
+  defaultEnabled: boolean;
+  defaultThreshold?: number;
+  thresholdLabel?: string;
+  evaluate: (context: RiskRuleContext, settings: RiskRuleSettings) => string | null;
+};
+
+export const RISK_SEVERITIES: RiskSeverity[] = ["high", "medium", "low", "info"];
+
+export const DEFAULT_GOVERNANCE_PROGRAM_IDS = ["GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw"];
+
+export const DEFAULT_MULTISIG_PROGRAM_IDS = [
+  // Squads v4 and v3.
+  "SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf",
+  "SMPLecH534NA9acpos4G6x7uf3LWbCAwZQE9e8ZekMu"
+];
+
+const SPL_TOKEN_PROGRAM_IDS = [
+  "TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA",
+  "TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb"
+];
+const SPL_TOKEN_MULTISIG_SIZE = 355;
+
+const isSelfControlled = (authorityClass: AuthorityClass) =>
+  authorityClass === "governance" || authorityClass === "multisig";
+
+export const BUILT_IN_RISK_RULES: RiskRuleDefinition[] = [
+  {
+    id: "wallet-mint-authority",
+    label: "Wallet retains mint authority",
+    description: "The connected wallet can still mint new supply.",
+    defaultSeverity: "medium",
+    defaultEnabled: true,
+    evaluate: (context) => (context.hasMintAuthority ? "Wallet retains mint authority" : null)
+  },
+  {
+    id: "wallet-freeze-authority",
+    label: "Wallet retains freeze authority",
+    description: "The connected wallet can still freeze holder accounts.",
+    defaultSeverity: "medium",
+    defaultEnabled: true,
+    evaluate: (context) =>
+      context.hasFreezeAuthority ? "Wallet retains freeze authority" : null
+  },
+  {
+    id: "wallet-metadata-authority",
+    label: "Wallet retains metadata update authority",
+    description: "The connected wallet can still rewrite token metadata.",
+    defaultSeverity: "low",
+    defaultEnabled: true,
+    evaluate: (context) =>
+      context.hasMetadataAuthority ? "Wallet retains metadata update authority" : null
+  },
+  {
+    id: "nft-missing-metadata",
+    label: "NFT candidate missing metadata",
+    description: "A 0-decimal, supply-1 mint has neither Metaplex nor embedded metadata.",
+    defaultSeverity: "high",
+    defaultEnabled: true,
+    evaluate: (context) =>
+      context.decimals === 0 && context.supplyRaw === 1n && context.metadataStandard === "none"
+        ? "NFT candidate missing metadata account"
+        : null
+  },
+  {
+    id: "metadata-uri-empty",
+    label: "Metadata URI is empty",
+    description: "Metadata exists but does not point at any off-chain JSON.",
+    defaultSeverity: "medium",
+    defaultEnabled: true,
+    evaluate: (context) =>
+      context.metadataStandard !== "none" && !context.metadataUri
+        ? "Metadata URI is empty"
+        : null
+  },
+  {
+    id: "metadata-mutable",
+    label: "Metadata remains mutable",
+    description: "Metadata can still be changed by its update authority.",
+    defaultSeverity: "low",
+    defaultEnabled: true,
+    evaluate: (context) =>
+      context.metadataMutable === true ? "Metadata remains mutable" : null
+  },
+  {
+    id: "freeze-authority-eoa",
+    label: "Freeze authority is an EOA",
+    description: "Holder accounts can be frozen by a single wallet keypair.",
+    defaultSeverity: "high",
+    defaultEnabled: true,
+    evaluate: (context) =>
+      context.authorityClasses.freeze === "eoa" ? "Freeze authority is an EOA" : null
+  },
+  {
+    id: "mint-authority-not-governance",
+    label: "Mint authority not a governance PDA",
+    description: "Supply can be changed without an SPL Governance proposal.",
+    defaultSeverity: "medium",
+    defaultEnabled: true,
+    evaluate: (context) =>
+      context.mintAuthority && context.authorityClasses.mint !== "governance"
+        ? "Mint authority not a governance PDA"
+        : null
+  },
+  {
+    id: "mutable-metadata-single-signer",
+    label: "Mutable metadata with non-multisig update authority",
+    description: "Mutable metadata is controlled by neither a multisig nor governance.",
+    defaultSeverity: "high",
+    defaultEnabled: true,
+    evaluate: (context) =>
+      context.metadataMutable === true &&
+      context.metadataUpdateAuthority &&
+      !isSelfControlled(context.authorityClasses.metadata)
+        ? "Mutable metadata with non-multisig update authority"
+        : null
+  },
+  {
+    id: "supply-above-threshold",
+    label: "Supply above threshold",
+    description: "Circulating supply exceeds the configured number of whole tokens.",
+    defaultSeverity: "info",
+    defaultEnabled: false,
+    defaultThreshold: 1_000_000_000,
+    thresholdLabel: "Supply threshold (tokens)",
+    evaluate: (context, settings) => {
+      const threshold = Math.max(0, Math.floor(settings.threshold ?? 0));
+      const thresholdRaw = BigInt(threshold) * 10n ** BigInt(context.decimals);
+      return context.supplyRaw > thresholdRaw
+        ? `Supply above ${threshold.toLocaleString()} tokens`
+        : null;
+    }
+  }
+];
+
+export const DEFAULT_RISK_RULE_CONFIG: RiskRuleConfig = {
+  rules: Object.fromEntries(
+    BUILT_IN_RISK_RULES.map((rule) => [
+      rule.id,
+      {
+        enabled: rule.defaultEnabled,
+        severity: rule.defaultSeverity,
+        ...(rule.defaultThreshold !== undefined ? { threshold: rule.defaultThreshold } : {})
+      }
+    ])
+  ),
+  governanceProgramIds: DEFAULT_GOVERNANCE_PROGRAM_IDS,
+  multisigProgramIds: DEFAULT_MULTISIG_PROGRAM_IDS
+};
+
+function isRiskSeverity(value: unknown): value is RiskSeverity {
+  return RISK_SEVERITIES.includes(value as RiskSeverity);
+}
+
+function normalizeProgramIds(value: unknown, fallback: string[]) {
+  if (!Array.isArray(value)) {
+    return fallback;
+  }
+  return value.filter((entry): entry is string => {
+    if (typeof entry !== "string") {
+      return false;
+    }
+    try {
+      new PublicKey(entry);
+      return true;
+    } catch {
+      return false;
+    }
+  });
+}
+
+/** Fills gaps in a stored or imported config with rule defaults. */
+export function normalizeRiskRuleConfig(value: unknown): RiskRuleConfig {
+  const parsed = (value ?? {}) as Partial<RiskRuleConfig>;
+  const storedRules = parsed.rules ?? {};
+  return {
+    rules: Object.fromEntries(
+      BUILT_IN_RISK_RULES.map((rule) => {
+        const stored = storedRules[rule.id] as Partial<RiskRuleSettings> | undefined;
+        const defaults = DEFAULT_RISK_RULE_CONFIG.rules[rule.id];
+        const threshold = Number(stored?.threshold);
+        return [
+          rule.id,
+          {
+            enabled: typeof stored?.enabled === "boolean" ? stored.enabled : defaults.enabled,
+            severity: isRiskSeverity(stored?.severity) ? stored.severity : defaults.severity,
+            ...(defaults.threshold !== undefined
+              ? { threshold: Number.isFinite(threshold) ? threshold : defaults.threshold }
+              : {})
+          }
+        ];
+      })
+    ),
+    governanceProgramIds: normalizeProgramIds(
+      parsed.governanceProgramIds,
+      DEFAULT_GOVERNANCE_PROGRAM_IDS
+    ),
+    multisigProgramIds: normalizeProgramIds(parsed.multisigProgramIds, DEFAULT_MULTISIG_PROGRAM_IDS)
+  };
+}
+
+export function classifyAuthorityAccount(
+  address: string | null,
+  info: AccountInfo<Buffer> | null,
+  config: Pick<RiskRuleConfig, "governanceProgramIds" | "multisigProgramIds">
+): AuthorityClass {
+  if (!address) {
+    return "none";
+  }
+  const owner = info?.owner.toBase58() ?? null;
+  if (owner && config.governanceProgramIds.includes(owner)) {
+    return "governance";
+  }
+  if (
+    owner &&
+    (config.multisigProgramIds.includes(owner) ||
+      (SPL_TOKEN_PROGRAM_IDS.includes(owner) && info?.data.length === SPL_TOKEN_MULTISIG_SIZE))
+  ) {
+    return "multisig";
+  }
+  return PublicKey.isOnCurve(new PublicKey(address).toBytes()) ? "eoa" : "pda";
+}
+
+export function evaluateRiskRules(
+  context: RiskRuleContext,
+  config: RiskRuleConfig,
+  rules: RiskRuleDefinition[] = BUILT_IN_RISK_RULES
+): RiskFinding[] {
+  return rules
+    .flatMap((rule) => {
+      const settings = config.rules[rule.id] ?? {
+        enabled: rule.defaultEnabled,
+        severity: rule.defaultSeverity,
+        threshold: rule.defaultThreshold
+      };
+      if (!settings.enabled) {
+        return [];
+      }
+      const label = rule.evaluate(context, settings);
+      return label ? [{ ruleId: rule.id, label, severity: settings.severity }] : [];
+    })
+    .sort(
+      (left, right) =>
+        RISK_SEVERITIES.indexOf(left.severity) - RISK_SEVERITIES.indexOf(right.severity)
+    );
+}
@@ -0,0 +1,284 @@
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync
+} from "@solana/spl-token";
+import {
+  type Connection,
+  PublicKey,
+  SystemProgram,
+  type TransactionInstruction
+} from "@solana/web3.js";
+import { csvEscape, parseCsvRecords } from "@/lib/csv";
+import { buildMemoInstruction } from "@/lib/memo";
+import { withReferences } from "@/lib/solana-pay";
+import type { SentTransaction } from "@/lib/transaction-pipeline";
+import { parseTokenAmount } from "@/lib/token-amount";
+import type { InstructionGroup } from "@/lib/versioned-transactions";
+
+export type PayoutAsset =
+  | { kind: "sol" }
+  | { kind: "token"; mint: PublicKey; sourceAccount: PublicKey; decimals: number };
+
+export type PayoutRow = {
+  // Line of the source CSV the row came from.
+  row: number;
+  recipient: string;
+  amount: bigint;
+  amountLabel: string;
+  memo: string;
+  reference: string | null;
+};
+
+export type PayoutRowStatus = "pending" | "sent" | "failed" | "unknown";
+
+export type PayoutRowResult = {
+  // "unknown": sent but not confirmed, so it may still land.
+  status: PayoutRowStatus;
+  signature: string | null;
+  error: string | null;
+  transaction?: SentTransaction;
+};
+
+export type ParsedPayoutInput = {
+  rows: PayoutRow[];
+  errors: string[];
+  warnings: string[];
+};
+
+const SOL_DECIMALS = 9;
+const MULTIPLE_ACCOUNTS_CHUNK = 100;
+const REPORT_COLUMNS = [
+  "row",
+  "recipient",
+  "amount",
+  "memo",
+  "reference",
+  "status",
+  "signature",
+  "error"
+];
+
+export function getPayoutDecimals(asset: PayoutAsset) {
+  return asset.kind === "sol" ? SOL_DECIMALS : asset.decimals;
+}
+
+function isPublicKey(value: string) {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parses `address,amount[,memo]` rows from a CSV file or pasted text. A header
+ * row and `#` comment rows are skipped; unquoted commas after the amount are
+ * kept as part of the memo.
+ */
+export function parsePayoutInput(input: string, asset: PayoutAsset): ParsedPayoutInput {
+  const decimals = getPayoutDecimals(asset);
+  const rows: PayoutRow[] = [];
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const seenRecipients = new Map<string, number>();
+
+  parseCsvRecords(input).forEach((record, index) => {
+    const [address = "", amountInput = "", ...memoParts] = record.cells.map((cell) =>
+      cell.trim()
+    );
+    const row = record.line;
+    if (address.startsWith("#")) {
+      return;
+    }
+    if (index === 0 && !isPublicKey(address) && !/^\d/.test(amountInput)) {
+      return;
+    }
+
+    if (!isPublicKey(address)) {
+      errors.push(`Row ${row}: invalid recipient address "${address}".`);
+      return;
+    }
+    let amount: bigint;
+    try {
+      amount = parseTokenAmount(amountInput, decimals);
+    } catch (unknownError) {
+      errors.push(
+        `Row ${row}: ${unknownError instanceof Error ? unknownError.message : "invalid amount."}`
+      );
+      return;
+    }
+    if (amount <= 0n) {
+      errors.push(`Row ${row}: amount must be greater than zero.`);
+      return;
+    }
+    if (asset.kind === "sol" && amount > BigInt(Number.MAX_SAFE_INTEGER)) {
+      errors.push(`Row ${row}: amount too large.`);
+      return;
+    }
+
+    const recipient = new PublicKey(address).toBase58();
+    const firstRow = seenRecipients.get(recipient);
+    if (firstRow !== undefined) {
+      warnings.push(`Row ${row}: ${recipient} is also paid on row ${firstRow}.`);
+    } else {
+      seenRecipients.set(recipient, row);
+    }
+    rows.push({
+      row,
+      recipient,
+      amount,
+      amountLabel: amountInput,
+      memo: memoParts.join(","),
+      reference: null
+    });
+  });
+
+  if (rows.length === 0 && errors.length === 0) {
+    errors.push("Add at least one address,amount row.");
+  }
+  return { rows, errors, warnings };
+}
+
+export function getPayoutTokenAccount(asset: PayoutAsset, recipient: string) {
+  if (asset.kind !== "token") {
+    return null;
+  }
+  // Off-curve owners (e.g. multisig vaults) are valid payout recipients.
+  return getAssociatedTokenAddressSync(asset.mint, new PublicKey(recipient), true);
+}
+
+/**
+ * Recipients whose associated token account does not exist yet. Always empty
+ * for SOL payouts.
+ */
+export async function findMissingPayoutAccounts(
+  connection: Connection,
+  asset: PayoutAsset,
+  rows: PayoutRow[]
+) {
+  const missing = new Set<string>();
+  if (asset.kind !== "token") {
+    return missing;
+  }
+  const recipients = Array.from(new Set(rows.map((row) => row.recipient)));
+  for (let index = 0; index < recipients.length; index += MULTIPLE_ACCOUNTS_CHUNK) {
+    const chunk = recipients.slice(index, index + MULTIPLE_ACCOUNTS_CHUNK);
+    const accounts = await connection.getMultipleAccountsInfo(
+      chunk.map((recipient) => getPayoutTokenAccount(asset, recipient) as PublicKey),
+      "confirmed"
+    );
+    chunk.forEach((recipient, chunkIndex) => {
+      if (!accounts[chunkIndex]) {
+        missing.add(recipient);
+      }
+    });
+  }
+  return missing;
+}
+
+/**
+ * One instruction group per row: the ATA create when needed, an optional memo
+ * and the transfer (carrying the row reference), so a row always lands in a
+ * single transaction.
+ */
+export function buildPayoutInstructionGroups(
+  payer: PublicKey,
+  asset: PayoutAsset,
+  rows: PayoutRow[],
+  missingRecipients: Set<string>
+): InstructionGroup[] {
+  return rows.map((row) => {
+    const recipient = new PublicKey(row.recipient);
+    const instructions: TransactionInstruction[] = [];
+    let transfer: TransactionInstruction;
+    if (asset.kind === "sol") {
+      transfer = SystemProgram.transfer({
+        fromPubkey: payer,
+        toPubkey: recipient,
+        lamports: Number(row.amount)
+      });
+    } else {
+      const destination = getPayoutTokenAccount(asset, row.recipient) as PublicKey;
+      // Idempotent so repeated recipients in one batch do not fail the create.
+      if (missingRecipients.has(row.recipient)) {
+        instructions.push(
+          createAssociatedTokenAccountIdempotentInstruction(
+            payer,
+            destination,
+            recipient,
+            asset.mint
+          )
+        );
+      }
+      transfer = createTransferCheckedInstruction(
+        asset.sourceAccount,
+        asset.mint,
+        destination,
+        payer,
+        row.amount,
+        asset.decimals
+      );
+    }
+    if (row.memo) {
+      instructions.push(buildMemoInstruction(row.memo, [payer]));
+    }
+    instructions.push(
+      withReferences(transfer, row.reference ? [new PublicKey(row.reference)] : [])
+    );
+    return instructions;
+  });
+}
+
+/**
+ * Settles a payout transaction whose confirmation failed. The lifetime is
+ * checked before the signature so a transaction can't land between the two
+ * lookups; only "failed" rows are safe to send again.
+ */
+export async function resolveSentPayoutStatus(
+  connection: Connection,
+  sent: SentTransaction
+): Promise<PayoutRowStatus> {
+  let expired: boolean;
+  if (sent.nonceAccount) {
+    const nonce = await connection.getNonce(new PublicKey(sent.nonceAccount), "confirmed");
+    expired = !nonce || nonce.nonce !== sent.recentBlockhash;
+  } else {
+    const { value } = await connection.isBlockhashValid(sent.recentBlockhash, {
+      commitment: "confirmed"
+    });
+    expired = !value;
+  }
+
+  const { value } = await connection.getSignatureStatuses([sent.signature], {
+    searchTransactionHistory: true
+  });
+  const status = value[0];
+  if (status?.err) {
+    return "failed";
+  }
+  if (status && status.confirmationStatus !== "processed") {
+    return "sent";
+  }
+  return expired && !status ? "failed" : "unknown";
+}
+
+export function serializePayoutReportCsv(rows: PayoutRow[], results: PayoutRowResult[]) {
+  const lines = rows.map((row, index) => {
+    const result = results[index];
+    return [
+      String(row.row),
+      row.recipient,
+      row.amountLabel,
+      row.memo,
+      row.reference ?? "",
+      result?.status ?? "pending",
+      result?.signature ?? "",
+      result?.error ?? ""
+    ]
+      .map(csvEscape)
+      .join(",");
+  });
+  return [REPORT_COLUMNS.join(","), ...lines].join("\n");
+}
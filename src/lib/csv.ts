@@ -0,0 +1,66 @@
+export type CsvRecord = {
+  // 1-based line of the source text the record starts on.
+  line: number;
+  cells: string[];
+};
+
+export function csvEscape(value: string) {
+  return `"${value.replace(/"/g, "\"\"")}"`;
+}
+
+/**
+ * Parses RFC 4180 style CSV (quoted cells, doubled quotes, CRLF or LF) and
+ * drops blank rows. Each record keeps the line it starts on, so errors can
+ * point at the uploaded file even when blank lines were skipped.
+ */
+export function parseCsvRecords(text: string) {
+  const records: CsvRecord[] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const character = text[index];
+    if (character === "\n" || (character === "\r" && text[index + 1] !== "\n")) {
+      line += 1;
+    }
+    if (inQuotes) {
+      if (character === "\"" && text[index + 1] === "\"") {
+        cell += "\"";
+        index += 1;
+      } else if (character === "\"") {
+        inQuotes = false;
+      } else {
+        cell += character;
+      }
+    } else if (character === "\"") {
+      inQuotes = true;
+    } else if (character === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (character === "\n" || character === "\r") {
+      if (character === "\r" && text[index + 1] === "\n") {
+        index += 1;
+        line += 1;
+      }
+      row.push(cell);
+      records.push({ line: recordLine, cells: row });
+      row = [];
+      cell = "";
+      recordLine = line;
+    } else {
+      cell += character;
+    }
+  }
+  if (cell.length > 0 || row.length > 0) {
+    row.push(cell);
+    records.push({ line: recordLine, cells: row });
+  }
+  return records.filter((record) => record.cells.some((value) => value.trim().length > 0));
+}
+
+export function parseCsv(text: string) {
+  return parseCsvRecords(text).map((record) => record.cells);
+}
@@ -0,0 +1,117 @@
+import {
+  buildDistributorShardIndex,
+  createDistributorShardArchive
+} from "@/lib/distributor-shards";
+
+export type DistributorMerkleAllocation = {
+  wallet: string;
+  index: string;
+  amount: string;
+};
+
+export type DistributorClaimEntry = DistributorMerkleAllocation & {
+  proof: string[];
+};
+
+export type DistributorMerklePhase = "leaves" | "tree" | "proofs";
+
+export type DistributorMerkleProgress = {
+  phase: DistributorMerklePhase;
+  processed: number;
+  total: number;
+};
+
+export type DistributorMerkleRequest = {
+  distributor: string;
+  allocations: DistributorMerkleAllocation[];
+  // Campaign fields written ahead of `root` and `claims` in the manifest.
+  campaign: Record<string, unknown>;
+  generatedAt: string;
+  claimant?: string;
+  // Emit a sharded package (index + wallet-prefix shards) instead of one manifest.
+  shardPrefixLength?: number;
+};
+
+export type DistributorMerkleWorkerMessage =
+  | { type: "progress"; progress: DistributorMerkleProgress }
+  | { type: "chunk"; text: string }
+  | { type: "shard"; prefix: string; text: string }
+  | { type: "done"; root: string; leafCount: number; claimantEntry: DistributorClaimEntry | null }
+  | { type: "error"; message: string };
+
+export type DistributorMerkleResult = {
+  root: string;
+  leafCount: number;
+  // A single manifest JSON, or a zip of the shard index and shard files.
+  claimPackage: Blob;
+  shardCount: number | null;
+  claimantEntry: DistributorClaimEntry | null;
+};
+
+const PHASE_LABELS: Record<DistributorMerklePhase, string> = {
+  leaves: "Hashing leaves",
+  tree: "Building tree levels",
+  proofs: "Writing proofs"
+};
+
+export function describeDistributorMerkleProgress(progress: DistributorMerkleProgress) {
+  return `${PHASE_LABELS[progress.phase]} ${progress.processed} / ${progress.total}...`;
+}
+
+/**
+ * Builds the merkle tree in a Web Worker. The worker streams the claim
+ * manifest out in chunks (or whole shards) as proofs are generated, so only
+ * the tree levels and the package text are ever held, never a full proof
+ * array.
+ */
+export function buildDistributorClaimPackage(
+  request: DistributorMerkleRequest,
+  onProgress?: (progress: DistributorMerkleProgress) => void
+) {
+  return new Promise<DistributorMerkleResult>((resolve, reject) => {
+    const worker = new Worker(new URL("./distributor-merkle.worker.ts", import.meta.url));
+    const chunks: string[] = [];
+    const shards: { prefix: string; text: string }[] = [];
+
+    worker.onmessage = (event: MessageEvent<DistributorMerkleWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === "progress") {
+        onProgress?.(message.progress);
+      } else if (message.type === "chunk") {
+        chunks.push(message.text);
+      } else if (message.type === "shard") {
+        shards.push({ prefix: message.prefix, text: message.text });
+      } else if (message.type === "done") {
+        worker.terminate();
+        const claimPackage = request.shardPrefixLength
+          ? createDistributorShardArchive(
+              buildDistributorShardIndex({
+                campaign: request.campaign,
+                root: message.root,
+                generatedAt: request.generatedAt,
+                claimCount: message.leafCount,
+                prefixLength: request.shardPrefixLength,
+                shards: shards.map((shard) => shard.prefix)
+              }),
+              shards
+            )
+          : new Blob(chunks, { type: "application/json" });
+        resolve({
+          root: message.root,
+          leafCount: message.leafCount,
+          claimPackage,
+          shardCount: request.shardPrefixLength ? shards.length : null,
+          claimantEntry: message.claimantEntry
+        });
+      } else {
+        worker.terminate();
+        reject(new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message || "Merkle worker failed."));
+    };
+    worker.postMessage(request);
+  });
+}
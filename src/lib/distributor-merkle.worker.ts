@@ -0,0 +1,186 @@
+import { PublicKey } from "@solana/web3.js";
+import { computeLeaf, hashSortedPair } from "grape-distributor-sdk";
+import type {
+  DistributorClaimEntry,
+  DistributorMerklePhase,
+  DistributorMerkleRequest,
+  DistributorMerkleWorkerMessage
+} from "@/lib/distributor-merkle";
+import { getDistributorShardPrefix } from "@/lib/distributor-shards";
+
+const CLAIMS_PER_CHUNK = 1_000;
+const PROGRESS_INTERVAL = 5_000;
+
+const workerScope = self as unknown as {
+  postMessage: (message: DistributorMerkleWorkerMessage) => void;
+  onmessage: ((event: MessageEvent<DistributorMerkleRequest>) => void) | null;
+};
+
+function toHexPrefixed(bytes: Uint8Array) {
+  let hex = "0x";
+  for (let index = 0; index < bytes.length; index += 1) {
+    hex += bytes[index].toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+function reportProgress(phase: DistributorMerklePhase, processed: number, total: number) {
+  workerScope.postMessage({ type: "progress", progress: { phase, processed, total } });
+}
+
+function buildLevels(leaves: Uint8Array[]) {
+  const levels: Uint8Array[][] = [leaves];
+  let hashed = 0;
+  while (levels[levels.length - 1].length > 1) {
+    const currentLevel = levels[levels.length - 1];
+    const nextLevel: Uint8Array[] = [];
+    for (let index = 0; index < currentLevel.length; index += 2) {
+      const left = currentLevel[index];
+      const right = currentLevel[index + 1] ?? currentLevel[index];
+      nextLevel.push(hashSortedPair(left, right));
+      hashed += 1;
+      if (hashed % PROGRESS_INTERVAL === 0) {
+        reportProgress("tree", hashed, leaves.length);
+      }
+    }
+    levels.push(nextLevel);
+  }
+  return levels;
+}
+
+function buildProof(levels: Uint8Array[][], leafIndex: number) {
+  const proof: string[] = [];
+  let cursor = leafIndex;
+  for (let level = 0; level < levels.length - 1; level += 1) {
+    const nodes = levels[level];
+    proof.push(toHexPrefixed(nodes[cursor ^ 1] ?? nodes[cursor]));
+    cursor = Math.floor(cursor / 2);
+  }
+  return proof;
+}
+
+function buildClaimPackage(request: DistributorMerkleRequest) {
+  const { allocations } = request;
+  if (allocations.length === 0) {
+    throw new Error("At least one leaf is required.");
+  }
+
+  const distributor = new PublicKey(request.distributor);
+  const leaves = allocations.map((allocation, index) => {
+    if (index > 0 && index % PROGRESS_INTERVAL === 0) {
+      reportProgress("leaves", index, allocations.length);
+    }
+    return computeLeaf(
+      distributor,
+      new PublicKey(allocation.wallet),
+      BigInt(allocation.index),
+      BigInt(allocation.amount)
+    );
+  });
+  const levels = buildLevels(leaves);
+  const root = toHexPrefixed(levels[levels.length - 1][0]);
+
+  let claimantEntry: DistributorClaimEntry | null = null;
+  const proveClaim = (index: number) => {
+    const allocation = allocations[index];
+    const entry: DistributorClaimEntry = { ...allocation, proof: buildProof(levels, index) };
+    if (!claimantEntry && allocation.wallet === request.claimant) {
+      claimantEntry = entry;
+    }
+    return JSON.stringify(entry);
+  };
+
+  if (request.shardPrefixLength) {
+    streamShards(request, root, request.shardPrefixLength, proveClaim);
+  } else {
+    streamManifest(request, root, proveClaim);
+  }
+  return { root, leafCount: leaves.length, claimantEntry };
+}
+
+function streamManifest(
+  request: DistributorMerkleRequest,
+  root: string,
+  proveClaim: (index: number) => string
+) {
+  const total = request.allocations.length;
+  // Hand-assembled so claims can be emitted as they are proven; the campaign
+  // object is closed after the last claim.
+  const campaignPrefix = JSON.stringify({ ...request.campaign, root }).slice(0, -1);
+  workerScope.postMessage({
+    type: "chunk",
+    text:
+      `{"version":1,"generatedAt":${JSON.stringify(request.generatedAt)},` +
+      `"campaigns":[${campaignPrefix},"claims":[`
+  });
+
+  let pending: string[] = [];
+  for (let index = 0; index < total; index += 1) {
+    pending.push(proveClaim(index));
+    if (pending.length === CLAIMS_PER_CHUNK || index === total - 1) {
+      workerScope.postMessage({
+        type: "chunk",
+        text: `${index + 1 > pending.length ? "," : ""}${pending.join(",")}`
+      });
+      pending = [];
+      reportProgress("proofs", index + 1, total);
+    }
+  }
+  workerScope.postMessage({ type: "chunk", text: "]}]}" });
+}
+
+/**
+ * Proves claims grouped by wallet prefix so each shard is posted as soon as
+ * its last claim is written. Leaf positions (and so proofs) are unchanged.
+ */
+function streamShards(
+  request: DistributorMerkleRequest,
+  root: string,
+  prefixLength: number,
+  proveClaim: (index: number) => string
+) {
+  const total = request.allocations.length;
+  const prefixes = request.allocations.map((allocation) =>
+    getDistributorShardPrefix(allocation.wallet, prefixLength)
+  );
+  const order = prefixes.map((_prefix, index) => index);
+  order.sort((left, right) =>
+    prefixes[left] === prefixes[right]
+      ? left - right
+      : prefixes[left] < prefixes[right]
+        ? -1
+        : 1
+  );
+
+  let pending: string[] = [];
+  for (let position = 0; position < total; position += 1) {
+    const index = order[position];
+    pending.push(proveClaim(index));
+    const nextIndex = order[position + 1];
+    if (nextIndex === undefined || prefixes[nextIndex] !== prefixes[index]) {
+      const prefix = prefixes[index];
+      workerScope.postMessage({
+        type: "shard",
+        prefix,
+        text:
+          `{"prefix":${JSON.stringify(prefix)},"root":${JSON.stringify(root)},` +
+          `"claims":[${pending.join(",")}]}`
+      });
+      pending = [];
+    }
+    if ((position + 1) % CLAIMS_PER_CHUNK === 0 || position === total - 1) {
+      reportProgress("proofs", position + 1, total);
+    }
+  }
+}
+
+workerScope.onmessage = (event) => {
+  try {
+    workerScope.postMessage({ type: "done", ...buildClaimPackage(event.data) });
+  } catch (unknownError) {
+    workerScope.postMessage({
+      type: "error",
+      message: unknownError instanceof Error ? unknownError.message : "Failed to build merkle tree."
+    });
+  }
+};
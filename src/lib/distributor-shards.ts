@@ -0,0 +1,170 @@
+import { PublicKey } from "@solana/web3.js";
+import { createZipArchive } from "@/lib/zip";
+
+export const DISTRIBUTOR_SHARD_INDEX_FORMAT = "grape-distributor-shards";
+export const DISTRIBUTOR_SHARD_INDEX_FILE = "index.json";
+
+export type DistributorShardScheme = {
+  type: "wallet-hex-prefix";
+  prefixLength: number;
+  // Relative to the index URL; `{prefix}` is replaced with the wallet prefix.
+  path: string;
+};
+
+/**
+ * Index of a sharded claim package. Campaign fields (mint, vault, distributor,
+ * governance settings) sit at the top level next to the root.
+ */
+export type DistributorShardIndex = {
+  format: typeof DISTRIBUTOR_SHARD_INDEX_FORMAT;
+  version: 1;
+  generatedAt: string;
+  root: string;
+  mint: string;
+  vault: string;
+  claimCount: number;
+  shardScheme: DistributorShardScheme;
+  shards: string[];
+  [field: string]: unknown;
+};
+
+export type DistributorShardFile = {
+  prefix: string;
+  root: string;
+  claims: Record<string, unknown>[];
+};
+
+const TARGET_CLAIMS_PER_SHARD = 500;
+const MAX_SHARD_PREFIX_LENGTH = 3;
+const DEFAULT_SHARD_PATH = "shards/{prefix}.json";
+const SHARD_INDEX_ONLY_FIELDS = [
+  "format",
+  "version",
+  "generatedAt",
+  "claimCount",
+  "shardScheme",
+  "shards"
+];
+
+/** Hex characters of wallet prefix so shards hold roughly 500 claims each. */
+export function getDistributorShardPrefixLength(claimCount: number) {
+  const length = Math.ceil(Math.log(claimCount / TARGET_CLAIMS_PER_SHARD) / Math.log(16));
+  return Math.min(MAX_SHARD_PREFIX_LENGTH, Math.max(1, length));
+}
+
+/**
+ * Hex rather than base58 so shard file names don't collide on case-insensitive
+ * file systems.
+ */
+export function getDistributorShardPrefix(wallet: PublicKey | string, prefixLength: number) {
+  const bytes = new PublicKey(wallet).toBytes().slice(0, Math.ceil(prefixLength / 2));
+  let hex = "";
+  bytes.forEach((byte) => {
+    hex += byte.toString(16).padStart(2, "0");
+  });
+  return hex.slice(0, prefixLength);
+}
+
+export function isDistributorShardIndex(payload: unknown): payload is DistributorShardIndex {
+  return (
+    Boolean(payload) &&
+    typeof payload === "object" &&
+    (payload as Record<string, unknown>).format === DISTRIBUTOR_SHARD_INDEX_FORMAT
+  );
+}
+
+export function buildDistributorShardIndex(options: {
+  campaign: Record<string, unknown>;
+  root: string;
+  generatedAt: string;
+  claimCount: number;
+  prefixLength: number;
+  shards: string[];
+}): DistributorShardIndex {
+  return {
+    format: DISTRIBUTOR_SHARD_INDEX_FORMAT,
+    version: 1,
+    generatedAt: options.generatedAt,
+    ...options.campaign,
+    mint: String(options.campaign.mint),
+    vault: String(options.campaign.vault),
+    root: options.root,
+    claimCount: options.claimCount,
+    shardScheme: {
+      type: "wallet-hex-prefix",
+      prefixLength: options.prefixLength,
+      path: DEFAULT_SHARD_PATH
+    },
+    shards: options.shards
+  };
+}
+
+/** Zip with `index.json` at the top and one file per shard under its scheme path. */
+export function createDistributorShardArchive(
+  index: DistributorShardIndex,
+  shards: { prefix: string; text: string }[]
+) {
+  return createZipArchive([
+    { name: DISTRIBUTOR_SHARD_INDEX_FILE, contents: JSON.stringify(index, null, 2) },
+    ...shards.map((shard) => ({
+      name: index.shardScheme.path.replace("{prefix}", shard.prefix),
+      contents: shard.text
+    }))
+  ]);
+}
+
+export function resolveDistributorShardUrl(
+  indexUrl: string,
+  index: DistributorShardIndex,
+  wallet: PublicKey | string
+) {
+  const prefix = getDistributorShardPrefix(wallet, index.shardScheme.prefixLength);
+  const base =
+    typeof window !== "undefined" ? new URL(indexUrl, window.location.href) : new URL(indexUrl);
+  return {
+    prefix,
+    url: new URL(index.shardScheme.path.replace("{prefix}", prefix), base).toString()
+  };
+}
+
+/**
+ * Fetches only the shard for `wallet` and returns it in the single-manifest
+ * shape (`{ campaigns: [{ ...campaign, claims }] }`) the claim parsers
+ * already read. Wallets without a shard get an empty claims list.
+ */
+export async function fetchDistributorShardManifest(
+  indexUrl: string,
+  index: DistributorShardIndex,
+  wallet: PublicKey | string
+) {
+  const { shardScheme, shards } = index;
+  if (shardScheme?.type !== "wallet-hex-prefix") {
+    throw new Error("Unsupported claim shard scheme.");
+  }
+
+  const { prefix, url } = resolveDistributorShardUrl(indexUrl, index, wallet);
+  let claims: Record<string, unknown>[] = [];
+  if (!Array.isArray(shards) || shards.includes(prefix)) {
+    const response = await fetch(url, { cache: "no-store" });
+    if (!response.ok) {
+      throw new Error(
+        `Unable to load claim shard ${prefix} (${response.status} ${response.statusText}).`
+      );
+    }
+    const shard = (await response.json()) as DistributorShardFile;
+    if (shard.root !== index.root) {
+      throw new Error(`Claim shard ${prefix} root does not match the package index.`);
+    }
+    claims = Array.isArray(shard.claims) ? shard.claims : [];
+  }
+
+  const campaign: Record<string, unknown> = { ...index };
+  SHARD_INDEX_ONLY_FIELDS.forEach((field) => {
+    delete campaign[field];
+  });
+  return {
+    version: 1,
+    generatedAt: index.generatedAt,
+    campaigns: [{ ...campaign, claims }]
+  };
+}
@@ -0,0 +1,315 @@
+import { PublicKey } from "@solana/web3.js";
+import { parseCsvRecords } from "@/lib/csv";
+import { parseTokenAmount } from "@/lib/token-amount";
+
+export type DistributorSnapshotFormat = "csv" | "json";
+
+export type DistributorSnapshotAllocation = {
+  wallet: PublicKey;
+  amount: bigint;
+  explicitIndex: bigint | null;
+};
+
+export type DistributorSnapshotIssue = {
+  // CSV: line in the file. JSON: 1-based entry position.
+  row: number;
+  message: string;
+};
+
+export type ParsedDistributorSnapshot = {
+  format: DistributorSnapshotFormat;
+  allocations: DistributorSnapshotAllocation[];
+  errors: DistributorSnapshotIssue[];
+  warnings: DistributorSnapshotIssue[];
+  rowCount: number;
+  mergedRowCount: number;
+  offCurveCount: number;
+  totalAmount: bigint;
+};
+
+type SnapshotRecord = {
+  row: number;
+  wallet: string;
+  amount: string;
+  index: string;
+};
+
+const U64_MAX = (1n << 64n) - 1n;
+const ROWS_PER_CHUNK = 2_000;
+const WALLET_COLUMNS = ["wallet", "address", "owner", "account", "recipient", "claimant"];
+const AMOUNT_COLUMNS = ["amount", "balance", "tokens", "value", "allocation"];
+const INDEX_COLUMNS = ["index", "claim_index"];
+
+function yieldToEventLoop() {
+  return new Promise<void>((resolve) => {
+    setTimeout(resolve, 0);
+  });
+}
+
+function cellToString(value: unknown) {
+  if (typeof value === "string") {
+    return value.trim();
+  }
+  if (typeof value === "number" || typeof value === "bigint") {
+    return value.toString();
+  }
+  return "";
+}
+
+function pickField(record: Record<string, unknown>, names: string[]) {
+  const key = Object.keys(record).find((candidate) =>
+    names.includes(candidate.trim().toLowerCase())
+  );
+  return key === undefined ? "" : cellToString(record[key]);
+}
+
+function findColumn(header: string[], names: string[]) {
+  return header.findIndex((cell) => names.includes(cell.trim().toLowerCase()));
+}
+
+function readCsvRecords(text: string): SnapshotRecord[] {
+  const rows = parseCsvRecords(text).map((record) => ({
+    line: record.line,
+    // Pasted `wallet amount` lines arrive as a single whitespace-separated cell.
+    cells:
+      record.cells.length === 1
+        ? record.cells[0].trim().split(/\s+/)
+        : record.cells.map((cell) => cell.trim())
+  }));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].cells;
+  let walletColumn = findColumn(header, WALLET_COLUMNS);
+  let amountColumn = findColumn(header, AMOUNT_COLUMNS);
+  let indexColumn = findColumn(header, INDEX_COLUMNS);
+  let startRow = 0;
+  if (walletColumn >= 0 && amountColumn >= 0) {
+    startRow = 1;
+  } else {
+    walletColumn = 0;
+    amountColumn = 1;
+    indexColumn = 2;
+    if (!isPublicKey(header[0] ?? "") && !/^\d/.test(header[1] ?? "")) {
+      startRow = 1;
+    }
+  }
+
+  const records: SnapshotRecord[] = [];
+  for (let index = startRow; index < rows.length; index += 1) {
+    const { line, cells } = rows[index];
+    if ((cells[0] ?? "").startsWith("#")) {
+      continue;
+    }
+    records.push({
+      row: line,
+      wallet: cells[walletColumn] ?? "",
+      amount: cells[amountColumn] ?? "",
+      index: indexColumn >= 0 ? cells[indexColumn] ?? "" : ""
+    });
+  }
+  return records;
+}
+
+/**
+ * Accepts an array of `{ wallet, amount, index? }` objects or `[wallet, amount,
+ * index?]` tuples (optionally under `allocations` or `claims`), or a plain
+ * `{ [wallet]: amount }` map.
+ */
+function readJsonRecords(text: string): SnapshotRecord[] {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(text);
+  } catch {
+    throw new Error("Snapshot file is not valid JSON.");
+  }
+
+  let entries: unknown[];
+  if (Array.isArray(payload)) {
+    entries = payload;
+  } else if (payload && typeof payload === "object") {
+    const record = payload as Record<string, unknown>;
+    const nested = record.allocations ?? record.claims;
+    entries = Array.isArray(nested)
+      ? nested
+      : Object.entries(record).map(([wallet, amount]) => [wallet, amount]);
+  } else {
+    throw new Error("Snapshot JSON must be an array or object of allocations.");
+  }
+
+  return entries.map((entry, index) => {
+    if (Array.isArray(entry)) {
+      return {
+        row: index + 1,
+        wallet: cellToString(entry[0]),
+        amount: cellToString(entry[1]),
+        index: cellToString(entry[2])
+      };
+    }
+    const record = entry && typeof entry === "object" ? (entry as Record<string, unknown>) : {};
+    return {
+      row: index + 1,
+      wallet: pickField(record, WALLET_COLUMNS),
+      amount: pickField(record, AMOUNT_COLUMNS),
+      index: pickField(record, INDEX_COLUMNS)
+    };
+  });
+}
+
+function isPublicKey(value: string) {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function detectDistributorSnapshotFormat(
+  text: string,
+  fileName?: string
+): DistributorSnapshotFormat {
+  if (fileName) {
+    const lowerName = fileName.toLowerCase();
+    if (lowerName.endsWith(".json")) {
+      return "json";
+    }
+    if (lowerName.endsWith(".csv") || lowerName.endsWith(".txt")) {
+      return "csv";
+    }
+  }
+  return /^\s*[[{]/.test(text) ? "json" : "csv";
+}
+
+/**
+ * Parses a distributor allocation snapshot (CSV, pasted lines or JSON) into
+ * merkle allocations. Amounts are token units scaled by `decimals`. Rows for
+ * the same wallet without an explicit index are merged into one allocation;
+ * rows with an explicit index stay separate claims. Invalid rows are reported
+ * per row rather than failing the whole import, and the work yields to the
+ * event loop between chunks so large files don't lock the page.
+ */
+export async function parseDistributorSnapshot(
+  text: string,
+  decimals: number,
+  options: {
+    fileName?: string;
+    onProgress?: (processed: number, total: number) => void;
+  } = {}
+): Promise<ParsedDistributorSnapshot> {
+  const format = detectDistributorSnapshotFormat(text, options.fileName);
+  const records = format === "json" ? readJsonRecords(text) : readCsvRecords(text);
+
+  const allocations: DistributorSnapshotAllocation[] = [];
+  const errors: DistributorSnapshotIssue[] = [];
+  const warnings: DistributorSnapshotIssue[] = [];
+  const mergedByWallet = new Map<string, { position: number; row: number }>();
+  const explicitIndexRows = new Map<string, number>();
+  let mergedRowCount = 0;
+  let offCurveCount = 0;
+  let totalAmount = 0n;
+
+  for (let position = 0; position < records.length; position += 1) {
+    if (position > 0 && position % ROWS_PER_CHUNK === 0) {
+      options.onProgress?.(position, records.length);
+      await yieldToEventLoop();
+    }
+
+    const record = records[position];
+    if (!isPublicKey(record.wallet)) {
+      errors.push({
+        row: record.row,
+        message: record.wallet ? `Invalid wallet address "${record.wallet}".` : "Missing wallet."
+      });
+      continue;
+    }
+    let amount: bigint;
+    try {
+      amount = parseTokenAmount(record.amount, decimals);
+    } catch (unknownError) {
+      errors.push({
+        row: record.row,
+        message: unknownError instanceof Error ? unknownError.message : "Invalid amount."
+      });
+      continue;
+    }
+    if (amount <= 0n) {
+      errors.push({ row: record.row, message: "Amount must be greater than zero." });
+      continue;
+    }
+    if (record.index && !/^\d+$/.test(record.index)) {
+      errors.push({
+        row: record.row,
+        message: `Index "${record.index}" must be a non-negative integer.`
+      });
+      continue;
+    }
+
+    const wallet = new PublicKey(record.wallet);
+    const walletAddress = wallet.toBase58();
+    const explicitIndex = record.index ? BigInt(record.index) : null;
+
+    if (explicitIndex !== null) {
+      const indexKey = `${walletAddress}:${explicitIndex.toString()}`;
+      const firstRow = explicitIndexRows.get(indexKey);
+      if (firstRow !== undefined) {
+        errors.push({
+          row: record.row,
+          message: `Index ${explicitIndex.toString()} for ${walletAddress} is already used on row ${firstRow}.`
+        });
+        continue;
+      }
+      explicitIndexRows.set(indexKey, record.row);
+    } else {
+      const existing = mergedByWallet.get(walletAddress);
+      if (existing) {
+        const merged = allocations[existing.position].amount + amount;
+        if (merged > U64_MAX) {
+          errors.push({ row: record.row, message: "Aggregated amount exceeds u64." });
+          continue;
+        }
+        allocations[existing.position].amount = merged;
+        totalAmount += amount;
+        mergedRowCount += 1;
+        warnings.push({
+          row: record.row,
+          message: `Duplicate of row ${existing.row} for ${walletAddress}; amounts aggregated.`
+        });
+        continue;
+      }
+    }
+
+    if (amount > U64_MAX) {
+      errors.push({ row: record.row, message: "Amount exceeds u64." });
+      continue;
+    }
+    if (!PublicKey.isOnCurve(wallet.toBytes())) {
+      offCurveCount += 1;
+      warnings.push({
+        row: record.row,
+        message: `${walletAddress} is off-curve (PDA or program account); only its owning program can sign the claim.`
+      });
+    }
+    if (explicitIndex === null) {
+      mergedByWallet.set(walletAddress, { position: allocations.length, row: record.row });
+    }
+    allocations.push({ wallet, amount, explicitIndex });
+    totalAmount += amount;
+  }
+  options.onProgress?.(records.length, records.length);
+
+  if (allocations.length === 0 && errors.length === 0) {
+    errors.push({ row: 0, message: "Add at least one wallet,amount row." });
+  }
+  return {
+    format,
+    allocations,
+    errors,
+    warnings,
+    rowCount: records.length,
+    mergedRowCount,
+    offCurveCount,
+    totalAmount
+  };
+}
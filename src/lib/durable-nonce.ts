@@ -0,0 +1,103 @@
+import {
+  type Connection,
+  NONCE_ACCOUNT_LENGTH,
+  NonceAccount,
+  PublicKey,
+  SystemProgram,
+  type Transaction,
+  type TransactionInstruction
+} from "@solana/web3.js";
+
+export type DurableNonceState = {
+  address: PublicKey;
+  authority: PublicKey;
+  nonce: string;
+  // Slot the nonce was read at; confirmation waits until the RPC has caught up.
+  minContextSlot: number;
+};
+
+export type NonceAccountRow = {
+  address: string;
+  authority: string;
+  nonce: string;
+  lamports: number;
+  lamportsPerSignature: number;
+};
+
+// Nonce account: version u32, state u32, then the authority.
+const NONCE_AUTHORITY_OFFSET = 8;
+
+export async function fetchDurableNonce(
+  connection: Connection,
+  address: PublicKey
+): Promise<DurableNonceState> {
+  const { context, value: nonceAccount } = await connection.getNonceAndContext(
+    address,
+    "confirmed"
+  );
+  if (!nonceAccount) {
+    throw new Error(`Nonce account not found or not initialized: ${address.toBase58()}`);
+  }
+  return {
+    address,
+    authority: nonceAccount.authorizedPubkey,
+    nonce: nonceAccount.nonce,
+    minContextSlot: context.slot
+  };
+}
+
+export async function fetchNonceAccountsByAuthority(
+  connection: Connection,
+  authority: PublicKey
+): Promise<NonceAccountRow[]> {
+  const accounts = await connection.getProgramAccounts(SystemProgram.programId, {
+    commitment: "confirmed",
+    filters: [
+      { dataSize: NONCE_ACCOUNT_LENGTH },
+      { memcmp: { offset: NONCE_AUTHORITY_OFFSET, bytes: authority.toBase58() } }
+    ]
+  });
+
+  return accounts
+    .map((account) => {
+      try {
+        const nonceAccount = NonceAccount.fromAccountData(account.account.data);
+        return {
+          address: account.pubkey.toBase58(),
+          authority: nonceAccount.authorizedPubkey.toBase58(),
+          nonce: nonceAccount.nonce,
+          lamports: account.account.lamports,
+          lamportsPerSignature: nonceAccount.feeCalculator.lamportsPerSignature
+        } satisfies NonceAccountRow;
+      } catch {
+        return null;
+      }
+    })
+    .filter((row): row is NonceAccountRow => row !== null)
+    .sort((left, right) => left.address.localeCompare(right.address));
+}
+
+export function buildNonceAdvanceInstruction(durableNonce: DurableNonceState) {
+  return SystemProgram.nonceAdvance({
+    noncePubkey: durableNonce.address,
+    authorizedPubkey: durableNonce.authority
+  });
+}
+
+// The runtime only accepts a durable nonce when the advance is the first instruction.
+export function withDurableNonce(
+  instructions: TransactionInstruction[],
+  durableNonce: DurableNonceState
+) {
+  return [buildNonceAdvanceInstruction(durableNonce), ...instructions];
+}
+
+// Legacy transactions prepend the advance themselves when nonceInfo is set.
+export function applyDurableNonce(transaction: Transaction, durableNonce: DurableNonceState) {
+  transaction.recentBlockhash = durableNonce.nonce;
+  transaction.lastValidBlockHeight = undefined;
+  transaction.nonceInfo = {
+    nonce: durableNonce.nonce,
+    nonceInstruction: buildNonceAdvanceInstruction(durableNonce)
+  };
+}
@@ -0,0 +1,1021 @@
+import {
+  ASSOCIATED_TOKEN_PROGRAM_ID,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID
+} from "@solana/spl-token";
+import {
+  MPL_TOKEN_METADATA_PROGRAM_ID,
+  getCreateMasterEditionV3InstructionDataSerializer,
+  getCreateMetadataAccountV3InstructionDataSerializer,
+  getUpdateMetadataAccountV2InstructionDataSerializer
+} from "@metaplex-foundation/mpl-token-metadata";
+import { unwrapOption } from "@metaplex-foundation/umi";
+import {
+  ComputeBudgetProgram,
+  PublicKey,
+  StakeProgram,
+  SystemProgram,
+  type TransactionInstruction
+} from "@solana/web3.js";
+import { GRAPE_DISTRIBUTOR_PROGRAM_ID } from "grape-distributor-sdk";
+import { Buffer } from "buffer";
+import { MEMO_PROGRAM_ID } from "@/lib/memo";
+import { DEFAULT_SPL_GOVERNANCE_PROGRAM_ID } from "@/lib/spl-governance";
+
+export type DecodedAccount = {
+  name: string;
+  address: string;
+  isSigner: boolean;
+  isWritable: boolean;
+};
+
+export type DecodedArgument = {
+  name: string;
+  value: string;
+};
+
+export type DecodedInstruction = {
+  programId: string;
+  programLabel: string;
+  name: string;
+  decoded: boolean;
+  accounts: DecodedAccount[];
+  args: DecodedArgument[];
+  dataLength: number;
+};
+
+type DataReader = ReturnType<typeof createDataReader>;
+
+type InstructionLayout = {
+  name: string;
+  accounts: string[];
+  // Name used for accounts past the named ones, e.g. multisig signers.
+  extraAccounts?: string;
+  args?: (reader: DataReader) => DecodedArgument[];
+};
+
+type ProgramDecoder = {
+  label: string;
+  decode: (reader: DataReader) => InstructionLayout | null;
+};
+
+export const UNKNOWN_PROGRAM_LABEL = "Unknown Program";
+
+const MEMO_V1_PROGRAM_ID = new PublicKey("Memo1UhkJRfHyvLMcVucJwxXeuD728EqVDDwQDxFMNo");
+const UPGRADEABLE_LOADER_PROGRAM_ID = new PublicKey(
+  "BPFLoaderUpgradeab1e11111111111111111111111"
+);
+const RAW_DATA_PREVIEW_BYTES = 64;
+
+function createDataReader(data: Buffer) {
+  let offset = 0;
+  const take = (length: number) => {
+    if (offset + length > data.length) {
+      throw new RangeError("Instruction data is shorter than its layout.");
+    }
+    const slice = data.subarray(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+  const reader = {
+    data,
+    remaining: () => data.length - offset,
+    skip: (length: number) => {
+      take(length);
+    },
+    u8: () => take(1).readUInt8(0),
+    u16: () => take(2).readUInt16LE(0),
+    i16: () => take(2).readInt16LE(0),
+    u32: () => take(4).readUInt32LE(0),
+    u64: () => take(8).readBigUInt64LE(0).toString(),
+    i64: () => take(8).readBigInt64LE(0).toString(),
+    bool: () => take(1)[0] !== 0,
+    pubkey: () => new PublicKey(take(32)).toBase58(),
+    bytes: (length: number) => take(length),
+    // Borsh strings carry a u32 length; bincode (System/Stake) strings a u64 length.
+    string: () => take(reader.u32()).toString("utf8"),
+    bincodeString: () => take(Number(take(8).readBigUInt64LE(0))).toString("utf8"),
+    // SPL Token COption<Pubkey>: u8 tag followed by the key when present.
+    optionPubkey: () => (reader.u8() === 1 ? reader.pubkey() : "none"),
+    // Token-2022 OptionalNonZeroPubkey: the all-zero key means none.
+    nonZeroPubkey: () => {
+      const key = reader.pubkey();
+      return key === PublicKey.default.toBase58() ? "none" : key;
+    }
+  };
+  return reader;
+}
+
+function arg(name: string, value: string | number | boolean): DecodedArgument {
+  return { name, value: String(value) };
+}
+
+function layout(
+  name: string,
+  accounts: string[] = [],
+  args?: (reader: DataReader) => DecodedArgument[],
+  extraAccounts?: string
+): InstructionLayout {
+  return { name, accounts, args, extraAccounts };
+}
+
+function indexedDecoder(
+  label: string,
+  readIndex: (reader: DataReader) => number,
+  layouts: Record<number, InstructionLayout>
+): ProgramDecoder {
+  return {
+    label,
+    decode: (reader) => layouts[readIndex(reader)] ?? null
+  };
+}
+
+function matchDiscriminator(
+  reader: DataReader,
+  layouts: Array<{ discriminator: number[]; layout: InstructionLayout }>
+) {
+  const match = layouts.find(({ discriminator }) =>
+    discriminator.every((byte, index) => reader.data[index] === byte)
+  );
+  if (!match) {
+    return null;
+  }
+  reader.skip(match.discriminator.length);
+  return match.layout;
+}
+
+const amountArgs = (reader: DataReader) => [arg("amount", reader.u64())];
+const amountDecimalsArgs = (reader: DataReader) => [
+  arg("amount", reader.u64()),
+  arg("decimals", reader.u8())
+];
+const lamportsArgs = (reader: DataReader) => [arg("lamports", reader.u64())];
+
+const SYSTEM_LAYOUTS: Record<number, InstructionLayout> = {
+  0: layout("CreateAccount", ["funder", "newAccount"], (reader) => [
+    arg("lamports", reader.u64()),
+    arg("space", reader.u64()),
+    arg("owner", reader.pubkey())
+  ]),
+  1: layout("Assign", ["account"], (reader) => [arg("owner", reader.pubkey())]),
+  2: layout("Transfer", ["from", "to"], lamportsArgs),
+  3: layout("CreateAccountWithSeed", ["funder", "createdAccount", "baseAccount"], (reader) => [
+    arg("base", reader.pubkey()),
+    arg("seed", reader.bincodeString()),
+    arg("lamports", reader.u64()),
+    arg("space", reader.u64()),
+    arg("owner", reader.pubkey())
+  ]),
+  4: layout("AdvanceNonceAccount", ["nonceAccount", "recentBlockhashesSysvar", "nonceAuthority"]),
+  5: layout(
+    "WithdrawNonceAccount",
+    ["nonceAccount", "recipient", "recentBlockhashesSysvar", "rentSysvar", "nonceAuthority"],
+    lamportsArgs
+  ),
+  6: layout(
+    "InitializeNonceAccount",
+    ["nonceAccount", "recentBlockhashesSysvar", "rentSysvar"],
+    (reader) => [arg("authority", reader.pubkey())]
+  ),
+  7: layout("AuthorizeNonceAccount", ["nonceAccount", "nonceAuthority"], (reader) => [
+    arg("newAuthority", reader.pubkey())
+  ]),
+  8: layout("Allocate", ["account"], (reader) => [arg("space", reader.u64())]),
+  9: layout("AllocateWithSeed", ["account", "baseAccount"], (reader) => [
+    arg("base", reader.pubkey()),
+    arg("seed", reader.bincodeString()),
+    arg("space", reader.u64()),
+    arg("owner", reader.pubkey())
+  ]),
+  10: layout("AssignWithSeed", ["account", "baseAccount"], (reader) => [
+    arg("base", reader.pubkey()),
+    arg("seed", reader.bincodeString()),
+    arg("owner", reader.pubkey())
+  ]),
+  11: layout("TransferWithSeed", ["from", "baseAccount", "to"], (reader) => [
+    arg("lamports", reader.u64()),
+    arg("fromSeed", reader.bincodeString()),
+    arg("fromOwner", reader.pubkey())
+  ]),
+  12: layout("UpgradeNonceAccount", ["nonceAccount"])
+};
+
+const TOKEN_AUTHORITY_TYPES = [
+  "MintTokens",
+  "FreezeAccount",
+  "AccountOwner",
+  "CloseAccount",
+  "TransferFeeConfig",
+  "WithheldWithdraw",
+  "CloseMint",
+  "InterestRate",
+  "PermanentDelegate",
+  "ConfidentialTransferMint",
+  "TransferHookProgramId",
+  "ConfidentialTransferFeeConfig",
+  "MetadataPointer",
+  "GroupPointer",
+  "GroupMemberPointer"
+];
+const ACCOUNT_STATES = ["Uninitialized", "Initialized", "Frozen"];
+
+const initializeMintArgs = (reader: DataReader) => [
+  arg("decimals", reader.u8()),
+  arg("mintAuthority", reader.pubkey()),
+  arg("freezeAuthority", reader.optionPubkey())
+];
+
+const TOKEN_LAYOUTS: Record<number, InstructionLayout> = {
+  0: layout("InitializeMint", ["mint", "rentSysvar"], initializeMintArgs),
+  1: layout("InitializeAccount", ["account", "mint", "owner", "rentSysvar"]),
+  2: layout("InitializeMultisig", ["multisig", "rentSysvar"], (reader) => [arg("m", reader.u8())], "signer"),
+  3: layout("Transfer", ["source", "destination", "authority"], amountArgs, "signer"),
+  4: layout("Approve", ["source", "delegate", "owner"], amountArgs, "signer"),
+  5: layout("Revoke", ["source", "owner"], undefined, "signer"),
+  6: layout(
+    "SetAuthority",
+    ["account", "currentAuthority"],
+    (reader) => {
+      const authorityType = reader.u8();
+      return [
+        arg("authorityType", TOKEN_AUTHORITY_TYPES[authorityType] ?? authorityType),
+        arg("newAuthority", reader.optionPubkey())
+      ];
+    },
+    "signer"
+  ),
+  7: layout("MintTo", ["mint", "destination", "mintAuthority"], amountArgs, "signer"),
+  8: layout("Burn", ["account", "mint", "owner"], amountArgs, "signer"),
+  9: layout("CloseAccount", ["account", "destination", "owner"], undefined, "signer"),
+  10: layout("FreezeAccount", ["account", "mint", "freezeAuthority"], undefined, "signer"),
+  11: layout("ThawAccount", ["account", "mint", "freezeAuthority"], undefined, "signer"),
+  12: layout(
+    "TransferChecked",
+    ["source", "mint", "destination", "authority"],
+    amountDecimalsArgs,
+    "signer"
+  ),
+  13: layout("ApproveChecked", ["source", "mint", "delegate", "owner"], amountDecimalsArgs, "signer"),
+  14: layout("MintToChecked", ["mint", "destination", "mintAuthority"], amountDecimalsArgs, "signer"),
+  15: layout("BurnChecked", ["account", "mint", "owner"], amountDecimalsArgs, "signer"),
+  16: layout("InitializeAccount2", ["account", "mint", "rentSysvar"], (reader) => [
+    arg("owner", reader.pubkey())
+  ]),
+  17: layout("SyncNative", ["account"]),
+  18: layout("InitializeAccount3", ["account", "mint"], (reader) => [arg("owner", reader.pubkey())]),
+  19: layout("InitializeMultisig2", ["multisig"], (reader) => [arg("m", reader.u8())], "signer"),
+  20: layout("InitializeMint2", ["mint"], initializeMintArgs),
+  21: layout("GetAccountDataSize", ["mint"]),
+  22: layout("InitializeImmutableOwner", ["account"]),
+  23: layout("AmountToUiAmount", ["mint"], amountArgs),
+  24: layout("UiAmountToAmount", ["mint"], (reader) => [
+    arg("uiAmount", reader.bytes(reader.remaining()).toString("utf8"))
+  ])
+};
+
+const pointerLayouts = (pointer: string, field: string): Record<number, InstructionLayout> => ({
+  0: layout(`Initialize${pointer}`, ["mint"], (reader) => [
+    arg("authority", reader.nonZeroPubkey()),
+    arg(field, reader.nonZeroPubkey())
+  ]),
+  1: layout(`Update${pointer}`, ["mint", "authority"], (reader) => [
+    arg(field, reader.nonZeroPubkey())
+  ], "signer")
+});
+
+const toggleLayouts = (feature: string): Record<number, InstructionLayout> => ({
+  0: layout(`Enable${feature}`, ["account", "owner"], undefined, "signer"),
+  1: layout(`Disable${feature}`, ["account", "owner"], undefined, "signer")
+});
+
+// Token-2022 extension instructions carry a second u8 selecting the sub-instruction.
+const TOKEN_2022_EXTENSION_LAYOUTS: Record<number, Record<number, InstructionLayout>> = {
+  26: {
+    0: layout("InitializeTransferFeeConfig", ["mint"], (reader) => {
+      // Authorities are encoded as optional keys; the fee fields are the last 10 bytes.
+      reader.skip(reader.remaining() - 10);
+      return [arg("transferFeeBasisPoints", reader.u16()), arg("maximumFee", reader.u64())];
+    }),
+    1: layout(
+      "TransferCheckedWithFee",
+      ["source", "mint", "destination", "authority"],
+      (reader) => [...amountDecimalsArgs(reader), arg("fee", reader.u64())],
+      "signer"
+    ),
+    2: layout(
+      "WithdrawWithheldTokensFromMint",
+      ["mint", "destination", "withdrawWithheldAuthority"],
+      undefined,
+      "signer"
+    ),
+    3: layout(
+      "WithdrawWithheldTokensFromAccounts",
+      ["mint", "destination", "withdrawWithheldAuthority"],
+      (reader) => [arg("numTokenAccounts", reader.u8())],
+      "source"
+    ),
+    4: layout("HarvestWithheldTokensToMint", ["mint"], undefined, "source"),
+    5: layout(
+      "SetTransferFee",
+      ["mint", "transferFeeConfigAuthority"],
+      (reader) => [arg("transferFeeBasisPoints", reader.u16()), arg("maximumFee", reader.u64())],
+      "signer"
+    )
+  },
+  28: {
+    0: layout("InitializeDefaultAccountState", ["mint"], (reader) => [
+      arg("state", ACCOUNT_STATES[reader.u8()] ?? "unknown")
+    ]),
+    1: layout("UpdateDefaultAccountState", ["mint", "freezeAuthority"], (reader) => [
+      arg("state", ACCOUNT_STATES[reader.u8()] ?? "unknown")
+    ], "signer")
+  },
+  30: toggleLayouts("RequiredMemoTransfers"),
+  33: {
+    0: layout("InitializeInterestBearingMint", ["mint"], (reader) => [
+      arg("rateAuthority", reader.nonZeroPubkey()),
+      arg("rateBasisPoints", reader.i16())
+    ]),
+    1: layout("UpdateInterestRate", ["mint", "rateAuthority"], (reader) => [
+      arg("rateBasisPoints", reader.i16())
+    ], "signer")
+  },
+  34: toggleLayouts("CpiGuard"),
+  36: pointerLayouts("TransferHook", "programId"),
+  39: pointerLayouts("MetadataPointer", "metadataAddress"),
+  40: pointerLayouts("GroupPointer", "groupAddress"),
+  41: pointerLayouts("GroupMemberPointer", "memberAddress")
+};
+
+const TOKEN_2022_LAYOUTS: Record<number, InstructionLayout> = {
+  ...TOKEN_LAYOUTS,
+  25: layout("InitializeMintCloseAuthority", ["mint"], (reader) => [
+    arg("closeAuthority", reader.optionPubkey())
+  ]),
+  27: layout("ConfidentialTransferExtension"),
+  29: layout("Reallocate", ["account", "payer", "systemProgram", "owner"], undefined, "signer"),
+  31: layout("CreateNativeMint", ["payer", "nativeMint", "systemProgram"]),
+  32: layout("InitializeNonTransferableMint", ["mint"]),
+  35: layout("InitializePermanentDelegate", ["mint"], (reader) => [
+    arg("delegate", reader.pubkey())
+  ]),
+  37: layout("ConfidentialTransferFeeExtension"),
+  38: layout("WithdrawExcessLamports", ["source", "destination", "authority"], undefined, "signer")
+};
+
+// Token metadata interface instructions, served by Token-2022 for embedded metadata.
+const TOKEN_METADATA_INTERFACE_LAYOUTS = [
+  {
+    discriminator: [210, 225, 30, 162, 88, 184, 77, 141],
+    layout: layout("InitializeTokenMetadata", ["metadata", "updateAuthority", "mint", "mintAuthority"], (reader) => [
+      arg("name", reader.string()),
+      arg("symbol", reader.string()),
+      arg("uri", reader.string())
+    ])
+  },
+  {
+    discriminator: [221, 233, 49, 45, 181, 202, 220, 200],
+    layout: layout("UpdateTokenMetadataField", ["metadata", "updateAuthority"], (reader) => {
+      const field = reader.u8();
+      const fieldName = ["name", "symbol", "uri"][field] ?? reader.string();
+      return [arg("field", fieldName), arg("value", reader.string())];
+    })
+  },
+  {
+    discriminator: [234, 18, 32, 56, 89, 141, 37, 181],
+    layout: layout("RemoveTokenMetadataKey", ["metadata", "updateAuthority"], (reader) => [
+      arg("idempotent", reader.bool()),
+      arg("key", reader.string())
+    ])
+  },
+  {
+    discriminator: [215, 228, 166, 228, 84, 100, 86, 123],
+    layout: layout("UpdateTokenMetadataAuthority", ["metadata", "updateAuthority"], (reader) => {
+      const newAuthority = reader.pubkey();
+      return [
+        arg(
+          "newAuthority",
+          newAuthority === SystemProgram.programId.toBase58() ? "none" : newAuthority
+        )
+      ];
+    })
+  },
+  {
+    discriminator: [250, 166, 180, 250, 13, 12, 184, 70],
+    layout: layout("EmitTokenMetadata", ["metadata"])
+  }
+];
+
+function decodeToken2022(reader: DataReader) {
+  const metadataLayout = matchDiscriminator(reader, TOKEN_METADATA_INTERFACE_LAYOUTS);
+  if (metadataLayout) {
+    return metadataLayout;
+  }
+  const tag = reader.u8();
+  const extensionLayouts = TOKEN_2022_EXTENSION_LAYOUTS[tag];
+  if (extensionLayouts) {
+    return extensionLayouts[reader.u8()] ?? null;
+  }
+  return TOKEN_2022_LAYOUTS[tag] ?? null;
+}
+
+function decodeAssociatedToken(reader: DataReader) {
+  const accounts = [
+    "payer",
+    "associatedAccount",
+    "owner",
+    "mint",
+    "systemProgram",
+    "tokenProgram"
+  ];
+  if (reader.remaining() === 0) {
+    return layout("Create", accounts);
+  }
+  const index = reader.u8();
+  if (index === 2) {
+    return layout("RecoverNested", [
+      "nestedAccount",
+      "nestedMint",
+      "destinationAccount",
+      "ownerAssociatedAccount",
+      "ownerMint",
+      "wallet",
+      "tokenProgram"
+    ]);
+  }
+  return index === 0 ? layout("Create", accounts) : index === 1 ? layout("CreateIdempotent", accounts) : null;
+}
+
+function trimMetaplexString(value: string) {
+  return value.replace(/\0+$/, "");
+}
+
+// Instruction names in the mpl-token-metadata enum order.
+const METAPLEX_INSTRUCTION_NAMES = [
+  "CreateMetadataAccount",
+  "UpdateMetadataAccount",
+  "DeprecatedCreateMasterEdition",
+  "DeprecatedMintNewEditionFromMasterEditionViaPrintingToken",
+  "UpdatePrimarySaleHappenedViaToken",
+  "DeprecatedSetReservationList",
+  "DeprecatedCreateReservationList",
+  "SignMetadata",
+  "DeprecatedMintPrintingTokensViaToken",
+  "DeprecatedMintPrintingTokens",
+  "CreateMasterEdition",
+  "MintNewEditionFromMasterEditionViaToken",
+  "ConvertMasterEditionV1ToV2",
+  "MintNewEditionFromMasterEditionViaVaultProxy",
+  "PuffMetadata",
+  "UpdateMetadataAccountV2",
+  "CreateMetadataAccountV2",
+  "CreateMasterEditionV3",
+  "VerifyCollection",
+  "Utilize",
+  "ApproveUseAuthority",
+  "RevokeUseAuthority",
+  "UnverifyCollection",
+  "ApproveCollectionAuthority",
+  "RevokeCollectionAuthority",
+  "SetAndVerifyCollection",
+  "FreezeDelegatedAccount",
+  "ThawDelegatedAccount",
+  "RemoveCreatorVerification",
+  "BurnNft",
+  "VerifySizedCollectionItem",
+  "UnverifySizedCollectionItem",
+  "SetAndVerifySizedCollectionItem",
+  "CreateMetadataAccountV3",
+  "SetCollectionSize",
+  "SetTokenStandard",
+  "BubblegumSetCollectionSize",
+  "BurnEditionNft",
+  "CreateEscrowAccount",
+  "CloseEscrowAccount",
+  "TransferOutOfEscrow",
+  "Burn",
+  "Create",
+  "Mint",
+  "Delegate",
+  "Revoke",
+  "Lock",
+  "Unlock",
+  "Migrate",
+  "Transfer",
+  "Update",
+  "Use",
+  "Verify",
+  "Unverify",
+  "Collect",
+  "Print",
+  "Resize",
+  "CloseAccounts"
+];
+
+const METAPLEX_LAYOUTS: Record<number, InstructionLayout> = {
+  15: layout("UpdateMetadataAccountV2", ["metadata", "updateAuthority"], (reader) => {
+    const [value] = getUpdateMetadataAccountV2InstructionDataSerializer().deserialize(reader.data);
+    const data = unwrapOption(value.data);
+    const newUpdateAuthority = unwrapOption(value.newUpdateAuthority);
+    const primarySaleHappened = unwrapOption(value.primarySaleHappened);
+    const isMutable = unwrapOption(value.isMutable);
+    return [
+      ...(data
+        ? [
+            arg("name", trimMetaplexString(data.name)),
+            arg("symbol", trimMetaplexString(data.symbol)),
+            arg("uri", trimMetaplexString(data.uri)),
+            arg("sellerFeeBasisPoints", data.sellerFeeBasisPoints)
+          ]
+        : []),
+      ...(newUpdateAuthority ? [arg("newUpdateAuthority", newUpdateAuthority)] : []),
+      ...(primarySaleHappened !== null ? [arg("primarySaleHappened", primarySaleHappened)] : []),
+      ...(isMutable !== null ? [arg("isMutable", isMutable)] : [])
+    ];
+  }),
+  17: layout(
+    "CreateMasterEditionV3",
+    [
+      "edition",
+      "mint",
+      "updateAuthority",
+      "mintAuthority",
+      "payer",
+      "metadata",
+      "tokenProgram",
+      "systemProgram",
+      "rentSysvar"
+    ],
+    (reader) => {
+      const [value] = getCreateMasterEditionV3InstructionDataSerializer().deserialize(reader.data);
+      const maxSupply = unwrapOption(value.maxSupply);
+      return [arg("maxSupply", maxSupply === null ? "unlimited" : maxSupply.toString())];
+    }
+  ),
+  18: layout("VerifyCollection", [
+    "metadata",
+    "collectionAuthority",
+    "payer",
+    "collectionMint",
+    "collectionMetadata",
+    "collectionMasterEdition",
+    "collectionAuthorityRecord"
+  ]),
+  22: layout("UnverifyCollection", [
+    "metadata",
+    "collectionAuthority",
+    "collectionMint",
+    "collectionMetadata",
+    "collectionMasterEdition",
+    "collectionAuthorityRecord"
+  ]),
+  23: layout("ApproveCollectionAuthority", [
+    "collectionAuthorityRecord",
+    "newCollectionAuthority",
+    "updateAuthority",
+    "payer",
+    "metadata",
+    "mint",
+    "systemProgram",
+    "rentSysvar"
+  ]),
+  24: layout("RevokeCollectionAuthority", [
+    "collectionAuthorityRecord",
+    "delegateAuthority",
+    "revokeAuthority",
+    "metadata",
+    "mint"
+  ]),
+  25: layout("SetAndVerifyCollection", [
+    "metadata",
+    "collectionAuthority",
+    "payer",
+    "updateAuthority",
+    "collectionMint",
+    "collectionMetadata",
+    "collectionMasterEdition",
+    "collectionAuthorityRecord"
+  ]),
+  29: layout("BurnNft", [
+    "metadata",
+    "owner",
+    "mint",
+    "tokenAccount",
+    "masterEdition",
+    "splTokenProgram",
+    "collectionMetadata"
+  ]),
+  33: layout(
+    "CreateMetadataAccountV3",
+    ["metadata", "mint", "mintAuthority", "payer", "updateAuthority", "systemProgram", "rentSysvar"],
+    (reader) => {
+      const [value] = getCreateMetadataAccountV3InstructionDataSerializer().deserialize(reader.data);
+      return [
+        arg("name", trimMetaplexString(value.data.name)),
+        arg("symbol", trimMetaplexString(value.data.symbol)),
+        arg("uri", trimMetaplexString(value.data.uri)),
+        arg("sellerFeeBasisPoints", value.data.sellerFeeBasisPoints),
+        arg("isMutable", value.isMutable)
+      ];
+    }
+  )
+};
+
+function decodeMetaplex(reader: DataReader) {
+  const index = reader.u8();
+  const name = METAPLEX_INSTRUCTION_NAMES[index];
+  return METAPLEX_LAYOUTS[index] ?? (name ? layout(name) : null);
+}
+
+const STAKE_AUTHORIZE_TYPES = ["Staker", "Withdrawer"];
+
+const STAKE_LAYOUTS: Record<number, InstructionLayout> = {
+  0: layout("Initialize", ["stakeAccount", "rentSysvar"], (reader) => [
+    arg("staker", reader.pubkey()),
+    arg("withdrawer", reader.pubkey()),
+    arg("lockupUnixTimestamp", reader.i64()),
+    arg("lockupEpoch", reader.u64()),
+    arg("lockupCustodian", reader.pubkey())
+  ]),
+  1: layout(
+    "Authorize",
+    ["stakeAccount", "clockSysvar", "authority", "lockupCustodian"],
+    (reader) => [
+      arg("newAuthority", reader.pubkey()),
+      arg("stakeAuthorize", STAKE_AUTHORIZE_TYPES[reader.u32()] ?? "unknown")
+    ]
+  ),
+  2: layout("DelegateStake", [
+    "stakeAccount",
+    "voteAccount",
+    "clockSysvar",
+    "stakeHistorySysvar",
+    "stakeConfig",
+    "stakeAuthority"
+  ]),
+  3: layout("Split", ["stakeAccount", "splitStakeAccount", "stakeAuthority"], lamportsArgs),
+  4: layout(
+    "Withdraw",
+    [
+      "stakeAccount",
+      "recipient",
+      "clockSysvar",
+      "stakeHistorySysvar",
+      "withdrawAuthority",
+      "lockupCustodian"
+    ],
+    lamportsArgs
+  ),
+  5: layout("Deactivate", ["stakeAccount", "clockSysvar", "stakeAuthority"]),
+  6: layout("SetLockup", ["stakeAccount", "lockupAuthority"]),
+  7: layout("Merge", [
+    "destinationStake",
+    "sourceStake",
+    "clockSysvar",
+    "stakeHistorySysvar",
+    "stakeAuthority"
+  ]),
+  8: layout("AuthorizeWithSeed", ["stakeAccount", "authorityBase", "clockSysvar"]),
+  9: layout("InitializeChecked", ["stakeAccount", "rentSysvar", "staker", "withdrawer"]),
+  10: layout(
+    "AuthorizeChecked",
+    ["stakeAccount", "clockSysvar", "authority", "newAuthority", "lockupCustodian"],
+    (reader) => [arg("stakeAuthorize", STAKE_AUTHORIZE_TYPES[reader.u32()] ?? "unknown")]
+  ),
+  11: layout("AuthorizeCheckedWithSeed", ["stakeAccount", "authorityBase", "clockSysvar", "newAuthority"]),
+  12: layout("SetLockupChecked", ["stakeAccount", "lockupAuthority", "newLockupAuthority"]),
+  13: layout("GetMinimumDelegation"),
+  14: layout("DeactivateDelinquent", ["stakeAccount", "delinquentVote", "referenceVote"]),
+  15: layout("Redelegate", [
+    "stakeAccount",
+    "uninitializedStake",
+    "voteAccount",
+    "stakeConfig",
+    "stakeAuthority"
+  ]),
+  16: layout("MoveStake", ["sourceStake", "destinationStake", "stakeAuthority"], lamportsArgs),
+  17: layout("MoveLamports", ["sourceStake", "destinationStake", "stakeAuthority"], lamportsArgs)
+};
+
+const COMPUTE_BUDGET_LAYOUTS: Record<number, InstructionLayout> = {
+  0: layout("RequestUnitsDeprecated", [], (reader) => [
+    arg("units", reader.u32()),
+    arg("additionalFee", reader.u32())
+  ]),
+  1: layout("RequestHeapFrame", [], (reader) => [arg("bytes", reader.u32())]),
+  2: layout("SetComputeUnitLimit", [], (reader) => [arg("units", reader.u32())]),
+  3: layout("SetComputeUnitPrice", [], (reader) => [arg("microLamports", reader.u64())]),
+  4: layout("SetLoadedAccountsDataSizeLimit", [], (reader) => [arg("bytes", reader.u32())])
+};
+
+const memoDecoder: ProgramDecoder = {
+  label: "Memo Program",
+  decode: () =>
+    layout("Memo", [], (reader) => [
+      arg("memo", reader.bytes(reader.remaining()).toString("utf8"))
+    ], "signer")
+};
+
+const UPGRADEABLE_LOADER_LAYOUTS: Record<number, InstructionLayout> = {
+  0: layout("InitializeBuffer", ["buffer", "bufferAuthority"]),
+  1: layout("Write", ["buffer", "bufferAuthority"], (reader) => [
+    arg("offset", reader.u32()),
+    arg("bytes", Number(reader.u64()))
+  ]),
+  2: layout(
+    "DeployWithMaxDataLen",
+    [
+      "payer",
+      "programData",
+      "program",
+      "buffer",
+      "rentSysvar",
+      "clockSysvar",
+      "systemProgram",
+      "upgradeAuthority"
+    ],
+    (reader) => [arg("maxDataLen", reader.u64())]
+  ),
+  3: layout("Upgrade", [
+    "programData",
+    "program",
+    "buffer",
+    "spill",
+    "rentSysvar",
+    "clockSysvar",
+    "upgradeAuthority"
+  ]),
+  4: layout("SetAuthority", ["account", "currentAuthority", "newAuthority"]),
+  5: layout("Close", ["account", "recipient", "authority", "program"]),
+  6: layout("ExtendProgram", ["programData", "program", "systemProgram", "payer"], (reader) => [
+    arg("additionalBytes", reader.u32())
+  ]),
+  7: layout("SetAuthorityChecked", ["account", "currentAuthority", "newAuthority"])
+};
+
+const GOVERNANCE_VOTE_KINDS = ["Approve", "Deny", "Abstain", "Veto"];
+
+// Instruction names in the SPL Governance v3 enum order.
+const GOVERNANCE_INSTRUCTION_NAMES = [
+  "CreateRealm",
+  "DepositGoverningTokens",
+  "WithdrawGoverningTokens",
+  "SetGovernanceDelegate",
+  "CreateGovernance",
+  "CreateProgramGovernance",
+  "CreateProposal",
+  "AddSignatory",
+  "RemoveSignatory",
+  "InsertTransaction",
+  "RemoveTransaction",
+  "CancelProposal",
+  "SignOffProposal",
+  "CastVote",
+  "FinalizeVote",
+  "RelinquishVote",
+  "ExecuteTransaction",
+  "CreateMintGovernance",
+  "CreateTokenGovernance",
+  "SetGovernanceConfig",
+  "FlagTransactionError",
+  "SetRealmAuthority",
+  "SetRealmConfig",
+  "CreateTokenOwnerRecord",
+  "UpdateProgramMetadata",
+  "CreateNativeTreasury",
+  "RevokeGoverningTokens",
+  "RefundProposalDeposit",
+  "CompleteProposal",
+  "AddRequiredSignatory",
+  "RemoveRequiredSignatory"
+];
+
+const GOVERNANCE_LAYOUTS: Record<number, InstructionLayout> = {
+  1: layout(
+    "DepositGoverningTokens",
+    [
+      "realm",
+      "governingTokenHolding",
+      "governingTokenSource",
+      "governingTokenOwner",
+      "governingTokenSourceAuthority",
+      "tokenOwnerRecord",
+      "payer",
+      "systemProgram",
+      "tokenProgram",
+      "realmConfig"
+    ],
+    amountArgs
+  ),
+  2: layout("WithdrawGoverningTokens", [
+    "realm",
+    "governingTokenHolding",
+    "governingTokenDestination",
+    "governingTokenOwner",
+    "tokenOwnerRecord",
+    "tokenProgram",
+    "realmConfig"
+  ]),
+  3: layout("SetGovernanceDelegate", ["governanceAuthority", "tokenOwnerRecord"], (reader) => [
+    arg("newDelegate", reader.u8() === 1 ? reader.pubkey() : "none")
+  ]),
+  6: layout(
+    "CreateProposal",
+    [
+      "realm",
+      "proposal",
+      "governance",
+      "tokenOwnerRecord",
+      "governingTokenMint",
+      "governanceAuthority",
+      "payer",
+      "systemProgram",
+      "realmConfig",
+      "proposalDeposit"
+    ],
+    (reader) => [arg("name", reader.string()), arg("descriptionLink", reader.string())]
+  ),
+  9: layout(
+    "InsertTransaction",
+    [
+      "governance",
+      "proposal",
+      "tokenOwnerRecord",
+      "governanceAuthority",
+      "proposalTransaction",
+      "payer",
+      "systemProgram",
+      "rentSysvar"
+    ],
+    (reader) => [
+      arg("optionIndex", reader.u8()),
+      arg("index", reader.u16()),
+      arg("holdUpTime", reader.u32()),
+      arg("instructions", reader.u32())
+    ]
+  ),
+  11: layout("CancelProposal", [
+    "realm",
+    "governance",
+    "proposal",
+    "tokenOwnerRecord",
+    "governanceAuthority"
+  ]),
+  12: layout("SignOffProposal", [
+    "realm",
+    "governance",
+    "proposal",
+    "signatory",
+    "tokenOwnerRecord"
+  ]),
+  13: layout(
+    "CastVote",
+    [
+      "realm",
+      "governance",
+      "proposal",
+      "proposalOwnerRecord",
+      "voterTokenOwnerRecord",
+      "governanceAuthority",
+      "voteRecord",
+      "governingTokenMint",
+      "payer",
+      "systemProgram",
+      "realmConfig"
+    ],
+    (reader) => [arg("vote", GOVERNANCE_VOTE_KINDS[reader.u8()] ?? "unknown")]
+  ),
+  14: layout("FinalizeVote", [
+    "realm",
+    "governance",
+    "proposal",
+    "proposalOwnerRecord",
+    "governingTokenMint",
+    "realmConfig"
+  ]),
+  15: layout("RelinquishVote", [
+    "realm",
+    "governance",
+    "proposal",
+    "tokenOwnerRecord",
+    "voteRecord",
+    "governingTokenMint"
+  ]),
+  16: layout("ExecuteTransaction", ["governance", "proposal", "proposalTransaction"], undefined, "instructionAccount"),
+  23: layout("CreateTokenOwnerRecord", [
+    "realm",
+    "governingTokenOwner",
+    "tokenOwnerRecord",
+    "governingTokenMint",
+    "payer",
+    "systemProgram"
+  ]),
+  25: layout("CreateNativeTreasury", ["governance", "nativeTreasury", "payer", "systemProgram"])
+};
+
+function decodeGovernance(reader: DataReader) {
+  const index = reader.u8();
+  const name = GOVERNANCE_INSTRUCTION_NAMES[index];
+  return GOVERNANCE_LAYOUTS[index] ?? (name ? layout(name) : null);
+}
+
+// Anchor discriminators: sha256("global:<instruction>")[0..8].
+const GRAPE_DISTRIBUTOR_LAYOUTS = [
+  { discriminator: [189, 128, 103, 10, 73, 227, 37, 18], layout: layout("InitializeDistributor") },
+  { discriminator: [183, 49, 10, 206, 168, 183, 131, 67], layout: layout("SetRoot") },
+  { discriminator: [62, 198, 214, 193, 213, 159, 108, 210], layout: layout("Claim") },
+  { discriminator: [111, 92, 142, 79, 33, 234, 82, 27], layout: layout("Clawback") }
+];
+
+const readU8Index = (reader: DataReader) => reader.u8();
+const readU32Index = (reader: DataReader) => reader.u32();
+
+const DECODER_REGISTRY: Record<string, ProgramDecoder> = {
+  [SystemProgram.programId.toBase58()]: indexedDecoder("System Program", readU32Index, SYSTEM_LAYOUTS),
+  [TOKEN_PROGRAM_ID.toBase58()]: indexedDecoder("SPL Token Program", readU8Index, TOKEN_LAYOUTS),
+  [TOKEN_2022_PROGRAM_ID.toBase58()]: { label: "Token-2022 Program", decode: decodeToken2022 },
+  [ASSOCIATED_TOKEN_PROGRAM_ID.toBase58()]: {
+    label: "Associated Token Program",
+    decode: decodeAssociatedToken
+  },
+  [MPL_TOKEN_METADATA_PROGRAM_ID.toString()]: {
+    label: "Metaplex Token Metadata",
+    decode: decodeMetaplex
+  },
+  [StakeProgram.programId.toBase58()]: indexedDecoder("Stake Program", readU32Index, STAKE_LAYOUTS),
+  [ComputeBudgetProgram.programId.toBase58()]: indexedDecoder(
+    "Compute Budget Program",
+    readU8Index,
+    COMPUTE_BUDGET_LAYOUTS
+  ),
+  [MEMO_PROGRAM_ID.toBase58()]: memoDecoder,
+  [MEMO_V1_PROGRAM_ID.toBase58()]: memoDecoder,
+  [UPGRADEABLE_LOADER_PROGRAM_ID.toBase58()]: indexedDecoder(
+    "BPF Upgradeable Loader",
+    readU32Index,
+    UPGRADEABLE_LOADER_LAYOUTS
+  ),
+  [DEFAULT_SPL_GOVERNANCE_PROGRAM_ID.toBase58()]: {
+    label: "SPL Governance",
+    decode: decodeGovernance
+  },
+  [GRAPE_DISTRIBUTOR_PROGRAM_ID.toBase58()]: {
+    label: "Grape Distributor",
+    decode: (reader) => matchDiscriminator(reader, GRAPE_DISTRIBUTOR_LAYOUTS)
+  }
+};
+
+/**
+ * Decodes each instruction through the program registry. Instructions that
+ * cannot be decoded keep their raw accounts and a short data preview.
+ */
+export function decodeInstructions(
+  instructions: TransactionInstruction[]
+): DecodedInstruction[] {
+  return instructions.map((instruction) => {
+    const programId = instruction.programId.toBase58();
+    const decoder = DECODER_REGISTRY[programId];
+    const data = Buffer.from(instruction.data);
+
+    let decodedLayout: InstructionLayout | null = null;
+    let args: DecodedArgument[] = [];
+    if (decoder) {
+      try {
+        const reader = createDataReader(data);
+        decodedLayout = decoder.decode(reader);
+        args = decodedLayout?.args?.(reader) ?? [];
+      } catch {
+        // Keep the instruction name when only the arguments fail to parse.
+      }
+    }
+
+    if (!decodedLayout && data.length > 0) {
+      args = [
+        arg(
+          "data",
+          `${data.subarray(0, RAW_DATA_PREVIEW_BYTES).toString("hex")}${
+            data.length > RAW_DATA_PREVIEW_BYTES ? "…" : ""
+          }`
+        )
+      ];
+    }
+
+    const namedAccounts = decodedLayout?.accounts ?? [];
+    return {
+      programId,
+      programLabel: decoder?.label ?? UNKNOWN_PROGRAM_LABEL,
+      name: decodedLayout?.name ?? "Unknown Instruction",
+      decoded: decodedLayout !== null,
+      accounts: instruction.keys.map((key, index) => ({
+        name:
+          namedAccounts[index] ??
+          `${decodedLayout?.extraAccounts ?? "account"} ${index - namedAccounts.length + 1}`,
+        address: key.pubkey.toBase58(),
+        isSigner: key.isSigner,
+        isWritable: key.isWritable
+      })),
+      args,
+      dataLength: data.length
+    };
+  });
+}
@@ -0,0 +1,16 @@
+import { PublicKey, TransactionInstruction } from "@solana/web3.js";
+import { Buffer } from "buffer";
+
+export const MEMO_PROGRAM_ID = new PublicKey("MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr");
+
+/**
+ * SPL Memo v2 instruction. Listed signers must sign the transaction, which
+ * ties the memo to the sender on-chain.
+ */
+export function buildMemoInstruction(memo: string, signers: PublicKey[] = []) {
+  return new TransactionInstruction({
+    programId: MEMO_PROGRAM_ID,
+    keys: signers.map((pubkey) => ({ pubkey, isSigner: true, isWritable: false })),
+    data: Buffer.from(memo, "utf8")
+  });
+}
@@ -0,0 +1,282 @@
+import {
+  type Connection,
+  PublicKey,
+  SystemProgram,
+  Transaction,
+  TransactionInstruction,
+  TransactionMessage
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { base58 } from "@metaplex-foundation/umi";
+import { withDurableNonce, type DurableNonceState } from "@/lib/durable-nonce";
+
+export const SQUADS_V4_PROGRAM_ID = new PublicKey(
+  "SQDS4ep65T869zMMBKyuUq6aD6EgTu8psMjkvj52pCf"
+);
+
+export type InstructionExportMode = "wallet" | "squads" | "unsigned";
+
+export type InstructionExportSigner = {
+  address: string;
+  writable: boolean;
+};
+
+/**
+ * A prepared message handed to someone else to sign: either the vault message
+ * stored in a Squads proposal or a standalone unsigned transaction.
+ */
+export type InstructionExport = {
+  mode: Exclude<InstructionExportMode, "wallet">;
+  messageBase58: string;
+  messageBase64: string;
+  transactionBase64: string | null;
+  requiredSigners: InstructionExportSigner[];
+  multisig?: string;
+  vault?: string;
+  transactionIndex?: string;
+  proposal?: string;
+  approvalThreshold?: number;
+  nonceAccount?: string;
+};
+
+export type SquadsMultisigState = {
+  address: PublicKey;
+  threshold: number;
+  transactionIndex: bigint;
+  members: Array<{ key: PublicKey; permissions: number }>;
+};
+
+// Anchor discriminators: sha256("global:<instruction>")[0..8].
+const VAULT_TRANSACTION_CREATE_DISCRIMINATOR = Buffer.from([
+  48, 250, 78, 168, 208, 226, 218, 211
+]);
+const PROPOSAL_CREATE_DISCRIMINATOR = Buffer.from([220, 60, 73, 224, 30, 108, 79, 159]);
+
+const SQUADS_SEED_PREFIX = Buffer.from("multisig");
+const SQUADS_SEED_VAULT = Buffer.from("vault");
+const SQUADS_SEED_TRANSACTION = Buffer.from("transaction");
+const SQUADS_SEED_PROPOSAL = Buffer.from("proposal");
+const SQUADS_PERMISSION_INITIATE = 1;
+
+// Multisig account: discriminator, create key, config authority, then these fields.
+const MULTISIG_THRESHOLD_OFFSET = 72;
+const MULTISIG_TRANSACTION_INDEX_OFFSET = 78;
+const MULTISIG_RENT_COLLECTOR_OFFSET = 94;
+
+function encodeU64(value: bigint) {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+export function getSquadsVaultAddress(multisig: PublicKey, vaultIndex: number) {
+  return PublicKey.findProgramAddressSync(
+    [SQUADS_SEED_PREFIX, multisig.toBuffer(), SQUADS_SEED_VAULT, Buffer.from([vaultIndex])],
+    SQUADS_V4_PROGRAM_ID
+  )[0];
+}
+
+function getSquadsTransactionAddress(multisig: PublicKey, transactionIndex: bigint) {
+  return PublicKey.findProgramAddressSync(
+    [
+      SQUADS_SEED_PREFIX,
+      multisig.toBuffer(),
+      SQUADS_SEED_TRANSACTION,
+      encodeU64(transactionIndex)
+    ],
+    SQUADS_V4_PROGRAM_ID
+  )[0];
+}
+
+function getSquadsProposalAddress(multisig: PublicKey, transactionIndex: bigint) {
+  return PublicKey.findProgramAddressSync(
+    [
+      SQUADS_SEED_PREFIX,
+      multisig.toBuffer(),
+      SQUADS_SEED_TRANSACTION,
+      encodeU64(transactionIndex),
+      SQUADS_SEED_PROPOSAL
+    ],
+    SQUADS_V4_PROGRAM_ID
+  )[0];
+}
+
+export async function fetchSquadsMultisig(
+  connection: Connection,
+  address: PublicKey
+): Promise<SquadsMultisigState> {
+  const info = await connection.getAccountInfo(address, "confirmed");
+  if (!info || !info.owner.equals(SQUADS_V4_PROGRAM_ID)) {
+    throw new Error("Multisig account not found or not owned by Squads v4.");
+  }
+  const data = info.data;
+  const membersOffset =
+    MULTISIG_RENT_COLLECTOR_OFFSET + (data[MULTISIG_RENT_COLLECTOR_OFFSET] === 1 ? 33 : 1) + 1;
+  const memberCount = data.readUInt32LE(membersOffset);
+  const members = Array.from({ length: memberCount }, (_value, index) => {
+    const offset = membersOffset + 4 + index * 33;
+    return {
+      key: new PublicKey(data.subarray(offset, offset + 32)),
+      permissions: data[offset + 32]
+    };
+  });
+  return {
+    address,
+    threshold: data.readUInt16LE(MULTISIG_THRESHOLD_OFFSET),
+    transactionIndex: data.readBigUInt64LE(MULTISIG_TRANSACTION_INDEX_OFFSET),
+    members
+  };
+}
+
+function getRequiredSigners(message: {
+  header: { numRequiredSignatures: number; numReadonlySignedAccounts: number };
+  staticAccountKeys: PublicKey[];
+}) {
+  const { numRequiredSignatures, numReadonlySignedAccounts } = message.header;
+  return message.staticAccountKeys.slice(0, numRequiredSignatures).map((key, index) => ({
+    address: key.toBase58(),
+    writable: index < numRequiredSignatures - numReadonlySignedAccounts
+  }));
+}
+
+// Squads stores vault messages in its own compact layout with u8/u16 length prefixes.
+function encodeSquadsTransactionMessage(
+  message: ReturnType<TransactionMessage["compileToV0Message"]>
+) {
+  const { header, staticAccountKeys, compiledInstructions } = message;
+  const parts: Buffer[] = [
+    Buffer.from([
+      header.numRequiredSignatures,
+      header.numRequiredSignatures - header.numReadonlySignedAccounts,
+      staticAccountKeys.length - header.numRequiredSignatures - header.numReadonlyUnsignedAccounts
+    ]),
+    Buffer.from([staticAccountKeys.length]),
+    ...staticAccountKeys.map((key) => key.toBuffer()),
+    Buffer.from([compiledInstructions.length])
+  ];
+  compiledInstructions.forEach((instruction) => {
+    const dataLength = Buffer.alloc(2);
+    dataLength.writeUInt16LE(instruction.data.length);
+    parts.push(
+      Buffer.from([instruction.programIdIndex, instruction.accountKeyIndexes.length]),
+      Buffer.from(instruction.accountKeyIndexes),
+      dataLength,
+      Buffer.from(instruction.data)
+    );
+  });
+  // No address lookup tables.
+  parts.push(Buffer.from([0]));
+  return Buffer.concat(parts);
+}
+
+/**
+ * Builds the instructions that store `instructions` as a Squads v4 vault
+ * transaction and open a proposal for it. The creator must be a multisig
+ * member with the Initiate permission.
+ */
+export function buildSquadsProposalInstructions(params: {
+  multisig: SquadsMultisigState;
+  vaultIndex: number;
+  creator: PublicKey;
+  instructions: TransactionInstruction[];
+  recentBlockhash: string;
+}) {
+  const { multisig, vaultIndex, creator, instructions, recentBlockhash } = params;
+  const member = multisig.members.find((entry) => entry.key.equals(creator));
+  if (!member || (member.permissions & SQUADS_PERMISSION_INITIATE) === 0) {
+    throw new Error("Connected wallet is not a multisig member with the Initiate permission.");
+  }
+
+  const vault = getSquadsVaultAddress(multisig.address, vaultIndex);
+  const transactionIndex = multisig.transactionIndex + 1n;
+  const transaction = getSquadsTransactionAddress(multisig.address, transactionIndex);
+  const proposal = getSquadsProposalAddress(multisig.address, transactionIndex);
+  const vaultMessage = new TransactionMessage({
+    payerKey: vault,
+    recentBlockhash,
+    instructions
+  }).compileToV0Message();
+  const transactionMessage = encodeSquadsTransactionMessage(vaultMessage);
+  const transactionMessageLength = Buffer.alloc(4);
+  transactionMessageLength.writeUInt32LE(transactionMessage.length);
+
+  const vaultTransactionCreate = new TransactionInstruction({
+    programId: SQUADS_V4_PROGRAM_ID,
+    keys: [
+      { pubkey: multisig.address, isSigner: false, isWritable: true },
+      { pubkey: transaction, isSigner: false, isWritable: true },
+      { pubkey: creator, isSigner: true, isWritable: false },
+      { pubkey: creator, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false }
+    ],
+    data: Buffer.concat([
+      VAULT_TRANSACTION_CREATE_DISCRIMINATOR,
+      // vault index, no ephemeral signers, message bytes, no memo.
+      Buffer.from([vaultIndex, 0]),
+      transactionMessageLength,
+      transactionMessage,
+      Buffer.from([0])
+    ])
+  });
+  const proposalCreate = new TransactionInstruction({
+    programId: SQUADS_V4_PROGRAM_ID,
+    keys: [
+      { pubkey: multisig.address, isSigner: false, isWritable: false },
+      { pubkey: proposal, isSigner: false, isWritable: true },
+      { pubkey: creator, isSigner: true, isWritable: false },
+      { pubkey: creator, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false }
+    ],
+    data: Buffer.concat([PROPOSAL_CREATE_DISCRIMINATOR, encodeU64(transactionIndex), Buffer.from([0])])
+  });
+
+  const serializedMessage = vaultMessage.serialize();
+  return {
+    instructions: [vaultTransactionCreate, proposalCreate],
+    export: {
+      mode: "squads",
+      messageBase58: base58.deserialize(serializedMessage)[0],
+      messageBase64: Buffer.from(serializedMessage).toString("base64"),
+      transactionBase64: null,
+      requiredSigners: getRequiredSigners(vaultMessage),
+      multisig: multisig.address.toBase58(),
+      vault: vault.toBase58(),
+      transactionIndex: transactionIndex.toString(),
+      proposal: proposal.toBase58(),
+      approvalThreshold: multisig.threshold
+    } satisfies InstructionExport
+  };
+}
+
+/**
+ * Serializes `instructions` as an unsigned legacy transaction paid by
+ * `feePayer`. With a durable nonce the transaction advances the nonce first
+ * and uses its value as the blockhash, so it does not expire.
+ */
+export function buildUnsignedTransactionExport(
+  feePayer: PublicKey,
+  instructions: TransactionInstruction[],
+  recentBlockhash: string,
+  durableNonce?: DurableNonceState
+): InstructionExport {
+  const transaction = new Transaction({
+    feePayer,
+    recentBlockhash: durableNonce ? durableNonce.nonce : recentBlockhash
+  });
+  transaction.add(...(durableNonce ? withDurableNonce(instructions, durableNonce) : instructions));
+  const message = transaction.compileMessage();
+  const serializedMessage = message.serialize();
+  return {
+    mode: "unsigned",
+    messageBase58: base58.deserialize(serializedMessage)[0],
+    messageBase64: serializedMessage.toString("base64"),
+    transactionBase64: transaction
+      .serialize({ requireAllSignatures: false, verifySignatures: false })
+      .toString("base64"),
+    requiredSigners: getRequiredSigners({
+      header: message.header,
+      staticAccountKeys: message.accountKeys
+    }),
+    ...(durableNonce ? { nonceAccount: durableNonce.address.toBase58() } : {})
+  };
+}
@@ -0,0 +1,175 @@
+import {
+  SystemProgram,
+  type Connection,
+  Transaction,
+  VersionedTransaction
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { base58 } from "@metaplex-foundation/umi";
+import type { InstructionExport } from "@/lib/multisig-export";
+
+export type OfflineTransactionFile = {
+  version: number;
+  createdAt: string;
+  transaction: string;
+  requiredSigners: string[];
+  nonceAccount: string | null;
+};
+
+export type OfflineSignerCheck = {
+  address: string;
+  signed: boolean;
+  expected: boolean;
+};
+
+export type OfflineTransactionReview = {
+  transaction: Transaction;
+  signers: OfflineSignerCheck[];
+  missingExpectedSigners: string[];
+  signaturesValid: boolean;
+  fullySigned: boolean;
+  nonce: { account: string; authority: string; value: string } | null;
+};
+
+const OFFLINE_FILE_VERSION = 1;
+const ADVANCE_NONCE_INSTRUCTION_INDEX = 4;
+const CONFIRM_POLL_INTERVAL_MS = 2_000;
+
+export function serializeOfflineTransactionFile(exported: InstructionExport) {
+  if (!exported.transactionBase64) {
+    throw new Error("Only unsigned transaction exports can be saved for offline signing.");
+  }
+  const file: OfflineTransactionFile = {
+    version: OFFLINE_FILE_VERSION,
+    createdAt: new Date().toISOString(),
+    transaction: exported.transactionBase64,
+    requiredSigners: exported.requiredSigners.map((signer) => signer.address),
+    nonceAccount: exported.nonceAccount ?? null
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Accepts an offline export file, or a raw base64/base58 transaction, and
+ * returns the transaction plus any expected signers recorded in the file.
+ */
+export function parseOfflineTransactionInput(input: string) {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new Error("Paste a signed transaction or load an export file.");
+  }
+
+  let encoded = trimmed;
+  let expectedSigners: string[] = [];
+  if (trimmed.startsWith("{")) {
+    const parsed = JSON.parse(trimmed) as Partial<OfflineTransactionFile>;
+    if (typeof parsed.transaction !== "string") {
+      throw new Error("Export file must contain a transaction field.");
+    }
+    if (parsed.version !== undefined && parsed.version > OFFLINE_FILE_VERSION) {
+      throw new Error(`Unsupported export file version ${parsed.version}.`);
+    }
+    encoded = parsed.transaction;
+    expectedSigners = Array.isArray(parsed.requiredSigners) ? parsed.requiredSigners : [];
+  }
+
+  const bytes = /^[1-9A-HJ-NP-Za-km-z]+$/.test(encoded)
+    ? base58.serialize(encoded)
+    : Buffer.from(encoded, "base64");
+  if (VersionedTransaction.deserialize(bytes).version !== "legacy") {
+    throw new Error("Only legacy transactions are supported for offline signing.");
+  }
+  return { transaction: Transaction.from(bytes), expectedSigners };
+}
+
+function readDurableNonce(transaction: Transaction) {
+  const [first] = transaction.instructions;
+  if (
+    !first ||
+    !first.programId.equals(SystemProgram.programId) ||
+    first.data.length < 4 ||
+    first.data.readUInt32LE(0) !== ADVANCE_NONCE_INSTRUCTION_INDEX ||
+    first.keys.length < 3 ||
+    !transaction.recentBlockhash
+  ) {
+    return null;
+  }
+  return {
+    account: first.keys[0].pubkey.toBase58(),
+    authority: first.keys[2].pubkey.toBase58(),
+    value: transaction.recentBlockhash
+  };
+}
+
+export function reviewOfflineTransaction(
+  transaction: Transaction,
+  expectedSigners: string[]
+): OfflineTransactionReview {
+  const expected = new Set(expectedSigners);
+  const signers = transaction.signatures.map((entry) => {
+    const address = entry.publicKey.toBase58();
+    return {
+      address,
+      signed: entry.signature !== null && entry.signature.some((byte) => byte !== 0),
+      expected: expected.size === 0 || expected.has(address)
+    };
+  });
+  const signerAddresses = new Set(signers.map((signer) => signer.address));
+
+  return {
+    transaction,
+    signers,
+    missingExpectedSigners: expectedSigners.filter((address) => !signerAddresses.has(address)),
+    // Only signatures that are present are checked here.
+    signaturesValid: transaction.verifySignatures(false),
+    fullySigned: signers.every((signer) => signer.signed),
+    nonce: readDurableNonce(transaction)
+  };
+}
+
+function sleep(milliseconds: number) {
+  return new Promise<void>((resolve) => {
+    setTimeout(resolve, milliseconds);
+  });
+}
+
+/**
+ * Confirms a broadcast transaction that uses a recent blockhash. Its
+ * `lastValidBlockHeight` was never recorded offline, so the signature status
+ * is polled until it lands or the transaction's own blockhash expires.
+ */
+export async function confirmBlockhashTransaction(
+  connection: Connection,
+  signature: string,
+  recentBlockhash: string
+) {
+  for (;;) {
+    const { value } = await connection.getSignatureStatuses([signature]);
+    const status = value[0];
+    if (status?.err) {
+      throw new Error(`Transaction failed: ${JSON.stringify(status.err)}`);
+    }
+    if (status?.confirmationStatus === "confirmed" || status?.confirmationStatus === "finalized") {
+      return;
+    }
+
+    const blockhashValid = await connection.isBlockhashValid(recentBlockhash, {
+      commitment: "confirmed"
+    });
+    if (!blockhashValid.value) {
+      const { value: finalValue } = await connection.getSignatureStatuses([signature], {
+        searchTransactionHistory: true
+      });
+      const finalStatus = finalValue[0];
+      if (finalStatus && !finalStatus.err) {
+        return;
+      }
+      throw new Error(
+        finalStatus?.err
+          ? `Transaction failed: ${JSON.stringify(finalStatus.err)}`
+          : "The transaction's blockhash expired before it was confirmed."
+      );
+    }
+    await sleep(CONFIRM_POLL_INTERVAL_MS);
+  }
+}
@@ -0,0 +1,175 @@
+import { getAssociatedTokenAddressSync } from "@solana/spl-token";
+import {
+  type Connection,
+  Keypair,
+  PublicKey,
+  TransactionInstruction
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { MEMO_PROGRAM_ID } from "@/lib/memo";
+import { parsePositiveTokenAmount, parseTokenAmount } from "@/lib/token-amount";
+
+export type TransferRequest = {
+  recipient: PublicKey;
+  // Decimal amount as written in the URL; null lets the payer choose.
+  amount: string | null;
+  decimals: number;
+  splToken: PublicKey | null;
+  references: PublicKey[];
+  label: string;
+  message: string;
+  memo: string;
+};
+
+const REFERENCE_SIGNATURE_LIMIT = 1000;
+
+export function generateReference() {
+  return Keypair.generate().publicKey.toBase58();
+}
+
+export function parseReferenceKeys(input: string) {
+  return input
+    .split(/[\s,]+/)
+    .map((entry) => entry.trim())
+    .filter(Boolean)
+    .map((entry) => {
+      try {
+        return new PublicKey(entry);
+      } catch {
+        throw new Error(`Invalid reference key "${entry}".`);
+      }
+    });
+}
+
+/**
+ * Solana Pay references are read-only, non-signer keys appended to the
+ * transfer instruction, so the payment can later be found with
+ * getSignaturesForAddress on any reference.
+ */
+export function withReferences(instruction: TransactionInstruction, references: PublicKey[]) {
+  if (references.length === 0) {
+    return instruction;
+  }
+  return new TransactionInstruction({
+    programId: instruction.programId,
+    data: instruction.data,
+    keys: [
+      ...instruction.keys,
+      ...references.map((pubkey) => ({ pubkey, isSigner: false, isWritable: false }))
+    ]
+  });
+}
+
+export function validateTransferRequest(request: TransferRequest) {
+  if (request.amount !== null) {
+    parsePositiveTokenAmount(request.amount, request.decimals);
+  }
+}
+
+/** Builds a `solana:` transfer request URL per the Solana Pay spec. */
+export function encodeTransferRequestUrl(request: TransferRequest) {
+  const params = new URLSearchParams();
+  if (request.amount !== null) {
+    params.append("amount", request.amount);
+  }
+  if (request.splToken) {
+    params.append("spl-token", request.splToken.toBase58());
+  }
+  request.references.forEach((reference) => {
+    params.append("reference", reference.toBase58());
+  });
+  if (request.label) {
+    params.append("label", request.label);
+  }
+  if (request.message) {
+    params.append("message", request.message);
+  }
+  if (request.memo) {
+    params.append("memo", request.memo);
+  }
+  const query = params.toString();
+  return `solana:${request.recipient.toBase58()}${query ? `?${query}` : ""}`;
+}
+
+/**
+ * Oldest confirmed signature that includes the reference, or null when no
+ * transaction has used it yet.
+ */
+export async function findReferenceSignature(connection: Connection, reference: PublicKey) {
+  const signatures = await connection.getSignaturesForAddress(
+    reference,
+    { limit: REFERENCE_SIGNATURE_LIMIT },
+    "confirmed"
+  );
+  return signatures.length > 0 ? signatures[signatures.length - 1].signature : null;
+}
+
+/**
+ * Checks that a landed transaction satisfies the request: it succeeded, paid
+ * at least the amount to the recipient (or its ATA), carries every reference
+ * and includes the memo. Throws with the first mismatch.
+ */
+export async function validateTransfer(
+  connection: Connection,
+  signature: string,
+  request: TransferRequest
+) {
+  const transaction = await connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0
+  });
+  if (!transaction?.meta) {
+    throw new Error("Payment transaction not found.");
+  }
+  const { meta } = transaction;
+  if (meta.err) {
+    throw new Error("Payment transaction failed on-chain.");
+  }
+
+  const message = transaction.transaction.message;
+  const accountKeys = message
+    .getAccountKeys({ accountKeysFromLookups: meta.loadedAddresses })
+    .keySegments()
+    .flat();
+  const keyIndex = (key: PublicKey) => accountKeys.findIndex((entry) => entry.equals(key));
+
+  const missingReference = request.references.find((reference) => keyIndex(reference) < 0);
+  if (missingReference) {
+    throw new Error(`Reference ${missingReference.toBase58()} is not in the transaction.`);
+  }
+
+  let received = 0n;
+  if (request.splToken) {
+    const destination = getAssociatedTokenAddressSync(request.splToken, request.recipient, true);
+    const destinationIndex = keyIndex(destination);
+    const readBalance = (balances: typeof meta.postTokenBalances) =>
+      BigInt(
+        balances?.find((balance) => balance.accountIndex === destinationIndex)?.uiTokenAmount
+          .amount ?? "0"
+      );
+    if (destinationIndex >= 0) {
+      received = readBalance(meta.postTokenBalances) - readBalance(meta.preTokenBalances);
+    }
+  } else {
+    const recipientIndex = keyIndex(request.recipient);
+    if (recipientIndex >= 0) {
+      received = BigInt(meta.postBalances[recipientIndex] - meta.preBalances[recipientIndex]);
+    }
+  }
+  const expected =
+    request.amount !== null ? parseTokenAmount(request.amount, request.decimals) : 1n;
+  if (received < expected) {
+    throw new Error("Recipient did not receive the requested amount.");
+  }
+
+  if (request.memo) {
+    const hasMemo = message.compiledInstructions.some(
+      (instruction) =>
+        accountKeys[instruction.programIdIndex]?.equals(MEMO_PROGRAM_ID) &&
+        Buffer.from(instruction.data).toString("utf8") === request.memo
+    );
+    if (!hasMemo) {
+      throw new Error("Payment is missing the requested memo.");
+    }
+  }
+}
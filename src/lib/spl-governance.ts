@@ -0,0 +1,725 @@
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  getAssociatedTokenAddressSync
+} from "@solana/spl-token";
+import {
+  type Connection,
+  Keypair,
+  PublicKey,
+  SYSVAR_RENT_PUBKEY,
+  SystemProgram,
+  TransactionInstruction
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+import { base58 } from "@metaplex-foundation/umi";
+
+export const DEFAULT_SPL_GOVERNANCE_PROGRAM_ID = new PublicKey(
+  "GovER5Lthms3bLBqWub97yVrMmEogzX7xNjdXpPPCVZw"
+);
+
+/**
+ * Which governance-owned address holds the authority being changed: the
+ * governance account itself or its native treasury (the usual DAO wallet).
+ */
+export type GovernanceAuthorityKind = "native-treasury" | "governance";
+
+export type GovernanceProposalTarget = {
+  programId: PublicKey;
+  realm: PublicKey;
+  governance: PublicKey;
+  authorityKind: GovernanceAuthorityKind;
+};
+
+export type GovernanceProposerContext = GovernanceProposalTarget & {
+  authority: PublicKey;
+  governingTokenMint: PublicKey;
+  tokenOwnerRecord: PublicKey;
+  depositAmount: bigint;
+};
+
+export type GovernanceRealmSummary = {
+  address: PublicKey;
+  name: string;
+  communityMint: PublicKey;
+  councilMint: PublicKey | null;
+};
+
+export type TokenOwnerRecordRow = {
+  address: PublicKey;
+  realm: GovernanceRealmSummary;
+  governingTokenMint: PublicKey;
+  governingTokenDecimals: number;
+  // SPL Token or Token-2022, whichever owns the governing mint.
+  governingTokenProgramId: PublicKey;
+  depositAmount: bigint;
+  unrelinquishedVotesCount: number;
+  outstandingProposalCount: number;
+};
+
+export type OpenVoteRecord = {
+  voteRecord: PublicKey;
+  proposal: PublicKey;
+  governance: PublicKey;
+  // ProposalState; 2 = voting, where relinquishing also withdraws the vote.
+  proposalState: number;
+};
+
+export type GovernanceProposalDraft = {
+  name: string;
+  descriptionLink: string;
+  signOff: boolean;
+};
+
+// Instruction indexes in the SPL Governance v3 instruction enum.
+const DEPOSIT_GOVERNING_TOKENS_INSTRUCTION = 1;
+const WITHDRAW_GOVERNING_TOKENS_INSTRUCTION = 2;
+const CREATE_PROPOSAL_INSTRUCTION = 6;
+const INSERT_TRANSACTION_INSTRUCTION = 9;
+const SIGN_OFF_PROPOSAL_INSTRUCTION = 12;
+const RELINQUISH_VOTE_INSTRUCTION = 15;
+
+// GovernanceAccountType values for the accounts read here.
+const TOKEN_OWNER_RECORD_V1_TYPE = 2;
+const VOTE_RECORD_V1_TYPE = 7;
+const VOTE_RECORD_V2_TYPE = 12;
+const TOKEN_OWNER_RECORD_V2_TYPE = 17;
+
+const GOVERNANCE_SEED = Buffer.from("governance");
+const NATIVE_TREASURY_SEED = Buffer.from("native-treasury");
+const REALM_CONFIG_SEED = Buffer.from("realm-config");
+const PROPOSAL_DEPOSIT_SEED = Buffer.from("proposal-deposit");
+
+// Realm: account type, community mint, then RealmConfig up to the council mint option.
+const REALM_COMMUNITY_MINT_OFFSET = 1;
+const REALM_COUNCIL_MINT_OPTION_OFFSET = 58;
+const GOVERNANCE_REALM_OFFSET = 1;
+const TOKEN_OWNER_RECORD_OWNER_OFFSET = 65;
+const TOKEN_OWNER_RECORD_DEPOSIT_OFFSET = 97;
+const TOKEN_OWNER_RECORD_VOTES_OFFSET = 105;
+const TOKEN_OWNER_RECORD_OUTSTANDING_PROPOSALS_OFFSET = 113;
+// Vote record (V1 and V2): account type, proposal, governing token owner, is_relinquished.
+const VOTE_RECORD_OWNER_OFFSET = 33;
+const VOTE_RECORD_RELINQUISHED_OFFSET = 65;
+// Proposal: account type, governance, governing token mint, state.
+const PROPOSAL_MINT_OFFSET = 33;
+const PROPOSAL_STATE_OFFSET = 65;
+const MAX_PROPOSAL_NAME_LENGTH = 120;
+const MINT_DECIMALS_OFFSET = 44;
+
+export function getNativeTreasuryAddress(programId: PublicKey, governance: PublicKey) {
+  return PublicKey.findProgramAddressSync(
+    [NATIVE_TREASURY_SEED, governance.toBuffer()],
+    programId
+  )[0];
+}
+
+export function getGovernanceAuthorityAddress(target: GovernanceProposalTarget) {
+  return target.authorityKind === "native-treasury"
+    ? getNativeTreasuryAddress(target.programId, target.governance)
+    : target.governance;
+}
+
+export function getTokenOwnerRecordAddress(
+  programId: PublicKey,
+  realm: PublicKey,
+  governingTokenMint: PublicKey,
+  owner: PublicKey
+) {
+  return PublicKey.findProgramAddressSync(
+    [GOVERNANCE_SEED, realm.toBuffer(), governingTokenMint.toBuffer(), owner.toBuffer()],
+    programId
+  )[0];
+}
+
+function getProposalAddress(
+  programId: PublicKey,
+  governance: PublicKey,
+  governingTokenMint: PublicKey,
+  proposalSeed: PublicKey
+) {
+  return PublicKey.findProgramAddressSync(
+    [
+      GOVERNANCE_SEED,
+      governance.toBuffer(),
+      governingTokenMint.toBuffer(),
+      proposalSeed.toBuffer()
+    ],
+    programId
+  )[0];
+}
+
+function getProposalTransactionAddress(
+  programId: PublicKey,
+  proposal: PublicKey,
+  optionIndex: number,
+  transactionIndex: number
+) {
+  const indexBytes = Buffer.alloc(2);
+  indexBytes.writeUInt16LE(transactionIndex);
+  return PublicKey.findProgramAddressSync(
+    [GOVERNANCE_SEED, proposal.toBuffer(), Buffer.from([optionIndex]), indexBytes],
+    programId
+  )[0];
+}
+
+function encodeU8(value: number) {
+  return Buffer.from([value]);
+}
+
+function encodeU16(value: number) {
+  const buffer = Buffer.alloc(2);
+  buffer.writeUInt16LE(value);
+  return buffer;
+}
+
+function encodeU32(value: number) {
+  const buffer = Buffer.alloc(4);
+  buffer.writeUInt32LE(value);
+  return buffer;
+}
+
+function encodeString(value: string) {
+  const bytes = Buffer.from(value, "utf8");
+  return Buffer.concat([encodeU32(bytes.length), bytes]);
+}
+
+function encodeVec<T>(values: T[], encode: (value: T) => Buffer) {
+  return Buffer.concat([encodeU32(values.length), ...values.map(encode)]);
+}
+
+// Borsh layout of the program's InstructionData struct.
+function encodeInstructionData(instruction: TransactionInstruction) {
+  return Buffer.concat([
+    instruction.programId.toBuffer(),
+    encodeVec(instruction.keys, (key) =>
+      Buffer.concat([
+        key.pubkey.toBuffer(),
+        encodeU8(key.isSigner ? 1 : 0),
+        encodeU8(key.isWritable ? 1 : 0)
+      ])
+    ),
+    encodeU32(instruction.data.length),
+    instruction.data
+  ]);
+}
+
+/**
+ * Resolves the governing token the wallet can propose with. Community power
+ * is preferred; council power is used when the wallet has no community deposit.
+ */
+export async function fetchGovernanceProposerContext(
+  connection: Connection,
+  target: GovernanceProposalTarget,
+  wallet: PublicKey
+): Promise<GovernanceProposerContext> {
+  const [realmInfo, governanceInfo] = await connection.getMultipleAccountsInfo(
+    [target.realm, target.governance],
+    "confirmed"
+  );
+  if (!realmInfo || !realmInfo.owner.equals(target.programId)) {
+    throw new Error("Realm account not found for the selected governance program.");
+  }
+  if (!governanceInfo || !governanceInfo.owner.equals(target.programId)) {
+    throw new Error("Governance account not found for the selected governance program.");
+  }
+  const governanceRealm = new PublicKey(
+    governanceInfo.data.subarray(GOVERNANCE_REALM_OFFSET, GOVERNANCE_REALM_OFFSET + 32)
+  );
+  if (!governanceRealm.equals(target.realm)) {
+    throw new Error("Governance account does not belong to the selected realm.");
+  }
+
+  const governingTokenMints = [
+    new PublicKey(
+      realmInfo.data.subarray(REALM_COMMUNITY_MINT_OFFSET, REALM_COMMUNITY_MINT_OFFSET + 32)
+    )
+  ];
+  if (realmInfo.data[REALM_COUNCIL_MINT_OPTION_OFFSET] === 1) {
+    governingTokenMints.push(
+      new PublicKey(
+        realmInfo.data.subarray(
+          REALM_COUNCIL_MINT_OPTION_OFFSET + 1,
+          REALM_COUNCIL_MINT_OPTION_OFFSET + 33
+        )
+      )
+    );
+  }
+
+  const tokenOwnerRecords = governingTokenMints.map((mint) =>
+    getTokenOwnerRecordAddress(target.programId, target.realm, mint, wallet)
+  );
+  const recordInfos = await connection.getMultipleAccountsInfo(tokenOwnerRecords, "confirmed");
+  for (let index = 0; index < recordInfos.length; index += 1) {
+    const recordInfo = recordInfos[index];
+    if (
+      !recordInfo ||
+      !recordInfo.owner.equals(target.programId) ||
+      recordInfo.data.length < TOKEN_OWNER_RECORD_DEPOSIT_OFFSET + 8
+    ) {
+      continue;
+    }
+    const depositAmount = recordInfo.data.readBigUInt64LE(TOKEN_OWNER_RECORD_DEPOSIT_OFFSET);
+    if (depositAmount > 0n) {
+      return {
+        ...target,
+        authority: getGovernanceAuthorityAddress(target),
+        governingTokenMint: governingTokenMints[index],
+        tokenOwnerRecord: tokenOwnerRecords[index],
+        depositAmount
+      };
+    }
+  }
+  throw new Error("Connected wallet has no deposited voting power in this realm.");
+}
+
+/**
+ * Builds the instruction groups that create a single-choice proposal, insert
+ * one proposal transaction per input group and optionally sign it off. Groups
+ * must be sent in order.
+ */
+export function buildGovernanceProposalInstructionGroups(
+  context: GovernanceProposerContext,
+  wallet: PublicKey,
+  draft: GovernanceProposalDraft,
+  transactions: TransactionInstruction[][]
+) {
+  const name = draft.name.trim();
+  if (!name) {
+    throw new Error("Proposal title is required.");
+  }
+  if (name.length > MAX_PROPOSAL_NAME_LENGTH) {
+    throw new Error(`Proposal title must be ${MAX_PROPOSAL_NAME_LENGTH} characters or fewer.`);
+  }
+  if (transactions.length === 0 || transactions.some((group) => group.length === 0)) {
+    throw new Error("Proposal has no instructions to execute.");
+  }
+
+  const { programId, realm, governance, governingTokenMint, tokenOwnerRecord } = context;
+  const proposalSeed = Keypair.generate().publicKey;
+  const proposal = getProposalAddress(programId, governance, governingTokenMint, proposalSeed);
+  const [realmConfig] = PublicKey.findProgramAddressSync(
+    [REALM_CONFIG_SEED, realm.toBuffer()],
+    programId
+  );
+  const [proposalDeposit] = PublicKey.findProgramAddressSync(
+    [PROPOSAL_DEPOSIT_SEED, proposal.toBuffer(), wallet.toBuffer()],
+    programId
+  );
+
+  const createProposal = new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: realm, isSigner: false, isWritable: false },
+      { pubkey: proposal, isSigner: false, isWritable: true },
+      { pubkey: governance, isSigner: false, isWritable: true },
+      { pubkey: tokenOwnerRecord, isSigner: false, isWritable: true },
+      { pubkey: governingTokenMint, isSigner: false, isWritable: false },
+      { pubkey: wallet, isSigner: true, isWritable: false },
+      { pubkey: wallet, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: realmConfig, isSigner: false, isWritable: false },
+      { pubkey: proposalDeposit, isSigner: false, isWritable: true }
+    ],
+    data: Buffer.concat([
+      encodeU8(CREATE_PROPOSAL_INSTRUCTION),
+      encodeString(name),
+      encodeString(draft.descriptionLink.trim()),
+      // VoteType::SingleChoice with a single "Approve" option and a deny option.
+      encodeU8(0),
+      encodeVec(["Approve"], encodeString),
+      encodeU8(1),
+      proposalSeed.toBuffer()
+    ])
+  });
+
+  const insertTransactions = transactions.map((instructions, index) => {
+    const proposalTransaction = getProposalTransactionAddress(programId, proposal, 0, index);
+    return new TransactionInstruction({
+      programId,
+      keys: [
+        { pubkey: governance, isSigner: false, isWritable: false },
+        { pubkey: proposal, isSigner: false, isWritable: true },
+        { pubkey: tokenOwnerRecord, isSigner: false, isWritable: false },
+        { pubkey: wallet, isSigner: true, isWritable: false },
+        { pubkey: proposalTransaction, isSigner: false, isWritable: true },
+        { pubkey: wallet, isSigner: true, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        { pubkey: SYSVAR_RENT_PUBKEY, isSigner: false, isWritable: false }
+      ],
+      data: Buffer.concat([
+        encodeU8(INSERT_TRANSACTION_INSTRUCTION),
+        encodeU8(0),
+        encodeU16(index),
+        // Legacy hold-up time; v3 reads it from the governance config.
+        encodeU32(0),
+        encodeVec(instructions, encodeInstructionData)
+      ])
+    });
+  });
+
+  const groups: TransactionInstruction[][] = [
+    [createProposal],
+    ...insertTransactions.map((instruction) => [instruction])
+  ];
+  if (draft.signOff) {
+    groups.push([
+      new TransactionInstruction({
+        programId,
+        keys: [
+          { pubkey: realm, isSigner: false, isWritable: true },
+          { pubkey: governance, isSigner: false, isWritable: true },
+          { pubkey: proposal, isSigner: false, isWritable: true },
+          { pubkey: wallet, isSigner: true, isWritable: false },
+          { pubkey: tokenOwnerRecord, isSigner: false, isWritable: false }
+        ],
+        data: encodeU8(SIGN_OFF_PROPOSAL_INSTRUCTION)
+      })
+    ]);
+  }
+
+  return { proposal, groups };
+}
+
+function getGoverningTokenHoldingAddress(
+  programId: PublicKey,
+  realm: PublicKey,
+  governingTokenMint: PublicKey
+) {
+  return PublicKey.findProgramAddressSync(
+    [GOVERNANCE_SEED, realm.toBuffer(), governingTokenMint.toBuffer()],
+    programId
+  )[0];
+}
+
+function getRealmConfigAddress(programId: PublicKey, realm: PublicKey) {
+  return PublicKey.findProgramAddressSync([REALM_CONFIG_SEED, realm.toBuffer()], programId)[0];
+}
+
+function encodeU64(value: bigint) {
+  const buffer = Buffer.alloc(8);
+  buffer.writeBigUInt64LE(value);
+  return buffer;
+}
+
+/**
+ * Decodes the realm mints and name. The name follows two optional pubkeys
+ * (council mint and realm authority), so its offset depends on both.
+ */
+function decodeRealmSummary(address: PublicKey, data: Buffer): GovernanceRealmSummary {
+  const communityMint = new PublicKey(
+    data.subarray(REALM_COMMUNITY_MINT_OFFSET, REALM_COMMUNITY_MINT_OFFSET + 32)
+  );
+  let offset = REALM_COUNCIL_MINT_OPTION_OFFSET;
+  let councilMint: PublicKey | null = null;
+  if (data[offset] === 1) {
+    councilMint = new PublicKey(data.subarray(offset + 1, offset + 33));
+    offset += 33;
+  } else {
+    offset += 1;
+  }
+  // Reserved bytes and the legacy voting proposal count.
+  offset += 8;
+  offset += data[offset] === 1 ? 33 : 1;
+  const nameLength = data.readUInt32LE(offset);
+  const name = data.subarray(offset + 4, offset + 4 + nameLength).toString("utf8");
+  return { address, name, communityMint, councilMint };
+}
+
+export async function fetchRealmSummary(
+  connection: Connection,
+  programId: PublicKey,
+  realm: PublicKey
+) {
+  const realmInfo = await connection.getAccountInfo(realm, "confirmed");
+  if (!realmInfo || !realmInfo.owner.equals(programId)) {
+    throw new Error("Realm account not found for the selected governance program.");
+  }
+  return decodeRealmSummary(realm, realmInfo.data);
+}
+
+/** Token program (SPL Token or Token-2022) that owns a governing token mint. */
+export async function fetchGoverningTokenProgramId(connection: Connection, mint: PublicKey) {
+  const owner = (await connection.getAccountInfo(mint, "confirmed"))?.owner;
+  if (owner && (owner.equals(TOKEN_PROGRAM_ID) || owner.equals(TOKEN_2022_PROGRAM_ID))) {
+    return owner;
+  }
+  throw new Error(`${mint.toBase58()} is not an SPL Token or Token-2022 mint.`);
+}
+
+/**
+ * Lists every TokenOwnerRecord the wallet owns under a governance program,
+ * with the realm name and mints resolved for display.
+ */
+export async function fetchTokenOwnerRecords(
+  connection: Connection,
+  programId: PublicKey,
+  owner: PublicKey
+): Promise<TokenOwnerRecordRow[]> {
+  const accounts = await connection.getProgramAccounts(programId, {
+    commitment: "confirmed",
+    filters: [
+      { memcmp: { offset: TOKEN_OWNER_RECORD_OWNER_OFFSET, bytes: owner.toBase58() } }
+    ]
+  });
+  const records = accounts.filter(
+    ({ account }) =>
+      account.data[0] === TOKEN_OWNER_RECORD_V1_TYPE ||
+      account.data[0] === TOKEN_OWNER_RECORD_V2_TYPE
+  );
+  const realmAddresses = Array.from(
+    new Set(
+      records.map(({ account }) =>
+        new PublicKey(account.data.subarray(GOVERNANCE_REALM_OFFSET, 33)).toBase58()
+      )
+    )
+  ).map((address) => new PublicKey(address));
+  const realmInfos = await connection.getMultipleAccountsInfo(realmAddresses, "confirmed");
+  const realms = new Map<string, GovernanceRealmSummary>();
+  realmAddresses.forEach((address, index) => {
+    const realmInfo = realmInfos[index];
+    if (realmInfo) {
+      realms.set(address.toBase58(), decodeRealmSummary(address, realmInfo.data));
+    }
+  });
+
+  const mintAddresses = Array.from(
+    new Set(
+      records.map(({ account }) =>
+        new PublicKey(account.data.subarray(33, TOKEN_OWNER_RECORD_OWNER_OFFSET)).toBase58()
+      )
+    )
+  );
+  const mintInfos = await connection.getMultipleAccountsInfo(
+    mintAddresses.map((address) => new PublicKey(address)),
+    "confirmed"
+  );
+  const decimalsByMint = new Map(
+    mintAddresses.map((address, index) => [
+      address,
+      mintInfos[index]?.data[MINT_DECIMALS_OFFSET] ?? 0
+    ])
+  );
+  const tokenProgramByMint = new Map(
+    mintAddresses.map((address, index) => [address, mintInfos[index]?.owner ?? TOKEN_PROGRAM_ID])
+  );
+
+  return records
+    .flatMap(({ pubkey, account }) => {
+      const { data } = account;
+      const governingTokenMint = new PublicKey(data.subarray(33, TOKEN_OWNER_RECORD_OWNER_OFFSET));
+      const realm = realms.get(
+        new PublicKey(data.subarray(GOVERNANCE_REALM_OFFSET, 33)).toBase58()
+      );
+      if (!realm) {
+        return [];
+      }
+      return [
+        {
+          address: pubkey,
+          realm,
+          governingTokenMint,
+          governingTokenDecimals: decimalsByMint.get(governingTokenMint.toBase58()) ?? 0,
+          governingTokenProgramId:
+            tokenProgramByMint.get(governingTokenMint.toBase58()) ?? TOKEN_PROGRAM_ID,
+          depositAmount: data.readBigUInt64LE(TOKEN_OWNER_RECORD_DEPOSIT_OFFSET),
+          // V1 stores the count as u32, V2 as u64.
+          unrelinquishedVotesCount:
+            data[0] === TOKEN_OWNER_RECORD_V2_TYPE
+              ? Number(data.readBigUInt64LE(TOKEN_OWNER_RECORD_VOTES_OFFSET))
+              : data.readUInt32LE(TOKEN_OWNER_RECORD_VOTES_OFFSET),
+          outstandingProposalCount: data[TOKEN_OWNER_RECORD_OUTSTANDING_PROPOSALS_OFFSET]
+        }
+      ];
+    })
+    .sort((a, b) => a.realm.name.localeCompare(b.realm.name));
+}
+
+/**
+ * Vote records for the record's owner that still count against it, limited
+ * to proposals in the record's realm and governing mint.
+ */
+export async function fetchOpenVoteRecords(
+  connection: Connection,
+  programId: PublicKey,
+  owner: PublicKey,
+  record: TokenOwnerRecordRow
+): Promise<OpenVoteRecord[]> {
+  // Legacy V1 vote records share the V2 prefix, so both are read the same way.
+  const voteRecords = (
+    await Promise.all(
+      [VOTE_RECORD_V1_TYPE, VOTE_RECORD_V2_TYPE].map((accountType) =>
+        connection.getProgramAccounts(programId, {
+          commitment: "confirmed",
+          filters: [
+            {
+              memcmp: {
+                offset: 0,
+                bytes: base58.deserialize(Uint8Array.from([accountType]))[0]
+              }
+            },
+            { memcmp: { offset: VOTE_RECORD_OWNER_OFFSET, bytes: owner.toBase58() } },
+            {
+              memcmp: {
+                offset: VOTE_RECORD_RELINQUISHED_OFFSET,
+                bytes: base58.deserialize(Uint8Array.from([0]))[0]
+              }
+            }
+          ]
+        })
+      )
+    )
+  ).flat();
+  const proposals = voteRecords.map(
+    ({ account }) => new PublicKey(account.data.subarray(1, VOTE_RECORD_OWNER_OFFSET))
+  );
+  if (proposals.length === 0) {
+    return [];
+  }
+  const proposalInfos = await connection.getMultipleAccountsInfo(proposals, "confirmed");
+  const governances = proposalInfos.map((info) =>
+    info ? new PublicKey(info.data.subarray(1, PROPOSAL_MINT_OFFSET)) : null
+  );
+  const governanceInfos = await connection.getMultipleAccountsInfo(
+    governances.filter((governance): governance is PublicKey => Boolean(governance)),
+    "confirmed"
+  );
+  const realmByGovernance = new Map<string, string>();
+  governances
+    .filter((governance): governance is PublicKey => Boolean(governance))
+    .forEach((governance, index) => {
+      const governanceInfo = governanceInfos[index];
+      if (governanceInfo) {
+        realmByGovernance.set(
+          governance.toBase58(),
+          new PublicKey(
+            governanceInfo.data.subarray(GOVERNANCE_REALM_OFFSET, GOVERNANCE_REALM_OFFSET + 32)
+          ).toBase58()
+        );
+      }
+    });
+
+  return voteRecords.flatMap(({ pubkey }, index) => {
+    const proposalInfo = proposalInfos[index];
+    const governance = governances[index];
+    if (!proposalInfo || !governance) {
+      return [];
+    }
+    const proposalMint = new PublicKey(
+      proposalInfo.data.subarray(PROPOSAL_MINT_OFFSET, PROPOSAL_STATE_OFFSET)
+    );
+    if (
+      realmByGovernance.get(governance.toBase58()) !== record.realm.address.toBase58() ||
+      !proposalMint.equals(record.governingTokenMint)
+    ) {
+      return [];
+    }
+    return [
+      {
+        voteRecord: pubkey,
+        proposal: proposals[index],
+        governance,
+        proposalState: proposalInfo.data[PROPOSAL_STATE_OFFSET]
+      }
+    ];
+  });
+}
+
+export function buildDepositGoverningTokensInstruction(
+  programId: PublicKey,
+  realm: PublicKey,
+  governingTokenMint: PublicKey,
+  owner: PublicKey,
+  amount: bigint,
+  tokenProgramId: PublicKey
+) {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: realm, isSigner: false, isWritable: false },
+      {
+        pubkey: getGoverningTokenHoldingAddress(programId, realm, governingTokenMint),
+        isSigner: false,
+        isWritable: true
+      },
+      {
+        pubkey: getAssociatedTokenAddressSync(governingTokenMint, owner, false, tokenProgramId),
+        isSigner: false,
+        isWritable: true
+      },
+      { pubkey: owner, isSigner: true, isWritable: false },
+      { pubkey: owner, isSigner: true, isWritable: false },
+      {
+        pubkey: getTokenOwnerRecordAddress(programId, realm, governingTokenMint, owner),
+        isSigner: false,
+        isWritable: true
+      },
+      { pubkey: owner, isSigner: true, isWritable: true },
+      { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+      { pubkey: tokenProgramId, isSigner: false, isWritable: false },
+      { pubkey: getRealmConfigAddress(programId, realm), isSigner: false, isWritable: false }
+    ],
+    data: Buffer.concat([encodeU8(DEPOSIT_GOVERNING_TOKENS_INSTRUCTION), encodeU64(amount)])
+  });
+}
+
+/**
+ * Withdraws the full deposit back to the owner's associated token account.
+ * The program rejects it while votes or proposals are outstanding.
+ */
+export function buildWithdrawGoverningTokensInstruction(
+  programId: PublicKey,
+  record: TokenOwnerRecordRow,
+  owner: PublicKey
+) {
+  const realm = record.realm.address;
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: realm, isSigner: false, isWritable: false },
+      {
+        pubkey: getGoverningTokenHoldingAddress(programId, realm, record.governingTokenMint),
+        isSigner: false,
+        isWritable: true
+      },
+      {
+        pubkey: getAssociatedTokenAddressSync(
+          record.governingTokenMint,
+          owner,
+          false,
+          record.governingTokenProgramId
+        ),
+        isSigner: false,
+        isWritable: true
+      },
+      { pubkey: owner, isSigner: true, isWritable: false },
+      { pubkey: record.address, isSigner: false, isWritable: true },
+      { pubkey: record.governingTokenProgramId, isSigner: false, isWritable: false },
+      { pubkey: getRealmConfigAddress(programId, realm), isSigner: false, isWritable: false }
+    ],
+    data: encodeU8(WITHDRAW_GOVERNING_TOKENS_INSTRUCTION)
+  });
+}
+
+// Signing as governance authority also closes the vote record to the owner.
+export function buildRelinquishVoteInstruction(
+  programId: PublicKey,
+  record: TokenOwnerRecordRow,
+  vote: OpenVoteRecord,
+  owner: PublicKey
+) {
+  return new TransactionInstruction({
+    programId,
+    keys: [
+      { pubkey: record.realm.address, isSigner: false, isWritable: false },
+      { pubkey: vote.governance, isSigner: false, isWritable: false },
+      { pubkey: vote.proposal, isSigner: false, isWritable: true },
+      { pubkey: record.address, isSigner: false, isWritable: true },
+      { pubkey: vote.voteRecord, isSigner: false, isWritable: true },
+      { pubkey: record.governingTokenMint, isSigner: false, isWritable: false },
+      { pubkey: owner, isSigner: true, isWritable: false },
+      { pubkey: owner, isSigner: false, isWritable: true }
+    ],
+    data: encodeU8(RELINQUISH_VOTE_INSTRUCTION)
+  });
+}
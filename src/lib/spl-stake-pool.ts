@@ -0,0 +1,547 @@
+import {
+  createAssociatedTokenAccountIdempotentInstruction,
+  getAssociatedTokenAddressSync
+} from "@solana/spl-token";
+import {
+  type Connection,
+  PublicKey,
+  StakeAuthorizationLayout,
+  StakeProgram,
+  SYSVAR_CLOCK_PUBKEY,
+  SYSVAR_STAKE_HISTORY_PUBKEY,
+  SystemProgram,
+  TransactionInstruction
+} from "@solana/web3.js";
+import { Buffer } from "buffer";
+
+export const STAKE_POOL_PROGRAM_ID = new PublicKey(
+  "SPoo1Ku8WFXoNDMHPsrGSTSG1Y47rzgn41SLUNakuHy"
+);
+
+export type StakePoolFee = {
+  numerator: bigint;
+  denominator: bigint;
+};
+
+export type StakePoolValidator = {
+  voteAccount: PublicKey;
+  activeStakeLamports: bigint;
+  transientStakeLamports: bigint;
+  validatorSeedSuffix: number;
+  // 0 = active; anything else is being removed from the pool.
+  status: number;
+};
+
+export type StakePoolInfo = {
+  address: PublicKey;
+  manager: PublicKey;
+  stakeDepositAuthority: PublicKey;
+  validatorList: PublicKey;
+  reserveStake: PublicKey;
+  poolMint: PublicKey;
+  poolMintDecimals: number;
+  managerFeeAccount: PublicKey;
+  tokenProgramId: PublicKey;
+  totalLamports: bigint;
+  poolTokenSupply: bigint;
+  lastUpdateEpoch: number;
+  currentEpoch: number;
+  epochFee: StakePoolFee;
+  // When set, the program only accepts stake deposits/withdrawals for this validator.
+  preferredDepositValidator: PublicKey | null;
+  preferredWithdrawValidator: PublicKey | null;
+  stakeDepositFee: StakePoolFee;
+  stakeWithdrawalFee: StakePoolFee;
+  stakeReferralFee: number;
+  solDepositAuthority: PublicKey | null;
+  solDepositFee: StakePoolFee;
+  solReferralFee: number;
+  solWithdrawAuthority: PublicKey | null;
+  solWithdrawalFee: StakePoolFee;
+  validators: StakePoolValidator[];
+};
+
+// Instruction indexes in the StakePoolInstruction enum.
+const DEPOSIT_STAKE_INSTRUCTION = 9;
+const WITHDRAW_STAKE_INSTRUCTION = 10;
+const DEPOSIT_SOL_INSTRUCTION = 14;
+const WITHDRAW_SOL_INSTRUCTION = 16;
+
+const STAKE_POOL_ACCOUNT_TYPE = 1;
+const VALIDATOR_LIST_ACCOUNT_TYPE = 2;
+// Validator list: account type u8, max validators u32, then the Vec length.
+const VALIDATOR_LIST_HEADER_SIZE = 9;
+const VALIDATOR_STAKE_INFO_SIZE = 73;
+const MINT_DECIMALS_OFFSET = 44;
+// The pool program keeps at least this much delegated on every validator stake account.
+const MINIMUM_ACTIVE_STAKE = 1_000_000n;
+
+/**
+ * Sequential borsh reader for the variable-length StakePool account (future
+ * fees and optional authorities shift every later field).
+ */
+function createReader(data: Buffer) {
+  let offset = 0;
+  const u8 = () => {
+    const value = data.readUInt8(offset);
+    offset += 1;
+    return value;
+  };
+  const u64 = () => {
+    const value = data.readBigUInt64LE(offset);
+    offset += 8;
+    return value;
+  };
+  const pubkey = () => {
+    const value = new PublicKey(data.subarray(offset, offset + 32));
+    offset += 32;
+    return value;
+  };
+  const optionPubkey = () => (u8() === 1 ? pubkey() : null);
+  const fee = (): StakePoolFee => {
+    const denominator = u64();
+    const numerator = u64();
+    return { numerator, denominator };
+  };
+  // FutureEpoch<Fee>: None, One(Fee) or Two(Fee).
+  const futureFee = () => (u8() === 0 ? null : fee());
+  const skip = (length: number) => {
+    offset += length;
+  };
+  return { u8, u64, pubkey, optionPubkey, fee, futureFee, skip };
+}
+
+function decodeStakePool(address: PublicKey, data: Buffer) {
+  const reader = createReader(data);
+  if (reader.u8() !== STAKE_POOL_ACCOUNT_TYPE) {
+    throw new Error("Account is not an SPL stake pool.");
+  }
+  const manager = reader.pubkey();
+  reader.pubkey(); // staker
+  const stakeDepositAuthority = reader.pubkey();
+  reader.u8(); // withdraw authority bump seed
+  const validatorList = reader.pubkey();
+  const reserveStake = reader.pubkey();
+  const poolMint = reader.pubkey();
+  const managerFeeAccount = reader.pubkey();
+  const tokenProgramId = reader.pubkey();
+  const totalLamports = reader.u64();
+  const poolTokenSupply = reader.u64();
+  const lastUpdateEpoch = Number(reader.u64());
+  reader.skip(48); // lockup
+  const epochFee = reader.fee();
+  reader.futureFee();
+  const preferredDepositValidator = reader.optionPubkey();
+  const preferredWithdrawValidator = reader.optionPubkey();
+  const stakeDepositFee = reader.fee();
+  const stakeWithdrawalFee = reader.fee();
+  reader.futureFee();
+  const stakeReferralFee = reader.u8();
+  const solDepositAuthority = reader.optionPubkey();
+  const solDepositFee = reader.fee();
+  const solReferralFee = reader.u8();
+  const solWithdrawAuthority = reader.optionPubkey();
+  const solWithdrawalFee = reader.fee();
+
+  return {
+    address,
+    manager,
+    stakeDepositAuthority,
+    validatorList,
+    reserveStake,
+    poolMint,
+    managerFeeAccount,
+    tokenProgramId,
+    totalLamports,
+    poolTokenSupply,
+    lastUpdateEpoch,
+    epochFee,
+    preferredDepositValidator,
+    preferredWithdrawValidator,
+    stakeDepositFee,
+    stakeWithdrawalFee,
+    stakeReferralFee,
+    solDepositAuthority,
+    solDepositFee,
+    solReferralFee,
+    solWithdrawAuthority,
+    solWithdrawalFee
+  };
+}
+
+function decodeValidatorList(data: Buffer): StakePoolValidator[] {
+  if (data.readUInt8(0) !== VALIDATOR_LIST_ACCOUNT_TYPE) {
+    throw new Error("Stake pool validator list has an unexpected account type.");
+  }
+  const count = data.readUInt32LE(VALIDATOR_LIST_HEADER_SIZE - 4);
+  const validators: StakePoolValidator[] = [];
+  for (let index = 0; index < count; index += 1) {
+    const offset = VALIDATOR_LIST_HEADER_SIZE + index * VALIDATOR_STAKE_INFO_SIZE;
+    validators.push({
+      activeStakeLamports: data.readBigUInt64LE(offset),
+      transientStakeLamports: data.readBigUInt64LE(offset + 8),
+      validatorSeedSuffix: data.readUInt32LE(offset + 36),
+      status: data.readUInt8(offset + 40),
+      voteAccount: new PublicKey(data.subarray(offset + 41, offset + 73))
+    });
+  }
+  return validators;
+}
+
+export async function fetchStakePool(
+  connection: Connection,
+  address: PublicKey
+): Promise<StakePoolInfo> {
+  const poolAccount = await connection.getAccountInfo(address, "confirmed");
+  if (!poolAccount || !poolAccount.owner.equals(STAKE_POOL_PROGRAM_ID)) {
+    throw new Error("Stake pool account not found for the SPL Stake Pool program.");
+  }
+  const pool = decodeStakePool(address, poolAccount.data);
+  const [[validatorListAccount, mintAccount], epochInfo] = await Promise.all([
+    connection.getMultipleAccountsInfo([pool.validatorList, pool.poolMint], "confirmed"),
+    connection.getEpochInfo("confirmed")
+  ]);
+  if (!validatorListAccount || !mintAccount) {
+    throw new Error("Stake pool validator list or pool mint not found.");
+  }
+
+  return {
+    ...pool,
+    poolMintDecimals: mintAccount.data[MINT_DECIMALS_OFFSET],
+    currentEpoch: epochInfo.epoch,
+    validators: decodeValidatorList(validatorListAccount.data)
+  };
+}
+
+export function getStakePoolWithdrawAuthority(pool: PublicKey) {
+  return PublicKey.findProgramAddressSync(
+    [pool.toBuffer(), Buffer.from("withdraw")],
+    STAKE_POOL_PROGRAM_ID
+  )[0];
+}
+
+function getStakePoolDepositAuthority(pool: PublicKey) {
+  return PublicKey.findProgramAddressSync(
+    [pool.toBuffer(), Buffer.from("deposit")],
+    STAKE_POOL_PROGRAM_ID
+  )[0];
+}
+
+export function getValidatorStakeAddress(
+  pool: PublicKey,
+  voteAccount: PublicKey,
+  seedSuffix: number
+) {
+  const seeds = [voteAccount.toBuffer(), pool.toBuffer()];
+  if (seedSuffix !== 0) {
+    const suffix = Buffer.alloc(4);
+    suffix.writeUInt32LE(seedSuffix);
+    seeds.push(suffix);
+  }
+  return PublicKey.findProgramAddressSync(seeds, STAKE_POOL_PROGRAM_ID)[0];
+}
+
+export function getPoolTokenAccount(pool: StakePoolInfo, owner: PublicKey) {
+  return getAssociatedTokenAddressSync(pool.poolMint, owner, false, pool.tokenProgramId);
+}
+
+export function applyStakePoolFee(amount: bigint, fee: StakePoolFee) {
+  return fee.denominator === 0n ? 0n : (amount * fee.numerator) / fee.denominator;
+}
+
+export function formatStakePoolFee(fee: StakePoolFee) {
+  return fee.denominator === 0n
+    ? "0%"
+    : `${((Number(fee.numerator) / Number(fee.denominator)) * 100).toFixed(2)}%`;
+}
+
+export function poolTokensToLamports(pool: StakePoolInfo, poolTokens: bigint) {
+  return pool.poolTokenSupply === 0n
+    ? poolTokens
+    : (poolTokens * pool.totalLamports) / pool.poolTokenSupply;
+}
+
+export function lamportsToPoolTokens(pool: StakePoolInfo, lamports: bigint) {
+  return pool.totalLamports === 0n
+    ? lamports
+    : (lamports * pool.poolTokenSupply) / pool.totalLamports;
+}
+
+function encodeAmountInstruction(instruction: number, amount: bigint) {
+  const data = Buffer.alloc(9);
+  data.writeUInt8(instruction);
+  data.writeBigUInt64LE(amount, 1);
+  return data;
+}
+
+function assertPoolUpdated(pool: StakePoolInfo) {
+  if (pool.lastUpdateEpoch < pool.currentEpoch) {
+    throw new Error(
+      "Stake pool has not been updated for the current epoch. Deposits and withdrawals fail until the pool update runs."
+    );
+  }
+}
+
+export function buildDepositSolInstructions(
+  pool: StakePoolInfo,
+  wallet: PublicKey,
+  lamports: bigint
+) {
+  assertPoolUpdated(pool);
+  if (pool.solDepositAuthority) {
+    throw new Error("This pool restricts SOL deposits to its deposit authority.");
+  }
+  const poolTokenAccount = getPoolTokenAccount(pool, wallet);
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      wallet,
+      poolTokenAccount,
+      wallet,
+      pool.poolMint,
+      pool.tokenProgramId
+    ),
+    new TransactionInstruction({
+      programId: STAKE_POOL_PROGRAM_ID,
+      keys: [
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: getStakePoolWithdrawAuthority(pool.address), isSigner: false, isWritable: false },
+        { pubkey: pool.reserveStake, isSigner: false, isWritable: true },
+        { pubkey: wallet, isSigner: true, isWritable: true },
+        { pubkey: poolTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: pool.managerFeeAccount, isSigner: false, isWritable: true },
+        // The depositor's own account receives the referral fee.
+        { pubkey: poolTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: pool.poolMint, isSigner: false, isWritable: true },
+        { pubkey: SystemProgram.programId, isSigner: false, isWritable: false },
+        { pubkey: pool.tokenProgramId, isSigner: false, isWritable: false }
+      ],
+      data: encodeAmountInstruction(DEPOSIT_SOL_INSTRUCTION, lamports)
+    })
+  ];
+}
+
+export function buildWithdrawSolInstructions(
+  pool: StakePoolInfo,
+  wallet: PublicKey,
+  poolTokens: bigint
+) {
+  assertPoolUpdated(pool);
+  if (pool.solWithdrawAuthority) {
+    throw new Error("This pool restricts SOL withdrawals to its withdraw authority.");
+  }
+  return [
+    new TransactionInstruction({
+      programId: STAKE_POOL_PROGRAM_ID,
+      keys: [
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: getStakePoolWithdrawAuthority(pool.address), isSigner: false, isWritable: false },
+        { pubkey: wallet, isSigner: true, isWritable: false },
+        { pubkey: getPoolTokenAccount(pool, wallet), isSigner: false, isWritable: true },
+        { pubkey: pool.reserveStake, isSigner: false, isWritable: true },
+        { pubkey: wallet, isSigner: false, isWritable: true },
+        { pubkey: pool.managerFeeAccount, isSigner: false, isWritable: true },
+        { pubkey: pool.poolMint, isSigner: false, isWritable: true },
+        { pubkey: SYSVAR_CLOCK_PUBKEY, isSigner: false, isWritable: false },
+        { pubkey: SYSVAR_STAKE_HISTORY_PUBKEY, isSigner: false, isWritable: false },
+        { pubkey: StakeProgram.programId, isSigner: false, isWritable: false },
+        { pubkey: pool.tokenProgramId, isSigner: false, isWritable: false }
+      ],
+      data: encodeAmountInstruction(WITHDRAW_SOL_INSTRUCTION, poolTokens)
+    })
+  ];
+}
+
+/**
+ * Hands both stake authorities to the pool deposit authority, then deposits
+ * the stake account into the pool's stake account for the same validator.
+ */
+export function buildDepositStakeInstructions(
+  pool: StakePoolInfo,
+  wallet: PublicKey,
+  stakeAccount: PublicKey,
+  voteAccount: PublicKey
+) {
+  assertPoolUpdated(pool);
+  const depositAuthority = getStakePoolDepositAuthority(pool.address);
+  if (!pool.stakeDepositAuthority.equals(depositAuthority)) {
+    throw new Error("This pool restricts stake deposits to its deposit authority.");
+  }
+  const validator = pool.validators.find(
+    (entry) => entry.voteAccount.equals(voteAccount) && entry.status === 0
+  );
+  if (!validator) {
+    throw new Error("Stake account is delegated to a validator that is not active in this pool.");
+  }
+  if (pool.preferredDepositValidator && !pool.preferredDepositValidator.equals(voteAccount)) {
+    throw new Error(
+      `This pool only accepts stake delegated to ${pool.preferredDepositValidator.toBase58()}.`
+    );
+  }
+  const poolTokenAccount = getPoolTokenAccount(pool, wallet);
+
+  return [
+    createAssociatedTokenAccountIdempotentInstruction(
+      wallet,
+      poolTokenAccount,
+      wallet,
+      pool.poolMint,
+      pool.tokenProgramId
+    ),
+    ...StakeProgram.authorize({
+      stakePubkey: stakeAccount,
+      authorizedPubkey: wallet,
+      newAuthorizedPubkey: depositAuthority,
+      stakeAuthorizationType: StakeAuthorizationLayout.Staker
+    }).instructions,
+    ...StakeProgram.authorize({
+      stakePubkey: stakeAccount,
+      authorizedPubkey: wallet,
+      newAuthorizedPubkey: depositAuthority,
+      stakeAuthorizationType: StakeAuthorizationLayout.Withdrawer
+    }).instructions,
+    new TransactionInstruction({
+      programId: STAKE_POOL_PROGRAM_ID,
+      keys: [
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: pool.validatorList, isSigner: false, isWritable: true },
+        { pubkey: depositAuthority, isSigner: false, isWritable: false },
+        { pubkey: getStakePoolWithdrawAuthority(pool.address), isSigner: false, isWritable: false },
+        { pubkey: stakeAccount, isSigner: false, isWritable: true },
+        {
+          pubkey: getValidatorStakeAddress(
+            pool.address,
+            voteAccount,
+            validator.validatorSeedSuffix
+          ),
+          isSigner: false,
+          isWritable: true
+        },
+        { pubkey: pool.reserveStake, isSigner: false, isWritable: true },
+        { pubkey: poolTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: pool.managerFeeAccount, isSigner: false, isWritable: true },
+        { pubkey: poolTokenAccount, isSigner: false, isWritable: true },
+        { pubkey: pool.poolMint, isSigner: false, isWritable: true },
+        { pubkey: SYSVAR_CLOCK_PUBKEY, isSigner: false, isWritable: false },
+        { pubkey: SYSVAR_STAKE_HISTORY_PUBKEY, isSigner: false, isWritable: false },
+        { pubkey: pool.tokenProgramId, isSigner: false, isWritable: false },
+        { pubkey: StakeProgram.programId, isSigner: false, isWritable: false }
+      ],
+      data: Buffer.from([DEPOSIT_STAKE_INSTRUCTION])
+    })
+  ];
+}
+
+/**
+ * Picks the stake account a withdrawal splits from, following the program's
+ * rules: the preferred withdraw validator while it has spare stake, otherwise
+ * the validator with the most spare stake, and the reserve only once no
+ * validator has any. Spare stake is what sits above the rent-exempt reserve
+ * plus minimum delegation the validator stake account must keep.
+ */
+function selectWithdrawStakeSource(
+  pool: StakePoolInfo,
+  withdrawLamports: bigint,
+  stakeRentExemption: number,
+  stakeMinimumDelegation: number
+) {
+  const minimumDelegation = BigInt(stakeMinimumDelegation);
+  const retainedLamports =
+    BigInt(stakeRentExemption) +
+    (minimumDelegation > MINIMUM_ACTIVE_STAKE ? minimumDelegation : MINIMUM_ACTIVE_STAKE);
+  const candidates = pool.validators
+    .map((validator) => ({
+      validator,
+      spareLamports:
+        validator.activeStakeLamports > retainedLamports
+          ? validator.activeStakeLamports - retainedLamports
+          : 0n
+    }))
+    .filter((candidate) => candidate.spareLamports > 0n);
+  const toStakeAddress = (validator: StakePoolValidator) =>
+    getValidatorStakeAddress(pool.address, validator.voteAccount, validator.validatorSeedSuffix);
+
+  const preferred = pool.preferredWithdrawValidator
+    ? candidates.find((candidate) =>
+        candidate.validator.voteAccount.equals(pool.preferredWithdrawValidator as PublicKey)
+      )
+    : undefined;
+  if (preferred) {
+    if (preferred.spareLamports < withdrawLamports) {
+      throw new Error(
+        `This pool's preferred withdraw validator only has ${preferred.spareLamports.toString()} lamports available. Withdraw less stake or withdraw SOL instead.`
+      );
+    }
+    return toStakeAddress(preferred.validator);
+  }
+
+  if (candidates.length === 0) {
+    return pool.reserveStake;
+  }
+  const source = candidates
+    .filter((candidate) => candidate.spareLamports >= withdrawLamports)
+    .sort((a, b) => (b.spareLamports > a.spareLamports ? 1 : -1))[0];
+  if (!source) {
+    const largest = candidates.reduce((max, candidate) =>
+      candidate.spareLamports > max.spareLamports ? candidate : max
+    );
+    throw new Error(
+      `No pool validator has enough spare stake; the most available is ${largest.spareLamports.toString()} lamports.`
+    );
+  }
+  return toStakeAddress(source.validator);
+}
+
+/**
+ * Splits stake worth `poolTokens` out of a validator stake account (or the
+ * reserve) into a new stake account owned by the wallet. The new account must
+ * sign the transaction.
+ */
+export function buildWithdrawStakeInstructions(
+  pool: StakePoolInfo,
+  wallet: PublicKey,
+  poolTokens: bigint,
+  newStakeAccount: PublicKey,
+  stakeRentExemption: number,
+  stakeMinimumDelegation: number
+) {
+  assertPoolUpdated(pool);
+  const withdrawLamports = poolTokensToLamports(
+    pool,
+    poolTokens - applyStakePoolFee(poolTokens, pool.stakeWithdrawalFee)
+  );
+  const sourceStake = selectWithdrawStakeSource(
+    pool,
+    withdrawLamports,
+    stakeRentExemption,
+    stakeMinimumDelegation
+  );
+
+  return [
+    SystemProgram.createAccount({
+      fromPubkey: wallet,
+      newAccountPubkey: newStakeAccount,
+      lamports: stakeRentExemption,
+      space: StakeProgram.space,
+      programId: StakeProgram.programId
+    }),
+    new TransactionInstruction({
+      programId: STAKE_POOL_PROGRAM_ID,
+      keys: [
+        { pubkey: pool.address, isSigner: false, isWritable: true },
+        { pubkey: pool.validatorList, isSigner: false, isWritable: true },
+        { pubkey: getStakePoolWithdrawAuthority(pool.address), isSigner: false, isWritable: false },
+        { pubkey: sourceStake, isSigner: false, isWritable: true },
+        { pubkey: newStakeAccount, isSigner: false, isWritable: true },
+        { pubkey: wallet, isSigner: false, isWritable: false },
+        { pubkey: wallet, isSigner: true, isWritable: false },
+        { pubkey: getPoolTokenAccount(pool, wallet), isSigner: false, isWritable: true },
+        { pubkey: pool.managerFeeAccount, isSigner: false, isWritable: true },
+        { pubkey: pool.poolMint, isSigner: false, isWritable: true },
+        { pubkey: SYSVAR_CLOCK_PUBKEY, isSigner: false, isWritable: false },
+        { pubkey: pool.tokenProgramId, isSigner: false, isWritable: false },
+        { pubkey: StakeProgram.programId, isSigner: false, isWritable: false }
+      ],
+      data: encodeAmountInstruction(WITHDRAW_STAKE_INSTRUCTION, poolTokens)
+    })
+  ];
+}
@@ -0,0 +1,171 @@
+export type StakeAccountRow = {
+  address: string;
+  lamports: number;
+  state: string;
+  delegatedLamports: number;
+  voter: string | null;
+  staker: string | null;
+  withdrawer: string | null;
+};
+
+export type StakeAuthorityKind = "staker" | "withdrawer";
+
+export type StakeRedelegatePlan = "delegate" | "deactivate";
+
+type StakePhase = "inactive" | "activating" | "active" | "deactivating";
+
+function shortenAddress(address: string) {
+  return `${address.slice(0, 6)}...${address.slice(-6)}`;
+}
+
+// Rows come from getStakeActivation or Shyft, so the state string is not fixed.
+export function getStakePhase(account: StakeAccountRow): StakePhase | null {
+  const state = account.state.toLowerCase();
+  if (state === "inactive" || state === "initialized") {
+    return "inactive";
+  }
+  if (state === "activating" || state === "active" || state === "deactivating") {
+    return state;
+  }
+  return null;
+}
+
+function requirePhase(account: StakeAccountRow) {
+  const phase = getStakePhase(account);
+  if (!phase) {
+    throw new Error(
+      `Stake account ${shortenAddress(account.address)} has unsupported state "${account.state}".`
+    );
+  }
+  return phase;
+}
+
+export function assertStakeAuthority(
+  account: StakeAccountRow,
+  wallet: string,
+  kind: StakeAuthorityKind
+) {
+  // Authorities are unknown for some indexer rows; the stake program still checks.
+  const authority = kind === "staker" ? account.staker : account.withdrawer;
+  if (authority && authority !== wallet) {
+    throw new Error(
+      `Connected wallet is not the ${kind} of ${shortenAddress(account.address)}.`
+    );
+  }
+}
+
+/**
+ * Checks a partial split. The new account is funded with its rent reserve by
+ * the wallet; the split amount must carry the minimum delegation when the
+ * source is delegated, and the source must keep enough to remain valid.
+ */
+export function validateSplit(
+  account: StakeAccountRow,
+  wallet: string,
+  lamports: bigint,
+  limits: { rentExemptReserve: number; minimumDelegation: number }
+) {
+  assertStakeAuthority(account, wallet, "staker");
+  const phase = requirePhase(account);
+  if (lamports <= 0n) {
+    throw new Error("Split amount must be greater than zero.");
+  }
+  const isDelegated = phase !== "inactive";
+  const minimumKept = BigInt(
+    limits.rentExemptReserve + (isDelegated ? limits.minimumDelegation : 0)
+  );
+  if (isDelegated && lamports < BigInt(limits.minimumDelegation)) {
+    throw new Error("Split amount is below the minimum stake delegation.");
+  }
+  if (BigInt(account.lamports) - lamports < minimumKept) {
+    throw new Error(
+      "Split would leave the source account below its rent reserve or minimum delegation."
+    );
+  }
+}
+
+/**
+ * Checks the stake program merge rules we can see from the row: matching
+ * authorities, the same validator, and compatible activation states.
+ */
+export function validateMerge(
+  destination: StakeAccountRow,
+  source: StakeAccountRow,
+  wallet: string
+) {
+  if (destination.address === source.address) {
+    throw new Error("Select two different stake accounts to merge.");
+  }
+  assertStakeAuthority(destination, wallet, "staker");
+  assertStakeAuthority(source, wallet, "staker");
+  if (destination.staker !== source.staker || destination.withdrawer !== source.withdrawer) {
+    throw new Error("Stake accounts must share the same staker and withdrawer to merge.");
+  }
+
+  const destinationPhase = requirePhase(destination);
+  const sourcePhase = requirePhase(source);
+  if (destinationPhase === "deactivating" || sourcePhase === "deactivating") {
+    throw new Error("Deactivating stake cannot be merged until it is fully inactive.");
+  }
+  if (destinationPhase === "inactive" || sourcePhase === "inactive") {
+    // Inactive stake merges into inactive or activating stake, but not active.
+    if (destinationPhase === "active" || sourcePhase === "active") {
+      throw new Error("Inactive stake cannot be merged with active stake.");
+    }
+    return;
+  }
+  if (destinationPhase !== sourcePhase) {
+    throw new Error("Activating stake can only be merged with activating or inactive stake.");
+  }
+  if (destination.voter !== source.voter) {
+    throw new Error("Delegated stake accounts must use the same validator to merge.");
+  }
+}
+
+/**
+ * Redelegation on mainnet is deactivate-then-delegate: inactive stake is
+ * delegated right away, active stake is deactivated first and delegated once
+ * the cooldown epoch has passed.
+ */
+export function planRedelegate(
+  account: StakeAccountRow,
+  wallet: string,
+  votePubkey: string
+): StakeRedelegatePlan {
+  assertStakeAuthority(account, wallet, "staker");
+  const phase = requirePhase(account);
+  if (phase === "inactive") {
+    return "delegate";
+  }
+  if (phase === "deactivating") {
+    // Delegating back to the same validator cancels the deactivation.
+    if (account.voter === votePubkey) {
+      return "delegate";
+    }
+    throw new Error(
+      "Stake is deactivating. Delegate it to the new validator after the epoch ends."
+    );
+  }
+  if (account.voter === votePubkey) {
+    throw new Error("Stake account is already delegated to this validator.");
+  }
+  return "deactivate";
+}
+
+export function validateAuthorize(
+  account: StakeAccountRow,
+  wallet: string,
+  kind: StakeAuthorityKind,
+  newAuthority: string
+) {
+  // The withdrawer may also replace the staker.
+  if (kind === "staker" && account.withdrawer === wallet) {
+    assertStakeAuthority(account, wallet, "withdrawer");
+  } else {
+    assertStakeAuthority(account, wallet, kind);
+  }
+  const current = kind === "staker" ? account.staker : account.withdrawer;
+  if (current === newAuthority) {
+    throw new Error(`New ${kind} is the same as the current ${kind}.`);
+  }
+}
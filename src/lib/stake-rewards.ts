@@ -0,0 +1,235 @@
+import {
+  type Connection,
+  LAMPORTS_PER_SOL,
+  type ParsedAccountData,
+  PublicKey
+} from "@solana/web3.js";
+import { csvEscape } from "@/lib/csv";
+import type { StakeAccountRow } from "@/lib/stake-accounts";
+
+export type StakeRewardRow = {
+  epoch: number;
+  stakeAccount: string;
+  // Only known once the current delegation was earning; the RPC does not
+  // report the voter at reward time, so earlier epochs are null.
+  voter: string | null;
+  amount: number;
+  postBalance: number;
+  effectiveSlot: number;
+  blockTime: number | null;
+  commission: number | null;
+};
+
+export type StakeRewardSummary = {
+  key: string;
+  epochs: number;
+  totalLamports: number;
+  // Annualized from the stake-weighted average per-epoch return.
+  apy: number | null;
+};
+
+export type StakeRewardHistory = {
+  rewards: StakeRewardRow[];
+  fromEpoch: number;
+  toEpoch: number;
+  epochsPerYear: number;
+};
+
+export const MAX_REWARD_EPOCHS = 50;
+
+const INFLATION_REWARD_CHUNK = 100;
+const SECONDS_PER_YEAR = 365.25 * 24 * 60 * 60;
+// Fallback when block times are unavailable for the range.
+const DEFAULT_SLOT_SECONDS = 0.4;
+const REPORT_COLUMNS = [
+  "epoch",
+  "date",
+  "stake_account",
+  "validator",
+  "reward_lamports",
+  "reward_sol",
+  "post_balance_sol",
+  "commission",
+  "epoch_return",
+  "apy"
+];
+
+function annualize(epochRate: number, epochsPerYear: number) {
+  return Math.pow(1 + epochRate, epochsPerYear) - 1;
+}
+
+function getEpochRate(reward: StakeRewardRow) {
+  const preBalance = reward.postBalance - reward.amount;
+  return preBalance > 0 ? reward.amount / preBalance : 0;
+}
+
+function lamportsToSol(lamports: number) {
+  return (lamports / LAMPORTS_PER_SOL).toFixed(9);
+}
+
+/**
+ * Epoch each account's current delegation was activated in. Rewards for that
+ * epoch and earlier may have been earned under a previous delegation.
+ */
+async function fetchDelegationActivationEpochs(
+  connection: Connection,
+  stakeAccounts: StakeAccountRow[]
+) {
+  const activationEpochs = new Map<string, number>();
+  for (let index = 0; index < stakeAccounts.length; index += INFLATION_REWARD_CHUNK) {
+    const chunk = stakeAccounts.slice(index, index + INFLATION_REWARD_CHUNK);
+    const accounts = await connection.getMultipleParsedAccounts(
+      chunk.map((account) => new PublicKey(account.address)),
+      { commitment: "confirmed" }
+    );
+    accounts.value.forEach((account, chunkIndex) => {
+      const parsed = account?.data as ParsedAccountData | undefined;
+      const activationEpoch = parsed?.parsed?.info?.stake?.delegation?.activationEpoch;
+      if (activationEpoch !== undefined) {
+        activationEpochs.set(chunk[chunkIndex].address, Number(activationEpoch));
+      }
+    });
+  }
+  return activationEpochs;
+}
+
+/**
+ * Reads inflation rewards for each stake account and completed epoch in the
+ * range. Epoch length for annualizing comes from the block times of the first
+ * and last reward slots, falling back to the nominal slot time.
+ */
+export async function fetchStakeRewardHistory(
+  connection: Connection,
+  stakeAccounts: StakeAccountRow[],
+  fromEpoch: number,
+  toEpoch: number
+): Promise<StakeRewardHistory> {
+  if (toEpoch < fromEpoch) {
+    throw new Error("End epoch must not be before start epoch.");
+  }
+  if (toEpoch - fromEpoch + 1 > MAX_REWARD_EPOCHS) {
+    throw new Error(`Select at most ${MAX_REWARD_EPOCHS} epochs.`);
+  }
+  const epochInfo = await connection.getEpochInfo("confirmed");
+  if (toEpoch >= epochInfo.epoch) {
+    throw new Error(
+      `Rewards are only available for completed epochs (up to ${epochInfo.epoch - 1}).`
+    );
+  }
+
+  const activationEpochs = await fetchDelegationActivationEpochs(connection, stakeAccounts);
+  const rewards: StakeRewardRow[] = [];
+  const slotByEpoch = new Map<number, number>();
+  for (let epoch = fromEpoch; epoch <= toEpoch; epoch += 1) {
+    for (let index = 0; index < stakeAccounts.length; index += INFLATION_REWARD_CHUNK) {
+      const chunk = stakeAccounts.slice(index, index + INFLATION_REWARD_CHUNK);
+      const results = await connection.getInflationReward(
+        chunk.map((account) => new PublicKey(account.address)),
+        epoch,
+        "confirmed"
+      );
+      results.forEach((reward, chunkIndex) => {
+        if (!reward || reward.amount <= 0) {
+          return;
+        }
+        slotByEpoch.set(epoch, reward.effectiveSlot);
+        const account = chunk[chunkIndex];
+        const activationEpoch = activationEpochs.get(account.address);
+        rewards.push({
+          epoch,
+          stakeAccount: account.address,
+          voter: activationEpoch !== undefined && epoch > activationEpoch ? account.voter : null,
+          amount: reward.amount,
+          postBalance: reward.postBalance,
+          effectiveSlot: reward.effectiveSlot,
+          blockTime: null,
+          commission: reward.commission ?? null
+        });
+      });
+    }
+  }
+
+  const timeByEpoch = new Map<number, number | null>();
+  for (const [epoch, slot] of Array.from(slotByEpoch.entries())) {
+    try {
+      timeByEpoch.set(epoch, await connection.getBlockTime(slot));
+    } catch {
+      timeByEpoch.set(epoch, null);
+    }
+  }
+  rewards.forEach((reward) => {
+    reward.blockTime = timeByEpoch.get(reward.epoch) ?? null;
+  });
+
+  const timedEpochs = Array.from(timeByEpoch.entries())
+    .filter((entry): entry is [number, number] => entry[1] !== null)
+    .sort((a, b) => a[0] - b[0]);
+  let epochSeconds = epochInfo.slotsInEpoch * DEFAULT_SLOT_SECONDS;
+  if (timedEpochs.length >= 2) {
+    const [firstEpoch, firstTime] = timedEpochs[0];
+    const [lastEpoch, lastTime] = timedEpochs[timedEpochs.length - 1];
+    epochSeconds = (lastTime - firstTime) / (lastEpoch - firstEpoch);
+  }
+
+  return {
+    rewards,
+    fromEpoch,
+    toEpoch,
+    epochsPerYear: SECONDS_PER_YEAR / epochSeconds
+  };
+}
+
+/** Rewards whose `groupBy` key is null are left out of the summaries. */
+export function summarizeStakeRewards(
+  history: StakeRewardHistory,
+  groupBy: (reward: StakeRewardRow) => string | null
+): StakeRewardSummary[] {
+  const groups = new Map<
+    string,
+    { epochs: Set<number>; totalLamports: number; preBalanceTotal: number }
+  >();
+  history.rewards.forEach((reward) => {
+    const key = groupBy(reward);
+    if (key === null) {
+      return;
+    }
+    const group = groups.get(key) ?? { epochs: new Set(), totalLamports: 0, preBalanceTotal: 0 };
+    group.epochs.add(reward.epoch);
+    group.totalLamports += reward.amount;
+    group.preBalanceTotal += reward.postBalance - reward.amount;
+    groups.set(key, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([key, group]) => ({
+      key,
+      epochs: group.epochs.size,
+      totalLamports: group.totalLamports,
+      apy:
+        group.preBalanceTotal > 0
+          ? annualize(group.totalLamports / group.preBalanceTotal, history.epochsPerYear)
+          : null
+    }))
+    .sort((a, b) => b.totalLamports - a.totalLamports);
+}
+
+export function serializeStakeRewardsCsv(history: StakeRewardHistory) {
+  const lines = history.rewards.map((reward) => {
+    const epochRate = getEpochRate(reward);
+    return [
+      String(reward.epoch),
+      reward.blockTime ? new Date(reward.blockTime * 1000).toISOString() : "",
+      reward.stakeAccount,
+      reward.voter ?? "",
+      String(reward.amount),
+      lamportsToSol(reward.amount),
+      lamportsToSol(reward.postBalance),
+      reward.commission === null ? "" : String(reward.commission),
+      epochRate.toFixed(8),
+      annualize(epochRate, history.epochsPerYear).toFixed(6)
+    ]
+      .map(csvEscape)
+      .join(",");
+  });
+  return [REPORT_COLUMNS.join(","), ...lines].join("\n");
+}
@@ -0,0 +1,23 @@
+/** Converts a decimal amount like `1.25` into base units for `decimals`. */
+export function parseTokenAmount(input: string, decimals: number) {
+  const normalized = input.trim();
+  if (!normalized) {
+    throw new Error("Amount is required.");
+  }
+  if (!/^\d+(\.\d+)?$/.test(normalized)) {
+    throw new Error(`"${normalized}" is not a valid amount.`);
+  }
+  const [wholePart, fractionPart = ""] = normalized.split(".");
+  if (fractionPart.length > decimals) {
+    throw new Error(`"${normalized}" has more than ${decimals} decimal places.`);
+  }
+  return BigInt(`${wholePart}${fractionPart.padEnd(decimals, "0")}`);
+}
+
+export function parsePositiveTokenAmount(input: string, decimals: number) {
+  const amount = parseTokenAmount(input, decimals);
+  if (amount <= 0n) {
+    throw new Error("Amount must be greater than zero.");
+  }
+  return amount;
+}
@@ -0,0 +1,701 @@
+import {
+  AccountState,
+  ExtensionType,
+  LENGTH_SIZE,
+  TOKEN_2022_PROGRAM_ID,
+  TYPE_SIZE,
+  type TransferFeeConfig,
+  createHarvestWithheldTokensToMintInstruction,
+  createRemoveKeyInstruction,
+  createUpdateAuthorityInstruction,
+  createUpdateFieldInstruction,
+  createInitializeDefaultAccountStateInstruction,
+  createInitializeInstruction,
+  createInitializeInterestBearingMintInstruction,
+  createInitializeMetadataPointerInstruction,
+  createInitializeMintCloseAuthorityInstruction,
+  createInitializeNonTransferableMintInstruction,
+  createInitializePermanentDelegateInstruction,
+  createInitializeTransferFeeConfigInstruction,
+  createInitializeTransferHookInstruction,
+  getExtensionData,
+  getMetadataPointerState,
+  getMintLen,
+  getTransferFeeAmount,
+  getTransferFeeConfig,
+  unpackAccount,
+  unpackMint
+} from "@solana/spl-token";
+import {
+  type AccountInfo,
+  type Connection,
+  PublicKey,
+  SystemProgram,
+  type TransactionInstruction
+} from "@solana/web3.js";
+
+export type EmbeddedMetadataFields = {
+  name: string;
+  symbol: string;
+  uri: string;
+};
+
+export type MintExtensionConfig = {
+  mintCloseAuthority?: PublicKey;
+  transferFee?: {
+    basisPoints: number;
+    maximumFee: bigint;
+    configAuthority: PublicKey;
+    withdrawAuthority: PublicKey;
+  };
+  interestBearing?: {
+    rateBasisPoints: number;
+    rateAuthority: PublicKey;
+  };
+  nonTransferable?: boolean;
+  permanentDelegate?: PublicKey;
+  defaultAccountState?: AccountState;
+  transferHook?: {
+    programId: PublicKey;
+    authority: PublicKey;
+  };
+  metadata?: EmbeddedMetadataFields & {
+    updateAuthority: PublicKey;
+  };
+};
+
+export type MintExtensionSummary = {
+  extension: string;
+  detail: string;
+};
+
+export type EmbeddedTokenMetadata = EmbeddedMetadataFields & {
+  updateAuthority: PublicKey | null;
+  mint: PublicKey;
+  additionalMetadata: Array<[string, string]>;
+};
+
+export type EmbeddedMetadataState = {
+  pointerAuthority: PublicKey | null;
+  metadataAddress: PublicKey | null;
+  metadata: EmbeddedTokenMetadata | null;
+};
+
+export type EmbeddedMetadataDraft = EmbeddedMetadataFields & {
+  additionalMetadata: Array<[string, string]>;
+};
+
+export type WithheldFeeAccount = {
+  address: PublicKey;
+  owner: PublicKey;
+  withheldAmount: bigint;
+};
+
+export type TransferFeeState = {
+  decimals: number;
+  config: TransferFeeConfig;
+  currentEpoch: bigint;
+  withheldAccounts: WithheldFeeAccount[];
+  totalAccountWithheld: bigint;
+};
+
+export const MAX_TRANSFER_FEE_BASIS_POINTS = 10_000;
+// Harvest is permissionless; keep each instruction well under the account-key limit.
+const HARVEST_SOURCES_PER_INSTRUCTION = 20;
+
+const utf8 = new TextEncoder();
+
+function borshStringLength(value: string) {
+  return 4 + utf8.encode(value).length;
+}
+
+/**
+ * Borsh-packed size of a TokenMetadata entry: update authority, mint, the three
+ * base strings, and the additional key/value vector.
+ */
+export function getEmbeddedMetadataLength(
+  fields: EmbeddedMetadataFields,
+  additionalMetadata: Array<readonly [string, string]> = []
+) {
+  return (
+    32 +
+    32 +
+    borshStringLength(fields.name) +
+    borshStringLength(fields.symbol) +
+    borshStringLength(fields.uri) +
+    4 +
+    additionalMetadata.reduce(
+      (total, [key, value]) => total + borshStringLength(key) + borshStringLength(value),
+      0
+    )
+  );
+}
+
+export function getMintExtensionTypes(config: MintExtensionConfig) {
+  const extensionTypes: ExtensionType[] = [];
+  if (config.mintCloseAuthority) {
+    extensionTypes.push(ExtensionType.MintCloseAuthority);
+  }
+  if (config.transferFee) {
+    extensionTypes.push(ExtensionType.TransferFeeConfig);
+  }
+  if (config.interestBearing) {
+    extensionTypes.push(ExtensionType.InterestBearingConfig);
+  }
+  if (config.nonTransferable) {
+    extensionTypes.push(ExtensionType.NonTransferable);
+  }
+  if (config.permanentDelegate) {
+    extensionTypes.push(ExtensionType.PermanentDelegate);
+  }
+  if (config.defaultAccountState !== undefined) {
+    extensionTypes.push(ExtensionType.DefaultAccountState);
+  }
+  if (config.transferHook) {
+    extensionTypes.push(ExtensionType.TransferHook);
+  }
+  if (config.metadata) {
+    extensionTypes.push(ExtensionType.MetadataPointer);
+  }
+  return extensionTypes;
+}
+
+export function validateMintExtensionConfig(
+  config: MintExtensionConfig,
+  options: { hasFreezeAuthority: boolean }
+) {
+  if (config.transferFee) {
+    const { basisPoints, maximumFee } = config.transferFee;
+    if (
+      !Number.isInteger(basisPoints) ||
+      basisPoints < 0 ||
+      basisPoints > MAX_TRANSFER_FEE_BASIS_POINTS
+    ) {
+      throw new Error("Transfer fee must be between 0 and 10000 basis points.");
+    }
+    if (maximumFee < 0n) {
+      throw new Error("Transfer fee maximum cannot be negative.");
+    }
+  }
+  if (config.interestBearing) {
+    const { rateBasisPoints } = config.interestBearing;
+    if (!Number.isInteger(rateBasisPoints) || rateBasisPoints < -32_768 || rateBasisPoints > 32_767) {
+      throw new Error("Interest rate must be an integer between -32768 and 32767 basis points.");
+    }
+  }
+  if (config.nonTransferable && (config.transferFee || config.transferHook)) {
+    throw new Error(
+      "Non-transferable mints cannot also use transfer fees or a transfer hook."
+    );
+  }
+  if (config.defaultAccountState === AccountState.Frozen && !options.hasFreezeAuthority) {
+    throw new Error("Default frozen account state requires a freeze authority.");
+  }
+  if (config.metadata) {
+    if (!config.metadata.name.trim() || !config.metadata.symbol.trim()) {
+      throw new Error("Embedded metadata requires a name and symbol.");
+    }
+  }
+}
+
+/**
+ * Account space is sized for the fixed-length extensions only; the embedded
+ * metadata entry is reallocated by the initialize instruction, so its bytes
+ * only count toward rent.
+ */
+export function getMintSpace(config: MintExtensionConfig) {
+  const extensionTypes = getMintExtensionTypes(config);
+  const mintLen = getMintLen(extensionTypes);
+  const metadataLen = config.metadata
+    ? TYPE_SIZE + LENGTH_SIZE + getEmbeddedMetadataLength(config.metadata)
+    : 0;
+  return { extensionTypes, mintLen, rentSpace: mintLen + metadataLen };
+}
+
+export function buildMintExtensionInstructions(
+  mint: PublicKey,
+  mintAuthority: PublicKey,
+  config: MintExtensionConfig,
+  programId: PublicKey
+) {
+  const preInitialize: TransactionInstruction[] = [];
+  const postInitialize: TransactionInstruction[] = [];
+
+  if (config.mintCloseAuthority) {
+    preInitialize.push(
+      createInitializeMintCloseAuthorityInstruction(mint, config.mintCloseAuthority, programId)
+    );
+  }
+  if (config.transferFee) {
+    preInitialize.push(
+      createInitializeTransferFeeConfigInstruction(
+        mint,
+        config.transferFee.configAuthority,
+        config.transferFee.withdrawAuthority,
+        config.transferFee.basisPoints,
+        config.transferFee.maximumFee,
+        programId
+      )
+    );
+  }
+  if (config.interestBearing) {
+    preInitialize.push(
+      createInitializeInterestBearingMintInstruction(
+        mint,
+        config.interestBearing.rateAuthority,
+        config.interestBearing.rateBasisPoints,
+        programId
+      )
+    );
+  }
+  if (config.nonTransferable) {
+    preInitialize.push(createInitializeNonTransferableMintInstruction(mint, programId));
+  }
+  if (config.permanentDelegate) {
+    preInitialize.push(
+      createInitializePermanentDelegateInstruction(mint, config.permanentDelegate, programId)
+    );
+  }
+  if (config.defaultAccountState !== undefined) {
+    preInitialize.push(
+      createInitializeDefaultAccountStateInstruction(
+        mint,
+        config.defaultAccountState,
+        programId
+      )
+    );
+  }
+  if (config.transferHook) {
+    preInitialize.push(
+      createInitializeTransferHookInstruction(
+        mint,
+        config.transferHook.authority,
+        config.transferHook.programId,
+        programId
+      )
+    );
+  }
+  if (config.metadata) {
+    preInitialize.push(
+      createInitializeMetadataPointerInstruction(
+        mint,
+        config.metadata.updateAuthority,
+        mint,
+        programId
+      )
+    );
+    postInitialize.push(
+      createInitializeInstruction({
+        programId,
+        metadata: mint,
+        updateAuthority: config.metadata.updateAuthority,
+        mint,
+        mintAuthority,
+        name: config.metadata.name,
+        symbol: config.metadata.symbol,
+        uri: config.metadata.uri
+      })
+    );
+  }
+
+  return { preInitialize, postInitialize };
+}
+
+export function describeMintExtensions(
+  config: MintExtensionConfig,
+  formatAmount: (rawAmount: bigint) => string
+): MintExtensionSummary[] {
+  const summaries: MintExtensionSummary[] = [];
+  if (config.mintCloseAuthority) {
+    summaries.push({
+      extension: "MintCloseAuthority",
+      detail: `Close authority ${config.mintCloseAuthority.toBase58()}`
+    });
+  }
+  if (config.transferFee) {
+    summaries.push({
+      extension: "TransferFeeConfig",
+      detail:
+        `${config.transferFee.basisPoints} bps (${(config.transferFee.basisPoints / 100).toFixed(2)}%), ` +
+        `max ${formatAmount(config.transferFee.maximumFee)}; ` +
+        `config ${config.transferFee.configAuthority.toBase58()}, ` +
+        `withdraw ${config.transferFee.withdrawAuthority.toBase58()}`
+    });
+  }
+  if (config.interestBearing) {
+    summaries.push({
+      extension: "InterestBearingConfig",
+      detail: `${config.interestBearing.rateBasisPoints} bps/year, rate authority ${config.interestBearing.rateAuthority.toBase58()}`
+    });
+  }
+  if (config.nonTransferable) {
+    summaries.push({
+      extension: "NonTransferable",
+      detail: "Tokens are soulbound to the first holder account."
+    });
+  }
+  if (config.permanentDelegate) {
+    summaries.push({
+      extension: "PermanentDelegate",
+      detail: `${config.permanentDelegate.toBase58()} can transfer or burn from any holder.`
+    });
+  }
+  if (config.defaultAccountState !== undefined) {
+    summaries.push({
+      extension: "DefaultAccountState",
+      detail:
+        config.defaultAccountState === AccountState.Frozen
+          ? "New token accounts start frozen."
+          : "New token accounts start initialized."
+    });
+  }
+  if (config.transferHook) {
+    summaries.push({
+      extension: "TransferHook",
+      detail: `Hook program ${config.transferHook.programId.toBase58()}, authority ${config.transferHook.authority.toBase58()}`
+    });
+  }
+  if (config.metadata) {
+    summaries.push({
+      extension: "MetadataPointer + TokenMetadata",
+      detail: `${config.metadata.name} (${config.metadata.symbol}) ${config.metadata.uri || "no URI"}`
+    });
+  }
+  return summaries;
+}
+
+/**
+ * Reads the mint's TransferFeeConfig and scans every Token-2022 holder account
+ * of the mint for withheld fees that can be harvested.
+ */
+export async function fetchTransferFeeState(
+  connection: Connection,
+  mint: PublicKey
+): Promise<TransferFeeState> {
+  const [mintInfo, epochInfo] = await Promise.all([
+    connection.getAccountInfo(mint, "confirmed"),
+    connection.getEpochInfo("confirmed")
+  ]);
+  if (!mintInfo) {
+    throw new Error("Mint account not found.");
+  }
+  if (!mintInfo.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    throw new Error("Transfer fees are only available on Token-2022 mints.");
+  }
+
+  const mintState = unpackMint(mint, mintInfo, TOKEN_2022_PROGRAM_ID);
+  const config = getTransferFeeConfig(mintState);
+  if (!config) {
+    throw new Error("Mint does not have the TransferFeeConfig extension.");
+  }
+
+  const holderAccounts = await connection.getProgramAccounts(TOKEN_2022_PROGRAM_ID, {
+    commitment: "confirmed",
+    filters: [{ memcmp: { offset: 0, bytes: mint.toBase58() } }]
+  });
+
+  const withheldAccounts: WithheldFeeAccount[] = [];
+  holderAccounts.forEach(({ pubkey, account }) => {
+    let tokenAccount: ReturnType<typeof unpackAccount>;
+    try {
+      tokenAccount = unpackAccount(pubkey, account, TOKEN_2022_PROGRAM_ID);
+    } catch {
+      return;
+    }
+    const withheldAmount = getTransferFeeAmount(tokenAccount)?.withheldAmount ?? 0n;
+    if (withheldAmount > 0n) {
+      withheldAccounts.push({ address: pubkey, owner: tokenAccount.owner, withheldAmount });
+    }
+  });
+  withheldAccounts.sort((left, right) =>
+    left.withheldAmount === right.withheldAmount
+      ? 0
+      : left.withheldAmount > right.withheldAmount
+        ? -1
+        : 1
+  );
+
+  return {
+    decimals: mintState.decimals,
+    config,
+    currentEpoch: BigInt(epochInfo.epoch),
+    withheldAccounts,
+    totalAccountWithheld: withheldAccounts.reduce(
+      (total, entry) => total + entry.withheldAmount,
+      0n
+    )
+  };
+}
+
+export function buildHarvestWithheldInstructionGroups(
+  mint: PublicKey,
+  sources: PublicKey[]
+) {
+  const groups: TransactionInstruction[][] = [];
+  for (let index = 0; index < sources.length; index += HARVEST_SOURCES_PER_INSTRUCTION) {
+    groups.push([
+      createHarvestWithheldTokensToMintInstruction(
+        mint,
+        sources.slice(index, index + HARVEST_SOURCES_PER_INSTRUCTION),
+        TOKEN_2022_PROGRAM_ID
+      )
+    ]);
+  }
+  return groups;
+}
+
+function readBorshString(data: Uint8Array, offset: number) {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const length = view.getUint32(offset, true);
+  const start = offset + 4;
+  return {
+    value: new TextDecoder().decode(data.slice(start, start + length)),
+    next: start + length
+  };
+}
+
+function decodeEmbeddedTokenMetadata(data: Uint8Array): EmbeddedTokenMetadata {
+  const updateAuthority = new PublicKey(data.slice(0, 32));
+  const mint = new PublicKey(data.slice(32, 64));
+  const name = readBorshString(data, 64);
+  const symbol = readBorshString(data, name.next);
+  const uri = readBorshString(data, symbol.next);
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const entryCount = view.getUint32(uri.next, true);
+  const additionalMetadata: Array<[string, string]> = [];
+  let offset = uri.next + 4;
+  for (let index = 0; index < entryCount; index += 1) {
+    const key = readBorshString(data, offset);
+    const value = readBorshString(data, key.next);
+    additionalMetadata.push([key.value, value.value]);
+    offset = value.next;
+  }
+
+  return {
+    // An all-zero update authority means the metadata is immutable.
+    updateAuthority: updateAuthority.equals(PublicKey.default) ? null : updateAuthority,
+    mint,
+    name: name.value,
+    symbol: symbol.value,
+    uri: uri.value,
+    additionalMetadata
+  };
+}
+
+/**
+ * Reads the MetadataPointer and in-mint TokenMetadata extensions from a
+ * Token-2022 mint account. Returns null for legacy or extension-less mints.
+ */
+export function readEmbeddedMetadata(
+  mint: PublicKey,
+  info: AccountInfo<Buffer>
+): EmbeddedMetadataState | null {
+  if (!info.owner.equals(TOKEN_2022_PROGRAM_ID)) {
+    return null;
+  }
+  try {
+    const mintState = unpackMint(mint, info, TOKEN_2022_PROGRAM_ID);
+    const pointer = getMetadataPointerState(mintState);
+    const metadataData = getExtensionData(ExtensionType.TokenMetadata, mintState.tlvData);
+    if (!pointer && !metadataData) {
+      return null;
+    }
+    return {
+      pointerAuthority: pointer?.authority ?? null,
+      metadataAddress: pointer?.metadataAddress ?? null,
+      metadata: metadataData ? decodeEmbeddedTokenMetadata(metadataData) : null
+    };
+  } catch {
+    return null;
+  }
+}
+
+const RESERVED_METADATA_KEYS = new Set(["name", "symbol", "uri"]);
+
+/** Parses `key=value` lines into TokenMetadata additional fields. */
+export function parseAdditionalMetadataInput(input: string): Array<[string, string]> {
+  const entries: Array<[string, string]> = [];
+  input
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0)
+    .forEach((line, index) => {
+      const separatorIndex = line.indexOf("=");
+      if (separatorIndex <= 0) {
+        throw new Error(`Additional field line ${index + 1} must be key=value.`);
+      }
+      const key = line.slice(0, separatorIndex).trim();
+      const value = line.slice(separatorIndex + 1).trim();
+      if (RESERVED_METADATA_KEYS.has(key.toLowerCase())) {
+        throw new Error(`"${key}" is a base metadata field, not an additional field.`);
+      }
+      if (entries.some(([existingKey]) => existingKey === key)) {
+        throw new Error(`Duplicate additional field "${key}".`);
+      }
+      entries.push([key, value]);
+    });
+  return entries;
+}
+
+export function formatAdditionalMetadataInput(entries: Array<readonly [string, string]>) {
+  return entries.map(([key, value]) => `${key}=${value}`).join("\n");
+}
+
+async function buildRentTopUpInstruction(
+  connection: Connection,
+  payer: PublicKey,
+  mint: PublicKey,
+  info: AccountInfo<Buffer>,
+  nextDataLength: number
+) {
+  const requiredLamports = await connection.getMinimumBalanceForRentExemption(nextDataLength);
+  const shortfall = requiredLamports - info.lamports;
+  return shortfall > 0
+    ? [SystemProgram.transfer({ fromPubkey: payer, toPubkey: mint, lamports: shortfall })]
+    : [];
+}
+
+/**
+ * Initializes TokenMetadata on an existing Token-2022 mint whose metadata
+ * pointer already targets the mint, topping up rent for the realloc.
+ */
+export async function buildInitializeEmbeddedMetadataInstructions(
+  connection: Connection,
+  params: {
+    mint: PublicKey;
+    info: AccountInfo<Buffer>;
+    payer: PublicKey;
+    mintAuthority: PublicKey;
+    updateAuthority: PublicKey;
+    draft: EmbeddedMetadataDraft;
+  }
+) {
+  const { mint, info, payer, mintAuthority, updateAuthority, draft } = params;
+  const embedded = readEmbeddedMetadata(mint, info);
+  if (!embedded?.metadataAddress?.equals(mint)) {
+    throw new Error(
+      "Mint has no metadata pointer to itself. Embedded metadata must be enabled when the mint is created."
+    );
+  }
+  if (embedded.metadata) {
+    throw new Error("Mint already has embedded metadata. Use update instead.");
+  }
+
+  const nextDataLength =
+    info.data.length +
+    TYPE_SIZE +
+    LENGTH_SIZE +
+    getEmbeddedMetadataLength(draft, draft.additionalMetadata);
+
+  return [
+    ...(await buildRentTopUpInstruction(connection, payer, mint, info, nextDataLength)),
+    createInitializeInstruction({
+      programId: TOKEN_2022_PROGRAM_ID,
+      metadata: mint,
+      updateAuthority,
+      mint,
+      mintAuthority,
+      name: draft.name,
+      symbol: draft.symbol,
+      uri: draft.uri
+    }),
+    ...draft.additionalMetadata.map(([key, value]) =>
+      createUpdateFieldInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        metadata: mint,
+        updateAuthority,
+        field: key,
+        value
+      })
+    )
+  ];
+}
+
+/**
+ * Diffs the draft against the on-chain TokenMetadata and emits only the field
+ * updates and key removals needed, funding any growth up front.
+ */
+export async function buildUpdateEmbeddedMetadataInstructions(
+  connection: Connection,
+  params: {
+    mint: PublicKey;
+    info: AccountInfo<Buffer>;
+    payer: PublicKey;
+    updateAuthority: PublicKey;
+    draft: EmbeddedMetadataDraft;
+  }
+) {
+  const { mint, info, payer, updateAuthority, draft } = params;
+  const current = readEmbeddedMetadata(mint, info)?.metadata;
+  if (!current) {
+    throw new Error("Mint has no embedded Token-2022 metadata.");
+  }
+  if (!current.updateAuthority?.equals(updateAuthority)) {
+    throw new Error("Connected wallet is not the embedded metadata update authority.");
+  }
+
+  const updateField = (field: string, value: string) =>
+    createUpdateFieldInstruction({
+      programId: TOKEN_2022_PROGRAM_ID,
+      metadata: mint,
+      updateAuthority,
+      field,
+      value
+    });
+
+  const removals = current.additionalMetadata
+    .filter(([key]) => !draft.additionalMetadata.some(([draftKey]) => draftKey === key))
+    .map(([key]) =>
+      createRemoveKeyInstruction({
+        programId: TOKEN_2022_PROGRAM_ID,
+        metadata: mint,
+        updateAuthority,
+        key,
+        idempotent: true
+      })
+    );
+  const updates: TransactionInstruction[] = [];
+  (["name", "symbol", "uri"] as const).forEach((field) => {
+    if (draft[field] !== current[field]) {
+      updates.push(updateField(field, draft[field]));
+    }
+  });
+  draft.additionalMetadata.forEach(([key, value]) => {
+    const existing = current.additionalMetadata.find(([currentKey]) => currentKey === key);
+    if (!existing || existing[1] !== value) {
+      updates.push(updateField(key, value));
+    }
+  });
+
+  if (removals.length === 0 && updates.length === 0) {
+    throw new Error("Embedded metadata already matches the draft.");
+  }
+
+  const lengthDelta =
+    getEmbeddedMetadataLength(draft, draft.additionalMetadata) -
+    getEmbeddedMetadataLength(current, current.additionalMetadata);
+  return [
+    ...(await buildRentTopUpInstruction(
+      connection,
+      payer,
+      mint,
+      info,
+      info.data.length + Math.max(0, lengthDelta)
+    )),
+    ...removals,
+    ...updates
+  ];
+}
+
+export function buildEmbeddedMetadataAuthorityInstruction(
+  mint: PublicKey,
+  currentAuthority: PublicKey,
+  nextAuthority: PublicKey | null
+) {
+  return createUpdateAuthorityInstruction({
+    programId: TOKEN_2022_PROGRAM_ID,
+    metadata: mint,
+    oldAuthority: currentAuthority,
+    newAuthority: nextAuthority
+  });
+}
@@ -0,0 +1,340 @@
+import {
+  type AddressLookupTableAccount,
+  type Connection,
+  type MessageAccountKeys,
+  type PublicKey,
+  TransactionInstruction,
+  type VersionedMessage,
+  VersionedTransaction
+} from "@solana/web3.js";
+import { base58 } from "@metaplex-foundation/umi";
+import { Buffer } from "buffer";
+import {
+  simulateWithAccountDiffs,
+  type BalanceDelta,
+  type TokenBalanceDelta
+} from "@/lib/account-diff";
+import {
+  UNKNOWN_PROGRAM_LABEL,
+  decodeInstructions,
+  type DecodedInstruction
+} from "@/lib/instruction-decoder";
+
+export type TransactionInspection = {
+  source: "simulation" | "landed";
+  version: "legacy" | number;
+  signature: string | null;
+  feePayer: string;
+  signers: string[];
+  feeLamports: number | null;
+  computeUnits: number | null;
+  error: string | null;
+  logs: string[];
+  balanceDeltas: BalanceDelta[];
+  tokenDeltas: TokenBalanceDelta[];
+  instructions: DecodedInstruction[];
+  riskFlags: string[];
+};
+
+type InspectorInput =
+  | { kind: "signature"; signature: string }
+  | { kind: "transaction"; transaction: VersionedTransaction };
+
+const SIGNATURE_LENGTH = 64;
+const BASE58_PATTERN = /^[1-9A-HJ-NP-Za-km-z]+$/;
+
+/**
+ * Accepts a transaction signature or a base58/base64 serialized transaction,
+ * legacy or v0.
+ */
+export function parseInspectorInput(input: string): InspectorInput {
+  const trimmed = input.trim();
+  if (!trimmed) {
+    throw new Error("Paste a serialized transaction or a transaction signature.");
+  }
+
+  const isBase58 = BASE58_PATTERN.test(trimmed);
+  const bytes = isBase58 ? base58.serialize(trimmed) : Buffer.from(trimmed, "base64");
+  if (isBase58 && bytes.length === SIGNATURE_LENGTH) {
+    return { kind: "signature", signature: trimmed };
+  }
+  try {
+    return { kind: "transaction", transaction: VersionedTransaction.deserialize(bytes) };
+  } catch {
+    throw new Error("Input is not a valid transaction signature or serialized transaction.");
+  }
+}
+
+function toTransactionInstructions(message: VersionedMessage, accountKeys: MessageAccountKeys) {
+  const getKey = (index: number) => {
+    const key = accountKeys.get(index);
+    if (!key) {
+      throw new Error(`Transaction references missing account index ${index}.`);
+    }
+    return key;
+  };
+  return message.compiledInstructions.map(
+    (instruction) =>
+      new TransactionInstruction({
+        programId: getKey(instruction.programIdIndex),
+        keys: instruction.accountKeyIndexes.map((index) => ({
+          pubkey: getKey(index),
+          isSigner: message.isAccountSigner(index),
+          isWritable: message.isAccountWritable(index)
+        })),
+        data: Buffer.from(instruction.data)
+      })
+  );
+}
+
+function formatError(value: unknown) {
+  if (!value) {
+    return null;
+  }
+  return typeof value === "string" ? value : JSON.stringify(value);
+}
+
+function findAccount(instruction: DecodedInstruction, name: string) {
+  return instruction.accounts.find((account) => account.name === name)?.address ?? "unknown";
+}
+
+function findArg(instruction: DecodedInstruction, name: string) {
+  return instruction.args.find((argument) => argument.name === name)?.value;
+}
+
+/**
+ * Flags instructions that hand control of accounts or funds to someone else.
+ * Addresses in `trustedAddresses` (the reviewing wallet) are not foreign.
+ */
+export function analyzeTransactionRisks(
+  instructions: DecodedInstruction[],
+  trustedAddresses: Set<string>
+) {
+  const flags: string[] = [];
+  instructions.forEach((instruction) => {
+    const label = instruction.programLabel;
+    const isToken = label === "SPL Token Program" || label === "Token-2022 Program";
+
+    if (label === UNKNOWN_PROGRAM_LABEL) {
+      flags.push(`Calls unknown program ${instruction.programId}.`);
+      return;
+    }
+    if (isToken && instruction.name === "SetAuthority") {
+      const authorityType = findArg(instruction, "authorityType");
+      const newAuthority = findArg(instruction, "newAuthority") ?? "unknown";
+      flags.push(
+        authorityType === "AccountOwner"
+          ? `Sets new owner ${newAuthority} on token account ${findAccount(instruction, "account")}.`
+          : `Changes ${authorityType ?? "unknown"} authority of ${findAccount(instruction, "account")} to ${newAuthority}.`
+      );
+    }
+    if (isToken && (instruction.name === "Approve" || instruction.name === "ApproveChecked")) {
+      flags.push(
+        `Approves delegate ${findAccount(instruction, "delegate")} for ${findArg(instruction, "amount") ?? "?"} base units of ${findAccount(instruction, "source")}.`
+      );
+    }
+    if (isToken && instruction.name === "CloseAccount") {
+      const destination = findAccount(instruction, "destination");
+      if (!trustedAddresses.has(destination)) {
+        flags.push(
+          `Closes account ${findAccount(instruction, "account")} to foreign address ${destination}.`
+        );
+      }
+    }
+    if (
+      label === "System Program" &&
+      (instruction.name === "Assign" || instruction.name === "AssignWithSeed")
+    ) {
+      flags.push(
+        `Sets new owner program ${findArg(instruction, "owner") ?? "unknown"} on ${findAccount(instruction, "account")}.`
+      );
+    }
+    if (label === "System Program" && instruction.name === "AuthorizeNonceAccount") {
+      flags.push(`Sets new nonce authority ${findArg(instruction, "newAuthority") ?? "unknown"}.`);
+    }
+    if (
+      label === "Stake Program" &&
+      (instruction.name === "Authorize" || instruction.name === "AuthorizeChecked")
+    ) {
+      flags.push(
+        `Sets new ${findArg(instruction, "stakeAuthorize") ?? "stake"} authority on ${findAccount(instruction, "stakeAccount")}.`
+      );
+    }
+    if (
+      label === "BPF Upgradeable Loader" &&
+      (instruction.name === "SetAuthority" || instruction.name === "SetAuthorityChecked")
+    ) {
+      flags.push(`Changes upgrade authority of ${findAccount(instruction, "account")}.`);
+    }
+    if (label === "Metaplex Token Metadata" && findArg(instruction, "newUpdateAuthority")) {
+      flags.push(
+        `Sets new metadata update authority ${findArg(instruction, "newUpdateAuthority")}.`
+      );
+    }
+    if (instruction.name === "UpdateTokenMetadataAuthority") {
+      flags.push(
+        `Sets new token metadata update authority ${findArg(instruction, "newAuthority") ?? "unknown"}.`
+      );
+    }
+  });
+  return Array.from(new Set(flags));
+}
+
+function buildInspection(
+  base: Omit<TransactionInspection, "instructions" | "riskFlags" | "signers" | "feePayer">,
+  message: VersionedMessage,
+  accountKeys: MessageAccountKeys,
+  wallet: PublicKey | null
+): TransactionInspection {
+  const signers = message.staticAccountKeys
+    .slice(0, message.header.numRequiredSignatures)
+    .map((key) => key.toBase58());
+  const instructions = decodeInstructions(toTransactionInstructions(message, accountKeys));
+  const trustedAddresses = new Set(wallet ? [wallet.toBase58()] : signers);
+
+  const riskFlags = analyzeTransactionRisks(instructions, trustedAddresses);
+  if (wallet) {
+    const walletDelta = base.balanceDeltas.find(
+      (delta) => delta.address === wallet.toBase58()
+    );
+    if (walletDelta && walletDelta.postLamports < walletDelta.preLamports) {
+      riskFlags.push(
+        `Connected wallet balance decreases by ${walletDelta.preLamports - walletDelta.postLamports} lamports.`
+      );
+    }
+    base.tokenDeltas
+      .filter((delta) => delta.owner === wallet.toBase58() && delta.postAmount < delta.preAmount)
+      .forEach((delta) => {
+        riskFlags.push(
+          `Connected wallet sends ${delta.preAmount - delta.postAmount} base units of ${delta.mint}.`
+        );
+      });
+  }
+
+  return {
+    ...base,
+    feePayer: signers[0] ?? "unknown",
+    signers,
+    instructions,
+    riskFlags
+  };
+}
+
+/**
+ * Simulates a serialized transaction against current state with a replaced
+ * blockhash and no signature checks, then diffs every account it touches.
+ */
+export async function inspectSerializedTransaction(
+  connection: Connection,
+  transaction: VersionedTransaction,
+  wallet: PublicKey | null
+): Promise<TransactionInspection> {
+  const { message } = transaction;
+  const addressLookupTableAccounts: AddressLookupTableAccount[] = [];
+  for (const lookup of message.addressTableLookups) {
+    const { value } = await connection.getAddressLookupTable(lookup.accountKey, {
+      commitment: "confirmed"
+    });
+    if (!value) {
+      throw new Error(`Address lookup table not found: ${lookup.accountKey.toBase58()}`);
+    }
+    addressLookupTableAccounts.push(value);
+  }
+  const accountKeys = message.getAccountKeys({ addressLookupTableAccounts });
+  const addresses = accountKeys.keySegments().flat();
+
+  const { simulation, balanceDeltas, tokenDeltas } = await simulateWithAccountDiffs(
+    connection,
+    transaction,
+    addresses,
+    { replaceRecentBlockhash: true }
+  );
+
+  const fee = await connection.getFeeForMessage(message, "confirmed").catch(() => null);
+
+  return buildInspection(
+    {
+      source: "simulation",
+      version: transaction.version,
+      signature: null,
+      feeLamports: fee?.value ?? null,
+      computeUnits: simulation.unitsConsumed ?? null,
+      error: formatError(simulation.err),
+      logs: simulation.logs ?? [],
+      balanceDeltas,
+      tokenDeltas
+    },
+    message,
+    accountKeys,
+    wallet
+  );
+}
+
+/**
+ * Reads a landed transaction and reports the balance and token changes
+ * recorded in its metadata.
+ */
+export async function inspectLandedTransaction(
+  connection: Connection,
+  signature: string,
+  wallet: PublicKey | null
+): Promise<TransactionInspection> {
+  const landed = await connection.getTransaction(signature, {
+    commitment: "confirmed",
+    maxSupportedTransactionVersion: 0
+  });
+  if (!landed || !landed.meta) {
+    throw new Error("Transaction not found. It may be too old or not yet confirmed.");
+  }
+  const { meta } = landed;
+  const message = landed.transaction.message;
+  const accountKeys = message.getAccountKeys({
+    accountKeysFromLookups: meta.loadedAddresses
+  });
+  const addresses = accountKeys.keySegments().flat();
+
+  const preTokenBalances = new Map(
+    (meta.preTokenBalances ?? []).map((balance) => [balance.accountIndex, balance])
+  );
+  const postTokenBalances = new Map(
+    (meta.postTokenBalances ?? []).map((balance) => [balance.accountIndex, balance])
+  );
+  const tokenAccountIndexes = Array.from(
+    new Set([...preTokenBalances.keys(), ...postTokenBalances.keys()])
+  ).sort((left, right) => left - right);
+
+  return buildInspection(
+    {
+      source: "landed",
+      version: landed.version ?? "legacy",
+      signature,
+      feeLamports: meta.fee,
+      computeUnits: meta.computeUnitsConsumed ?? null,
+      error: formatError(meta.err),
+      logs: meta.logMessages ?? [],
+      balanceDeltas: addresses.map((address, index) => ({
+        address: address.toBase58(),
+        preLamports: meta.preBalances[index] ?? 0,
+        postLamports: meta.postBalances[index] ?? 0,
+        isSigner: message.isAccountSigner(index),
+        isWritable: message.isAccountWritable(index)
+      })),
+      tokenDeltas: tokenAccountIndexes.map((index) => {
+        const pre = preTokenBalances.get(index);
+        const post = postTokenBalances.get(index);
+        const balance = post ?? pre;
+        return {
+          account: addresses[index]?.toBase58() ?? "unknown",
+          mint: balance?.mint ?? "unknown",
+          owner: balance?.owner ?? "unknown",
+          decimals: balance?.uiTokenAmount.decimals ?? 0,
+          preAmount: BigInt(pre?.uiTokenAmount.amount ?? "0"),
+          postAmount: BigInt(post?.uiTokenAmount.amount ?? "0")
+        };
+      })
+    },
+    message,
+    accountKeys,
+    wallet
+  );
+}
@@ -0,0 +1,251 @@
+import {
+  type AddressLookupTableAccount,
+  ComputeBudgetProgram,
+  type Connection,
+  type PublicKey,
+  type Transaction,
+  type TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from "@solana/web3.js";
+
+export type PriorityFeePreset = "off" | "low" | "medium" | "high" | "turbo" | "custom";
+
+export type PriorityFeeSettings = {
+  preset: PriorityFeePreset;
+  customMicroLamports: number;
+};
+
+export type PriorityFeeEstimates = Record<
+  Exclude<PriorityFeePreset, "off" | "custom">,
+  number
+>;
+
+export type ComputeBudgetSummary = {
+  unitsConsumed: number | null;
+  computeUnitLimit: number | null;
+  microLamports: number;
+  priorityFeeLamports: number;
+  simulationError: string | null;
+};
+
+// A transaction that reached the cluster; its lifetime tells whether it can still land.
+export type SentTransaction = {
+  signature: string;
+  recentBlockhash: string;
+  nonceAccount: string | null;
+};
+
+export const MAX_COMPUTE_UNIT_LIMIT = 1_400_000;
+const DEFAULT_UNITS_PER_INSTRUCTION = 200_000;
+const COMPUTE_UNIT_MARGIN = 1.15;
+const MIN_COMPUTE_UNIT_LIMIT = 1_000;
+const MAX_AUTO_MICRO_LAMPORTS = 2_000_000;
+const MAX_FEE_LOOKUP_ACCOUNTS = 128;
+
+export const PRIORITY_FEE_PRESET_OPTIONS: Array<{
+  value: PriorityFeePreset;
+  label: string;
+}> = [
+  { value: "off", label: "Off" },
+  { value: "low", label: "Low" },
+  { value: "medium", label: "Medium" },
+  { value: "high", label: "High" },
+  { value: "turbo", label: "Turbo" },
+  { value: "custom", label: "Custom" }
+];
+
+const PRESET_PERCENTILES: Record<keyof PriorityFeeEstimates, number> = {
+  low: 0.25,
+  medium: 0.5,
+  high: 0.75,
+  turbo: 0.95
+};
+
+const PRESET_FLOORS: Record<keyof PriorityFeeEstimates, number> = {
+  low: 1_000,
+  medium: 10_000,
+  high: 50_000,
+  turbo: 200_000
+};
+
+export const DEFAULT_PRIORITY_FEE_SETTINGS: PriorityFeeSettings = {
+  preset: "medium",
+  customMicroLamports: 10_000
+};
+
+function percentile(sortedValues: number[], ratio: number) {
+  if (sortedValues.length === 0) {
+    return 0;
+  }
+  const index = Math.min(
+    sortedValues.length - 1,
+    Math.max(0, Math.ceil(sortedValues.length * ratio) - 1)
+  );
+  return sortedValues[index] ?? 0;
+}
+
+export function isComputeBudgetInstruction(instruction: TransactionInstruction) {
+  return instruction.programId.equals(ComputeBudgetProgram.programId);
+}
+
+function collectWritableAccounts(instructions: TransactionInstruction[]) {
+  const writable = new Map<string, PublicKey>();
+  instructions.forEach((instruction) => {
+    instruction.keys.forEach((key) => {
+      if (key.isWritable) {
+        writable.set(key.pubkey.toBase58(), key.pubkey);
+      }
+    });
+  });
+  return Array.from(writable.values()).slice(0, MAX_FEE_LOOKUP_ACCOUNTS);
+}
+
+export async function fetchPriorityFeeEstimates(
+  connection: Connection,
+  instructions: TransactionInstruction[] = []
+): Promise<PriorityFeeEstimates> {
+  const lockedWritableAccounts = collectWritableAccounts(instructions);
+  const recentFees = await connection.getRecentPrioritizationFees(
+    lockedWritableAccounts.length > 0 ? { lockedWritableAccounts } : undefined
+  );
+  const sortedFees = recentFees
+    .map((entry) => entry.prioritizationFee)
+    .filter((fee) => fee > 0)
+    .sort((left, right) => left - right);
+
+  const estimateFor = (preset: keyof PriorityFeeEstimates) =>
+    Math.min(
+      MAX_AUTO_MICRO_LAMPORTS,
+      Math.max(PRESET_FLOORS[preset], percentile(sortedFees, PRESET_PERCENTILES[preset]))
+    );
+
+  return {
+    low: estimateFor("low"),
+    medium: estimateFor("medium"),
+    high: estimateFor("high"),
+    turbo: estimateFor("turbo")
+  };
+}
+
+export async function resolvePriorityFeeMicroLamports(
+  connection: Connection,
+  settings: PriorityFeeSettings,
+  instructions: TransactionInstruction[] = []
+) {
+  if (settings.preset === "off") {
+    return 0;
+  }
+  if (settings.preset === "custom") {
+    return Math.max(0, Math.floor(settings.customMicroLamports));
+  }
+  const estimates = await fetchPriorityFeeEstimates(connection, instructions);
+  return estimates[settings.preset];
+}
+
+export async function estimateComputeUnits(
+  connection: Connection,
+  instructions: TransactionInstruction[],
+  payer: PublicKey,
+  lookupTables: AddressLookupTableAccount[] = []
+) {
+  const { blockhash } = await connection.getLatestBlockhash("confirmed");
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash: blockhash,
+    instructions: [
+      ComputeBudgetProgram.setComputeUnitLimit({ units: MAX_COMPUTE_UNIT_LIMIT }),
+      ...instructions
+    ]
+  }).compileToV0Message(lookupTables);
+  const simulation = await connection.simulateTransaction(
+    new VersionedTransaction(message),
+    { sigVerify: false, replaceRecentBlockhash: true, commitment: "confirmed" }
+  );
+
+  return {
+    unitsConsumed: simulation.value.unitsConsumed ?? null,
+    error: simulation.value.err ? JSON.stringify(simulation.value.err) : null
+  };
+}
+
+export function resolveComputeUnitLimit(estimate: {
+  unitsConsumed: number | null;
+  error: string | null;
+}) {
+  // Leave the runtime default in place when simulation cannot measure usage.
+  if (!estimate.unitsConsumed || estimate.error) {
+    return null;
+  }
+  return Math.min(
+    MAX_COMPUTE_UNIT_LIMIT,
+    Math.max(MIN_COMPUTE_UNIT_LIMIT, Math.ceil(estimate.unitsConsumed * COMPUTE_UNIT_MARGIN))
+  );
+}
+
+export function estimatePriorityFeeLamports(
+  computeUnitLimit: number | null,
+  instructionCount: number,
+  microLamports: number
+) {
+  const billedUnits =
+    computeUnitLimit ??
+    Math.min(MAX_COMPUTE_UNIT_LIMIT, instructionCount * DEFAULT_UNITS_PER_INSTRUCTION);
+  return Math.ceil((billedUnits * microLamports) / 1_000_000);
+}
+
+export function buildComputeBudgetInstructions(
+  computeUnitLimit: number | null,
+  microLamports: number
+) {
+  const instructions: TransactionInstruction[] = [];
+  if (computeUnitLimit !== null) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitLimit({ units: computeUnitLimit }));
+  }
+  if (microLamports > 0) {
+    instructions.push(ComputeBudgetProgram.setComputeUnitPrice({ microLamports }));
+  }
+  return instructions;
+}
+
+/**
+ * Replaces any ComputeBudget instructions on the transaction with a simulated
+ * unit limit and the priority price resolved from the given settings.
+ */
+export async function applyComputeBudget(
+  connection: Connection,
+  transaction: Transaction,
+  settings: PriorityFeeSettings,
+  payer: PublicKey
+): Promise<ComputeBudgetSummary> {
+  const instructions = transaction.instructions.filter(
+    (instruction) => !isComputeBudgetInstruction(instruction)
+  );
+
+  const [estimate, microLamports] = await Promise.all([
+    estimateComputeUnits(connection, instructions, payer).catch(() => ({
+      unitsConsumed: null,
+      error: null
+    })),
+    resolvePriorityFeeMicroLamports(connection, settings, instructions).catch(() => 0)
+  ]);
+
+  const computeUnitLimit = resolveComputeUnitLimit(estimate);
+
+  transaction.instructions = [
+    ...buildComputeBudgetInstructions(computeUnitLimit, microLamports),
+    ...instructions
+  ];
+
+  return {
+    unitsConsumed: estimate.unitsConsumed,
+    computeUnitLimit,
+    microLamports,
+    priorityFeeLamports: estimatePriorityFeeLamports(
+      computeUnitLimit,
+      instructions.length,
+      microLamports
+    ),
+    simulationError: estimate.error
+  };
+}
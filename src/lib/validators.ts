@@ -0,0 +1,129 @@
+import type { BlockProduction, Connection, VoteAccountInfo } from "@solana/web3.js";
+
+export type ValidatorRow = {
+  votePubkey: string;
+  nodePubkey: string;
+  commission: number;
+  activatedStake: number;
+  lastVote: number;
+  slotsBehind: number;
+  delinquent: boolean;
+  leaderSlots: number;
+  blocksProduced: number;
+  // Null when the validator had no leader slots in the sampled range.
+  skipRate: number | null;
+};
+
+export type ValidatorSnapshot = {
+  validators: ValidatorRow[];
+  slot: number;
+  skipRateFirstSlot: number;
+  skipRateEpochs: number;
+};
+
+export type ValidatorSortKey = "stake" | "commission" | "skip-rate" | "last-vote";
+
+// Epochs of block production (including the current one) used for skip rate.
+const SKIP_RATE_EPOCHS = 2;
+
+async function fetchBlockProduction(
+  connection: Connection,
+  firstSlot: number
+): Promise<BlockProduction> {
+  try {
+    const { value } = await connection.getBlockProduction({
+      commitment: "confirmed",
+      range: { firstSlot }
+    });
+    return value;
+  } catch {
+    // Some RPCs only serve the current epoch; fall back to the default range.
+    const { value } = await connection.getBlockProduction("confirmed");
+    return value;
+  }
+}
+
+function toValidatorRow(
+  account: VoteAccountInfo,
+  delinquent: boolean,
+  slot: number,
+  production: BlockProduction
+): ValidatorRow {
+  const [leaderSlots = 0, blocksProduced = 0] = production.byIdentity[account.nodePubkey] ?? [];
+  return {
+    votePubkey: account.votePubkey,
+    nodePubkey: account.nodePubkey,
+    commission: account.commission,
+    activatedStake: account.activatedStake,
+    lastVote: account.lastVote,
+    slotsBehind: Math.max(0, slot - account.lastVote),
+    delinquent,
+    leaderSlots,
+    blocksProduced,
+    skipRate: leaderSlots > 0 ? (leaderSlots - blocksProduced) / leaderSlots : null
+  };
+}
+
+/**
+ * Loads every vote account (current and delinquent) and joins it with block
+ * production by node identity to derive a skip rate over recent epochs.
+ */
+export async function fetchValidatorSnapshot(connection: Connection): Promise<ValidatorSnapshot> {
+  const [voteAccounts, epochInfo, epochSchedule] = await Promise.all([
+    connection.getVoteAccounts("confirmed"),
+    connection.getEpochInfo("confirmed"),
+    connection.getEpochSchedule()
+  ]);
+  const firstEpoch = Math.max(0, epochInfo.epoch - (SKIP_RATE_EPOCHS - 1));
+  const production = await fetchBlockProduction(
+    connection,
+    epochSchedule.getFirstSlotInEpoch(firstEpoch)
+  );
+  const slot = epochInfo.absoluteSlot;
+
+  return {
+    validators: [
+      ...voteAccounts.current.map((account) =>
+        toValidatorRow(account, false, slot, production)
+      ),
+      ...voteAccounts.delinquent.map((account) =>
+        toValidatorRow(account, true, slot, production)
+      )
+    ],
+    slot,
+    skipRateFirstSlot: production.range.firstSlot,
+    skipRateEpochs: epochInfo.epoch - epochSchedule.getEpoch(production.range.firstSlot) + 1
+  };
+}
+
+export function filterValidators(validators: ValidatorRow[], query: string) {
+  const normalized = query.trim().toLowerCase();
+  if (!normalized) {
+    return validators;
+  }
+  return validators.filter(
+    (validator) =>
+      validator.votePubkey.toLowerCase().includes(normalized) ||
+      validator.nodePubkey.toLowerCase().includes(normalized)
+  );
+}
+
+export function sortValidators(validators: ValidatorRow[], sortKey: ValidatorSortKey) {
+  const sorted = [...validators];
+  switch (sortKey) {
+    case "commission":
+      return sorted.sort(
+        (a, b) => a.commission - b.commission || b.activatedStake - a.activatedStake
+      );
+    case "skip-rate":
+      // Validators without leader slots sort last.
+      return sorted.sort(
+        (a, b) => (a.skipRate ?? Infinity) - (b.skipRate ?? Infinity) ||
+          b.activatedStake - a.activatedStake
+      );
+    case "last-vote":
+      return sorted.sort((a, b) => b.lastVote - a.lastVote);
+    default:
+      return sorted.sort((a, b) => b.activatedStake - a.activatedStake);
+  }
+}
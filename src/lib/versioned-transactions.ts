@@ -0,0 +1,260 @@
+import {
+  AddressLookupTableAccount,
+  AddressLookupTableProgram,
+  ComputeBudgetProgram,
+  PACKET_DATA_SIZE,
+  PublicKey,
+  type TransactionInstruction,
+  TransactionMessage,
+  VersionedTransaction
+} from "@solana/web3.js";
+
+export type InstructionGroup = TransactionInstruction[];
+
+export type LookupTableSetup = {
+  lookupTableAddress: PublicKey;
+  addresses: PublicKey[];
+  instructionGroups: InstructionGroup[];
+};
+
+export type LookupTableMode = "auto" | "always" | "never";
+
+export type BatchPlan = {
+  directTransactions: number;
+  lookupTableTransactions: number | null;
+  useLookupTable: boolean;
+};
+
+export const MAX_LOOKUP_TABLE_ADDRESSES = 256;
+const MAX_EXTEND_ADDRESSES_PER_INSTRUCTION = 27;
+const PLACEHOLDER_BLOCKHASH = PublicKey.default.toBase58();
+
+// Packing reserves room for the limit + price instructions added at send time.
+const COMPUTE_BUDGET_PLACEHOLDERS = [
+  ComputeBudgetProgram.setComputeUnitLimit({ units: 1_400_000 }),
+  ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 })
+];
+
+export function compileV0Transaction(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  recentBlockhash: string,
+  lookupTables: AddressLookupTableAccount[] = []
+) {
+  const message = new TransactionMessage({
+    payerKey: payer,
+    recentBlockhash,
+    instructions
+  }).compileToV0Message(lookupTables);
+  return new VersionedTransaction(message);
+}
+
+/**
+ * Serialized size in bytes (including signature slots), or null when the
+ * instructions cannot fit in a single v0 transaction at all. Reserved
+ * instructions (e.g. a durable nonce advance) are counted but not packed.
+ */
+export function measureV0TransactionSize(
+  payer: PublicKey,
+  instructions: TransactionInstruction[],
+  lookupTables: AddressLookupTableAccount[] = [],
+  reservedInstructions: TransactionInstruction[] = []
+) {
+  try {
+    const size = compileV0Transaction(
+      payer,
+      [...reservedInstructions, ...COMPUTE_BUDGET_PLACEHOLDERS, ...instructions],
+      PLACEHOLDER_BLOCKHASH,
+      lookupTables
+    ).serialize().length;
+    return size <= PACKET_DATA_SIZE ? size : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Greedily packs instruction groups into as few v0 transactions as fit the
+ * packet limit, returning the group indexes in each transaction. Instructions
+ * within a group always land in the same transaction.
+ */
+export function packInstructionGroupIndexes(
+  payer: PublicKey,
+  groups: InstructionGroup[],
+  lookupTables: AddressLookupTableAccount[] = [],
+  reservedInstructions: TransactionInstruction[] = []
+) {
+  const batches: number[][] = [];
+  let current: number[] = [];
+  let currentInstructions: TransactionInstruction[] = [];
+
+  groups.forEach((group, groupIndex) => {
+    if (group.length === 0) {
+      return;
+    }
+    const candidate = [...currentInstructions, ...group];
+    if (
+      measureV0TransactionSize(payer, candidate, lookupTables, reservedInstructions) !== null
+    ) {
+      current.push(groupIndex);
+      currentInstructions = candidate;
+      return;
+    }
+    if (current.length > 0) {
+      batches.push(current);
+    }
+    if (measureV0TransactionSize(payer, group, lookupTables, reservedInstructions) === null) {
+      throw new Error(
+        `Instruction group ${groupIndex + 1} does not fit in a single transaction.`
+      );
+    }
+    current = [groupIndex];
+    currentInstructions = [...group];
+  });
+
+  if (current.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+export function packInstructionGroups(
+  payer: PublicKey,
+  groups: InstructionGroup[],
+  lookupTables: AddressLookupTableAccount[] = [],
+  reservedInstructions: TransactionInstruction[] = []
+) {
+  return packInstructionGroupIndexes(payer, groups, lookupTables, reservedInstructions).map(
+    (indexes) => indexes.flatMap((index) => groups[index])
+  );
+}
+
+export function collectLookupTableCandidates(
+  groups: InstructionGroup[],
+  payer: PublicKey
+) {
+  const signerKeys = new Set<string>([payer.toBase58()]);
+  const programKeys = new Set<string>();
+  const counts = new Map<string, { pubkey: PublicKey; count: number }>();
+
+  groups.flat().forEach((instruction) => {
+    programKeys.add(instruction.programId.toBase58());
+    instruction.keys.forEach((key) => {
+      const address = key.pubkey.toBase58();
+      if (key.isSigner) {
+        signerKeys.add(address);
+        return;
+      }
+      const existing = counts.get(address);
+      counts.set(address, { pubkey: key.pubkey, count: (existing?.count ?? 0) + 1 });
+    });
+  });
+
+  // Signers and invoked programs must stay static keys, so they never go in the table.
+  return Array.from(counts.entries())
+    .filter(([address]) => !signerKeys.has(address) && !programKeys.has(address))
+    .sort((left, right) => right[1].count - left[1].count)
+    .map(([, entry]) => entry.pubkey);
+}
+
+export function buildLookupTableSetup(
+  authority: PublicKey,
+  recentSlot: number,
+  candidateAddresses: PublicKey[]
+): LookupTableSetup {
+  const addresses = candidateAddresses.slice(0, MAX_LOOKUP_TABLE_ADDRESSES);
+  const [createInstruction, lookupTableAddress] = AddressLookupTableProgram.createLookupTable({
+    authority,
+    payer: authority,
+    recentSlot
+  });
+
+  const extendGroups: InstructionGroup[] = [];
+  for (let index = 0; index < addresses.length; index += MAX_EXTEND_ADDRESSES_PER_INSTRUCTION) {
+    extendGroups.push([
+      AddressLookupTableProgram.extendLookupTable({
+        lookupTable: lookupTableAddress,
+        authority,
+        payer: authority,
+        addresses: addresses.slice(index, index + MAX_EXTEND_ADDRESSES_PER_INSTRUCTION)
+      })
+    ]);
+  }
+
+  const [firstExtend, ...remainingExtends] = extendGroups;
+  return {
+    lookupTableAddress,
+    addresses,
+    instructionGroups: [
+      firstExtend ? [createInstruction, ...firstExtend] : [createInstruction],
+      ...remainingExtends
+    ]
+  };
+}
+
+export function buildDeactivateLookupTableInstruction(
+  lookupTable: PublicKey,
+  authority: PublicKey
+) {
+  return AddressLookupTableProgram.deactivateLookupTable({ lookupTable, authority });
+}
+
+function buildLocalLookupTableAccount(
+  key: PublicKey,
+  addresses: PublicKey[],
+  authority: PublicKey
+) {
+  return new AddressLookupTableAccount({
+    key,
+    state: {
+      deactivationSlot: BigInt("18446744073709551615"),
+      lastExtendedSlot: 0,
+      lastExtendedSlotStartIndex: 0,
+      authority,
+      addresses
+    }
+  });
+}
+
+/**
+ * Compares packing with and without a lookup table, counting the create/extend
+ * transactions the table itself costs.
+ */
+export function planInstructionBatches(
+  payer: PublicKey,
+  groups: InstructionGroup[],
+  mode: LookupTableMode = "auto",
+  reservedInstructions: TransactionInstruction[] = []
+): BatchPlan {
+  const directTransactions = packInstructionGroups(
+    payer,
+    groups,
+    [],
+    reservedInstructions
+  ).length;
+  const candidates = collectLookupTableCandidates(groups, payer);
+  if (mode === "never" || candidates.length === 0) {
+    return { directTransactions, lookupTableTransactions: null, useLookupTable: false };
+  }
+
+  const setup = buildLookupTableSetup(payer, 0, candidates);
+  const lookupTable = buildLocalLookupTableAccount(
+    setup.lookupTableAddress,
+    setup.addresses,
+    payer
+  );
+  const lookupTableTransactions =
+    packInstructionGroups(payer, setup.instructionGroups, [], reservedInstructions).length +
+    packInstructionGroups(
+      payer,
+      [...groups, [buildDeactivateLookupTableInstruction(setup.lookupTableAddress, payer)]],
+      [lookupTable],
+      reservedInstructions
+    ).length;
+
+  return {
+    directTransactions,
+    lookupTableTransactions,
+    useLookupTable: mode === "always" || lookupTableTransactions < directTransactions
+  };
+}